@@ -5,6 +5,7 @@ import * as admin from "firebase-admin";
 import Stripe from "stripe";
 import { appendAppDownloadText, getEmailAppIconAttachments, renderAppDownloadHtmlCard } from "./email-app-links";
 import { sendSendgridMail } from "./sendgrid";
+import { removeUserFromWorkspaces } from "./workspaces";
 
 const stripeSecretKey = defineSecret("STRIPE_SECRET_KEY");
 const sendgridApiKey = defineSecret("SENDGRID_API_KEY");
@@ -250,6 +251,14 @@ export const deleteUserAccount = onCall(
       );
     }
 
+    // Accountant links keep an access log subcollection, so remove them as trees first
+    const accountantShares = await db.collection("accountantShares").where("userId", "==", userId).get();
+    await Promise.all(accountantShares.docs.map((shareDoc) => db.recursiveDelete(shareDoc.ref)));
+
+    // Folder shares made by workspace members still hold snapshots of this user's receipts
+    const memberFolderShares = await db.collection("folderShares").where("workspaceId", "==", userId).get();
+    await Promise.all(memberFolderShares.docs.map((shareDoc) => shareDoc.ref.delete()));
+
     const deletedTopLevel = await deleteTopLevelUserLinkedDocuments(userId);
 
     // Keep explicit cleanup for known share/link collections as a safety net.
@@ -259,6 +268,12 @@ export const deleteUserAccount = onCall(
       deleteByUserIdField("telegramLinks", userId)
     ]);
 
+    try {
+      await removeUserFromWorkspaces(userId);
+    } catch (error) {
+      logger.error("Failed removing workspace memberships before account deletion", { userId, error });
+    }
+
     await deleteStoragePrefix(userId);
 
     try {
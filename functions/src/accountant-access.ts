@@ -0,0 +1,356 @@
+/**
+ * Accountant Access
+ *
+ * Owners grant an external accountant time-limited, read-only access to some
+ * of their receipts (selected collections and/or a date range) without the
+ * accountant needing an account. Each grant is an accountantShares/{shareId}
+ * document with a random key; the link /share/{shareId}?key={key} opens the
+ * public share page, which loads the receipts through getAccountantShare.
+ *
+ * Grants are never readable by the public. Every successful open is recorded
+ * in accountantShares/{shareId}/accessLog so the owner can see who looked and
+ * when, and the owner can revoke a grant at any time.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { defineSecret } from "firebase-functions/params";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import { sendSendgridMail } from "./sendgrid";
+import { DEFAULT_HOME_CURRENCY, getHomeCurrencyAmount, normalizeCurrencyCode } from "./currency";
+
+const sendgridApiKey = defineSecret("SENDGRID_API_KEY");
+const appBaseUrl = defineSecret("APP_BASE_URL");
+const fromEmail = "info@receipt-nest.com";
+
+const MAX_EXPIRY_DAYS = 90;
+const MAX_SHARED_RECEIPTS = 500;
+const MAX_LABEL_LENGTH = 80;
+const MAX_ACTIVE_SHARES = 20;
+/** Signed file links outlive a working session but not the grant. */
+const FILE_URL_TTL_MS = 2 * 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SHAREABLE_STATUSES = new Set(["final", "needs_review"]);
+
+interface AccountantShareScope {
+  folderIds: string[];
+  startDate: string | null;
+  endDate: string | null;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+const getDisplayName = (userData: admin.firestore.DocumentData | undefined): string => {
+  const name = `${userData?.firstName ?? ""} ${userData?.lastName ?? ""}`.trim();
+  return name || userData?.email || "A ReceiptNest user";
+};
+
+const getShareLink = (shareId: string, key: string): string =>
+  `${appBaseUrl.value().trim().replace(/\/+$/, "")}/share/${encodeURIComponent(shareId)}?key=${encodeURIComponent(key)}`;
+
+const keysMatch = (expected: unknown, provided: string): boolean => {
+  if (typeof expected !== "string" || !provided) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+const getReceiptDate = (receipt: admin.firestore.DocumentData): string | null => {
+  const value = receipt.date ?? receipt.extraction?.date?.value;
+  return typeof value === "string" && DATE_PATTERN.test(value) ? value : null;
+};
+
+const getReceiptAmount = (receipt: admin.firestore.DocumentData): number | null => {
+  const value = typeof receipt.totalAmount === "number" ? receipt.totalAmount : receipt.extraction?.totalAmount?.value;
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+};
+
+const parseScope = (data: Record<string, unknown> | undefined): AccountantShareScope => {
+  const folderIds = Array.isArray(data?.folderIds) ?
+    Array.from(new Set(data.folderIds.filter((id): id is string => typeof id === "string" && !!id))).slice(0, 50) :
+    [];
+  const startDate = typeof data?.startDate === "string" && DATE_PATTERN.test(data.startDate) ? data.startDate : null;
+  const endDate = typeof data?.endDate === "string" && DATE_PATTERN.test(data.endDate) ? data.endDate : null;
+
+  if (!folderIds.length && !startDate && !endDate) {
+    throw new HttpsError("invalid-argument", "Choose at least one collection or a date range.");
+  }
+  if (startDate && endDate && startDate > endDate) {
+    throw new HttpsError("invalid-argument", "The start date must be before the end date.");
+  }
+
+  return { folderIds, startDate, endDate };
+};
+
+/**
+ * Receipts a grant covers: those in any of its collections (or all receipts
+ * when it has none), within its date range, oldest first
+ */
+async function loadScopedReceipts(
+  workspaceId: string,
+  scope: AccountantShareScope
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const db = admin.firestore();
+  let allowedIds: Set<string> | null = null;
+  if (scope.folderIds.length) {
+    const folderSnaps = await db.getAll(...scope.folderIds.map((folderId) => db.doc(`users/${workspaceId}/folders/${folderId}`)));
+    allowedIds = new Set(folderSnaps.flatMap((folderSnap) => (folderSnap.get("receiptIds") as string[] | undefined) ?? []));
+  }
+
+  const receiptsSnap = await db.collection(`users/${workspaceId}/receipts`).get();
+  return receiptsSnap.docs
+    .filter((receiptDoc) => {
+      const receipt = receiptDoc.data();
+      if (!SHAREABLE_STATUSES.has(receipt.status)) return false;
+      if (allowedIds && !allowedIds.has(receiptDoc.id)) return false;
+
+      const date = getReceiptDate(receipt);
+      if (scope.startDate && (!date || date < scope.startDate)) return false;
+      if (scope.endDate && (!date || date > scope.endDate)) return false;
+      return true;
+    })
+    .sort((a, b) => (getReceiptDate(a.data()) ?? "").localeCompare(getReceiptDate(b.data()) ?? ""))
+    .slice(0, MAX_SHARED_RECEIPTS);
+}
+
+const sendAccessEmail = async (
+  email: string,
+  ownerName: string,
+  label: string,
+  link: string,
+  expiresAt: Date
+) => {
+  const expires = expiresAt.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+  const subject = `${ownerName} shared receipts with you on ReceiptNest AI`;
+  const text =
+    `${ownerName} gave you read-only access to "${label}" on ReceiptNest AI.\n\n` +
+    `View the receipts: ${link}\n\n` +
+    `No account is needed. The link works until ${expires}.`;
+  const html = `
+    <div style="font-family:Arial, sans-serif; color:#0f172a; font-size:15px; line-height:1.6;">
+      <p style="margin:0 0 12px;">${escapeHtml(ownerName)} gave you read-only access to
+        <strong>${escapeHtml(label)}</strong> on ReceiptNest AI.</p>
+      <p style="margin:18px 0;">
+        <a href="${link}" style="display:inline-block; padding:12px 22px; border-radius:999px; background:#10b981; color:#ffffff; font-weight:600; text-decoration:none;">View receipts</a>
+      </p>
+      <p style="margin:0; font-size:13px; color:#475569;">No account is needed. The link works until ${escapeHtml(expires)}.</p>
+    </div>
+  `;
+
+  await sendSendgridMail(sendgridApiKey.value(), {
+    to: email,
+    from: { email: fromEmail, name: "ReceiptNest AI" },
+    replyTo: { email: fromEmail, name: "ReceiptNest AI" },
+    subject,
+    text,
+    html,
+  });
+};
+
+/**
+ * Grant an accountant access to the caller's receipts. Returns the magic link;
+ * it is also emailed when an accountant email is given.
+ */
+export const createAccountantAccess = onCall(
+  { region: "us-central1", secrets: [sendgridApiKey, appBaseUrl] },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const userId = request.auth.uid;
+    const label = typeof request.data?.label === "string" ? request.data.label.trim().slice(0, MAX_LABEL_LENGTH) : "";
+    const accountantEmail = typeof request.data?.accountantEmail === "string" ?
+      request.data.accountantEmail.trim().toLowerCase() :
+      "";
+    const expiresInDays = Math.floor(Number(request.data?.expiresInDays));
+    if (!label) {
+      throw new HttpsError("invalid-argument", "Give the access a name, e.g. \"2025 tax return\".");
+    }
+    if (accountantEmail && !EMAIL_PATTERN.test(accountantEmail)) {
+      throw new HttpsError("invalid-argument", "Enter a valid email address.");
+    }
+    if (!(expiresInDays >= 1 && expiresInDays <= MAX_EXPIRY_DAYS)) {
+      throw new HttpsError("invalid-argument", `Access can last between 1 and ${MAX_EXPIRY_DAYS} days.`);
+    }
+    const scope = parseScope(request.data);
+
+    const db = admin.firestore();
+    const activeSnap = await db.collection("accountantShares")
+      .where("userId", "==", userId)
+      .where("revokedAt", "==", null)
+      .get();
+    const activeCount = activeSnap.docs.filter((shareDoc) => shareDoc.get("expiresAt")?.toMillis?.() > Date.now()).length;
+    if (activeCount >= MAX_ACTIVE_SHARES) {
+      throw new HttpsError("resource-exhausted", `You can have up to ${MAX_ACTIVE_SHARES} active accountant links.`);
+    }
+
+    const ownerData = (await db.doc(`users/${userId}`).get()).data();
+    const ownerName = getDisplayName(ownerData);
+    const key = crypto.randomBytes(24).toString("base64url");
+    const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+    const shareRef = db.collection("accountantShares").doc();
+
+    await shareRef.set({
+      userId,
+      ownerName,
+      label,
+      accountantEmail: accountantEmail || null,
+      scope,
+      key,
+      expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+      revokedAt: null,
+      accessCount: 0,
+      lastAccessedAt: null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    const link = getShareLink(shareRef.id, key);
+    let emailSent = false;
+    if (accountantEmail) {
+      try {
+        await sendAccessEmail(accountantEmail, ownerName, label, link, expiresAt);
+        emailSent = true;
+      } catch (error) {
+        logger.error("Failed to send accountant access email", { userId, shareId: shareRef.id, error });
+      }
+    }
+
+    return { ok: true, shareId: shareRef.id, link, emailSent };
+  }
+);
+
+/**
+ * Revoke a grant. The link stops working immediately.
+ */
+export const revokeAccountantAccess = onCall(
+  { region: "us-central1" },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const shareId = typeof request.data?.shareId === "string" ? request.data.shareId : "";
+    if (!shareId) {
+      throw new HttpsError("invalid-argument", "Missing share.");
+    }
+
+    const shareRef = admin.firestore().doc(`accountantShares/${shareId}`);
+    const shareSnap = await shareRef.get();
+    if (!shareSnap.exists || shareSnap.get("userId") !== request.auth.uid) {
+      throw new HttpsError("not-found", "Accountant access not found.");
+    }
+
+    if (!shareSnap.get("revokedAt")) {
+      await shareRef.update({ revokedAt: admin.firestore.FieldValue.serverTimestamp() });
+    }
+    return { ok: true };
+  }
+);
+
+/**
+ * Public, login-free view of a grant for whoever holds the link. Returns the
+ * covered receipts with short-lived file links and records the visit.
+ */
+export const getAccountantShare = onCall(
+  { region: "us-central1" },
+  async (request) => {
+    const shareId = typeof request.data?.shareId === "string" ? request.data.shareId : "";
+    const key = typeof request.data?.key === "string" ? request.data.key : "";
+    if (!shareId || !key) {
+      throw new HttpsError("invalid-argument", "This link is incomplete.");
+    }
+
+    const db = admin.firestore();
+    const shareRef = db.doc(`accountantShares/${shareId}`);
+    const shareSnap = await shareRef.get();
+    const share = shareSnap.data();
+    if (!share || !keysMatch(share.key, key)) {
+      throw new HttpsError("not-found", "This link no longer exists or has been removed.");
+    }
+    if (share.revokedAt) {
+      throw new HttpsError("permission-denied", "The owner has revoked access to these receipts.");
+    }
+    const expiresAt = share.expiresAt as admin.firestore.Timestamp;
+    if (expiresAt.toMillis() <= Date.now()) {
+      throw new HttpsError("deadline-exceeded", "This link has expired. Ask the owner for a new one.", { expired: true });
+    }
+
+    const workspaceId = share.userId as string;
+    const scope = share.scope as AccountantShareScope;
+    const [receiptDocs, ownerSnap, folderSnaps] = await Promise.all([
+      loadScopedReceipts(workspaceId, scope),
+      db.doc(`users/${workspaceId}`).get(),
+      scope.folderIds.length ?
+        db.getAll(...scope.folderIds.map((folderId) => db.doc(`users/${workspaceId}/folders/${folderId}`))) :
+        Promise.resolve([]),
+    ]);
+    const homeCurrency = normalizeCurrencyCode(ownerSnap.get("homeCurrency")) ?? DEFAULT_HOME_CURRENCY;
+
+    const bucket = admin.storage().bucket();
+    const fileUrlExpires = Math.min(Date.now() + FILE_URL_TTL_MS, expiresAt.toMillis());
+    const receipts = await Promise.all(receiptDocs.map(async (receiptDoc) => {
+      const receipt = receiptDoc.data();
+      const amount = getReceiptAmount(receipt);
+      const storagePath = typeof receipt.file?.storagePath === "string" ? receipt.file.storagePath : null;
+
+      let fileUrl: string | null = null;
+      if (storagePath) {
+        try {
+          [fileUrl] = await bucket.file(storagePath).getSignedUrl({ action: "read", expires: fileUrlExpires });
+        } catch (error) {
+          logger.warn("Failed to sign receipt file for accountant share", { shareId, receiptId: receiptDoc.id, error });
+        }
+      }
+
+      return {
+        id: receiptDoc.id,
+        merchant: receipt.merchant?.canonicalName || receipt.merchant?.rawName || receipt.extraction?.supplierName?.value || "Unknown",
+        date: getReceiptDate(receipt),
+        amount,
+        currency: normalizeCurrencyCode(receipt.currency ?? receipt.extraction?.currency?.value) ?? homeCurrency,
+        homeAmount: amount === null ? null : getHomeCurrencyAmount(receipt, amount).amount,
+        categoryName: receipt.category?.name ?? null,
+        tags: Array.isArray(receipt.tags) ? receipt.tags : [],
+        notes: typeof receipt.notes === "string" ? receipt.notes : "",
+        entryType: receipt.entryType ?? null,
+        fileUrl,
+        mimeType: receipt.file?.mimeType ?? null,
+      };
+    }));
+
+    // The visit is logged even if the caller only looks at the list
+    const rawRequest = request.rawRequest;
+    await Promise.all([
+      shareRef.collection("accessLog").add({
+        accessedAt: admin.firestore.FieldValue.serverTimestamp(),
+        ip: rawRequest?.ip ?? null,
+        userAgent: String(rawRequest?.headers?.["user-agent"] ?? "").slice(0, 300) || null,
+        receiptCount: receipts.length,
+      }),
+      shareRef.update({
+        accessCount: admin.firestore.FieldValue.increment(1),
+        lastAccessedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }),
+    ]);
+
+    return {
+      id: shareId,
+      label: share.label,
+      ownerName: share.ownerName,
+      homeCurrency,
+      startDate: scope.startDate,
+      endDate: scope.endDate,
+      folderNames: folderSnaps.map((folderSnap) => folderSnap.get("name")).filter((name): name is string => !!name),
+      expiresAt: expiresAt.toDate().toISOString(),
+      receipts,
+      truncated: receiptDocs.length >= MAX_SHARED_RECEIPTS,
+    };
+  }
+);
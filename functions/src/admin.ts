@@ -81,6 +81,7 @@ const defaultNotificationSettings = {
   monthlySummaryEmails: true,
   weeklySummaryPush: true,
   monthlySummaryPush: true,
+  budgetAlerts: true,
 };
 
 const parseAuthMetadataTimestamp = (value: string | undefined) => {
@@ -9,6 +9,7 @@ import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions";
 import * as admin from "firebase-admin";
 import { VertexAI } from "@google-cloud/vertexai";
+import { loadRecurringExpenseContext } from "./recurring";
 
 // Configuration
 const PROJECT_ID = process.env.GCLOUD_PROJECT || "receipt-nest";
@@ -16,6 +17,9 @@ const VERTEX_LOCATION = "us-central1";
 
 // Types
 export interface InsightData {
+  // Currency every amount below is expressed in (the user's home currency)
+  currency?: string;
+
   // Selected month (current UI context)
   totalSpend: number;
   receiptCount: number;
@@ -29,6 +33,7 @@ export interface InsightData {
     amount: number;
     date: string;
     category: string;
+    tags?: string[];
   }[];
 
   // All-time coverage
@@ -42,6 +47,20 @@ export interface InsightData {
     monthsCount: number;
   };
 
+  // Tags the user put on receipts, by spend
+  topTags?: { name: string; total: number; receiptCount: number }[];
+
+  // Detected subscriptions and other regular charges (filled in server-side)
+  recurringExpenses?: {
+    merchant: string;
+    frequency: "weekly" | "monthly" | "annual";
+    typicalAmount: number;
+    lastChargeDate: string;
+    nextExpectedDate: string;
+    status: "active" | "missed";
+    priceChange: { previousAmount: number; latestAmount: number } | null;
+  }[];
+
   // Monthly summaries for all available months
   monthlySummaries: {
     monthId: string;
@@ -57,6 +76,7 @@ export interface InsightData {
     amount: number;
     date: string;
     category: string;
+    tags?: string[];
   }[];
 }
 
@@ -75,11 +95,39 @@ interface InsightsRequest {
 /**
  * Format currency for display in prompts
  */
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-  }).format(amount);
+export function formatCurrency(amount: number, currency = "USD"): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency.toUpperCase(),
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * Spend per tag, biggest first. Tags that only differ in case are merged.
+ */
+export function summarizeTags(
+  receipts: { tags?: unknown; amount: number }[],
+  limit = 15
+): { name: string; total: number; receiptCount: number }[] {
+  const totals = new Map<string, { name: string; total: number; receiptCount: number }>();
+  for (const receipt of receipts) {
+    if (!Array.isArray(receipt.tags)) continue;
+    for (const tag of receipt.tags) {
+      if (typeof tag !== "string" || !tag.trim()) continue;
+      const key = tag.trim().toLowerCase();
+      const entry = totals.get(key) ?? { name: tag.trim(), total: 0, receiptCount: 0 };
+      entry.total += receipt.amount;
+      entry.receiptCount += 1;
+      totals.set(key, entry);
+    }
+  }
+  return Array.from(totals.values())
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit);
 }
 
 /**
@@ -87,36 +135,61 @@ export function formatCurrency(amount: number): string {
  */
 export function buildExpenseContext(data: InsightData): string {
   const parts: string[] = [];
+  const currency = data.currency || "USD";
 
   parts.push("## Data Coverage");
+  parts.push(`- **Currency**: all amounts are in ${currency}`);
   if (data.allTime.firstMonth && data.allTime.lastMonth) {
     parts.push(`- **Months Available**: ${data.allTime.monthsCount} (${data.allTime.firstMonth} to ${data.allTime.lastMonth})`);
   } else {
     parts.push(`- **Months Available**: ${data.allTime.monthsCount}`);
   }
-  parts.push(`- **All-Time Spending**: ${formatCurrency(data.allTime.totalSpend)} across ${data.allTime.receiptCount} receipts`);
+  parts.push(`- **All-Time Spending**: ${formatCurrency(data.allTime.totalSpend, currency)} across ${data.allTime.receiptCount} receipts`);
 
   if (data.allTime.topCategories.length > 0) {
     parts.push("\n## All-Time Top Categories");
     for (const cat of data.allTime.topCategories) {
-      parts.push(`- **${cat.name}**: ${formatCurrency(cat.total)} (${cat.percentage}%)`);
+      parts.push(`- **${cat.name}**: ${formatCurrency(cat.total, currency)} (${cat.percentage}%)`);
     }
   }
 
   if (data.allTime.topMerchants.length > 0) {
     parts.push("\n## All-Time Top Merchants");
     for (const merchant of data.allTime.topMerchants) {
-      parts.push(`- **${merchant.name}**: ${formatCurrency(merchant.total)} (${merchant.percentage}%)`);
+      parts.push(`- **${merchant.name}**: ${formatCurrency(merchant.total, currency)} (${merchant.percentage}%)`);
+    }
+  }
+
+  if (data.topTags?.length) {
+    parts.push("\n## Tags (user-defined labels)");
+    for (const tag of data.topTags) {
+      parts.push(`- **#${tag.name}**: ${formatCurrency(tag.total, currency)} across ${tag.receiptCount} receipts`);
+    }
+  }
+
+  if (data.recurringExpenses?.length) {
+    parts.push("\n## Recurring Expenses & Subscriptions");
+    for (const recurring of data.recurringExpenses) {
+      const flags: string[] = [];
+      if (recurring.status === "missed") {
+        flags.push(`expected charge on ${recurring.nextExpectedDate} has not appeared`);
+      }
+      if (recurring.priceChange) {
+        flags.push(`price changed from ${formatCurrency(recurring.priceChange.previousAmount, currency)} to ${formatCurrency(recurring.priceChange.latestAmount, currency)}`);
+      }
+      const next = recurring.status === "missed" ? "" : `, next expected ${recurring.nextExpectedDate}`;
+      const flagText = flags.length ? ` (${flags.join("; ")})` : "";
+      parts.push(`- **${recurring.merchant}**: ${formatCurrency(recurring.typicalAmount, currency)} ${recurring.frequency}, last charged ${recurring.lastChargeDate}${next}${flagText}`);
     }
   }
 
   parts.push(`## Monthly Expense Summary for ${data.monthLabel}`);
-  parts.push(`- **Total Spending**: ${formatCurrency(data.totalSpend)}`);
+  parts.push(`- **Total Spending**: ${formatCurrency(data.totalSpend, currency)}`);
   parts.push(`- **Number of Receipts**: ${data.receiptCount}`);
-  parts.push(`- **Daily Average** (on days with spending): ${formatCurrency(data.dailyAverage)}`);
+  parts.push(`- **Daily Average** (on days with spending): ${formatCurrency(data.dailyAverage, currency)}`);
 
   if (data.highestSpendDay) {
-    parts.push(`- **Highest Spending Day**: Day ${data.highestSpendDay.day} (${formatCurrency(data.highestSpendDay.amount)})`);
+    parts.push(`- **Highest Spending Day**: Day ${data.highestSpendDay.day} (${formatCurrency(data.highestSpendDay.amount, currency)})`);
   }
 
   if (data.monthOverMonthChange) {
@@ -127,16 +200,16 @@ export function buildExpenseContext(data: InsightData): string {
   if (data.topCategories.length > 0) {
     parts.push("\n## Spending by Category");
     for (const cat of data.topCategories) {
-      parts.push(`- **${cat.name}**: ${formatCurrency(cat.total)} (${cat.percentage}%)`);
+      parts.push(`- **${cat.name}**: ${formatCurrency(cat.total, currency)} (${cat.percentage}%)`);
     }
   }
 
   if (data.monthlySummaries.length > 0) {
     parts.push("\n## Monthly Summaries (All Available Months)");
     for (const month of data.monthlySummaries) {
-      const topCats = month.topCategories.slice(0, 3).map(c => `${c.name} ${formatCurrency(c.total)}`).join("; ");
-      const topMerchants = month.topMerchants.slice(0, 3).map(m => `${m.name} ${formatCurrency(m.total)}`).join("; ");
-      parts.push(`- **${month.monthId}**: ${formatCurrency(month.totalSpend)} across ${month.receiptCount} receipts`);
+      const topCats = month.topCategories.slice(0, 3).map(c => `${c.name} ${formatCurrency(c.total, currency)}`).join("; ");
+      const topMerchants = month.topMerchants.slice(0, 3).map(m => `${m.name} ${formatCurrency(m.total, currency)}`).join("; ");
+      parts.push(`- **${month.monthId}**: ${formatCurrency(month.totalSpend, currency)} across ${month.receiptCount} receipts`);
       if (topCats) {
         parts.push(`  - Top Categories: ${topCats}`);
       }
@@ -150,7 +223,8 @@ export function buildExpenseContext(data: InsightData): string {
     parts.push("\n## Recent Transactions (up to 50)");
     const recentReceipts = data.recentReceipts.slice(0, 50);
     for (const receipt of recentReceipts) {
-      parts.push(`- ${receipt.merchant}: ${formatCurrency(receipt.amount)} on ${receipt.date} (${receipt.category})`);
+      const tags = receipt.tags?.length ? ` #${receipt.tags.join(" #")}` : "";
+      parts.push(`- ${receipt.merchant}: ${formatCurrency(receipt.amount, currency)} on ${receipt.date} (${receipt.category})${tags}`);
     }
   }
 
@@ -333,6 +407,14 @@ export const generateAiInsights = onCall(
     logger.info("Processing AI Insights request", { type, userId });
 
     try {
+      // Recurring expenses are detected server-side, so load them here
+      // rather than trusting whatever the client sent.
+      data.recurringExpenses = await loadRecurringExpenseContext(userId).catch((error) => {
+        logger.warn("Failed to load recurring expenses for AI context", { userId, error });
+        return [];
+      });
+
+
       if (type === "initial_insights") {
         const insights = await generateInitialInsights(data);
         return { insights };
@@ -0,0 +1,226 @@
+/**
+ * Monthly Budget Alerts
+ *
+ * Users keep monthly budgets (overall and per category) on their profile as
+ * users/{userId}.budgets. Whenever the current month's summary changes, spend
+ * is compared with each budget and an alert goes out by push notification and
+ * Telegram when a budget crosses 80% and again at 100%. The highest threshold
+ * reached per budget is stored in users/{userId}.budgetAlertState so each
+ * alert is sent once a month, and again only if spend drops back and re-crosses.
+ */
+
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { formatCurrency } from "./ai-insights";
+import { DEFAULT_HOME_CURRENCY, normalizeCurrencyCode } from "./currency";
+import {
+  getUserNotificationTimeZone,
+  getUserNotificationTokens,
+  sendPushNotification,
+} from "./spend-summary-email";
+import { notifyTelegramUser, telegramBotToken } from "./telegram";
+
+// Percent of a budget at which an alert is sent, lowest first
+const BUDGET_ALERT_THRESHOLDS = [80, 100];
+const OVERALL_BUDGET_KEY = "overall";
+
+interface MonthlyBudgets {
+  overall: number | null;
+  categories: Record<string, number>;
+}
+
+interface BudgetAlert {
+  key: string;
+  label: string;
+  threshold: number;
+  spent: number;
+  budget: number;
+}
+
+const parseBudgetAmount = (value: unknown): number | null => {
+  const amount = typeof value === "string" ? Number.parseFloat(value) : value;
+  return typeof amount === "number" && Number.isFinite(amount) && amount > 0 ? amount : null;
+};
+
+const normalizeBudgets = (value: unknown): MonthlyBudgets => {
+  const data = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const categories: Record<string, number> = {};
+  const rawCategories = (data.categories && typeof data.categories === "object" ? data.categories : {}) as Record<string, unknown>;
+
+  for (const [categoryId, amount] of Object.entries(rawCategories)) {
+    const budget = parseBudgetAmount(amount);
+    if (budget !== null) {
+      categories[categoryId] = budget;
+    }
+  }
+
+  return { overall: parseBudgetAmount(data.overall), categories };
+};
+
+const getMonthIdInTimeZone = (date: Date, timeZone: string): string => {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "2-digit" }).formatToParts(date);
+  const year = parts.find((part) => part.type === "year")?.value;
+  const month = parts.find((part) => part.type === "month")?.value;
+  return `${year}-${month}`;
+};
+
+/**
+ * Highest alert threshold (in percent) the spend has reached, or 0
+ */
+const getReachedThreshold = (spent: number, budget: number): number => {
+  const percent = (spent / budget) * 100;
+  return BUDGET_ALERT_THRESHOLDS.filter((threshold) => percent >= threshold).pop() ?? 0;
+};
+
+const buildAlertTitle = (alert: BudgetAlert) =>
+  alert.threshold >= 100
+    ? `${alert.label} budget exceeded`
+    : `${alert.label} budget ${alert.threshold}% used`;
+
+const buildAlertBody = (alert: BudgetAlert, currency: string) => {
+  const spent = formatCurrency(alert.spent, currency);
+  const budget = formatCurrency(alert.budget, currency);
+  return alert.threshold >= 100
+    ? `You've spent ${spent} this month, over your ${budget} budget.`
+    : `You've spent ${spent} of your ${budget} budget this month.`;
+};
+
+const buildTelegramAlertText = (alerts: BudgetAlert[], currency: string) =>
+  [
+    "Budget alert",
+    "",
+    ...alerts.map((alert) => `${buildAlertTitle(alert)}: ${buildAlertBody(alert, currency)}`),
+  ].join("\n");
+
+export const onMonthlySummaryWrittenCheckBudgets = onDocumentWritten(
+  {
+    document: "users/{userId}/monthlySummaries/{monthId}",
+    region: "us-central1",
+    memory: "256MiB",
+    timeoutSeconds: 60,
+    secrets: [telegramBotToken],
+  },
+  async (event) => {
+    const { userId, monthId } = event.params;
+    const summary = event.data?.after.data();
+    if (!summary) {
+      return;
+    }
+
+    const db = admin.firestore();
+    const userRef = db.doc(`users/${userId}`);
+
+    // Claim the alerts in a transaction so two quick summary updates cannot
+    // both send the same alert.
+    let result: { alerts: BudgetAlert[]; userData: admin.firestore.DocumentData } | null = null;
+    try {
+      result = await db.runTransaction(async (transaction) => {
+        const userSnap = await transaction.get(userRef);
+        const userData = userSnap.data();
+        if (!userData) return null;
+
+        const budgets = normalizeBudgets(userData.budgets);
+        if (!budgets.overall && Object.keys(budgets.categories).length === 0) return null;
+
+        // Edits to past months never alert
+        if (monthId !== getMonthIdInTimeZone(new Date(), getUserNotificationTimeZone(userData))) return null;
+
+        const state = (userData.budgetAlertState ?? {}) as { monthId?: string; levels?: Record<string, number> };
+        const previousLevels = state.monthId === monthId ? { ...(state.levels ?? {}) } : {};
+        const levels: Record<string, number> = {};
+        const alerts: BudgetAlert[] = [];
+
+        const check = (key: string, label: string, spent: number, budget: number) => {
+          const reached = getReachedThreshold(spent, budget);
+          if (reached > 0) {
+            levels[key] = reached;
+          }
+          if (reached > (previousLevels[key] ?? 0)) {
+            alerts.push({ key, label, threshold: reached, spent, budget });
+          }
+        };
+
+        if (budgets.overall) {
+          check(OVERALL_BUDGET_KEY, "Monthly", Number(summary.totalSpend ?? 0), budgets.overall);
+        }
+        const byCategory = (summary.byCategory ?? {}) as Record<string, { categoryName?: string; total?: number }>;
+        for (const [categoryId, budget] of Object.entries(budgets.categories)) {
+          const category = byCategory[categoryId];
+          check(`category:${categoryId}`, String(category?.categoryName || categoryId), Number(category?.total ?? 0), budget);
+        }
+
+        if (state.monthId !== monthId || JSON.stringify(levels) !== JSON.stringify(state.levels ?? {})) {
+          transaction.update(userRef, {
+            budgetAlertState: {
+              monthId,
+              levels,
+              updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            },
+          });
+        }
+
+        return { alerts, userData };
+      });
+    } catch (error) {
+      logger.error("Failed to check budgets", { userId, monthId, error });
+      return;
+    }
+
+    if (!result || result.alerts.length === 0) {
+      return;
+    }
+
+    const { alerts, userData } = result;
+    const notificationSettings = (userData.notificationSettings ?? {}) as Record<string, unknown>;
+    if (notificationSettings.budgetAlerts === false) {
+      return;
+    }
+
+    const currency = normalizeCurrencyCode(summary.currency)
+      ?? normalizeCurrencyCode(userData.homeCurrency)
+      ?? DEFAULT_HOME_CURRENCY;
+
+    for (const alert of alerts) {
+      try {
+        const pushResult = await sendPushNotification(getUserNotificationTokens(userData), {
+          title: buildAlertTitle(alert),
+          body: buildAlertBody(alert, currency),
+          data: {
+            type: "budget_alert",
+            budgetKey: alert.key,
+            threshold: String(alert.threshold),
+            monthId,
+            spent: alert.spent.toFixed(2),
+            budget: alert.budget.toFixed(2),
+            currency,
+          },
+        });
+
+        if (pushResult.invalidTokens.length > 0) {
+          await userRef.set({
+            notificationTokens: admin.firestore.FieldValue.arrayRemove(...pushResult.invalidTokens),
+            notificationTokenUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          }, { merge: true });
+        }
+      } catch (error) {
+        logger.error("Failed to send budget push notification", { userId, key: alert.key, error });
+      }
+    }
+
+    const telegramChatId = userData.telegramChatId;
+    if (telegramChatId) {
+      try {
+        await notifyTelegramUser(userId, telegramChatId, buildTelegramAlertText(alerts, currency));
+      } catch (error) {
+        logger.error("Failed to send budget Telegram alert", { userId, error });
+      }
+    }
+
+    logger.info("Sent budget alerts", {
+      userId,
+      monthId,
+      alerts: alerts.map((alert) => `${alert.key}@${alert.threshold}`),
+    });
+  }
+);
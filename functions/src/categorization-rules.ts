@@ -0,0 +1,466 @@
+/**
+ * Categorization Rules
+ *
+ * Per-user rules stored in users/{userId}/categorizationRules. A rule matches
+ * on merchant, amount range and keywords and can set a category, add tags and
+ * file the receipt into a folder. Rules are applied by processReceipt before
+ * the Gemini category, learned automatically from repeated category
+ * corrections, and can be re-applied to past receipts on demand.
+ */
+
+import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+
+/** Corrections to the same merchant → category before a rule is learned. */
+const LEARN_AFTER_CORRECTIONS = 2;
+const MAX_RULES_PER_USER = 200;
+const REAPPLY_WRITE_BATCH_SIZE = 400;
+
+export interface RuleConditions {
+  merchant?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  keywords?: string[];
+}
+
+export interface RuleActions {
+  categoryId?: string;
+  categoryName?: string;
+  tags?: string[];
+  folderId?: string;
+}
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  source: "user" | "learned";
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+/**
+ * What a rule is evaluated against.
+ */
+export interface RuleMatchInput {
+  merchantName?: string;
+  rawMerchantName?: string;
+  amount?: number | null;
+  text?: string[];
+}
+
+export const normalizeRuleText = (value: unknown): string =>
+  String(value ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9&' ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const toOptionalNumber = (value: unknown): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.map((entry) => String(entry ?? "").trim()).filter(Boolean)
+    : [];
+
+function parseRule(id: string, data: admin.firestore.DocumentData): CategorizationRule | null {
+  const conditions = data.conditions ?? {};
+  const actions = data.actions ?? {};
+
+  const rule: CategorizationRule = {
+    id,
+    name: String(data.name ?? "").trim() || "Untitled rule",
+    enabled: data.enabled !== false,
+    source: data.source === "learned" ? "learned" : "user",
+    conditions: {
+      merchant: typeof conditions.merchant === "string" && conditions.merchant.trim()
+        ? conditions.merchant.trim()
+        : undefined,
+      minAmount: toOptionalNumber(conditions.minAmount),
+      maxAmount: toOptionalNumber(conditions.maxAmount),
+      keywords: toStringList(conditions.keywords).map((keyword) => keyword.toLowerCase()),
+    },
+    actions: {
+      categoryId: typeof actions.categoryId === "string" && actions.categoryId ? actions.categoryId : undefined,
+      categoryName: typeof actions.categoryName === "string" && actions.categoryName ? actions.categoryName : undefined,
+      tags: toStringList(actions.tags),
+      folderId: typeof actions.folderId === "string" && actions.folderId ? actions.folderId : undefined,
+    },
+  };
+
+  const hasCondition = !!rule.conditions.merchant ||
+    rule.conditions.minAmount !== undefined ||
+    rule.conditions.maxAmount !== undefined ||
+    !!rule.conditions.keywords?.length;
+  const hasAction = !!rule.actions.categoryId || !!rule.actions.tags?.length || !!rule.actions.folderId;
+
+  return hasCondition && hasAction ? rule : null;
+}
+
+/**
+ * Load the user's enabled rules. Rules the user wrote come before learned
+ * ones so an explicit rule always wins.
+ */
+export async function loadUserRules(userId: string): Promise<CategorizationRule[]> {
+  const snapshot = await admin.firestore()
+    .collection(`users/${userId}/categorizationRules`)
+    .limit(MAX_RULES_PER_USER)
+    .get();
+
+  return snapshot.docs
+    .map((doc) => parseRule(doc.id, doc.data()))
+    .filter((rule): rule is CategorizationRule => !!rule && rule.enabled)
+    .sort((a, b) => (a.source === b.source ? 0 : a.source === "user" ? -1 : 1));
+}
+
+/**
+ * True when every condition the rule sets holds for the input.
+ */
+export function ruleMatches(rule: CategorizationRule, input: RuleMatchInput): boolean {
+  const { merchant, minAmount, maxAmount, keywords } = rule.conditions;
+
+  if (merchant) {
+    const pattern = normalizeRuleText(merchant);
+    const names = [input.merchantName, input.rawMerchantName].map(normalizeRuleText).filter(Boolean);
+    if (!pattern || !names.some((name) => name === pattern || name.includes(pattern))) {
+      return false;
+    }
+  }
+
+  if (minAmount !== undefined || maxAmount !== undefined) {
+    if (typeof input.amount !== "number") return false;
+    if (minAmount !== undefined && input.amount < minAmount) return false;
+    if (maxAmount !== undefined && input.amount > maxAmount) return false;
+  }
+
+  if (keywords?.length) {
+    const haystack = [input.merchantName, input.rawMerchantName, ...(input.text ?? [])]
+      .map(normalizeRuleText)
+      .join(" ");
+    if (!keywords.some((keyword) => haystack.includes(normalizeRuleText(keyword)))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export function findMatchingRule(
+  rules: CategorizationRule[],
+  input: RuleMatchInput
+): CategorizationRule | null {
+  return rules.find((rule) => ruleMatches(rule, input)) ?? null;
+}
+
+/**
+ * Build the matching input from a stored receipt document.
+ */
+export function buildRuleInputFromReceipt(receipt: admin.firestore.DocumentData): RuleMatchInput {
+  const amount = typeof receipt.totalAmount === "number"
+    ? receipt.totalAmount
+    : receipt.extraction?.totalAmount?.value;
+  const lineItems: unknown[] = Array.isArray(receipt.lineItems)
+    ? receipt.lineItems
+    : Array.isArray(receipt.extraction?.lineItems) ? receipt.extraction.lineItems : [];
+
+  return {
+    merchantName: receipt.merchant?.canonicalName,
+    rawMerchantName: receipt.merchant?.rawName ?? receipt.extraction?.supplierName?.value,
+    amount: typeof amount === "number" ? amount : null,
+    text: [
+      receipt.notes,
+      ...lineItems.map((item) => (item as { description?: unknown })?.description),
+    ].filter((value): value is string => typeof value === "string" && !!value),
+  };
+}
+
+/**
+ * Apply a matched rule's tag and folder actions, and record the match.
+ * The category action is left to the caller, which decides whether a
+ * user-assigned category may be overwritten.
+ */
+export async function applyRuleSideEffects(
+  userId: string,
+  receiptId: string,
+  rule: CategorizationRule
+): Promise<void> {
+  const db = admin.firestore();
+  const writes: Promise<unknown>[] = [
+    db.doc(`users/${userId}/categorizationRules/${rule.id}`).update({
+      matchCount: admin.firestore.FieldValue.increment(1),
+      lastMatchedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }),
+  ];
+
+  if (rule.actions.folderId) {
+    writes.push(
+      db.doc(`users/${userId}/folders/${rule.actions.folderId}`).update({
+        receiptIds: admin.firestore.FieldValue.arrayUnion(receiptId),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      })
+    );
+  }
+
+  const results = await Promise.allSettled(writes);
+  results.forEach((result) => {
+    if (result.status === "rejected") {
+      logger.warn("Failed to apply categorization rule side effect", {
+        userId,
+        receiptId,
+        ruleId: rule.id,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+    }
+  });
+}
+
+const mergeTags = (existing: unknown, added: string[] | undefined): string[] | null => {
+  const current = toStringList(existing);
+  const merged = Array.from(new Set([...current, ...(added ?? [])]));
+  return merged.length !== current.length ? merged : null;
+};
+
+/**
+ * Field updates a rule makes to a receipt. Categories the user picked by hand
+ * are never overwritten.
+ */
+export function buildRuleReceiptUpdate(
+  receipt: admin.firestore.DocumentData,
+  rule: CategorizationRule
+): Record<string, unknown> {
+  const update: Record<string, unknown> = {};
+
+  if (rule.actions.categoryId && receipt.category?.assignedBy !== "user" &&
+      receipt.category?.id !== rule.actions.categoryId) {
+    update.category = {
+      id: rule.actions.categoryId,
+      name: rule.actions.categoryName || rule.actions.categoryId,
+      confidence: 0.95,
+      assignedBy: "rule",
+      ruleId: rule.id,
+    };
+  }
+
+  const tags = mergeTags(receipt.tags, rule.actions.tags);
+  if (tags) {
+    update.tags = tags;
+  }
+
+  return update;
+}
+
+const buildMerchantRuleKey = (merchantName: string) =>
+  normalizeRuleText(merchantName).replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 120);
+
+/**
+ * Learn from category corrections. When the user moves receipts from the
+ * same merchant to the same category LEARN_AFTER_CORRECTIONS times, a
+ * "learned" merchant rule is created (or its category updated) and the
+ * merchant's defaultCategoryId is set.
+ */
+export const onReceiptCategoryCorrected = onDocumentUpdated(
+  {
+    document: "users/{userId}/receipts/{receiptId}",
+    region: "us-central1",
+    memory: "256MiB",
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after) return;
+
+    const afterCategory = after.category;
+    if (afterCategory?.assignedBy !== "user" || !afterCategory?.id) return;
+    if (before.category?.id === afterCategory.id) return;
+
+    const merchantName = String(after.merchant?.canonicalName || after.merchant?.rawName || "").trim();
+    const merchantKey = buildMerchantRuleKey(merchantName);
+    if (!merchantKey || merchantKey === "unknown") return;
+
+    const { userId, receiptId } = event.params;
+    const db = admin.firestore();
+    const correctionRef = db.doc(`users/${userId}/categoryCorrections/${merchantKey}`);
+    const ruleRef = db.doc(`users/${userId}/categorizationRules/learned_${merchantKey}`);
+
+    const learned = await db.runTransaction(async (transaction) => {
+      const [correctionSnap, ruleSnap] = await Promise.all([
+        transaction.get(correctionRef),
+        transaction.get(ruleRef),
+      ]);
+
+      const correction = correctionSnap.data();
+      const sameCategory = correction?.categoryId === afterCategory.id;
+      const count = sameCategory ? Number(correction?.count ?? 0) + 1 : 1;
+
+      transaction.set(correctionRef, {
+        merchantName,
+        categoryId: afterCategory.id,
+        categoryName: afterCategory.name ?? afterCategory.id,
+        count,
+        lastReceiptId: receiptId,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      if (count < LEARN_AFTER_CORRECTIONS) {
+        return false;
+      }
+
+      const existingRule = ruleSnap.data();
+      if (existingRule && existingRule.source !== "learned") {
+        return false;
+      }
+      if (existingRule?.actions?.categoryId === afterCategory.id) {
+        return false;
+      }
+
+      transaction.set(ruleRef, {
+        userId,
+        name: `${merchantName} → ${afterCategory.name ?? afterCategory.id}`,
+        enabled: existingRule?.enabled ?? true,
+        source: "learned",
+        conditions: { merchant: merchantName },
+        actions: {
+          ...(existingRule?.actions ?? {}),
+          categoryId: afterCategory.id,
+          categoryName: afterCategory.name ?? afterCategory.id,
+        },
+        matchCount: Number(existingRule?.matchCount ?? 0),
+        createdAt: existingRule?.createdAt ?? admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+
+    if (!learned) return;
+
+    const canonicalId = typeof after.merchant?.canonicalId === "string" ? after.merchant.canonicalId : "";
+    if (canonicalId) {
+      await db.doc(`users/${userId}/merchants/${canonicalId}`).set({
+        defaultCategoryId: afterCategory.id,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true }).catch((error: unknown) => {
+        logger.warn("Failed to set merchant default category", {
+          userId,
+          canonicalId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+
+    logger.info("Learned categorization rule from corrections", {
+      userId,
+      merchantName,
+      categoryId: afterCategory.id,
+    });
+  }
+);
+
+/**
+ * Re-apply the user's rules to their past receipts. Pass { ruleId } to only
+ * apply one rule. Receipts categorized by hand keep their category but can
+ * still pick up tags and folders.
+ */
+export const reapplyCategorizationRules = onCall(
+  {
+    region: "us-central1",
+    memory: "512MiB",
+    timeoutSeconds: 300,
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const userId = request.auth.uid;
+    const ruleId = typeof request.data?.ruleId === "string" ? request.data.ruleId : null;
+
+    let rules = await loadUserRules(userId);
+    if (ruleId) {
+      rules = rules.filter((rule) => rule.id === ruleId);
+      if (!rules.length) {
+        throw new HttpsError("not-found", "Rule not found or disabled.");
+      }
+    }
+    if (!rules.length) {
+      return { ok: true, scanned: 0, matched: 0, updated: 0 };
+    }
+
+    const db = admin.firestore();
+    const receiptsSnap = await db.collection(`users/${userId}/receipts`).get();
+
+    let batch = db.batch();
+    let pendingWrites = 0;
+    let matched = 0;
+    let updated = 0;
+    const folderReceiptIds = new Map<string, string[]>();
+    const ruleMatchCounts = new Map<string, number>();
+
+    for (const doc of receiptsSnap.docs) {
+      const receipt = doc.data();
+      const rule = findMatchingRule(rules, buildRuleInputFromReceipt(receipt));
+      if (!rule) continue;
+
+      matched++;
+      ruleMatchCounts.set(rule.id, (ruleMatchCounts.get(rule.id) ?? 0) + 1);
+      if (rule.actions.folderId) {
+        const ids = folderReceiptIds.get(rule.actions.folderId) ?? [];
+        ids.push(doc.id);
+        folderReceiptIds.set(rule.actions.folderId, ids);
+      }
+
+      const update = buildRuleReceiptUpdate(receipt, rule);
+      if (!Object.keys(update).length) continue;
+
+      batch.update(doc.ref, { ...update, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      updated++;
+      pendingWrites++;
+
+      if (pendingWrites >= REAPPLY_WRITE_BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        pendingWrites = 0;
+      }
+    }
+
+    if (pendingWrites > 0) {
+      await batch.commit();
+    }
+
+    // Rules and folders are capped well below the batch limit
+    const followUp = db.batch();
+    const folderRefs = Array.from(folderReceiptIds.keys()).map((folderId) =>
+      db.doc(`users/${userId}/folders/${folderId}`)
+    );
+    const folderSnaps = folderRefs.length ? await db.getAll(...folderRefs) : [];
+    for (const folderSnap of folderSnaps) {
+      if (!folderSnap.exists) continue;
+      followUp.update(folderSnap.ref, {
+        receiptIds: admin.firestore.FieldValue.arrayUnion(...(folderReceiptIds.get(folderSnap.id) ?? [])),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    for (const [matchedRuleId, count] of ruleMatchCounts) {
+      followUp.update(db.doc(`users/${userId}/categorizationRules/${matchedRuleId}`), {
+        matchCount: admin.firestore.FieldValue.increment(count),
+        lastMatchedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    if (folderSnaps.length || ruleMatchCounts.size) {
+      await followUp.commit();
+    }
+
+    logger.info("Re-applied categorization rules", {
+      userId,
+      ruleId,
+      scanned: receiptsSnap.size,
+      matched,
+      updated,
+    });
+
+    return { ok: true, scanned: receiptsSnap.size, matched, updated };
+  }
+);
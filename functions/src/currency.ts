@@ -0,0 +1,400 @@
+/**
+ * Currency Conversion
+ *
+ * Converts receipt amounts into the user's home currency at the receipt's
+ * transaction date. Daily USD-based rate tables are cached in
+ * exchangeRates/{YYYY-MM-DD} so each date is fetched from the provider once.
+ *
+ * Providers are pluggable: EXCHANGE_RATE_PROVIDER=frankfurter (default) uses
+ * the free ECB-backed Frankfurter API, EXCHANGE_RATE_PROVIDER=fixture uses
+ * the bundled offline table. Currencies the live provider does not cover fall
+ * back to the fixture.
+ */
+
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { EXCHANGE_RATE_FIXTURE, EXCHANGE_RATE_FIXTURE_DATE } from "./exchange-rate-fixture";
+
+export const DEFAULT_HOME_CURRENCY = "USD";
+const RATE_BASE_CURRENCY = "USD";
+const EXCHANGE_RATES_COLLECTION = "exchangeRates";
+const PROVIDER_TIMEOUT_MS = 8000;
+const RECONVERT_WRITE_BATCH_SIZE = 400;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "$": "USD",
+  "US$": "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+  "₩": "KRW",
+  "C$": "CAD",
+  "A$": "AUD",
+  "R$": "BRL",
+  "₦": "NGN",
+};
+
+/**
+ * A source of daily exchange rates, expressed as units of each currency per
+ * 1 USD.
+ */
+export interface ExchangeRateProvider {
+  name: string;
+  getRates(date: string): Promise<{ date: string; rates: Record<string, number> } | null>;
+}
+
+/**
+ * Conversion stored on each receipt under `conversion`.
+ */
+export interface CurrencyConversion {
+  currency: string;
+  amount: number;
+  rate: number;
+  rateDate: string;
+  transactionDate: string;
+  provider: string;
+  sourceCurrency: string;
+  sourceAmount: number;
+}
+
+export const fixtureRateProvider: ExchangeRateProvider = {
+  name: "fixture",
+  async getRates() {
+    return { date: EXCHANGE_RATE_FIXTURE_DATE, rates: EXCHANGE_RATE_FIXTURE };
+  },
+};
+
+export const frankfurterRateProvider: ExchangeRateProvider = {
+  name: "frankfurter",
+  async getRates(date: string) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS);
+
+    try {
+      const res = await fetch(`https://api.frankfurter.app/${date}?from=${RATE_BASE_CURRENCY}`, {
+        signal: controller.signal,
+      });
+      if (!res.ok) {
+        logger.warn("Frankfurter rate request failed", { date, status: res.status });
+        return null;
+      }
+
+      const body = await res.json() as { date?: string; rates?: Record<string, number> };
+      if (!body.rates) {
+        return null;
+      }
+
+      return {
+        date: body.date || date,
+        rates: { ...body.rates, [RATE_BASE_CURRENCY]: 1 },
+      };
+    } catch (error: unknown) {
+      logger.warn("Frankfurter rate request errored", {
+        date,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  },
+};
+
+const getConfiguredProvider = (): ExchangeRateProvider =>
+  process.env.EXCHANGE_RATE_PROVIDER === "fixture" ? fixtureRateProvider : frankfurterRateProvider;
+
+/**
+ * Normalize "€", "eur" or "EUR " to an ISO 4217 code. Returns null when the
+ * value is not recognizable.
+ */
+export function normalizeCurrencyCode(value: unknown): string | null {
+  const raw = String(value ?? "").trim();
+  if (!raw) return null;
+
+  const symbol = CURRENCY_SYMBOLS[raw] ?? CURRENCY_SYMBOLS[raw.toUpperCase()];
+  if (symbol) return symbol;
+
+  const code = raw.toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+const todayKey = () => new Date().toISOString().slice(0, 10);
+
+const toRateDate = (date: unknown): string => {
+  const match = typeof date === "string" ? date.match(/^(\d{4}-\d{2}-\d{2})/) : null;
+  const key = match ? match[1] : todayKey();
+  // Rates do not exist for the future; clamp to today.
+  return key > todayKey() ? todayKey() : key;
+};
+
+/**
+ * Daily rate table for a date, read from exchangeRates/{date} or fetched from
+ * the provider and cached. Always includes the fixture currencies as a
+ * fallback for anything the provider does not publish.
+ */
+export async function getRateTable(
+  date: string,
+  provider: ExchangeRateProvider = getConfiguredProvider()
+): Promise<{ date: string; rates: Record<string, number>; provider: string }> {
+  const db = admin.firestore();
+  const rateRef = db.doc(`${EXCHANGE_RATES_COLLECTION}/${date}`);
+  const cached = await rateRef.get();
+  if (cached.exists && cached.get("provider") === provider.name) {
+    return {
+      date: cached.get("rateDate") || date,
+      rates: { ...EXCHANGE_RATE_FIXTURE, ...(cached.get("rates") || {}) },
+      provider: provider.name,
+    };
+  }
+
+  const fetched = await provider.getRates(date);
+  if (!fetched) {
+    return { date: EXCHANGE_RATE_FIXTURE_DATE, rates: EXCHANGE_RATE_FIXTURE, provider: fixtureRateProvider.name };
+  }
+
+  if (provider.name !== fixtureRateProvider.name) {
+    await rateRef.set({
+      base: RATE_BASE_CURRENCY,
+      rateDate: fetched.date,
+      rates: fetched.rates,
+      provider: provider.name,
+      fetchedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  return {
+    date: fetched.date,
+    rates: { ...EXCHANGE_RATE_FIXTURE, ...fetched.rates },
+    provider: provider.name,
+  };
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Convert an amount between currencies at the given date. Returns null when
+ * either currency has no known rate.
+ */
+export async function convertAmount(
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  date: unknown
+): Promise<CurrencyConversion | null> {
+  const from = normalizeCurrencyCode(fromCurrency) ?? toCurrency;
+  const to = normalizeCurrencyCode(toCurrency) ?? DEFAULT_HOME_CURRENCY;
+  const rateDate = toRateDate(date);
+
+  if (from === to) {
+    return {
+      currency: to,
+      amount: roundCurrency(amount),
+      rate: 1,
+      rateDate,
+      transactionDate: rateDate,
+      provider: "identity",
+      sourceCurrency: from,
+      sourceAmount: amount,
+    };
+  }
+
+  const table = await getRateTable(rateDate);
+  const fromRate = table.rates[from];
+  const toRate = table.rates[to];
+  if (!fromRate || !toRate) {
+    logger.warn("No exchange rate available", { from, to, rateDate });
+    return null;
+  }
+
+  const rate = toRate / fromRate;
+  return {
+    currency: to,
+    amount: roundCurrency(amount * rate),
+    rate: Math.round(rate * 1_000_000) / 1_000_000,
+    rateDate: table.date,
+    transactionDate: rateDate,
+    provider: table.provider,
+    sourceCurrency: from,
+    sourceAmount: amount,
+  };
+}
+
+export async function getUserHomeCurrency(userId: string): Promise<string> {
+  const userSnap = await admin.firestore().doc(`users/${userId}`).get();
+  return normalizeCurrencyCode(userSnap.get("homeCurrency")) ?? DEFAULT_HOME_CURRENCY;
+}
+
+const getReceiptAmount = (receipt: admin.firestore.DocumentData): number | null => {
+  const value = typeof receipt.totalAmount === "number" ? receipt.totalAmount : receipt.extraction?.totalAmount?.value;
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+};
+
+const getReceiptDate = (receipt: admin.firestore.DocumentData): unknown =>
+  receipt.date ?? receipt.extraction?.date?.value ?? receipt.createdAt?.toDate?.()?.toISOString();
+
+/**
+ * Conversion a receipt should carry for the given home currency, or
+ * undefined when its amount is unknown. Reuses the stored conversion when the
+ * amount, currency and date have not changed.
+ */
+export async function buildReceiptConversion(
+  receipt: admin.firestore.DocumentData,
+  homeCurrency: string
+): Promise<CurrencyConversion | null | undefined> {
+  const amount = getReceiptAmount(receipt);
+  if (amount === null) return undefined;
+
+  const sourceCurrency = normalizeCurrencyCode(receipt.currency ?? receipt.extraction?.currency?.value) ?? homeCurrency;
+  const rateDate = toRateDate(getReceiptDate(receipt));
+  const existing = receipt.conversion as CurrencyConversion | undefined;
+
+  if (
+    existing &&
+    existing.currency === homeCurrency &&
+    existing.sourceCurrency === sourceCurrency &&
+    existing.sourceAmount === amount &&
+    existing.transactionDate === rateDate
+  ) {
+    return existing;
+  }
+
+  return convertAmount(amount, sourceCurrency, homeCurrency, rateDate);
+}
+
+/**
+ * Amount a receipt counts for in aggregates: the stored home-currency
+ * conversion when it belongs to the current total, otherwise the original
+ * amount. `factor` scales per-line or per-split amounts the same way.
+ */
+export function getHomeCurrencyAmount(
+  receipt: admin.firestore.DocumentData,
+  sourceAmount: number
+): { amount: number; factor: number; currency: string | null } {
+  const conversion = receipt.conversion as CurrencyConversion | undefined;
+  if (
+    conversion &&
+    typeof conversion.amount === "number" &&
+    conversion.sourceAmount === sourceAmount &&
+    sourceAmount !== 0
+  ) {
+    return {
+      amount: conversion.amount,
+      factor: conversion.amount / sourceAmount,
+      currency: conversion.currency,
+    };
+  }
+
+  return {
+    amount: sourceAmount,
+    factor: 1,
+    currency: normalizeCurrencyCode(receipt.currency ?? receipt.extraction?.currency?.value),
+  };
+}
+
+/**
+ * Home-currency amount of a receipt, or 0 when its total is unknown.
+ */
+export function getReceiptHomeAmount(receipt: admin.firestore.DocumentData): number {
+  const sourceAmount = getReceiptAmount(receipt);
+  return sourceAmount === null ? 0 : getHomeCurrencyAmount(receipt, sourceAmount).amount;
+}
+
+const isSameConversion = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Keep receipts' home-currency conversion up to date whenever the amount,
+ * currency or date changes.
+ */
+export const onReceiptWrittenConvertCurrency = onDocumentWritten(
+  {
+    document: "users/{userId}/receipts/{receiptId}",
+    region: "us-central1",
+    memory: "256MiB",
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const after = event.data?.after.data();
+    if (!after) return;
+
+    const { userId, receiptId } = event.params;
+    const homeCurrency = await getUserHomeCurrency(userId);
+    const conversion = await buildReceiptConversion(after, homeCurrency);
+    if (conversion === undefined || isSameConversion(conversion, after.conversion)) {
+      return;
+    }
+
+    await event.data!.after.ref.update({
+      conversion: conversion ?? admin.firestore.FieldValue.delete(),
+    });
+
+    logger.info("Updated receipt currency conversion", {
+      userId,
+      receiptId,
+      from: conversion?.sourceCurrency,
+      to: homeCurrency,
+      rate: conversion?.rate,
+    });
+  }
+);
+
+/**
+ * Change the signed-in user's home currency and re-convert their receipts.
+ */
+export const updateHomeCurrency = onCall(
+  {
+    region: "us-central1",
+    memory: "512MiB",
+    timeoutSeconds: 300,
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const userId = request.auth.uid;
+    const homeCurrency = normalizeCurrencyCode(request.data?.currency);
+    if (!homeCurrency || !EXCHANGE_RATE_FIXTURE[homeCurrency]) {
+      throw new HttpsError("invalid-argument", "Unsupported currency.");
+    }
+
+    const db = admin.firestore();
+    await db.doc(`users/${userId}`).set({
+      homeCurrency,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+
+    const receiptsSnap = await db.collection(`users/${userId}/receipts`).get();
+    let batch = db.batch();
+    let pendingWrites = 0;
+    let converted = 0;
+    let failed = 0;
+
+    for (const doc of receiptsSnap.docs) {
+      const receipt = doc.data();
+      const conversion = await buildReceiptConversion(receipt, homeCurrency);
+      if (conversion === undefined) continue;
+      if (conversion === null) failed++;
+      if (isSameConversion(conversion, receipt.conversion)) continue;
+
+      batch.update(doc.ref, { conversion: conversion ?? admin.firestore.FieldValue.delete() });
+      converted++;
+      pendingWrites++;
+
+      if (pendingWrites >= RECONVERT_WRITE_BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        pendingWrites = 0;
+      }
+    }
+
+    if (pendingWrites > 0) {
+      await batch.commit();
+    }
+
+    logger.info("Updated home currency", { userId, homeCurrency, converted, failed });
+    return { ok: true, homeCurrency, converted, failed };
+  }
+);
@@ -0,0 +1,373 @@
+/**
+ * Duplicate Receipts
+ *
+ * The same purchase often arrives twice (a photo upload, then the emailed
+ * receipt, or a Telegram photo). After extraction each new receipt is compared
+ * with the user's existing receipts: an identical file content hash is a
+ * certain duplicate, otherwise merchant, amount and date are fuzzy-matched.
+ * Suspected duplicates are flagged on the receipt and the user merges or
+ * dismisses them from the review queue.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import { canAddReceipts, getWorkspaceRole } from "./workspaces";
+
+/** Minimum fuzzy score for a receipt to be flagged as a duplicate. */
+const FUZZY_MATCH_THRESHOLD = 0.8;
+/** Receipts further apart than this many days are never fuzzy duplicates. */
+const DATE_WINDOW_DAYS = 3;
+const MAX_FUZZY_CANDIDATES = 50;
+
+export type DuplicateReason = "content_hash" | "fuzzy_match";
+
+export interface DuplicateFlag {
+  status: "suspected" | "dismissed";
+  receiptId: string;
+  reason: DuplicateReason;
+  score: number;
+  detectedAt: admin.firestore.FieldValue | admin.firestore.Timestamp;
+  resolvedAt?: admin.firestore.FieldValue | admin.firestore.Timestamp;
+}
+
+export interface DuplicateSubject {
+  receiptId?: string;
+  contentHash?: string | null;
+  merchantName?: string | null;
+  amount?: number | null;
+  currency?: string | null;
+  date?: string | null;
+}
+
+export const computeContentHash = (data: Buffer | string): string =>
+  crypto.createHash("sha256").update(data).digest("hex");
+
+const MERCHANT_NOISE = /\b(inc|llc|ltd|co|corp|store|stores|the|\d+)\b/g;
+
+export const normalizeMerchantKey = (name: string | null | undefined): string =>
+  (name ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(MERCHANT_NOISE, " ")
+    .replace(/\s+/g, "");
+
+const bigrams = (value: string): string[] => {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    grams.push(value.slice(i, i + 2));
+  }
+  return grams;
+};
+
+/**
+ * 0..1 similarity of two merchant names (Dice coefficient over bigrams of the
+ * normalized names; containment counts as a strong match).
+ */
+export function merchantSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeMerchantKey(a);
+  const right = normalizeMerchantKey(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.length >= 4 && right.length >= 4 && (left.includes(right) || right.includes(left))) return 0.9;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (!leftGrams.length || !rightGrams.length) return 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of leftGrams) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  let overlap = 0;
+  for (const gram of rightGrams) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * overlap) / (leftGrams.length + rightGrams.length);
+}
+
+const daysBetween = (a: string, b: string): number | null => {
+  const left = Date.parse(`${a.slice(0, 10)}T00:00:00Z`);
+  const right = Date.parse(`${b.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(left) || Number.isNaN(right)) return null;
+  return Math.round(Math.abs(left - right) / 86400000);
+};
+
+/**
+ * Fuzzy duplicate score of two receipts. The amounts must match to the cent
+ * (in the same currency); date closeness and merchant similarity make up the
+ * rest of the score.
+ */
+export function scoreDuplicate(subject: DuplicateSubject, candidate: DuplicateSubject): number {
+  if (typeof subject.amount !== "number" || typeof candidate.amount !== "number") return 0;
+  if (subject.amount <= 0 || Math.abs(subject.amount - candidate.amount) > 0.01) return 0;
+
+  const subjectCurrency = subject.currency?.toUpperCase();
+  const candidateCurrency = candidate.currency?.toUpperCase();
+  if (subjectCurrency && candidateCurrency && subjectCurrency !== candidateCurrency) return 0;
+
+  let dateScore = 0.5; // Unknown on either side
+  if (subject.date && candidate.date) {
+    const days = daysBetween(subject.date, candidate.date);
+    if (days === null) {
+      dateScore = 0.5;
+    } else if (days > DATE_WINDOW_DAYS) {
+      return 0;
+    } else {
+      dateScore = days === 0 ? 1 : days === 1 ? 0.8 : 0.5;
+    }
+  }
+
+  const merchantScore = merchantSimilarity(subject.merchantName, candidate.merchantName);
+  return Math.round((0.4 + 0.3 * dateScore + 0.3 * merchantScore) * 100) / 100;
+}
+
+const toSubject = (doc: admin.firestore.QueryDocumentSnapshot): DuplicateSubject => {
+  const data = doc.data();
+  return {
+    receiptId: doc.id,
+    contentHash: data.contentHash ?? null,
+    merchantName: data.merchant?.canonicalName || data.merchant?.rawName || data.extraction?.supplierName?.value || null,
+    amount: typeof data.totalAmount === "number" ? data.totalAmount : null,
+    currency: data.currency ?? data.extraction?.currency?.value ?? null,
+    date: data.date ?? data.extraction?.date?.value ?? null,
+  };
+};
+
+const getCreatedAtMillis = (doc: admin.firestore.QueryDocumentSnapshot): number => {
+  const createdAt = doc.get("createdAt");
+  return createdAt?.toMillis ? createdAt.toMillis() : 0;
+};
+
+// Receipts already flagged as someone else's duplicate are not used as originals
+const isUsableOriginal = (doc: admin.firestore.QueryDocumentSnapshot, subject: DuplicateSubject): boolean =>
+  doc.id !== subject.receiptId && doc.get("duplicate.status") !== "suspected";
+
+/**
+ * Find the existing receipt this one most likely duplicates, or null.
+ */
+export async function findDuplicate(
+  userId: string,
+  subject: DuplicateSubject
+): Promise<Omit<DuplicateFlag, "status" | "detectedAt"> | null> {
+  const receiptsRef = admin.firestore().collection(`users/${userId}/receipts`);
+
+  if (subject.contentHash) {
+    const hashSnap = await receiptsRef.where("contentHash", "==", subject.contentHash).limit(5).get();
+    const original = hashSnap.docs
+      .filter((doc) => isUsableOriginal(doc, subject))
+      .sort((a, b) => getCreatedAtMillis(a) - getCreatedAtMillis(b))[0];
+    if (original) {
+      return { receiptId: original.id, reason: "content_hash", score: 1 };
+    }
+  }
+
+  if (typeof subject.amount !== "number" || subject.amount <= 0) {
+    return null;
+  }
+
+  const amountSnap = await receiptsRef
+    .where("totalAmount", ">=", subject.amount - 0.01)
+    .where("totalAmount", "<=", subject.amount + 0.01)
+    .limit(MAX_FUZZY_CANDIDATES)
+    .get();
+
+  let best: { doc: admin.firestore.QueryDocumentSnapshot; score: number } | null = null;
+  for (const doc of amountSnap.docs) {
+    if (!isUsableOriginal(doc, subject)) continue;
+    const score = scoreDuplicate(subject, toSubject(doc));
+    if (score < FUZZY_MATCH_THRESHOLD) continue;
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && getCreatedAtMillis(doc) < getCreatedAtMillis(best.doc))
+    ) {
+      best = { doc, score };
+    }
+  }
+
+  return best ? { receiptId: best.doc.id, reason: "fuzzy_match", score: best.score } : null;
+}
+
+/**
+ * Receipt fields recording a suspected duplicate. Detection failures are
+ * logged and never block receipt processing.
+ */
+export async function buildDuplicateUpdate(
+  userId: string,
+  subject: DuplicateSubject
+): Promise<Record<string, unknown>> {
+  const update: Record<string, unknown> = {};
+  if (subject.contentHash) {
+    update.contentHash = subject.contentHash;
+  }
+
+  try {
+    const match = await findDuplicate(userId, subject);
+    if (match) {
+      const flag: DuplicateFlag = {
+        status: "suspected",
+        ...match,
+        detectedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      update.duplicate = flag;
+      logger.info("Suspected duplicate receipt", {
+        userId,
+        receiptId: subject.receiptId,
+        originalId: match.receiptId,
+        reason: match.reason,
+        score: match.score,
+      });
+    }
+  } catch (error: unknown) {
+    logger.warn("Duplicate detection failed", {
+      userId,
+      receiptId: subject.receiptId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return update;
+}
+
+const getStoragePaths = (receipt: admin.firestore.DocumentData): string[] =>
+  Array.from(new Set([
+    receipt.file?.storagePath,
+    receipt.email?.textStoragePath,
+    receipt.email?.htmlStoragePath,
+    receipt.email?.pdfStoragePath,
+    receipt.email?.previewStoragePath,
+  ].filter((path): path is string => typeof path === "string" && !!path)));
+
+/**
+ * Fields of the original receipt filled in from the duplicate being merged
+ * into it. Values already on the original are kept.
+ */
+function buildMergeUpdate(
+  original: admin.firestore.DocumentData,
+  duplicate: admin.firestore.DocumentData,
+  duplicateId: string
+): Record<string, unknown> {
+  const update: Record<string, unknown> = {
+    mergedReceiptIds: admin.firestore.FieldValue.arrayUnion(duplicateId),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  const originalTags: string[] = Array.isArray(original.tags) ? original.tags : [];
+  const duplicateTags: string[] = Array.isArray(duplicate.tags) ? duplicate.tags : [];
+  const seen = new Set(originalTags.map((tag) => tag.toLowerCase()));
+  const addedTags = duplicateTags.filter((tag) => !seen.has(tag.toLowerCase()));
+  if (addedTags.length) {
+    update.tags = [...originalTags, ...addedTags];
+  }
+
+  if (!original.notes && duplicate.notes) update.notes = duplicate.notes;
+  if (original.totalAmount === undefined && duplicate.totalAmount !== undefined) {
+    update.totalAmount = duplicate.totalAmount;
+    if (duplicate.currency) update.currency = duplicate.currency;
+  }
+  if (!original.date && duplicate.date) update.date = duplicate.date;
+  if (!original.lineItems?.length && duplicate.lineItems?.length) update.lineItems = duplicate.lineItems;
+  if (!original.email && duplicate.email) update.email = duplicate.email;
+
+  return update;
+}
+
+/**
+ * Resolve a suspected duplicate: "merge" folds it into the original receipt
+ * (tags, notes and missing fields are kept, folders re-pointed) and deletes
+ * it; "dismiss" keeps both receipts.
+ */
+export const resolveDuplicateReceipt = onCall(
+  {
+    region: "us-central1",
+    memory: "256MiB",
+    timeoutSeconds: 60,
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    // userId is the workspace the receipt belongs to
+    const userId = typeof request.data?.workspaceId === "string" && request.data.workspaceId ?
+      request.data.workspaceId :
+      request.auth.uid;
+    const receiptId = typeof request.data?.receiptId === "string" ? request.data.receiptId : "";
+    const action = request.data?.action;
+    if (!receiptId || (action !== "merge" && action !== "dismiss")) {
+      throw new HttpsError("invalid-argument", "receiptId and an action of merge or dismiss are required.");
+    }
+    if (!canAddReceipts(await getWorkspaceRole(userId, request.auth.uid))) {
+      throw new HttpsError("permission-denied", "You can't edit receipts in this workspace.");
+    }
+
+    const db = admin.firestore();
+    const receiptRef = db.doc(`users/${userId}/receipts/${receiptId}`);
+    const receiptSnap = await receiptRef.get();
+    const receipt = receiptSnap.data();
+    if (!receipt) {
+      throw new HttpsError("not-found", "Receipt not found.");
+    }
+    if (receipt.duplicate?.status !== "suspected" || typeof receipt.duplicate.receiptId !== "string") {
+      throw new HttpsError("failed-precondition", "This receipt is not flagged as a duplicate.");
+    }
+
+    if (action === "dismiss") {
+      await receiptRef.update({
+        "duplicate.status": "dismissed",
+        "duplicate.resolvedAt": admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { ok: true, action };
+    }
+
+    const originalId: string = receipt.duplicate.receiptId;
+    const originalRef = db.doc(`users/${userId}/receipts/${originalId}`);
+    const originalSnap = await originalRef.get();
+    const original = originalSnap.data();
+    if (!original) {
+      throw new HttpsError("failed-precondition", "The original receipt no longer exists. Keep this one instead.");
+    }
+
+    const foldersSnap = await db
+      .collection(`users/${userId}/folders`)
+      .where("receiptIds", "array-contains", receiptId)
+      .get();
+
+    const batch = db.batch();
+    batch.update(originalRef, buildMergeUpdate(original, receipt, receiptId));
+    for (const folderDoc of foldersSnap.docs) {
+      const receiptIds: string[] = Array.isArray(folderDoc.get("receiptIds")) ? folderDoc.get("receiptIds") : [];
+      const nextIds = Array.from(new Set(receiptIds.map((id) => (id === receiptId ? originalId : id))));
+      batch.update(folderDoc.ref, {
+        receiptIds: nextIds,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    batch.delete(receiptRef);
+    await batch.commit();
+
+    // Files shared with the original (same storage path) are kept
+    const keptPaths = new Set(getStoragePaths(original));
+    const bucket = admin.storage().bucket();
+    for (const storagePath of getStoragePaths(receipt)) {
+      if (keptPaths.has(storagePath)) continue;
+      try {
+        await bucket.file(storagePath).delete({ ignoreNotFound: true });
+      } catch (error: unknown) {
+        logger.warn("Failed to delete merged duplicate file", {
+          userId,
+          storagePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    logger.info("Merged duplicate receipt", { userId, receiptId, originalId });
+    return { ok: true, action, receiptId: originalId };
+  }
+);
@@ -9,6 +9,11 @@ import type { Request } from "express";
 import sharp from "sharp";
 import { getFreePlanReceiptLimit } from "./app-config";
 import { getEffectiveSubscriptionPlan } from "./subscription";
+import { buildDuplicateUpdate, computeContentHash } from "./duplicates";
+import { normalizeMerchant } from "./merchant-matching";
+import { getMerchantDefaultCategoryId } from "./merchants";
+import { CategoryDefinition, loadUserCategories, orderForKeywordMatching } from "./receipt-processor";
+import { IngestTarget, resolveIngestTarget } from "./workspaces";
 
 const receiptInboundDomain = defineSecret("RECEIPT_INBOUND_DOMAIN");
 const emailIngestWebhookKey = defineSecret("EMAIL_INGEST_WEBHOOK_KEY");
@@ -44,19 +49,6 @@ const ALLOWED_ATTACHMENT_EXTENSIONS = new Set([
   "pdf",
 ]);
 
-const CATEGORIES = [
-  { id: "groceries", name: "Groceries", keywords: ["grocery", "supermarket", "food", "whole foods", "trader joe", "kroger"] },
-  { id: "restaurants", name: "Restaurants", keywords: ["restaurant", "cafe", "coffee", "starbucks", "mcdonalds", "uber eats"] },
-  { id: "shopping", name: "Shopping", keywords: ["amazon", "target", "walmart", "costco", "best buy", "retail"] },
-  { id: "transportation", name: "Transportation", keywords: ["gas", "fuel", "uber", "lyft", "parking", "transit"] },
-  { id: "entertainment", name: "Entertainment", keywords: ["movie", "netflix", "spotify", "gaming", "concert"] },
-  { id: "subscriptions", name: "Subscriptions", keywords: ["subscription", "monthly", "recurring", "membership"] },
-  { id: "utilities", name: "Utilities", keywords: ["electric", "water", "internet", "phone", "utility"] },
-  { id: "healthcare", name: "Healthcare", keywords: ["pharmacy", "doctor", "hospital", "cvs", "walgreens"] },
-  { id: "travel", name: "Travel", keywords: ["hotel", "flight", "airline", "airbnb", "booking"] },
-  { id: "other", name: "Other", keywords: [] },
-];
-
 interface ParsedAttachment {
   fieldName: string;
   fileName: string;
@@ -90,14 +82,6 @@ interface EmailExtractionResult {
   overallConfidence: number;
 }
 
-interface ReceiptMerchant {
-  canonicalId?: string;
-  canonicalName: string;
-  rawName: string;
-  matchConfidence: number;
-  matchedBy: "exact" | "fuzzy" | "alias" | "ai" | "manual";
-}
-
 interface ReceiptCategory {
   id: string;
   name: string;
@@ -261,7 +245,9 @@ export const inboundEmailWebhook = onRequest(
       const skippedUsers: string[] = [];
 
       for (const userId of userIds) {
-        const canAcceptMore = await canUserAcceptNewReceipt(userId);
+        // Members can route forwarded receipts into a shared workspace
+        const { workspaceId, addedBy } = await resolveIngestTarget(userId);
+        const canAcceptMore = await canUserAcceptNewReceipt(workspaceId);
         if (!canAcceptMore) {
           skippedUsers.push(userId);
           continue;
@@ -273,6 +259,7 @@ export const inboundEmailWebhook = onRequest(
 
         logger.info("Resolved inbound attachments for user", {
           userId,
+          workspaceId,
           recipientLocals,
           parsedAttachmentCount: parsedEmail.attachments.length,
           enrichedAttachmentCount: payload.attachments.length,
@@ -282,13 +269,13 @@ export const inboundEmailWebhook = onRequest(
 
         if (validAttachments.length > 0) {
           for (const attachment of validAttachments) {
-            await saveAttachmentReceipt(userId, attachment, payload.fields);
+            await saveAttachmentReceipt(workspaceId, addedBy, attachment, payload.fields);
             createdReceipts += 1;
           }
           continue;
         }
 
-        const createdTextReceipt = await saveTextOnlyReceipt(userId, payload.fields);
+        const createdTextReceipt = await saveTextOnlyReceipt(workspaceId, addedBy, payload.fields);
         if (createdTextReceipt) {
           createdReceipts += 1;
         }
@@ -559,6 +546,7 @@ async function findUsersByRecipientLocals(recipientLocals: string[]): Promise<Se
 
 async function saveAttachmentReceipt(
   userId: string,
+  addedBy: IngestTarget["addedBy"],
   attachment: ParsedAttachment,
   fields: Record<string, string>
 ): Promise<void> {
@@ -573,6 +561,7 @@ async function saveAttachmentReceipt(
   const db = admin.firestore();
   const receiptRef = await db.collection(`users/${userId}/receipts`).add({
     userId,
+    addedBy,
     status: "uploaded",
     file: {
       storagePath,
@@ -599,6 +588,7 @@ async function saveAttachmentReceipt(
 
 async function saveTextOnlyReceipt(
   userId: string,
+  addedBy: IngestTarget["addedBy"],
   fields: Record<string, string>
 ): Promise<boolean> {
   const subject = fields.subject || "";
@@ -619,12 +609,17 @@ async function saveTextOnlyReceipt(
   const extraction = await extractFromEmailContent(subject, sender, text);
   const merchantName = extraction.supplierName?.value || inferMerchantFromSender(sender) || "Email Receipt";
   const merchant = await normalizeMerchant(userId, merchantName, extraction.supplierName?.confidence || 0.5);
-  const category = classifyCategory({
-    merchantName: merchant.canonicalName,
-    rawMerchantName: merchant.rawName,
-    sender,
-    subject,
-  });
+  const categories = await loadUserCategories(userId);
+  const merchantCategoryId = await getMerchantDefaultCategoryId(userId, merchant.canonicalId);
+  const merchantCategory = merchantCategoryId ? categories.find((c) => c.id === merchantCategoryId) : undefined;
+  const category: ReceiptCategory = merchantCategory ?
+    { id: merchantCategory.id, name: merchantCategory.name, confidence: 0.95, assignedBy: "rule" } :
+    classifyCategory({
+      merchantName: merchant.canonicalName,
+      rawMerchantName: merchant.rawName,
+      sender,
+      subject,
+    }, categories);
   const hasTotal = extraction.totalAmount?.value !== undefined && extraction.totalAmount.value > 0;
   const status = hasTotal ? "final" : "needs_review";
 
@@ -727,6 +722,7 @@ async function saveTextOnlyReceipt(
 
   const updateData: Record<string, unknown> = {
     userId,
+    addedBy,
     status,
     processedAt: admin.firestore.FieldValue.serverTimestamp(),
     skipProcessing: true,
@@ -770,6 +766,16 @@ async function saveTextOnlyReceipt(
     updateData.date = extraction.date.value;
   }
 
+  // Text-only emails skip processReceipt, so duplicates are checked here. The
+  // hash covers the email text, catching the same email forwarded twice.
+  Object.assign(updateData, await buildDuplicateUpdate(userId, {
+    contentHash: computeContentHash(textPayload),
+    merchantName: merchant.canonicalName,
+    amount: hasTotal ? extraction.totalAmount?.value : null,
+    currency: extraction.currency?.value ?? null,
+    date: extraction.date?.value ?? null,
+  }));
+
   const db = admin.firestore();
   const receiptRef = await db.collection(`users/${userId}/receipts`).add(updateData);
   await receiptRef.update({ id: receiptRef.id });
@@ -1471,79 +1477,12 @@ function escapeSvgText(value: string): string {
     .replace(/'/g, "&#39;");
 }
 
-async function normalizeMerchant(
-  userId: string,
-  rawName: string,
-  confidence: number
-): Promise<ReceiptMerchant> {
-  const db = admin.firestore();
-
-  const cleanedName = rawName
-    .replace(/[#\d]+$/g, "")
-    .replace(/\s+/g, " ")
-    .trim()
-    .split(" ")
-    .slice(0, 3)
-    .join(" ");
-
-  const canonicalName = cleanedName || rawName;
-  const merchantsRef = db.collection(`users/${userId}/merchants`);
-  const snapshot = await merchantsRef.get();
-
-  for (const doc of snapshot.docs) {
-    const merchant = doc.data();
-    const aliases: string[] = merchant.aliases || [];
-    if (aliases.some((a) => a.toLowerCase() === rawName.toLowerCase())) {
-      return {
-        canonicalId: doc.id,
-        canonicalName: merchant.canonicalName,
-        rawName,
-        matchConfidence: 1,
-        matchedBy: "alias",
-      };
-    }
-
-    if (
-      aliases.some((a) =>
-        a.toLowerCase().includes(canonicalName.toLowerCase()) ||
-        canonicalName.toLowerCase().includes(a.toLowerCase())
-      )
-    ) {
-      return {
-        canonicalId: doc.id,
-        canonicalName: merchant.canonicalName,
-        rawName,
-        matchConfidence: 0.8,
-        matchedBy: "fuzzy",
-      };
-    }
-  }
-
-  const merchantRef = await merchantsRef.add({
-    userId,
-    canonicalName,
-    aliases: [rawName],
-    receiptCount: 0,
-    totalSpend: 0,
-    createdAt: admin.firestore.FieldValue.serverTimestamp(),
-    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-  });
-
-  return {
-    canonicalId: merchantRef.id,
-    canonicalName,
-    rawName,
-    matchConfidence: confidence,
-    matchedBy: "ai",
-  };
-}
-
 function classifyCategory(input: {
   merchantName?: string;
   rawMerchantName?: string;
   sender?: string;
   subject?: string;
-}): ReceiptCategory {
+}, categories: CategoryDefinition[]): ReceiptCategory {
   const candidateValues = [
     input.merchantName,
     input.rawMerchantName,
@@ -1553,8 +1492,9 @@ function classifyCategory(input: {
     .map((value) => String(value || "").toLowerCase().trim())
     .filter((value, index, array) => !!value && array.indexOf(value) === index);
 
+  const keywordOrder = orderForKeywordMatching(categories);
   for (const candidate of candidateValues) {
-    for (const category of CATEGORIES) {
+    for (const category of keywordOrder) {
       if (category.keywords.some((keyword) => candidate.includes(keyword))) {
         return {
           id: category.id,
@@ -0,0 +1,46 @@
+/**
+ * Offline exchange-rate fixture.
+ *
+ * Units of each currency per 1 USD. Used when the live provider is disabled
+ * (EXCHANGE_RATE_PROVIDER=fixture, e.g. in the emulator) and as a fallback
+ * for currencies or dates the live provider cannot serve. Values are
+ * approximate and only meant to keep totals in the right ballpark.
+ */
+export const EXCHANGE_RATE_FIXTURE_DATE = "2025-06-30";
+
+export const EXCHANGE_RATE_FIXTURE: Record<string, number> = {
+  USD: 1,
+  EUR: 0.853,
+  GBP: 0.729,
+  CAD: 1.363,
+  AUD: 1.526,
+  NZD: 1.644,
+  JPY: 144.1,
+  CNY: 7.163,
+  HKD: 7.85,
+  SGD: 1.273,
+  INR: 85.75,
+  KRW: 1350.2,
+  CHF: 0.795,
+  SEK: 9.51,
+  NOK: 10.11,
+  DKK: 6.365,
+  PLN: 3.612,
+  CZK: 21.14,
+  HUF: 340.5,
+  MXN: 18.83,
+  BRL: 5.46,
+  ZAR: 17.73,
+  TRY: 39.8,
+  ILS: 3.37,
+  AED: 3.6725,
+  THB: 32.5,
+  PHP: 56.3,
+  IDR: 16235,
+  MYR: 4.21,
+  XAF: 559.6,
+  XOF: 559.6,
+  NGN: 1532,
+  KES: 129.2,
+  CDF: 2870,
+};
@@ -0,0 +1,292 @@
+/**
+ * Folder Shares
+ *
+ * A public link to a snapshot of one folder: merchant, date, amount and
+ * category of each receipt at the time the link was made, plus the total.
+ * Links open the same /share/{shareId} page as graph and chat shares.
+ *
+ * Unlike those, folder shares can expire and can be password protected, so
+ * the folderShares/{shareId} document is never publicly readable. The share
+ * page loads it through getFolderShare, which checks expiry, revocation and
+ * the password before returning the snapshot. After MAX_PASSWORD_ATTEMPTS
+ * wrong passwords in a row the share refuses guesses for
+ * PASSWORD_LOCKOUT_MINUTES. Thumbnails, when included, are signed on each view
+ * so they stop working with the link. Views are counted like graph and chat
+ * shares, once per visitor per window.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import { DEFAULT_HOME_CURRENCY, getHomeCurrencyAmount, normalizeCurrencyCode } from "./currency";
+import { countShareView } from "./share-links";
+import { canAddReceipts, getWorkspaceRole } from "./workspaces";
+
+const MAX_EXPIRY_DAYS = 365;
+/** Keeps the snapshot well under Firestore's 1 MiB document limit. */
+const MAX_SHARED_RECEIPTS = 300;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 128;
+const MAX_PASSWORD_ATTEMPTS = 5;
+const PASSWORD_LOCKOUT_MINUTES = 15;
+const THUMBNAIL_URL_TTL_MS = 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface FolderShareReceipt {
+  id: string;
+  merchant: string;
+  date: string | null;
+  amount: number | null;
+  currency: string;
+  homeAmount: number | null;
+  categoryName: string | null;
+  storagePath: string | null;
+  mimeType: string | null;
+}
+
+const hashPassword = (password: string, salt: string): string =>
+  crypto.scryptSync(password, salt, 32).toString("base64");
+
+const passwordMatches = (password: string, salt: string, expectedHash: string): boolean => {
+  const actual = Buffer.from(hashPassword(password, salt));
+  const expected = Buffer.from(expectedHash);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * Count a wrong password, locking the share once too many came in a row.
+ */
+const recordFailedPasswordAttempt = async (shareRef: admin.firestore.DocumentReference): Promise<void> => {
+  await admin.firestore().runTransaction(async (transaction) => {
+    const attempts = Number((await transaction.get(shareRef)).get("failedPasswordAttempts") ?? 0) + 1;
+    transaction.update(shareRef, attempts >= MAX_PASSWORD_ATTEMPTS ?
+      {
+        failedPasswordAttempts: 0,
+        passwordLockedUntil: admin.firestore.Timestamp.fromMillis(Date.now() + PASSWORD_LOCKOUT_MINUTES * 60 * 1000),
+      } :
+      { failedPasswordAttempts: attempts });
+  });
+};
+
+const getReceiptDate = (receipt: admin.firestore.DocumentData): string | null => {
+  const value = receipt.date ?? receipt.extraction?.date?.value;
+  return typeof value === "string" && DATE_PATTERN.test(value) ? value : null;
+};
+
+const getReceiptAmount = (receipt: admin.firestore.DocumentData): number | null => {
+  const value = typeof receipt.totalAmount === "number" ? receipt.totalAmount : receipt.extraction?.totalAmount?.value;
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+};
+
+const getOwnerName = (userData: admin.firestore.DocumentData | undefined): string => {
+  const name = `${userData?.firstName ?? ""} ${userData?.lastName ?? ""}`.trim();
+  return name || "A ReceiptNest user";
+};
+
+/**
+ * Share a snapshot of a folder. Editors of a shared workspace can share its
+ * folders; the share belongs to whoever created it.
+ */
+export const createFolderShare = onCall(
+  { region: "us-central1" },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const userId = request.auth.uid;
+    const folderId = typeof request.data?.folderId === "string" ? request.data.folderId : "";
+    const workspaceId = typeof request.data?.workspaceId === "string" && request.data.workspaceId ?
+      request.data.workspaceId :
+      userId;
+    const includeThumbnails = request.data?.includeThumbnails === true;
+    const includeName = request.data?.includeName === true;
+    const password = typeof request.data?.password === "string" ? request.data.password : "";
+    const expiresInDays = request.data?.expiresInDays == null ? null : Math.floor(Number(request.data.expiresInDays));
+
+    if (!folderId) {
+      throw new HttpsError("invalid-argument", "Missing folder.");
+    }
+    if (expiresInDays !== null && !(expiresInDays >= 1 && expiresInDays <= MAX_EXPIRY_DAYS)) {
+      throw new HttpsError("invalid-argument", `Links can last between 1 and ${MAX_EXPIRY_DAYS} days.`);
+    }
+    if (password && (password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH)) {
+      throw new HttpsError("invalid-argument", `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`);
+    }
+    if (!canAddReceipts(await getWorkspaceRole(workspaceId, userId))) {
+      throw new HttpsError("permission-denied", "You can't share folders in this workspace.");
+    }
+
+    const db = admin.firestore();
+    const [folderSnap, ownerSnap, workspaceSnap] = await Promise.all([
+      db.doc(`users/${workspaceId}/folders/${folderId}`).get(),
+      db.doc(`users/${userId}`).get(),
+      db.doc(`users/${workspaceId}`).get(),
+    ]);
+    if (!folderSnap.exists) {
+      throw new HttpsError("not-found", "Folder not found.");
+    }
+
+    const receiptIds = ((folderSnap.get("receiptIds") as string[] | undefined) ?? []).slice(0, MAX_SHARED_RECEIPTS);
+    const receiptSnaps = receiptIds.length ?
+      await db.getAll(...receiptIds.map((receiptId) => db.doc(`users/${workspaceId}/receipts/${receiptId}`))) :
+      [];
+    const homeCurrency = normalizeCurrencyCode(workspaceSnap.get("homeCurrency")) ?? DEFAULT_HOME_CURRENCY;
+
+    const receipts: FolderShareReceipt[] = receiptSnaps
+      .filter((receiptSnap) => receiptSnap.exists)
+      .map((receiptSnap) => {
+        const receipt = receiptSnap.data() ?? {};
+        const amount = getReceiptAmount(receipt);
+        return {
+          id: receiptSnap.id,
+          merchant: receipt.merchant?.canonicalName || receipt.merchant?.rawName || receipt.extraction?.supplierName?.value || "Unknown",
+          date: getReceiptDate(receipt),
+          amount,
+          currency: normalizeCurrencyCode(receipt.currency ?? receipt.extraction?.currency?.value) ?? homeCurrency,
+          homeAmount: amount === null ? null : getHomeCurrencyAmount(receipt, amount).amount,
+          categoryName: receipt.category?.name ?? null,
+          storagePath: includeThumbnails && typeof receipt.file?.storagePath === "string" ? receipt.file.storagePath : null,
+          mimeType: receipt.file?.mimeType ?? null,
+        };
+      })
+      .sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""));
+
+    const salt = password ? crypto.randomBytes(16).toString("base64") : null;
+    const shareRef = db.collection("folderShares").doc();
+    await shareRef.set({
+      userId,
+      workspaceId,
+      folderId,
+      folderName: folderSnap.get("name") ?? "Folder",
+      ownerName: includeName ? getOwnerName(ownerSnap.data()) : null,
+      currency: homeCurrency,
+      receipts,
+      receiptCount: receipts.length,
+      totalAmount: receipts.reduce((sum, receipt) => sum + (receipt.homeAmount ?? 0), 0),
+      includeThumbnails,
+      passwordSalt: salt,
+      passwordHash: password && salt ? hashPassword(password, salt) : null,
+      failedPasswordAttempts: 0,
+      passwordLockedUntil: null,
+      expiresAt: expiresInDays === null ?
+        null :
+        admin.firestore.Timestamp.fromMillis(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      revokedAt: null,
+      viewCount: 0,
+      lastViewedAt: null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { ok: true, shareId: shareRef.id };
+  }
+);
+
+/**
+ * Revoke a folder share. The link stops working immediately.
+ */
+export const revokeFolderShare = onCall(
+  { region: "us-central1" },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const shareId = typeof request.data?.shareId === "string" ? request.data.shareId : "";
+    if (!shareId) {
+      throw new HttpsError("invalid-argument", "Missing share.");
+    }
+
+    const shareRef = admin.firestore().doc(`folderShares/${shareId}`);
+    const shareSnap = await shareRef.get();
+    if (!shareSnap.exists || shareSnap.get("userId") !== request.auth.uid) {
+      throw new HttpsError("not-found", "Share not found.");
+    }
+
+    if (!shareSnap.get("revokedAt")) {
+      await shareRef.update({ revokedAt: admin.firestore.FieldValue.serverTimestamp() });
+    }
+    return { ok: true };
+  }
+);
+
+/**
+ * Public view of a folder share. Password-protected shares fail with
+ * details.passwordRequired until the right password is sent. Visits other
+ * than the owner's are counted.
+ */
+export const getFolderShare = onCall(
+  { region: "us-central1" },
+  async (request) => {
+    const shareId = typeof request.data?.shareId === "string" ? request.data.shareId : "";
+    const password = typeof request.data?.password === "string" ? request.data.password : "";
+    if (!shareId) {
+      throw new HttpsError("invalid-argument", "Missing share.");
+    }
+
+    const shareRef = admin.firestore().doc(`folderShares/${shareId}`);
+    const shareSnap = await shareRef.get();
+    const share = shareSnap.data();
+    if (!share) {
+      throw new HttpsError("not-found", "This share no longer exists.");
+    }
+    if (share.revokedAt) {
+      throw new HttpsError("permission-denied", "The owner has stopped sharing this folder.");
+    }
+    const expiresAt = share.expiresAt as admin.firestore.Timestamp | null;
+    if (expiresAt && expiresAt.toMillis() <= Date.now()) {
+      throw new HttpsError("deadline-exceeded", "This share has expired.", { expired: true });
+    }
+    if (share.passwordHash) {
+      if (!password) {
+        throw new HttpsError("unauthenticated", "This folder is password protected.", { passwordRequired: true });
+      }
+      const lockedUntil = share.passwordLockedUntil as admin.firestore.Timestamp | null | undefined;
+      if (lockedUntil && lockedUntil.toMillis() > Date.now()) {
+        throw new HttpsError(
+          "resource-exhausted",
+          "Too many wrong passwords. Try again in a few minutes.",
+          { passwordRequired: true }
+        );
+      }
+      if (!passwordMatches(password, share.passwordSalt, share.passwordHash)) {
+        await recordFailedPasswordAttempt(shareRef);
+        throw new HttpsError("permission-denied", "That password isn't right.", { passwordRequired: true });
+      }
+      if (share.failedPasswordAttempts) {
+        await shareRef.update({ failedPasswordAttempts: 0 });
+      }
+    }
+
+    const bucket = admin.storage().bucket();
+    const thumbnailExpires = Math.min(Date.now() + THUMBNAIL_URL_TTL_MS, expiresAt?.toMillis() ?? Infinity);
+    const receipts = await Promise.all((share.receipts as FolderShareReceipt[]).map(async ({ storagePath, ...receipt }) => {
+      let thumbnailUrl: string | null = null;
+      if (share.includeThumbnails && storagePath) {
+        try {
+          [thumbnailUrl] = await bucket.file(storagePath).getSignedUrl({ action: "read", expires: thumbnailExpires });
+        } catch (error) {
+          logger.warn("Failed to sign folder share thumbnail", { shareId, receiptId: receipt.id, error });
+        }
+      }
+      return { ...receipt, thumbnailUrl };
+    }));
+
+    if (request.auth?.uid !== share.userId) {
+      await countShareView(shareRef, request.auth?.uid ?? request.rawRequest?.ip);
+    }
+
+    return {
+      id: shareId,
+      folderName: share.folderName,
+      ownerName: share.ownerName,
+      currency: share.currency,
+      totalAmount: share.totalAmount,
+      receiptCount: share.receiptCount,
+      expiresAt: expiresAt ? expiresAt.toDate().toISOString() : null,
+      createdAt: share.createdAt?.toDate?.().toISOString() ?? null,
+      receipts,
+    };
+  }
+);
@@ -25,10 +25,18 @@ export {
   generateReceiptNote,
   backfillReceiptCategories,
   onReceiptCreatedUpdateUserCount,
-  onReceiptDeletedUpdateUserCount
+  onReceiptDeletedUpdateUserCount,
+  retryFailedReceipts,
+  retryReceiptProcessing
 } from "./receipt-processor";
 export { createCheckoutSession, createPortalSession, stripeWebhook } from "./billing";
 export { generateAiInsights } from "./ai-insights";
+export { onReceiptWrittenUpdateMonthlySummary, backfillMonthlySummaries } from "./monthly-summaries";
+export { onReceiptCategoryCorrected, reapplyCategorizationRules } from "./categorization-rules";
+export { onReceiptWrittenConvertCurrency, updateHomeCurrency } from "./currency";
+export { resolveDuplicateReceipt } from "./duplicates";
+export { onMonthlySummaryWrittenCheckBudgets } from "./budgets";
+export { refreshRecurringExpenses, dispatchRecurringExpenseDetection } from "./recurring";
 export {
   sendTestEmail,
   sendCustomAdminEmail,
@@ -51,3 +59,21 @@ export { sendPasswordResetEmail, sendVerificationEmail, sendWelcomeEmail } from
 export { generateReceiptForwardingAddress, inboundEmailWebhook } from "./email-ingest";
 export { telegramWebhook, generateTelegramLinkToken, setupTelegramWebhook, onTelegramReceiptProcessed } from "./telegram";
 export { deleteUserAccount } from "./account";
+export {
+  inviteWorkspaceMember,
+  respondToWorkspaceInvite,
+  updateWorkspaceMemberRole,
+  removeWorkspaceMember,
+  revokeWorkspaceInvite,
+} from "./workspaces";
+export { createAccountantAccess, revokeAccountantAccess, getAccountantShare } from "./accountant-access";
+export { createFolderShare, revokeFolderShare, getFolderShare } from "./folder-shares";
+export { checkShareExpiry, recordShareView, purgeExpiredShares } from "./share-links";
+export {
+  onReceiptWrittenUpdateMerchantStats,
+  onMerchantWrittenUpdateIndex,
+  recalculateMerchantStats,
+  renameMerchant,
+  mergeMerchants,
+} from "./merchants";
+export { reprocessReceipts, resolveReprocessedFields } from "./reprocessing";
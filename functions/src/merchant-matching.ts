@@ -0,0 +1,405 @@
+/**
+ * Merchant Matching
+ *
+ * Maps the store name read off a receipt to a canonical merchant in
+ * users/{userId}/merchants, creating one when nothing matches. Shared by the
+ * upload processor and email ingest.
+ *
+ * Each merchant document carries a small index, kept by the merchant write
+ * trigger:
+ * - aliasKeys: the normalized key of its name and every alias, so exact and
+ *   alias matches are a single array-contains query.
+ * - matchPrefixes: the first letters of each word, used to pull a handful of
+ *   candidates for fuzzy scoring instead of reading the whole collection.
+ * Merchants created before the index existed are still found by their exact
+ * name or alias, and indexed when that happens.
+ *
+ * Names are normalized before comparing: payment-terminal prefixes ("SQ *",
+ * "TST*"), store numbers and company suffixes are dropped. Fuzzy scores are
+ * token based, so "Shell" doesn't match "Shellfish Shack" but "Walmart" still
+ * matches "Walmart Supercenter #1234". A name that only starts like another
+ * ("Uber" / "Uber Eats") is offered as a candidate but never merged on its
+ * own. The scored candidates are returned, and kept on the receipt when the
+ * match isn't certain, for review.
+ */
+
+import * as admin from "firebase-admin";
+import { logger } from "firebase-functions";
+
+export type MerchantMatchType = "exact" | "fuzzy" | "alias" | "ai" | "manual";
+
+export interface MerchantCandidate {
+  merchantId: string;
+  name: string;
+  score: number;
+}
+
+export interface ReceiptMerchant {
+  canonicalId?: string;
+  canonicalName: string;
+  rawName: string;
+  matchConfidence: number;
+  matchedBy: MerchantMatchType;
+  /** Other merchants this name could be, best first, when the match isn't certain */
+  candidates?: MerchantCandidate[];
+}
+
+export interface MerchantIndex {
+  aliasKeys: string[];
+  matchPrefixes: string[];
+}
+
+/** Fuzzy scores at or above this pick an existing merchant. */
+export const MERCHANT_MATCH_THRESHOLD = 0.8;
+/** Fuzzy scores at or above this are offered as candidates. */
+const CANDIDATE_THRESHOLD = 0.5;
+const MAX_CANDIDATES = 3;
+const CANDIDATE_QUERY_LIMIT = 25;
+const MAX_QUERY_PREFIXES = 10;
+const PREFIX_LENGTH = 4;
+const FUZZY_TOKEN_THRESHOLD = 0.8;
+const MAX_NAME_WORDS = 3;
+const MAX_INDEXED_ALIASES = 100;
+
+// Card-terminal and marketplace prefixes, e.g. "SQ *BLUE BOTTLE", "TST* Joe's",
+// "PAYPAL *STEAM", "SP * Allbirds"
+const POS_PREFIX_PATTERN =
+  /^(?:sq|tst|sp|pp|paypal|py|ic|dd|clv|clover|sumup|zettle|izettle|iz|wpy|toast|ls|sqr)\s*\*\s*/i;
+// "#1234", "store 1234", "no. 12", "str 0042"
+const STORE_NUMBER_PATTERN = /(?:#|\b(?:store|str|no\.?|unit|loc)\s*#?)\s*\d+\b/gi;
+const COMPANY_SUFFIX_PATTERN = /\b(?:inc|llc|ltd|limited|corp|corporation|company|gmbh|plc|pty)\b\.?/gi;
+const STOP_WORDS = new Set(["the", "and", "of"]);
+// Words that describe the kind of store rather than a different business,
+// so "Costco Wholesale" is still Costco but "Target Optical" is not Target.
+const GENERIC_STORE_WORDS = new Set([
+  "supercenter", "superstore", "wholesale", "store", "stores", "shop", "market", "supermarket", "center", "centre",
+]);
+
+/**
+ * Lowercase words of a merchant name with prefixes, store numbers and
+ * company suffixes removed.
+ */
+export function tokenizeMerchantName(name: string | null | undefined): string[] {
+  return (name ?? "")
+    .replace(POS_PREFIX_PATTERN, "")
+    .replace(STORE_NUMBER_PATTERN, " ")
+    .replace(COMPANY_SUFFIX_PATTERN, " ")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    // Remaining long numbers are terminal or store IDs
+    .filter((token) => token && !STOP_WORDS.has(token) && !/^\d{3,}$/.test(token));
+}
+
+/**
+ * The key two spellings of the same merchant share, e.g. "wal mart" and
+ * "WALMART #1234" are both "walmart".
+ */
+export const merchantNameKey = (name: string | null | undefined): string =>
+  tokenizeMerchantName(name).join("");
+
+/**
+ * Display name for a new merchant: the raw name without terminal prefixes and
+ * store numbers, trimmed to a few words.
+ */
+export function cleanMerchantName(rawName: string): string {
+  const cleaned = rawName
+    .replace(POS_PREFIX_PATTERN, "")
+    .replace(STORE_NUMBER_PATTERN, " ")
+    .replace(/\s+\d{3,}\s*$/, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .split(" ")
+    .slice(0, MAX_NAME_WORDS)
+    .join(" ");
+  return cleaned || rawName.trim();
+}
+
+const bigrams = (value: string): string[] => {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    grams.push(value.slice(i, i + 2));
+  }
+  return grams;
+};
+
+// Dice coefficient over character bigrams
+const diceSimilarity = (left: string, right: string): number => {
+  if (left === right) return 1;
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (!leftGrams.length || !rightGrams.length) return 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of leftGrams) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  let overlap = 0;
+  for (const gram of rightGrams) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * overlap) / (leftGrams.length + rightGrams.length);
+};
+
+// Equal words count fully; long words a letter or two apart ("starbuks")
+// count by how close they are. Short words must be equal.
+const tokenSimilarity = (left: string, right: string): number => {
+  if (left === right) return 1;
+  if (left.length < PREFIX_LENGTH || right.length < PREFIX_LENGTH) return 0;
+  const similarity = diceSimilarity(left, right);
+  return similarity >= FUZZY_TOKEN_THRESHOLD ? similarity : 0;
+};
+
+/**
+ * 0..1 similarity of two merchant names.
+ *
+ * Words are paired greedily by tokenSimilarity and scored like a Dice
+ * coefficient over words. A shorter name that is the start of the longer one
+ * scores 0.85 when the extra words only describe the store ("Costco" /
+ * "Costco Wholesale") and 0.7 otherwise ("Uber" / "Uber Eats"), below the
+ * match threshold. Names that only differ in spacing ("Wal Mart" / "Walmart")
+ * score 0.95.
+ */
+export function scoreMerchantNames(a: string | null | undefined, b: string | null | undefined): number {
+  const left = tokenizeMerchantName(a);
+  const right = tokenizeMerchantName(b);
+  if (!left.length || !right.length) return 0;
+
+  const leftKey = left.join("");
+  const rightKey = right.join("");
+  if (left.join(" ") === right.join(" ")) return 1;
+  if (leftKey === rightKey) return 0.95;
+
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  const isLeadingMatch = shorter.join("").length >= 3 &&
+    shorter.every((token, index) => token === longer[index]);
+  if (isLeadingMatch) {
+    return longer.slice(shorter.length).every((token) => GENERIC_STORE_WORDS.has(token)) ? 0.85 : 0.7;
+  }
+
+  const unmatched = [...longer];
+  let total = 0;
+  for (const token of shorter) {
+    let bestIndex = -1;
+    let bestScore = 0;
+    unmatched.forEach((candidate, index) => {
+      const score = tokenSimilarity(token, candidate);
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) {
+      total += bestScore;
+      unmatched.splice(bestIndex, 1);
+    }
+  }
+  return Math.round(((2 * total) / (left.length + right.length)) * 1000) / 1000;
+}
+
+const getMatchPrefixes = (names: string[]): string[] =>
+  Array.from(new Set(names.flatMap((name) => tokenizeMerchantName(name).map((token) => token.slice(0, PREFIX_LENGTH)))));
+
+/**
+ * Index fields for a merchant document, from its name and aliases.
+ */
+export function buildMerchantIndex(merchant: admin.firestore.DocumentData | undefined): MerchantIndex {
+  const aliases: unknown[] = Array.isArray(merchant?.aliases) ? merchant!.aliases.slice(0, MAX_INDEXED_ALIASES) : [];
+  const names = [merchant?.canonicalName, ...aliases].filter((name): name is string => typeof name === "string" && !!name.trim());
+  return {
+    aliasKeys: Array.from(new Set(names.map(merchantNameKey).filter(Boolean))),
+    matchPrefixes: getMatchPrefixes(names),
+  };
+}
+
+const sameIndexValues = (left: unknown, right: string[]): boolean =>
+  Array.isArray(left) && left.length === right.length && left.every((value, index) => value === right[index]);
+
+/**
+ * Whether a merchant document's stored index is out of date.
+ */
+export const isMerchantIndexStale = (merchant: admin.firestore.DocumentData): boolean => {
+  const index = buildMerchantIndex(merchant);
+  return !sameIndexValues(merchant.aliasKeys, index.aliasKeys) ||
+    !sameIndexValues(merchant.matchPrefixes, index.matchPrefixes);
+};
+
+const scoreMerchantDoc = (rawName: string, merchant: admin.firestore.DocumentData): number => {
+  const names = [merchant.canonicalName, ...(Array.isArray(merchant.aliases) ? merchant.aliases : [])];
+  return Math.max(0, ...names.filter((name) => typeof name === "string").map((name) => scoreMerchantNames(rawName, name)));
+};
+
+/**
+ * Merchants that could be this name, best first. Reads only merchants that
+ * share a word prefix with it, up to CANDIDATE_QUERY_LIMIT per prefix so one
+ * common prefix can't crowd out the others.
+ */
+export async function findMerchantCandidates(userId: string, rawName: string): Promise<MerchantCandidate[]> {
+  const prefixes = getMatchPrefixes([rawName]).slice(0, MAX_QUERY_PREFIXES);
+  if (!prefixes.length) return [];
+
+  const merchantsRef = admin.firestore().collection(`users/${userId}/merchants`);
+  const snapshots = await Promise.all(prefixes.map((prefix) =>
+    merchantsRef.where("matchPrefixes", "array-contains", prefix).limit(CANDIDATE_QUERY_LIMIT).get()
+  ));
+  const merchantDocs = new Map(snapshots.flatMap((snapshot) => snapshot.docs).map((merchantDoc) => [merchantDoc.id, merchantDoc]));
+
+  return Array.from(merchantDocs.values())
+    .map((merchantDoc) => ({
+      merchantId: merchantDoc.id,
+      name: String(merchantDoc.get("canonicalName") ?? ""),
+      score: scoreMerchantDoc(rawName, merchantDoc.data()),
+    }))
+    .filter((candidate) => candidate.name && candidate.score >= CANDIDATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Find a merchant by its exact alias or name without using the index, for
+ * merchants created before it existed. A merchant found this way gets its
+ * index written so later lookups find it directly, unless `writeIndex` is
+ * false.
+ */
+async function findUnindexedMerchant(
+  merchantsRef: admin.firestore.CollectionReference,
+  rawName: string,
+  writeIndex: boolean
+): Promise<admin.firestore.QueryDocumentSnapshot | null> {
+  const lookups = [
+    merchantsRef.where("aliases", "array-contains", rawName),
+    merchantsRef.where("canonicalName", "==", cleanMerchantName(rawName)),
+  ];
+
+  for (const lookup of lookups) {
+    const merchantDoc = (await lookup.limit(1).get()).docs[0];
+    if (!merchantDoc) continue;
+
+    if (writeIndex && isMerchantIndexStale(merchantDoc.data())) {
+      await merchantDoc.ref.update({ ...buildMerchantIndex(merchantDoc.data()) });
+    }
+    return merchantDoc;
+  }
+  return null;
+}
+
+/**
+ * Match a merchant name to an existing merchant without writing anything.
+ * A name that matches nothing comes back without a canonicalId; pass the
+ * result to saveMerchantMatch to create it, or to learn a fuzzy match's alias.
+ */
+export async function resolveMerchant(
+  userId: string,
+  rawName: string,
+  confidence: number,
+  options: { writeIndex?: boolean } = {}
+): Promise<ReceiptMerchant> {
+  const merchantsRef = admin.firestore().collection(`users/${userId}/merchants`);
+  const key = merchantNameKey(rawName);
+
+  if (key) {
+    const aliasSnap = await merchantsRef.where("aliasKeys", "array-contains", key).limit(1).get();
+    const aliasDoc = aliasSnap.docs[0];
+    if (aliasDoc) {
+      const canonicalName = String(aliasDoc.get("canonicalName") ?? rawName);
+      return {
+        canonicalId: aliasDoc.id,
+        canonicalName,
+        rawName,
+        matchConfidence: 1.0,
+        matchedBy: merchantNameKey(canonicalName) === key ? "exact" : "alias",
+      };
+    }
+  }
+
+  try {
+    const legacyDoc = await findUnindexedMerchant(merchantsRef, rawName, options.writeIndex ?? true);
+    if (legacyDoc) {
+      const canonicalName = String(legacyDoc.get("canonicalName") ?? rawName);
+      return {
+        canonicalId: legacyDoc.id,
+        canonicalName,
+        rawName,
+        matchConfidence: 1.0,
+        matchedBy: merchantNameKey(canonicalName) === key ? "exact" : "alias",
+      };
+    }
+  } catch (error) {
+    logger.warn("Failed to look up unindexed merchant", { userId, rawName, error });
+  }
+
+  let candidates: MerchantCandidate[] = [];
+  try {
+    candidates = await findMerchantCandidates(userId, rawName);
+  } catch (error) {
+    logger.warn("Failed to look up merchant candidates", { userId, rawName, error });
+  }
+
+  const [best, ...others] = candidates;
+  if (best && best.score >= MERCHANT_MATCH_THRESHOLD) {
+    return {
+      canonicalId: best.merchantId,
+      canonicalName: best.name,
+      rawName,
+      matchConfidence: best.score,
+      matchedBy: "fuzzy",
+      ...(others.length ? { candidates: others } : {}),
+    };
+  }
+
+  return {
+    canonicalName: cleanMerchantName(rawName),
+    rawName,
+    matchConfidence: confidence,
+    matchedBy: "ai",
+    ...(candidates.length ? { candidates } : {}),
+  };
+}
+
+/**
+ * Write what resolveMerchant found to the merchant directory: a fuzzy match
+ * learns the raw name as an alias so the next receipt matches exactly, and an
+ * unmatched name becomes a new merchant. Returns the merchant with its ID.
+ */
+export async function saveMerchantMatch(userId: string, merchant: ReceiptMerchant): Promise<ReceiptMerchant> {
+  const merchantsRef = admin.firestore().collection(`users/${userId}/merchants`);
+
+  if (merchant.canonicalId) {
+    if (merchant.matchedBy === "fuzzy") {
+      await merchantsRef.doc(merchant.canonicalId).update({
+        aliases: admin.firestore.FieldValue.arrayUnion(merchant.rawName),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    return merchant;
+  }
+
+  const fields = { canonicalName: merchant.canonicalName, aliases: [merchant.rawName] };
+  const merchantRef = await merchantsRef.add({
+    userId,
+    ...fields,
+    ...buildMerchantIndex(fields),
+    receiptCount: 0,
+    totalSpend: 0,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return { ...merchant, canonicalId: merchantRef.id };
+}
+
+/**
+ * Normalize a merchant name and match it to an existing merchant, creating a
+ * new one when nothing scores high enough. A fuzzy match learns the raw name
+ * as an alias so the next receipt matches exactly.
+ */
+export async function normalizeMerchant(
+  userId: string,
+  rawName: string,
+  confidence: number
+): Promise<ReceiptMerchant> {
+  return saveMerchantMatch(userId, await resolveMerchant(userId, rawName, confidence));
+}
@@ -0,0 +1,325 @@
+/**
+ * Merchant Directory
+ *
+ * users/{workspaceId}/merchants holds one document per canonical merchant,
+ * created by normalizeMerchant the first time a receipt from a new store is
+ * processed. Receipts point at it through merchant.canonicalId.
+ *
+ * Every receipt write moves the receipt's count and home-currency amount
+ * between the merchants it pointed at before and after, so receiptCount and
+ * totalSpend stay current. Renaming and merging rewrite the receipts that
+ * point at a merchant; aliases and the default category are edited from the
+ * app directly. Whatever changes a merchant's name or aliases, the matching
+ * index (see merchant-matching.ts) is rebuilt from them on write.
+ */
+
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { getReceiptHomeAmount } from "./currency";
+import { buildMerchantIndex, isMerchantIndexStale } from "./merchant-matching";
+import { canAddReceipts, getWorkspaceRole } from "./workspaces";
+
+const WRITE_BATCH_SIZE = 400;
+const MAX_MERCHANT_NAME_LENGTH = 120;
+const MAX_ALIASES = 100;
+const FIRESTORE_NOT_FOUND = 5;
+
+interface MerchantContribution {
+  merchantId: string;
+  amount: number;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const buildMerchantContribution = (receipt: admin.firestore.DocumentData | undefined): MerchantContribution | null => {
+  const merchantId = receipt?.merchant?.canonicalId;
+  if (typeof merchantId !== "string" || !merchantId) return null;
+  return { merchantId, amount: roundCurrency(getReceiptHomeAmount(receipt!)) };
+};
+
+/**
+ * Aliases without blanks or case-insensitive repeats, first spelling wins.
+ */
+const mergeAliases = (...lists: unknown[][]): string[] => {
+  const seen = new Set<string>();
+  const aliases: string[] = [];
+  for (const value of lists.flat()) {
+    if (typeof value !== "string") continue;
+    const alias = value.trim();
+    const key = alias.toLowerCase();
+    if (!alias || seen.has(key)) continue;
+    seen.add(key);
+    aliases.push(alias);
+  }
+  return aliases.slice(0, MAX_ALIASES);
+};
+
+/**
+ * Run writes in batches under Firestore's 500-operation limit.
+ */
+async function commitInBatches(writes: Array<(batch: admin.firestore.WriteBatch) => void>): Promise<void> {
+  const db = admin.firestore();
+  for (let index = 0; index < writes.length; index += WRITE_BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(index, index + WRITE_BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
+
+/**
+ * Check the caller can edit the workspace and return its ID.
+ */
+async function requireEditableWorkspace(request: { auth?: { uid: string }; data?: Record<string, unknown> }): Promise<string> {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+
+  const workspaceId = typeof request.data?.workspaceId === "string" && request.data.workspaceId ?
+    request.data.workspaceId :
+    request.auth.uid;
+  if (!canAddReceipts(await getWorkspaceRole(workspaceId, request.auth.uid))) {
+    throw new HttpsError("permission-denied", "You can't edit merchants in this workspace.");
+  }
+  return workspaceId;
+}
+
+/**
+ * The category the user picked for a merchant, used for new receipts from
+ * that merchant when no categorization rule matches.
+ */
+export async function getMerchantDefaultCategoryId(userId: string, merchantId: string | undefined): Promise<string | null> {
+  if (!merchantId) return null;
+
+  try {
+    const merchantSnap = await admin.firestore().doc(`users/${userId}/merchants/${merchantId}`).get();
+    const categoryId = merchantSnap.get("defaultCategoryId");
+    return typeof categoryId === "string" && categoryId ? categoryId : null;
+  } catch (error) {
+    logger.warn("Failed to load merchant default category", { userId, merchantId, error });
+    return null;
+  }
+}
+
+export const onReceiptWrittenUpdateMerchantStats = onDocumentWritten(
+  {
+    document: "users/{userId}/receipts/{receiptId}",
+    region: "us-central1",
+    memory: "256MiB",
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const { userId, receiptId } = event.params;
+    const before = buildMerchantContribution(event.data?.before.data());
+    const after = buildMerchantContribution(event.data?.after.data());
+    if (before?.merchantId === after?.merchantId && before?.amount === after?.amount) {
+      return;
+    }
+
+    const changes = new Map<string, { count: number; spend: number }>();
+    const addChange = (contribution: MerchantContribution | null, sign: number) => {
+      if (!contribution) return;
+      const change = changes.get(contribution.merchantId) ?? { count: 0, spend: 0 };
+      change.count += sign;
+      change.spend += sign * contribution.amount;
+      changes.set(contribution.merchantId, change);
+    };
+    addChange(before, -1);
+    addChange(after, 1);
+
+    const db = admin.firestore();
+    await Promise.all(Array.from(changes.entries()).map(async ([merchantId, change]) => {
+      try {
+        await db.doc(`users/${userId}/merchants/${merchantId}`).update({
+          receiptCount: admin.firestore.FieldValue.increment(change.count),
+          totalSpend: admin.firestore.FieldValue.increment(roundCurrency(change.spend)),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      } catch (error) {
+        // A merchant merged away or deleted takes its stats with it
+        if ((error as { code?: number }).code === FIRESTORE_NOT_FOUND) return;
+        logger.error("Failed to update merchant stats", { userId, receiptId, merchantId, error });
+      }
+    }));
+  }
+);
+
+/**
+ * Keep aliasKeys and matchPrefixes in step with the merchant's name and
+ * aliases, however they were edited.
+ */
+export const onMerchantWrittenUpdateIndex = onDocumentWritten(
+  {
+    document: "users/{userId}/merchants/{merchantId}",
+    region: "us-central1",
+    memory: "256MiB",
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const merchant = event.data?.after.data();
+    if (!merchant || !isMerchantIndexStale(merchant)) return;
+
+    try {
+      await event.data!.after.ref.update({ ...buildMerchantIndex(merchant) });
+    } catch (error) {
+      if ((error as { code?: number }).code === FIRESTORE_NOT_FOUND) return;
+      logger.error("Failed to update merchant index", { ...event.params, error });
+    }
+  }
+);
+
+/**
+ * Recount receiptCount and totalSpend for every merchant in a workspace from
+ * its receipts, and rebuild each merchant's matching index. Fixes merchants
+ * created before stats and the index were kept.
+ */
+export const recalculateMerchantStats = onCall(
+  {
+    region: "us-central1",
+    memory: "512MiB",
+    timeoutSeconds: 300,
+  },
+  async (request) => {
+    const workspaceId = await requireEditableWorkspace(request);
+    const db = admin.firestore();
+
+    const [merchantsSnap, receiptsSnap] = await Promise.all([
+      db.collection(`users/${workspaceId}/merchants`).get(),
+      db.collection(`users/${workspaceId}/receipts`).get(),
+    ]);
+
+    const stats = new Map<string, { count: number; spend: number }>();
+    for (const receiptDoc of receiptsSnap.docs) {
+      const contribution = buildMerchantContribution(receiptDoc.data());
+      if (!contribution) continue;
+      const merchantStats = stats.get(contribution.merchantId) ?? { count: 0, spend: 0 };
+      merchantStats.count += 1;
+      merchantStats.spend += contribution.amount;
+      stats.set(contribution.merchantId, merchantStats);
+    }
+
+    await commitInBatches(merchantsSnap.docs.map((merchantDoc) => (batch) => {
+      const merchantStats = stats.get(merchantDoc.id);
+      batch.update(merchantDoc.ref, {
+        ...buildMerchantIndex(merchantDoc.data()),
+        receiptCount: merchantStats?.count ?? 0,
+        totalSpend: roundCurrency(merchantStats?.spend ?? 0),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }));
+
+    return { ok: true, merchantCount: merchantsSnap.size };
+  }
+);
+
+/**
+ * Rename a merchant and every receipt that points at it. The old name is kept
+ * as an alias so future receipts still match.
+ */
+export const renameMerchant = onCall(
+  {
+    region: "us-central1",
+    timeoutSeconds: 300,
+  },
+  async (request) => {
+    const workspaceId = await requireEditableWorkspace(request);
+    const merchantId = typeof request.data?.merchantId === "string" ? request.data.merchantId : "";
+    const name = typeof request.data?.name === "string" ? request.data.name.trim().slice(0, MAX_MERCHANT_NAME_LENGTH) : "";
+    if (!merchantId || !name) {
+      throw new HttpsError("invalid-argument", "Enter a name for the merchant.");
+    }
+
+    const db = admin.firestore();
+    const merchantsRef = db.collection(`users/${workspaceId}/merchants`);
+    const [merchantSnap, sameNameSnap] = await Promise.all([
+      merchantsRef.doc(merchantId).get(),
+      merchantsRef.where("canonicalName", "==", name).limit(2).get(),
+    ]);
+    if (!merchantSnap.exists) {
+      throw new HttpsError("not-found", "Merchant not found.");
+    }
+    if (sameNameSnap.docs.some((merchantDoc) => merchantDoc.id !== merchantId)) {
+      throw new HttpsError("already-exists", `Another merchant is already called ${name}. Merge the two instead.`);
+    }
+
+    const receiptsSnap = await db
+      .collection(`users/${workspaceId}/receipts`)
+      .where("merchant.canonicalId", "==", merchantId)
+      .get();
+
+    await commitInBatches([
+      (batch) => batch.update(merchantSnap.ref, {
+        canonicalName: name,
+        aliases: mergeAliases(merchantSnap.get("aliases") ?? [], [merchantSnap.get("canonicalName")]),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }),
+      ...receiptsSnap.docs.map((receiptDoc) => (batch: admin.firestore.WriteBatch) => batch.update(receiptDoc.ref, {
+        "merchant.canonicalName": name,
+        "updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+      })),
+    ]);
+
+    logger.info("Merchant renamed", { workspaceId, merchantId, receiptCount: receiptsSnap.size });
+    return { ok: true, updatedReceipts: receiptsSnap.size };
+  }
+);
+
+/**
+ * Merge one merchant into another: receipts are re-pointed at the target,
+ * the source's name and aliases become aliases of the target, and the
+ * source is deleted. Stats follow the receipts.
+ */
+export const mergeMerchants = onCall(
+  {
+    region: "us-central1",
+    timeoutSeconds: 300,
+  },
+  async (request) => {
+    const workspaceId = await requireEditableWorkspace(request);
+    const sourceId = typeof request.data?.sourceMerchantId === "string" ? request.data.sourceMerchantId : "";
+    const targetId = typeof request.data?.targetMerchantId === "string" ? request.data.targetMerchantId : "";
+    if (!sourceId || !targetId || sourceId === targetId) {
+      throw new HttpsError("invalid-argument", "Choose two different merchants to merge.");
+    }
+
+    const db = admin.firestore();
+    const merchantsRef = db.collection(`users/${workspaceId}/merchants`);
+    const [sourceSnap, targetSnap] = await Promise.all([
+      merchantsRef.doc(sourceId).get(),
+      merchantsRef.doc(targetId).get(),
+    ]);
+    if (!sourceSnap.exists || !targetSnap.exists) {
+      throw new HttpsError("not-found", "Merchant not found.");
+    }
+
+    const targetName = targetSnap.get("canonicalName");
+    const receiptsSnap = await db
+      .collection(`users/${workspaceId}/receipts`)
+      .where("merchant.canonicalId", "==", sourceId)
+      .get();
+
+    // Receipts first, so the source is only deleted once nothing points at it
+    await commitInBatches(receiptsSnap.docs.map((receiptDoc) => (batch) => batch.update(receiptDoc.ref, {
+      "merchant.canonicalId": targetId,
+      "merchant.canonicalName": targetName,
+      "updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+    })));
+
+    const batch = db.batch();
+    batch.update(targetSnap.ref, {
+      aliases: mergeAliases(
+        targetSnap.get("aliases") ?? [],
+        [sourceSnap.get("canonicalName")],
+        sourceSnap.get("aliases") ?? []
+      ),
+      defaultCategoryId: targetSnap.get("defaultCategoryId") || sourceSnap.get("defaultCategoryId") || null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    batch.delete(sourceSnap.ref);
+    await batch.commit();
+
+    logger.info("Merchants merged", { workspaceId, sourceId, targetId, receiptCount: receiptsSnap.size });
+    return { ok: true, movedReceipts: receiptsSnap.size };
+  }
+);
@@ -0,0 +1,448 @@
+/**
+ * Monthly Summary Aggregation
+ *
+ * Keeps users/{userId}/monthlySummaries/{YYYY-MM} in sync with the user's
+ * receipts. Every receipt write removes the receipt's previous contribution
+ * from its old month and adds the new contribution to its current month, so
+ * edits that move a receipt between months stay correct.
+ */
+
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertAdmin } from "./authz";
+import { getHomeCurrencyAmount } from "./currency";
+import { getSplitShares } from "./receipt-splits";
+
+const MAX_SUMMARY_BACKFILL_USERS = 50;
+const SUMMARY_WRITE_BATCH_SIZE = 400;
+const UNCATEGORIZED_ID = "other";
+const UNCATEGORIZED_NAME = "Other";
+const UNKNOWN_MERCHANT_NAME = "Unknown";
+
+interface CategoryBreakdown {
+  categoryId: string;
+  categoryName: string;
+  total: number;
+  count: number;
+}
+
+interface MerchantBreakdown {
+  merchantId: string;
+  merchantName: string;
+  total: number;
+  count: number;
+}
+
+interface MonthlySummaryData {
+  id: string;
+  userId: string;
+  currency: string | null;
+  totalSpend: number;
+  receiptCount: number;
+  byCategory: Record<string, CategoryBreakdown>;
+  byMerchant: Record<string, MerchantBreakdown>;
+  dailyTotals: Record<string, number>;
+}
+
+interface CategoryShare {
+  categoryId: string;
+  categoryName: string;
+  amount: number;
+}
+
+/**
+ * What a single receipt adds to a monthly summary. A split receipt
+ * contributes one category share per split; otherwise the whole amount goes
+ * to the receipt's category.
+ */
+interface ReceiptContribution {
+  monthId: string;
+  day: number;
+  amount: number;
+  currency: string | null;
+  categories: CategoryShare[];
+  merchantId: string;
+  merchantName: string;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const parseAmount = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  if (typeof value === "string") {
+    const parsed = Number.parseFloat(value.replace(/[^0-9.-]/g, ""));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  return null;
+};
+
+/**
+ * Resolve the receipt's calendar date as { year, month, day }.
+ * Mirrors the web app: explicit date, then extracted date, then createdAt.
+ */
+const resolveReceiptDate = (
+  receipt: admin.firestore.DocumentData
+): { year: number; month: number; day: number } | null => {
+  const candidates: unknown[] = [receipt.date, receipt.extraction?.date?.value];
+
+  for (const candidate of candidates) {
+    if (typeof candidate !== "string") continue;
+    const match = candidate.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (match) {
+      return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+    }
+
+    const parsed = new Date(candidate);
+    if (!Number.isNaN(parsed.getTime())) {
+      return { year: parsed.getUTCFullYear(), month: parsed.getUTCMonth() + 1, day: parsed.getUTCDate() };
+    }
+  }
+
+  const createdAt = receipt.createdAt;
+  if (createdAt && typeof createdAt.toDate === "function") {
+    const parsed: Date = createdAt.toDate();
+    return { year: parsed.getUTCFullYear(), month: parsed.getUTCMonth() + 1, day: parsed.getUTCDate() };
+  }
+
+  return null;
+};
+
+const buildMerchantKey = (receipt: admin.firestore.DocumentData, merchantName: string): string => {
+  const canonicalId = typeof receipt.merchant?.canonicalId === "string" ? receipt.merchant.canonicalId.trim() : "";
+  if (canonicalId) {
+    return canonicalId;
+  }
+
+  const slug = merchantName.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return slug || "unknown";
+};
+
+/**
+ * Resolve how a receipt's amount is divided between categories: its splits
+ * when they add up to the total, otherwise all of it in its own category.
+ */
+const resolveCategoryShares = (
+  receipt: admin.firestore.DocumentData,
+  amount: number
+): CategoryShare[] => getSplitShares(receipt, amount) ?? [{
+  categoryId: String(receipt.category?.id || UNCATEGORIZED_ID),
+  categoryName: String(receipt.category?.name || UNCATEGORIZED_NAME),
+  amount,
+}];
+
+/**
+ * Build the summary contribution for a receipt, or null when the receipt has
+ * no usable amount or date yet (e.g. still uploading or processing). Amounts
+ * are in the user's home currency once the receipt has been converted.
+ */
+function buildReceiptContribution(
+  receipt: admin.firestore.DocumentData | undefined
+): ReceiptContribution | null {
+  if (!receipt) {
+    return null;
+  }
+
+  const sourceAmount = parseAmount(receipt.totalAmount) ?? parseAmount(receipt.extraction?.totalAmount?.value);
+  if (sourceAmount === null || sourceAmount <= 0) {
+    return null;
+  }
+  const { amount, factor, currency } = getHomeCurrencyAmount(receipt, sourceAmount);
+
+  const date = resolveReceiptDate(receipt);
+  if (!date) {
+    return null;
+  }
+
+  const merchantName = String(
+    receipt.merchant?.canonicalName || receipt.merchant?.rawName || UNKNOWN_MERCHANT_NAME
+  ).trim() || UNKNOWN_MERCHANT_NAME;
+
+  return {
+    monthId: `${date.year}-${String(date.month).padStart(2, "0")}`,
+    day: date.day,
+    amount,
+    currency,
+    categories: resolveCategoryShares(receipt, sourceAmount).map((share) => ({
+      ...share,
+      amount: roundCurrency(share.amount * factor),
+    })),
+    merchantId: buildMerchantKey(receipt, merchantName),
+    merchantName,
+  };
+}
+
+const isSameContribution = (a: ReceiptContribution | null, b: ReceiptContribution | null) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const createEmptySummary = (userId: string, monthId: string): MonthlySummaryData => ({
+  id: monthId,
+  userId,
+  currency: null,
+  totalSpend: 0,
+  receiptCount: 0,
+  byCategory: {},
+  byMerchant: {},
+  dailyTotals: {},
+});
+
+const normalizeSummary = (
+  userId: string,
+  monthId: string,
+  data: admin.firestore.DocumentData | undefined
+): MonthlySummaryData => ({
+  ...createEmptySummary(userId, monthId),
+  currency: typeof data?.currency === "string" ? data.currency : null,
+  totalSpend: Number(data?.totalSpend ?? 0),
+  receiptCount: Number(data?.receiptCount ?? 0),
+  byCategory: { ...(data?.byCategory ?? {}) },
+  byMerchant: { ...(data?.byMerchant ?? {}) },
+  dailyTotals: { ...(data?.dailyTotals ?? {}) },
+});
+
+/**
+ * Add (sign = 1) or remove (sign = -1) a contribution from a summary in place.
+ * Entries whose count drops to zero are removed so stale categories and
+ * merchants do not linger after edits.
+ */
+function applyContribution(
+  summary: MonthlySummaryData,
+  contribution: ReceiptContribution,
+  sign: 1 | -1
+): void {
+  const delta = contribution.amount * sign;
+
+  summary.totalSpend = roundCurrency(summary.totalSpend + delta);
+  summary.receiptCount = Math.max(0, summary.receiptCount + sign);
+  if (sign > 0 && contribution.currency) {
+    summary.currency = contribution.currency;
+  }
+
+  for (const share of contribution.categories) {
+    const category = summary.byCategory[share.categoryId] ?? {
+      categoryId: share.categoryId,
+      categoryName: share.categoryName,
+      total: 0,
+      count: 0,
+    };
+    category.total = roundCurrency(category.total + share.amount * sign);
+    category.count += sign;
+    if (sign > 0) {
+      category.categoryName = share.categoryName;
+    }
+    if (category.count <= 0) {
+      delete summary.byCategory[share.categoryId];
+    } else {
+      summary.byCategory[share.categoryId] = category;
+    }
+  }
+
+  const merchant = summary.byMerchant[contribution.merchantId] ?? {
+    merchantId: contribution.merchantId,
+    merchantName: contribution.merchantName,
+    total: 0,
+    count: 0,
+  };
+  merchant.total = roundCurrency(merchant.total + delta);
+  merchant.count += sign;
+  if (sign > 0) {
+    merchant.merchantName = contribution.merchantName;
+  }
+  if (merchant.count <= 0) {
+    delete summary.byMerchant[contribution.merchantId];
+  } else {
+    summary.byMerchant[contribution.merchantId] = merchant;
+  }
+
+  const dayKey = String(contribution.day);
+  const dayTotal = roundCurrency((summary.dailyTotals[dayKey] ?? 0) + delta);
+  if (Math.abs(dayTotal) < 0.005) {
+    delete summary.dailyTotals[dayKey];
+  } else {
+    summary.dailyTotals[dayKey] = dayTotal;
+  }
+
+  if (summary.receiptCount === 0) {
+    summary.totalSpend = 0;
+  }
+}
+
+export const onReceiptWrittenUpdateMonthlySummary = onDocumentWritten(
+  {
+    document: "users/{userId}/receipts/{receiptId}",
+    region: "us-central1",
+    memory: "256MiB",
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const { userId, receiptId } = event.params;
+    const before = buildReceiptContribution(event.data?.before.data());
+    const after = buildReceiptContribution(event.data?.after.data());
+
+    if (isSameContribution(before, after)) {
+      return;
+    }
+
+    const db = admin.firestore();
+    const summariesPath = `users/${userId}/monthlySummaries`;
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const monthIds = Array.from(
+          new Set([before?.monthId, after?.monthId].filter((value): value is string => !!value))
+        );
+        const refs = monthIds.map((monthId) => db.doc(`${summariesPath}/${monthId}`));
+        const snapshots = await Promise.all(refs.map((ref) => transaction.get(ref)));
+
+        const summaries = new Map<string, MonthlySummaryData>();
+        snapshots.forEach((snapshot, index) => {
+          summaries.set(monthIds[index], normalizeSummary(userId, monthIds[index], snapshot.data()));
+        });
+
+        if (before) {
+          applyContribution(summaries.get(before.monthId)!, before, -1);
+        }
+        if (after) {
+          applyContribution(summaries.get(after.monthId)!, after, 1);
+        }
+
+        refs.forEach((ref, index) => {
+          const summary = summaries.get(monthIds[index])!;
+          if (summary.receiptCount <= 0) {
+            transaction.delete(ref);
+            return;
+          }
+          transaction.set(ref, {
+            ...summary,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        });
+      });
+    } catch (error) {
+      logger.error("Failed to update monthly summary", { userId, receiptId, error });
+    }
+  }
+);
+
+/**
+ * Rebuild every monthly summary for a user from their receipts.
+ */
+async function rebuildMonthlySummariesForUser(userId: string): Promise<number> {
+  const db = admin.firestore();
+  const receiptsSnap = await db.collection(`users/${userId}/receipts`).get();
+
+  const summaries = new Map<string, MonthlySummaryData>();
+  for (const receiptDoc of receiptsSnap.docs) {
+    const contribution = buildReceiptContribution(receiptDoc.data());
+    if (!contribution) continue;
+
+    const summary = summaries.get(contribution.monthId) ?? createEmptySummary(userId, contribution.monthId);
+    applyContribution(summary, contribution, 1);
+    summaries.set(contribution.monthId, summary);
+  }
+
+  const summariesRef = db.collection(`users/${userId}/monthlySummaries`);
+  const existingSnap = await summariesRef.get();
+
+  const writes: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+  for (const existingDoc of existingSnap.docs) {
+    if (!summaries.has(existingDoc.id)) {
+      writes.push((batch) => batch.delete(existingDoc.ref));
+    }
+  }
+  for (const [monthId, summary] of summaries) {
+    writes.push((batch) =>
+      batch.set(summariesRef.doc(monthId), {
+        ...summary,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      })
+    );
+  }
+
+  for (let index = 0; index < writes.length; index += SUMMARY_WRITE_BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(index, index + SUMMARY_WRITE_BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+
+  return summaries.size;
+}
+
+/**
+ * Recompute monthly summaries for existing accounts.
+ *
+ * Pass { userIds: [...] } to rebuild specific users, or omit it to rebuild
+ * the first page of users ordered by ID (use { startAfter } to page).
+ * Callable by authenticated admins only.
+ */
+export const backfillMonthlySummaries = onCall(
+  {
+    region: "us-central1",
+    memory: "1GiB",
+    timeoutSeconds: 540,
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    await assertAdmin(request.auth.uid, request.auth.token as Record<string, unknown>);
+
+    const db = admin.firestore();
+    const requestedUserIds = Array.isArray(request.data?.userIds)
+      ? request.data.userIds
+        .filter((value: unknown): value is string => typeof value === "string")
+        .map((value: string) => value.trim())
+        .filter((value: string) => value.length > 0)
+      : [];
+
+    let userIds: string[];
+    let nextStartAfter: string | null = null;
+    if (requestedUserIds.length > 0) {
+      userIds = Array.from(new Set<string>(requestedUserIds)).slice(0, MAX_SUMMARY_BACKFILL_USERS);
+    } else {
+      const startAfter = typeof request.data?.startAfter === "string" ? request.data.startAfter : "";
+      let usersQuery = db
+        .collection("users")
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(MAX_SUMMARY_BACKFILL_USERS);
+      if (startAfter) {
+        usersQuery = usersQuery.startAfter(startAfter);
+      }
+      const usersSnap = await usersQuery.get();
+      userIds = usersSnap.docs.map((doc) => doc.id);
+      nextStartAfter = usersSnap.size === MAX_SUMMARY_BACKFILL_USERS ? userIds[userIds.length - 1] : null;
+    }
+
+    let monthsWritten = 0;
+    const failedUserIds: string[] = [];
+    for (const userId of userIds) {
+      try {
+        monthsWritten += await rebuildMonthlySummariesForUser(userId);
+      } catch (error) {
+        logger.error("Failed to rebuild monthly summaries", { userId, error });
+        failedUserIds.push(userId);
+      }
+    }
+
+    logger.info("Backfilled monthly summaries", {
+      requestedBy: request.auth.uid,
+      userCount: userIds.length,
+      monthsWritten,
+      failedCount: failedUserIds.length,
+    });
+
+    return {
+      ok: true,
+      processedUsers: userIds.length - failedUserIds.length,
+      monthsWritten,
+      failedUserIds,
+      nextStartAfter,
+    };
+  }
+);
@@ -0,0 +1,156 @@
+/**
+ * Processing Failures
+ *
+ * What happens when processReceipt can't finish. Each error is given a reason
+ * code. Transient ones (Vertex AI overloaded, rate limited, timed out, or a
+ * garbled model response) are retried with backoff by retryFailedReceipts;
+ * the receipt stays "processing" with processingError.nextRetryAt set.
+ * Permanent errors, and transient ones that run out of attempts, move the
+ * receipt to the terminal "failed" status and add an entry to
+ * processingDeadLetters for the admins.
+ *
+ * Users can start again from the app with retryReceiptProcessing.
+ */
+
+import * as admin from "firebase-admin";
+import { logger } from "firebase-functions";
+
+export type ProcessingFailureReason =
+  | "model_unavailable"
+  | "rate_limited"
+  | "invalid_model_response"
+  | "unreadable_file"
+  | "file_missing"
+  | "not_permitted"
+  | "unknown";
+
+export interface ProcessingFailure {
+  reason: ProcessingFailureReason;
+  message: string;
+  retryable: boolean;
+}
+
+/** Attempts in total, the first run included. */
+export const MAX_PROCESSING_ATTEMPTS = 4;
+/** Wait before each automatic retry; retry n waits RETRY_DELAYS_MINUTES[n - 1]. */
+const RETRY_DELAYS_MINUTES = [5, 20, 60];
+const MAX_ERROR_MESSAGE_LENGTH = 500;
+
+const RETRYABLE_REASONS = new Set<ProcessingFailureReason>([
+  "model_unavailable",
+  "rate_limited",
+  "invalid_model_response",
+  "unknown",
+]);
+
+// gRPC status codes some Google clients put on errors
+const GRPC_DEADLINE_EXCEEDED = 4;
+const GRPC_RESOURCE_EXHAUSTED = 8;
+const GRPC_UNAVAILABLE = 14;
+
+/**
+ * An error processReceipt raises when it already knows why it stopped.
+ */
+export class ReceiptProcessingError extends Error {
+  constructor(readonly reason: ProcessingFailureReason, message: string) {
+    super(message);
+    this.name = "ReceiptProcessingError";
+  }
+}
+
+/**
+ * Give an error from processing a reason code and say whether it's worth
+ * trying again.
+ */
+export function classifyProcessingError(error: unknown): ProcessingFailure {
+  const message = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_MESSAGE_LENGTH);
+  const code = (error as { code?: unknown } | null)?.code;
+  const status = typeof code === "number" ? code : Number((error as { status?: unknown } | null)?.status);
+
+  let reason: ProcessingFailureReason = "unknown";
+  if (error instanceof ReceiptProcessingError) {
+    reason = error.reason;
+  } else if (status === 429 || code === GRPC_RESOURCE_EXHAUSTED || /\b429\b|resource[_ ]exhausted|quota|rate limit/i.test(message)) {
+    reason = "rate_limited";
+  } else if (
+    [500, 502, 503, 504, GRPC_DEADLINE_EXCEEDED, GRPC_UNAVAILABLE].includes(status) ||
+    /\b50[0234]\b|unavailable|deadline|timed? ?out|ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up|internal error/i.test(message)
+  ) {
+    reason = "model_unavailable";
+  } else if (/empty response|parse gemini response/i.test(message)) {
+    reason = "invalid_model_response";
+  } else if (status === 404 || /no such object|not found/i.test(message)) {
+    reason = "file_missing";
+  } else if (status === 400 || /\b400\b|invalid[_ ]argument|unsupported|unable to process|could not decode/i.test(message)) {
+    reason = "unreadable_file";
+  }
+
+  return { reason, message, retryable: RETRYABLE_REASONS.has(reason) };
+}
+
+/**
+ * Record a failed processing attempt. Schedules another attempt when the
+ * error is transient and attempts remain; otherwise marks the receipt failed
+ * and dead-letters it. `attempt` is the number of the attempt that failed.
+ * Returns the status the receipt was left in.
+ */
+export async function recordProcessingFailure(
+  receiptRef: admin.firestore.DocumentReference,
+  error: unknown,
+  attempt: number
+): Promise<"processing" | "failed"> {
+  const failure = classifyProcessingError(error);
+  const willRetry = failure.retryable && attempt < MAX_PROCESSING_ATTEMPTS;
+  const now = admin.firestore.Timestamp.now();
+  const retryDelayMinutes = RETRY_DELAYS_MINUTES[Math.min(attempt, RETRY_DELAYS_MINUTES.length) - 1];
+
+  const processingError = {
+    reason: failure.reason,
+    message: failure.message,
+    retryable: failure.retryable,
+    attempts: attempt,
+    failedAt: now,
+    nextRetryAt: willRetry ?
+      admin.firestore.Timestamp.fromMillis(now.toMillis() + retryDelayMinutes * 60 * 1000) :
+      null,
+  };
+
+  await receiptRef.update({
+    status: willRetry ? "processing" : "failed",
+    processingError,
+    processedAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  const [, userId, , receiptId] = receiptRef.path.split("/");
+  if (willRetry) {
+    logger.warn("Receipt processing failed, will retry", { userId, receiptId, ...failure, attempt, retryDelayMinutes });
+    return "processing";
+  }
+
+  logger.error("Receipt processing failed for good", { userId, receiptId, ...failure, attempt });
+  try {
+    await admin.firestore().doc(`processingDeadLetters/${userId}_${receiptId}`).set({
+      userId,
+      receiptId,
+      reason: failure.reason,
+      message: failure.message,
+      attempts: attempt,
+      failedAt: now,
+    });
+  } catch (deadLetterError) {
+    logger.error("Failed to dead-letter receipt", { userId, receiptId, error: deadLetterError });
+  }
+  return "failed";
+}
+
+/**
+ * Drop the failure record once a receipt has been processed.
+ */
+export async function clearProcessingFailure(userId: string, receiptId: string): Promise<void> {
+  try {
+    await admin.firestore().doc(`processingDeadLetters/${userId}_${receiptId}`).delete();
+  } catch (error) {
+    logger.warn("Failed to clear dead-lettered receipt", { userId, receiptId, error });
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Receipt Corrections
+ *
+ * Turns short free-text corrections into receipt updates, for Telegram
+ * replies such as "total was 42.18", "it's Costco not Cost" or "category
+ * groceries". Parsing is rule based: each clause of the message is matched
+ * against a handful of phrasings for the merchant, total, date and category.
+ *
+ * Applied corrections count as the user's own values (assignedBy "user",
+ * matchedBy "manual") and each changed field is appended to the receipt's
+ * editHistory.
+ */
+
+import * as admin from "firebase-admin";
+import { formatCurrency } from "./ai-insights";
+import { CategoryDefinition } from "./receipt-processor";
+
+export type ReceiptCorrection =
+  | { field: "merchant"; value: string }
+  | { field: "totalAmount"; value: number }
+  | { field: "date"; value: string }
+  | { field: "category"; value: CategoryDefinition };
+
+export type ReceiptEditSource = "telegram";
+
+export interface ParsedCorrections {
+  corrections: ReceiptCorrection[];
+  /** Clauses that didn't read as a correction */
+  unrecognized: string[];
+}
+
+export interface AppliedEdit {
+  field: ReceiptCorrection["field"];
+  from: string | number | null;
+  to: string | number;
+}
+
+export const MAX_MERCHANT_NAME_LENGTH = 120;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Clauses are split on new lines and semicolons, and on ", " or " and " when
+// the next words start another correction
+const CLAUSE_SPLIT_PATTERN =
+  /\s*[\n;]\s*|(?:\s*,\s*(?:and\s+)?|\s+and\s+)(?=(?:the\s+)?(?:total|amount|price|paid|category|store|merchant|shop|vendor|date|it'?s|it\s+is|it\s+was)\b)/i;
+const CATEGORY_PATTERN = /^(?:the\s+)?category\s*(?:is|was|should\s+be|to|=|:)?\s+(.+)$/i;
+const AMOUNT_PATTERN = /^(?:the\s+)?(?:total|amount|price|paid|sum)\b\D*?(\d[\d.,]*)/i;
+const BARE_AMOUNT_PATTERN = /^[^\d\s]{0,3}\s?\d[\d.,]*\s?[a-z]{0,3}$/i;
+const DATE_CORRECTION_PATTERN = /^(?:the\s+)?date\s*(?:is|was|should\s+be|=|:)?\s*(\d{4}-\d{2}-\d{2})$/i;
+const MERCHANT_PATTERN =
+  /^(?:the\s+)?(?:store|merchant|shop|vendor)(?:\s+name)?\s*(?:is|was|should\s+be|to|=|:)?\s+(.+)$/i;
+const ITS_PATTERN = /^(?:it'?s|it\s+is|it\s+was|that'?s|that\s+was)\s+(.+?)(?:,?\s+not\s+.+)?$/i;
+const NOT_BUT_PATTERN = /^not\s+.+?,?\s+(?:it'?s|it\s+is|but)\s+(.+)$/i;
+// "not Cost" split off from "not Cost, it's Costco" only says what was wrong
+const NEGATED_CLAUSE_PATTERN = /^not\s+\S/i;
+
+const cleanValue = (value: string): string => value.trim().replace(/^["']|["'.!]+$/g, "").trim();
+
+/**
+ * Whether a YYYY-MM-DD string is a real calendar date, so "2025-02-30" isn't.
+ */
+export const isCalendarDate = (value: string): boolean => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Read a typed amount such as "12.50", "$1,234.50" or "12,50".
+ */
+export const parseAmountInput = (text: string): number | null => {
+  let cleaned = text.replace(/[^\d.,]/g, "");
+  if (cleaned.includes(".") || /,\d{3}$/.test(cleaned)) {
+    cleaned = cleaned.replace(/,/g, "");
+  } else {
+    cleaned = cleaned.replace(",", ".");
+  }
+  const amount = Number.parseFloat(cleaned);
+  return Number.isFinite(amount) && amount > 0 ? Math.round(amount * 100) / 100 : null;
+};
+
+/**
+ * Match a category by ID or name, or by a name prefix when only one fits.
+ */
+export function findCategoryByName(categories: CategoryDefinition[], query: string): CategoryDefinition | undefined {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return undefined;
+
+  const exact = categories.find((c) => c.id === needle || c.name.toLowerCase() === needle);
+  if (exact) return exact;
+
+  const prefixMatches = categories.filter((c) => c.name.toLowerCase().startsWith(needle));
+  return prefixMatches.length === 1 ? prefixMatches[0] : undefined;
+}
+
+function parseClause(clause: string, categories: CategoryDefinition[]): ReceiptCorrection | null {
+  const categoryMatch = clause.match(CATEGORY_PATTERN);
+  if (categoryMatch) {
+    const category = findCategoryByName(categories, cleanValue(categoryMatch[1]));
+    return category ? { field: "category", value: category } : null;
+  }
+
+  const dateMatch = clause.match(DATE_CORRECTION_PATTERN);
+  if (dateMatch) {
+    return isCalendarDate(dateMatch[1]) ? { field: "date", value: dateMatch[1] } : null;
+  }
+
+  const amountMatch = clause.match(AMOUNT_PATTERN) ?? (BARE_AMOUNT_PATTERN.test(clause) ? [clause, clause] : null);
+  if (amountMatch) {
+    const amount = parseAmountInput(amountMatch[1]);
+    return amount === null ? null : { field: "totalAmount", value: amount };
+  }
+
+  const merchantMatch = clause.match(MERCHANT_PATTERN);
+  if (merchantMatch) {
+    const name = cleanValue(merchantMatch[1]).slice(0, MAX_MERCHANT_NAME_LENGTH);
+    return name ? { field: "merchant", value: name } : null;
+  }
+
+  // "it's Costco not Cost" / "not Cost, it's Costco". A bare category name
+  // ("it's groceries") is read as the category rather than the store.
+  const namedMatch = clause.match(NOT_BUT_PATTERN) ?? clause.match(ITS_PATTERN);
+  if (namedMatch) {
+    const name = cleanValue(namedMatch[1]).slice(0, MAX_MERCHANT_NAME_LENGTH);
+    if (!name) return null;
+    if (BARE_AMOUNT_PATTERN.test(name)) {
+      const amount = parseAmountInput(name);
+      return amount === null ? null : { field: "totalAmount", value: amount };
+    }
+    const category = categories.find((c) => c.name.toLowerCase() === name.toLowerCase() || c.id === name.toLowerCase());
+    return category ? { field: "category", value: category } : { field: "merchant", value: name };
+  }
+
+  // A category name on its own ("groceries")
+  const category = categories.find((c) => c.name.toLowerCase() === clause.toLowerCase() || c.id === clause.toLowerCase());
+  return category ? { field: "category", value: category } : null;
+}
+
+/**
+ * Split a message into clauses and read each one as a correction. A later
+ * correction to the same field replaces an earlier one.
+ */
+export function parseReceiptCorrections(text: string, categories: CategoryDefinition[]): ParsedCorrections {
+  const byField = new Map<ReceiptCorrection["field"], ReceiptCorrection>();
+  const unrecognized: string[] = [];
+
+  for (const rawClause of text.split(CLAUSE_SPLIT_PATTERN)) {
+    const clause = rawClause?.trim();
+    if (!clause) continue;
+
+    const correction = parseClause(clause, categories);
+    if (correction) {
+      byField.set(correction.field, correction);
+    } else if (!NEGATED_CLAUSE_PATTERN.test(clause)) {
+      unrecognized.push(clause);
+    }
+  }
+
+  return { corrections: Array.from(byField.values()), unrecognized };
+}
+
+const getCurrentValue = (receipt: admin.firestore.DocumentData, field: ReceiptCorrection["field"]): string | number | null => {
+  switch (field) {
+    case "merchant":
+      return receipt.merchant?.canonicalName || receipt.merchant?.rawName || null;
+    case "totalAmount":
+      return typeof receipt.totalAmount === "number" ? receipt.totalAmount : null;
+    case "date":
+      return typeof receipt.date === "string" ? receipt.date : null;
+    case "category":
+      return receipt.category?.name ?? null;
+  }
+};
+
+/**
+ * Apply corrections to a receipt and append them to its editHistory. Values
+ * that already match are skipped. Returns the edits that were made.
+ */
+export async function applyReceiptCorrections(
+  receiptRef: admin.firestore.DocumentReference,
+  receipt: admin.firestore.DocumentData,
+  corrections: ReceiptCorrection[],
+  userId: string,
+  source: ReceiptEditSource
+): Promise<AppliedEdit[]> {
+  const update: Record<string, unknown> = {};
+  const edits: AppliedEdit[] = [];
+
+  for (const correction of corrections) {
+    const from = getCurrentValue(receipt, correction.field);
+
+    if (correction.field === "merchant") {
+      if (from === correction.value) continue;
+      update.merchant = {
+        canonicalName: correction.value,
+        rawName: receipt.merchant?.rawName || correction.value,
+        matchConfidence: 1.0,
+        matchedBy: "manual",
+      };
+      edits.push({ field: "merchant", from, to: correction.value });
+    } else if (correction.field === "totalAmount") {
+      if (from === correction.value) continue;
+      update.totalAmount = correction.value;
+      edits.push({ field: "totalAmount", from, to: correction.value });
+    } else if (correction.field === "date") {
+      if (from === correction.value || !isCalendarDate(correction.value)) continue;
+      update.date = correction.value;
+      edits.push({ field: "date", from, to: correction.value });
+    } else {
+      if (receipt.category?.id === correction.value.id && receipt.category?.assignedBy === "user") continue;
+      update.category = {
+        id: correction.value.id,
+        name: correction.value.name,
+        confidence: 1.0,
+        assignedBy: "user",
+      };
+      edits.push({ field: "category", from, to: correction.value.name });
+    }
+  }
+
+  if (!edits.length) return edits;
+
+  const editedAt = admin.firestore.Timestamp.now();
+  await receiptRef.update({
+    ...update,
+    editHistory: admin.firestore.FieldValue.arrayUnion(
+      ...edits.map((edit) => ({ ...edit, assignedBy: "user", source, userId, editedAt }))
+    ),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return edits;
+}
+
+const FIELD_LABELS: Record<ReceiptCorrection["field"], string> = {
+  merchant: "Store",
+  totalAmount: "Total",
+  date: "Date",
+  category: "Category",
+};
+
+/**
+ * One line per edit, e.g. "Total: $42.81 → $42.18".
+ */
+export function describeEdits(edits: AppliedEdit[], currency: string): string {
+  const format = (edit: AppliedEdit, value: string | number | null) => {
+    if (value === null) return "none";
+    return edit.field === "totalAmount" && typeof value === "number" ? formatCurrency(value, currency) : String(value);
+  };
+  return edits.map((edit) => `${FIELD_LABELS[edit.field]}: ${format(edit, edit.from)} → ${format(edit, edit.to)}`).join("\n");
+}
@@ -7,12 +7,29 @@
 
 import { onDocumentCreated, onDocumentDeleted, onDocumentUpdated } from "firebase-functions/v2/firestore";
 import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
 import { logger } from "firebase-functions";
 import * as admin from "firebase-admin";
 import { VertexAI } from "@google-cloud/vertexai";
 import sharp from "sharp";
 import heicDecode from "heic-decode";
 import { assertAdmin } from "./authz";
+import {
+  CategorizationRule,
+  applyRuleSideEffects,
+  findMatchingRule,
+  loadUserRules,
+} from "./categorization-rules";
+import { buildDuplicateUpdate, computeContentHash } from "./duplicates";
+import { ReceiptMerchant, normalizeMerchant, resolveMerchant } from "./merchant-matching";
+import { getMerchantDefaultCategoryId } from "./merchants";
+import {
+  MAX_PROCESSING_ATTEMPTS,
+  ReceiptProcessingError,
+  clearProcessingFailure,
+  recordProcessingFailure,
+} from "./processing-failures";
+import { canAddReceipts, getWorkspaceRole } from "./workspaces";
 
 // Types
 interface ExtractedField<T> {
@@ -21,7 +38,15 @@ interface ExtractedField<T> {
   rawText?: string;
 }
 
-interface ExtractionResult {
+export interface LineItem {
+  description: string;
+  amount: number;
+  quantity?: number;
+  unitPrice?: number;
+  type: "item" | "tax" | "discount" | "fee";
+}
+
+export interface ExtractionResult {
   source: "gemini" | "manual";
   processedAt: admin.firestore.FieldValue;
   totalAmount?: ExtractedField<number>;
@@ -29,23 +54,18 @@ interface ExtractionResult {
   date?: ExtractedField<string>;
   supplierName?: ExtractedField<string>;
   aiCategory?: string;
+  lineItems?: LineItem[];
   overallConfidence: number;
+  version?: number; // Bumped each time the receipt is reprocessed; missing means 1
 }
 
 
-interface ReceiptMerchant {
-  canonicalId?: string;
-  canonicalName: string;
-  rawName: string;
-  matchConfidence: number;
-  matchedBy: "exact" | "fuzzy" | "alias" | "ai" | "manual";
-}
-
-interface ReceiptCategory {
+export interface ReceiptCategory {
   id: string;
   name: string;
   confidence: number;
   assignedBy: "ai" | "user" | "rule" | "default";
+  ruleId?: string;
 }
 
 interface ReceiptDoc {
@@ -69,8 +89,15 @@ const PROJECT_ID = process.env.GCLOUD_PROJECT || "receipt-nest";
 const VERTEX_LOCATION = "us-central1"; // Vertex AI location
 
 
+export interface CategoryDefinition {
+  id: string;
+  name: string;
+  keywords: string[];
+  isCustom?: boolean;
+}
+
 // Default categories for classification
-const CATEGORIES = [
+const CATEGORIES: CategoryDefinition[] = [
   { id: "groceries", name: "Groceries", keywords: ["grocery", "supermarket", "whole foods", "trader joe", "kroger", "aldi", "publix", "safeway", "piggly wiggly", "food lion", "h-e-b", "heb", "wegmans", "sprouts", "market basket"] },
   { id: "restaurants", name: "Restaurants & Dining", keywords: ["restaurant", "cafe", "coffee", "starbucks", "mcdonalds", "uber eats", "doordash", "grubhub", "chipotle", "chick-fil-a", "wendy", "burger king", "subway", "pizza", "taco bell", "denny", "ihop", "waffle house", "panera", "panda express", "popeyes", "dunkin", "tim hortons", "five guys", "wingstop", "buffalo wild wings", "applebee", "olive garden", "red lobster", "outback", "cracker barrel", "cheesecake factory", "dine-in", "takeout", "bistro", "grill", "bakery", "deli", "sushi", "ramen", "pho", "thai", "wok", "kitchen"] },
   { id: "shopping", name: "Shopping", keywords: ["amazon", "target", "walmart", "costco", "best buy", "retail", "dollar tree", "dollar general", "family dollar", "five below", "big lots", "sam's club", "bj's", "marshalls", "tj maxx", "ross", "burlington", "bed bath", "ikea", "wayfair", "etsy", "ebay"] },
@@ -91,7 +118,8 @@ const CATEGORIES = [
   { id: "other", name: "Other", keywords: [] },
 ];
 
-const VALID_CATEGORY_NAMES = CATEGORIES.map((c) => c.name);
+const MAX_LINE_ITEMS = 100;
+const LINE_ITEM_TYPES: LineItem["type"][] = ["item", "tax", "discount", "fee"];
 const USER_RECEIPT_STORAGE_PREFIX = "users/";
 
 const updateUserReceiptCount = async (userId: string, delta: number) => {
@@ -154,13 +182,69 @@ export const onReceiptDeletedUpdateUserCount = onDocumentDeleted(
   }
 );
 
+/**
+ * Load the user's custom categories (users/{userId}/categories) merged with
+ * the defaults. Custom categories go before "Other" and cannot shadow a
+ * default ID. Falls back to the defaults if the lookup fails.
+ */
+export async function loadUserCategories(userId: string): Promise<CategoryDefinition[]> {
+  try {
+    const snapshot = await admin.firestore().collection(`users/${userId}/categories`).get();
+    const defaultIds = new Set(CATEGORIES.map((c) => c.id));
+    const custom: CategoryDefinition[] = [];
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const name = typeof data.name === "string" ? data.name.trim() : "";
+      if (!name || defaultIds.has(doc.id)) continue;
+
+      custom.push({
+        id: doc.id,
+        name,
+        keywords: Array.isArray(data.keywords)
+          ? data.keywords
+            .filter((kw: unknown): kw is string => typeof kw === "string" && kw.trim().length > 0)
+            .map((kw: string) => kw.trim().toLowerCase())
+          : [],
+        isCustom: true,
+      });
+    }
+
+    if (!custom.length) {
+      return CATEGORIES;
+    }
+
+    return [
+      ...CATEGORIES.filter((c) => c.id !== "other"),
+      ...custom,
+      ...CATEGORIES.filter((c) => c.id === "other"),
+    ];
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn("Failed to load custom categories, using defaults", { userId, message });
+    return CATEGORIES;
+  }
+}
+
+/**
+ * Categories in the order their keywords are tried: the user's own first, so
+ * their keywords win over a default that matches the same merchant.
+ */
+export function orderForKeywordMatching(categories: CategoryDefinition[]): CategoryDefinition[] {
+  return [
+    ...categories.filter((c) => c.isCustom),
+    ...categories.filter((c) => !c.isCustom),
+  ];
+}
+
 /**
  * Simple, robust Gemini extraction for receipts
  * Single pass with clear instructions - optimized for reliability
  */
 async function extractWithGemini(
   fileBuffer: Buffer,
-  mimeType: string
+  mimeType: string,
+  categories: CategoryDefinition[] = CATEGORIES
 ): Promise<ExtractionResult> {
   const vertexAI = new VertexAI({
     project: PROJECT_ID,
@@ -173,7 +257,7 @@ async function extractWithGemini(
     model: "gemini-2.5-flash",
     generationConfig: {
       temperature: 0.1,
-      maxOutputTokens: 1024,
+      maxOutputTokens: 8192,
       responseMimeType: "application/json",
     },
   });
@@ -188,7 +272,11 @@ async function extractWithGemini(
 
   const base64Image = fileBuffer.toString("base64");
 
-  const categoryList = VALID_CATEGORY_NAMES.join(", ");
+  const categoryList = categories.map((c) => c.name).join(", ");
+  const customCategoryHints = categories
+    .filter((c) => c.isCustom && c.keywords.length > 0)
+    .map((c) => `${c.name} (${c.keywords.slice(0, 10).join(", ")})`)
+    .join("; ");
 
   const prompt = `You are a receipt parser. Extract these fields from the receipt image:
 
@@ -197,7 +285,12 @@ async function extractWithGemini(
   "merchant": "Store Name",
   "date": "2024-01-15",
   "currency": "USD",
-  "category": "Groceries"
+  "category": "Groceries",
+  "lineItems": [
+    { "description": "Bananas", "quantity": 2, "unitPrice": 0.59, "amount": 1.18, "type": "item" },
+    { "description": "Member coupon", "amount": -1.00, "type": "discount" },
+    { "description": "Sales tax", "amount": 0.42, "type": "tax" }
+  ]
 }
 
 Instructions:
@@ -205,7 +298,8 @@ Instructions:
 - merchant: The store or business name, usually at the top of the receipt. Remove any store numbers like "#1234".
 - date: The transaction date in YYYY-MM-DD format.
 - currency: Default to "USD" for US receipts.
-- category: Classify the receipt into EXACTLY one of these categories: ${categoryList}. Examine the line items, merchant name, and overall context of the receipt to determine the best fit. Use "Other" ONLY if none of the categories fit.
+- category: Classify the receipt into EXACTLY one of these categories: ${categoryList}. Examine the line items, merchant name, and overall context of the receipt to determine the best fit. Use "Other" ONLY if none of the categories fit.${customCategoryHints ? ` The user created these categories themselves, prefer them when they fit: ${customCategoryHints}.` : ""}
+- lineItems: Every purchased line on the receipt, in printed order. Use type "item" for products, "tax" for tax lines, "discount" for coupons/markdowns/savings (negative amount), and "fee" for deposits, bag fees, tips or service charges. amount is the line total; include quantity and unitPrice only when printed. Expand abbreviated product names when obvious. Do NOT include subtotal, total, payment or change lines. Use an empty array if no lines are readable.
 
 Return ONLY the JSON object, no other text.`;
 
@@ -242,7 +336,7 @@ Return ONLY the JSON object, no other text.`;
     parsed = JSON.parse(responseText);
   } catch (parseError) {
     // Try to extract JSON from the response if it's wrapped in markdown
-    const jsonMatch = responseText.match(/\{[\s\S]*?\}/);
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
     if (jsonMatch) {
       try {
         parsed = JSON.parse(jsonMatch[0]);
@@ -327,6 +421,8 @@ Return ONLY the JSON object, no other text.`;
     }
   }
 
+  const lineItems = parseLineItems(parsed.lineItems ?? parsed.line_items ?? parsed.items);
+
   // Calculate confidence - be generous to avoid needs_review
   let confidence = 0.85;
   if (!totalValue || totalValue <= 0) {
@@ -341,6 +437,7 @@ Return ONLY the JSON object, no other text.`;
     date: dateValue,
     currency: currencyValue,
     aiCategory,
+    lineItemCount: lineItems.length,
     confidence
   });
 
@@ -361,10 +458,52 @@ Return ONLY the JSON object, no other text.`;
   if (merchantValue) {
     extractionResult.supplierName = { value: merchantValue, confidence, rawText: merchantValue };
   }
+  if (lineItems.length > 0) {
+    extractionResult.lineItems = lineItems;
+  }
 
   return extractionResult;
 }
 
+/**
+ * Normalize the line items Gemini returned.
+ * Discounts are always stored as negative amounts so lines sum to the total.
+ */
+function parseLineItems(value: unknown): LineItem[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const items: LineItem[] = [];
+  for (const raw of value.slice(0, MAX_LINE_ITEMS)) {
+    if (!raw || typeof raw !== "object") continue;
+    const entry = raw as Record<string, unknown>;
+
+    const description = String(entry.description ?? entry.name ?? entry.item ?? "").replace(/\s+/g, " ").trim();
+    const quantity = parsePositiveNumber(entry.quantity ?? entry.qty);
+    const unitPrice = parsePositiveNumber(entry.unitPrice ?? entry.unit_price ?? entry.price);
+    let amount = parseSignedNumber(entry.amount ?? entry.total ?? entry.lineTotal ?? entry.line_total);
+    if (amount === undefined && quantity !== undefined && unitPrice !== undefined) {
+      amount = Math.round(quantity * unitPrice * 100) / 100;
+    }
+    if (!description || amount === undefined) continue;
+
+    const rawType = String(entry.type ?? "item").toLowerCase().trim() as LineItem["type"];
+    const type = LINE_ITEM_TYPES.includes(rawType) ? rawType : "item";
+
+    const item: LineItem = {
+      description: description.slice(0, 200),
+      amount: type === "discount" ? -Math.abs(amount) : amount,
+      type,
+    };
+    if (quantity !== undefined) item.quantity = quantity;
+    if (unitPrice !== undefined) item.unitPrice = unitPrice;
+    items.push(item);
+  }
+
+  return items;
+}
+
 /**
  * Main Cloud Function - Triggered when a receipt document is created
  */
@@ -392,232 +531,426 @@ export const processReceipt = onDocumentCreated(
       return;
     }
 
-    // Get Firestore reference
-    const db = admin.firestore();
-    const receiptRef = db.doc(`users/${userId}/receipts/${receiptId}`);
+    // Manual and mileage entries are typed in by the user and have no file
+    if (receiptData.entryType === "manual" || receiptData.entryType === "mileage") {
+      logger.info(`Skipping processing for ${receiptData.entryType} entry ${receiptId}.`);
+      return;
+    }
 
-    try {
-      // Update status to processing
-      await receiptRef.update({
-        status: "processing",
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      });
+    await processReceiptAttempt(userId, receiptId, receiptData, 1);
+  }
+);
 
-      // Get the file from Storage
-      const storagePath = receiptData.file?.storagePath;
-      if (!storagePath) {
-        throw new Error("No storage path found in receipt document");
-      }
-      if (receiptData.userId !== userId) {
-        throw new Error("Receipt userId does not match the document owner");
-      }
-      if (!isOwnedReceiptStoragePath(userId, storagePath)) {
-        throw new Error("Receipt storage path does not belong to the document owner");
-      }
+/**
+ * One attempt at processing a receipt. Failures are classified and either
+ * retried later or left as "failed" (see processing-failures.ts). Returns the
+ * status the receipt ends up in.
+ */
+async function processReceiptAttempt(
+  userId: string,
+  receiptId: string,
+  receiptData: admin.firestore.DocumentData,
+  attempt: number
+): Promise<string> {
+  const receiptRef = admin.firestore().doc(`users/${userId}/receipts/${receiptId}`);
 
-      const bucket = admin.storage().bucket();
-      const file = bucket.file(storagePath);
-      const [fileBuffer] = await file.download();
-      let mimeType = receiptData.file?.mimeType || "application/octet-stream";
+  try {
+    await receiptRef.update({
+      status: "processing",
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
 
-      logger.info(`Downloaded file: ${storagePath}, size: ${fileBuffer.length} bytes, mimeType: ${mimeType}`);
+    const status = await runReceiptProcessing(userId, receiptId, receiptData);
+    if (receiptData.processingError) {
+      await clearProcessingFailure(userId, receiptId);
+    }
+    return status;
+  } catch (error) {
+    logger.error("Error processing receipt", { userId, receiptId, attempt, error });
+    return recordProcessingFailure(receiptRef, error, attempt);
+  }
+}
 
-      // Convert HEIC/HEIF to JPEG for processing
-      let processBuffer = fileBuffer;
-      let processMimeType = mimeType;
+export interface ReceiptAnalysis {
+  extraction: ExtractionResult;
+  merchant: ReceiptMerchant;
+  category: ReceiptCategory;
+  matchedRule: CategorizationRule | null;
+  contentHash: string;
+}
 
-      // Check if it's a HEIC/HEIF file (by mimeType or file extension)
-      const isHeic = mimeType === "image/heic" ||
-        mimeType === "image/heif" ||
-        storagePath.toLowerCase().endsWith(".heic") ||
-        storagePath.toLowerCase().endsWith(".heif");
+/**
+ * Read a receipt's file and work out its fields: Gemini extraction, merchant
+ * matching and categorization. Nothing is written to the receipt. With
+ * `saveMerchant: false` the merchant directory isn't touched either, and a
+ * new store comes back without a canonicalId. Throws when the file can't be
+ * processed.
+ */
+export async function analyzeReceipt(
+  userId: string,
+  receiptId: string,
+  receiptData: admin.firestore.DocumentData,
+  options: { saveMerchant?: boolean } = {}
+): Promise<ReceiptAnalysis> {
+  // Get the file from Storage
+  const storagePath = receiptData.file?.storagePath;
+  if (!storagePath) {
+    throw new ReceiptProcessingError("file_missing", "No storage path found in receipt document");
+  }
+  if (receiptData.userId !== userId) {
+    throw new ReceiptProcessingError("not_permitted", "Receipt userId does not match the document owner");
+  }
+  if (!isOwnedReceiptStoragePath(userId, storagePath)) {
+    throw new ReceiptProcessingError("not_permitted", "Receipt storage path does not belong to the document owner");
+  }
+  // Receipts added by a workspace member need that member to still be able to add receipts
+  const addedBy = receiptData.addedBy?.userId;
+  if (typeof addedBy === "string" && addedBy !== userId) {
+    const role = await getWorkspaceRole(userId, addedBy);
+    if (!canAddReceipts(role)) {
+      throw new ReceiptProcessingError(
+        "not_permitted",
+        "Receipt was added by someone who can no longer add receipts to this workspace"
+      );
+    }
+  }
 
-      if (isHeic) {
-        logger.info("Detected HEIC/HEIF image, attempting conversion to JPEG...");
+  const bucket = admin.storage().bucket();
+  const file = bucket.file(storagePath);
+  const [fileBuffer] = await file.download();
+  const contentHash = computeContentHash(fileBuffer);
+  let mimeType = receiptData.file?.mimeType || "application/octet-stream";
 
-        // Method 1: Try sharp first (might have native HEIC support)
-        let converted = false;
-        try {
-          const jpegBuffer = await sharp(fileBuffer)
-            .jpeg({ quality: 90 })
-            .toBuffer();
-          processBuffer = jpegBuffer;
-          processMimeType = "image/jpeg";
-          converted = true;
-          logger.info(`HEIC conversion with sharp successful, new size: ${processBuffer.length} bytes`);
-        } catch (sharpError: unknown) {
-          const errorMessage = sharpError instanceof Error ? sharpError.message : String(sharpError);
-          logger.warn(`Sharp HEIC conversion failed: ${errorMessage}. Trying heic-decode...`);
-        }
+  logger.info(`Downloaded file: ${storagePath}, size: ${fileBuffer.length} bytes, mimeType: ${mimeType}`);
 
-        // Method 2: Fallback to heic-decode (pure JavaScript, works everywhere)
-        if (!converted) {
-          try {
-            const { width, height, data } = await heicDecode({ buffer: fileBuffer });
-            logger.info(`HEIC decoded: ${width}x${height}, data length: ${data.length}`);
-
-            // heic-decode returns RGBA data (4 channels)
-            // Use sharp to properly encode as JPEG with correct color handling
-            const jpegBuffer = await sharp(Buffer.from(data), {
-              raw: {
-                width,
-                height,
-                channels: 4, // RGBA
-              },
-            })
-              .jpeg({ quality: 90 })
-              .toBuffer();
-
-            processBuffer = jpegBuffer;
-            processMimeType = "image/jpeg";
-            converted = true;
-            logger.info(`HEIC conversion with heic-decode + sharp successful, new size: ${processBuffer.length} bytes`);
-          } catch (heicDecodeError: unknown) {
-            const errorMessage = heicDecodeError instanceof Error ? heicDecodeError.message : String(heicDecodeError);
-            logger.error(`heic-decode conversion also failed: ${errorMessage}`);
-          }
-        }
+  // Convert HEIC/HEIF to JPEG for processing
+  let processBuffer = fileBuffer;
+  let processMimeType = mimeType;
 
-        // If still not converted, we'll try Gemini with the original file anyway
-        if (!converted) {
-          logger.warn("All HEIC conversion methods failed. Attempting Gemini with raw file...");
-          processMimeType = "image/jpeg"; // Tell Gemini it's JPEG anyway
-        }
-      }
+  // Check if it's a HEIC/HEIF file (by mimeType or file extension)
+  const isHeic = mimeType === "image/heic" ||
+    mimeType === "image/heif" ||
+    storagePath.toLowerCase().endsWith(".heic") ||
+    storagePath.toLowerCase().endsWith(".heif");
+
+  if (isHeic) {
+    logger.info("Detected HEIC/HEIF image, attempting conversion to JPEG...");
 
-      // Step 1: Gemini extraction for accurate receipt parsing
-      let extraction: ExtractionResult | null = null;
+    // Method 1: Try sharp first (might have native HEIC support)
+    let converted = false;
+    try {
+      const jpegBuffer = await sharp(fileBuffer)
+        .jpeg({ quality: 90 })
+        .toBuffer();
+      processBuffer = jpegBuffer;
+      processMimeType = "image/jpeg";
+      converted = true;
+      logger.info(`HEIC conversion with sharp successful, new size: ${processBuffer.length} bytes`);
+    } catch (sharpError: unknown) {
+      const errorMessage = sharpError instanceof Error ? sharpError.message : String(sharpError);
+      logger.warn(`Sharp HEIC conversion failed: ${errorMessage}. Trying heic-decode...`);
+    }
 
+    // Method 2: Fallback to heic-decode (pure JavaScript, works everywhere)
+    if (!converted) {
       try {
-        extraction = await extractWithGemini(processBuffer, processMimeType);
-        if (extraction) {
-          logger.info("Gemini extraction complete", {
-            confidence: extraction.overallConfidence,
-            total: extraction.totalAmount?.value,
-            merchant: extraction.supplierName?.value
-          });
-        }
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const errorStack = error instanceof Error ? error.stack : undefined;
-        logger.error("Two-pass Gemini extraction failed", {
-          message: errorMessage,
-          stack: errorStack,
-          mimeType: processMimeType,
-          bufferSize: processBuffer.length
-        });
+        const { width, height, data } = await heicDecode({ buffer: fileBuffer });
+        logger.info(`HEIC decoded: ${width}x${height}, data length: ${data.length}`);
+
+        // heic-decode returns RGBA data (4 channels)
+        // Use sharp to properly encode as JPEG with correct color handling
+        const jpegBuffer = await sharp(Buffer.from(data), {
+          raw: {
+            width,
+            height,
+            channels: 4, // RGBA
+          },
+        })
+          .jpeg({ quality: 90 })
+          .toBuffer();
+
+        processBuffer = jpegBuffer;
+        processMimeType = "image/jpeg";
+        converted = true;
+        logger.info(`HEIC conversion with heic-decode + sharp successful, new size: ${processBuffer.length} bytes`);
+      } catch (heicDecodeError: unknown) {
+        const errorMessage = heicDecodeError instanceof Error ? heicDecodeError.message : String(heicDecodeError);
+        logger.error(`heic-decode conversion also failed: ${errorMessage}`);
       }
+    }
 
-      // If we still have no extraction, mark for review
-      if (!extraction) {
-        await receiptRef.update({
-          status: "needs_review",
-          processedAt: admin.firestore.FieldValue.serverTimestamp(),
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
-        logger.warn("No extraction successful, marked for review");
-        return;
-      }
+    // If still not converted, we'll try Gemini with the original file anyway
+    if (!converted) {
+      logger.warn("All HEIC conversion methods failed. Attempting Gemini with raw file...");
+      processMimeType = "image/jpeg"; // Tell Gemini it's JPEG anyway
+    }
+  }
 
-      // Step 3: Normalize merchant name
-      const merchant = await normalizeMerchant(
-        userId,
-        extraction.supplierName?.value || "Unknown",
-        extraction.supplierName?.confidence || 0
-      );
+  // Step 1: Gemini extraction for accurate receipt parsing. Errors go to
+  // processReceiptAttempt, which decides whether to retry.
+  const categories = await loadUserCategories(userId);
+  const extraction = await extractWithGemini(processBuffer, processMimeType, categories);
+  logger.info("Gemini extraction complete", {
+    confidence: extraction.overallConfidence,
+    total: extraction.totalAmount?.value,
+    merchant: extraction.supplierName?.value
+  });
 
-      // Step 4: Classify category
-      const category = await classifyCategory(
-        merchant.canonicalName,
-        extraction
-      );
+  // Step 3: Normalize merchant name
+  const merchantName = extraction.supplierName?.value || "Unknown";
+  const merchantConfidence = extraction.supplierName?.confidence || 0;
+  const merchant = options.saveMerchant === false
+    ? await resolveMerchant(userId, merchantName, merchantConfidence, { writeIndex: false })
+    : await normalizeMerchant(userId, merchantName, merchantConfidence);
 
-      // Step 5: Determine final status
-      // Be lenient - if we have a total amount, approve it
-      const hasTotalAmount = extraction.totalAmount?.value !== undefined && extraction.totalAmount.value > 0;
-      const hasMerchant = extraction.supplierName?.value !== undefined;
-
-      // Auto-approve if we have a total amount - this is the most important field
-      // Users can always edit merchant/date later, but having SOME data is better than needs_review
-      let status: string;
-      if (hasTotalAmount) {
-        status = "final";
-        logger.info("Auto-approving receipt with total amount", {
-          totalAmount: extraction.totalAmount?.value,
-          merchant: extraction.supplierName?.value,
-          hasMerchant,
-          confidence: extraction.overallConfidence
-        });
-      } else {
-        status = "needs_review";
-        logger.warn("No total amount extracted, marking for review", {
-          merchant: extraction.supplierName?.value,
-          confidence: extraction.overallConfidence
-        });
-      }
+  // Step 4: Apply the user's categorization rules, then fall back to the
+  // Gemini/keyword category
+  let matchedRule: CategorizationRule | null = null;
+  try {
+    matchedRule = findMatchingRule(await loadUserRules(userId), {
+      merchantName: merchant.canonicalName,
+      rawMerchantName: merchant.rawName,
+      amount: extraction.totalAmount?.value ?? null,
+      text: (extraction.lineItems ?? []).map((item) => item.description),
+    });
+  } catch (ruleError: unknown) {
+    logger.warn("Failed to evaluate categorization rules", {
+      userId,
+      receiptId,
+      error: ruleError instanceof Error ? ruleError.message : String(ruleError),
+    });
+  }
 
-      // Step 6: Update receipt with extraction results
-      const updateData: Record<string, unknown> = {
-        status,
-        processedAt: admin.firestore.FieldValue.serverTimestamp(),
-        extraction,
-        merchant,
-        category,
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      };
+  const ruleCategory = matchedRule?.actions.categoryId
+    ? categories.find((c) => c.id === matchedRule?.actions.categoryId)
+    : undefined;
+  // Without a matching rule, the category the user set for the merchant wins
+  const merchantCategoryId = ruleCategory ? null : await getMerchantDefaultCategoryId(userId, merchant.canonicalId);
+  const merchantCategory = merchantCategoryId
+    ? categories.find((c) => c.id === merchantCategoryId)
+    : undefined;
+  const category: ReceiptCategory = ruleCategory && matchedRule
+    ? {
+      id: ruleCategory.id,
+      name: ruleCategory.name,
+      confidence: 0.95,
+      assignedBy: "rule",
+      ruleId: matchedRule.id,
+    }
+    : merchantCategory
+    ? {
+      id: merchantCategory.id,
+      name: merchantCategory.name,
+      confidence: 0.95,
+      assignedBy: "rule",
+    }
+    : await classifyCategory(
+      merchant.canonicalName,
+      extraction,
+      categories
+    );
 
-      // ALWAYS set final values if they exist (not just for high confidence)
-      logger.info(`Setting final values for ${receiptId}`, {
-        hasTotal: extraction.totalAmount?.value !== undefined,
-        totalValue: extraction.totalAmount?.value,
-        totalType: typeof extraction.totalAmount?.value,
-        hasCurrency: !!extraction.currency?.value,
-        hasDate: !!extraction.date?.value,
-      });
+  return { extraction, merchant, category, matchedRule, contentHash };
+}
 
-      if (extraction.totalAmount?.value !== undefined) {
-        updateData.totalAmount = extraction.totalAmount.value;
-        logger.info(`Adding totalAmount to update: ${extraction.totalAmount.value}`);
-      } else {
-        logger.warn(`No totalAmount to add for receipt ${receiptId}`);
-      }
+/**
+ * Extract, match and categorize a receipt and save the results. Throws when
+ * processing can't finish. Returns the receipt's new status.
+ */
+async function runReceiptProcessing(
+  userId: string,
+  receiptId: string,
+  receiptData: admin.firestore.DocumentData
+): Promise<string> {
+  const receiptRef = admin.firestore().doc(`users/${userId}/receipts/${receiptId}`);
+  const { extraction, merchant, category, matchedRule, contentHash } =
+    await analyzeReceipt(userId, receiptId, receiptData);
+
+  // Step 5: Determine final status
+  // Be lenient - if we have a total amount, approve it
+  const hasTotalAmount = extraction.totalAmount?.value !== undefined && extraction.totalAmount.value > 0;
+  const hasMerchant = extraction.supplierName?.value !== undefined;
+
+  // Auto-approve if we have a total amount - this is the most important field
+  // Users can always edit merchant/date later, but having SOME data is better than needs_review
+  let status: string;
+  if (hasTotalAmount) {
+    status = "final";
+    logger.info("Auto-approving receipt with total amount", {
+      totalAmount: extraction.totalAmount?.value,
+      merchant: extraction.supplierName?.value,
+      hasMerchant,
+      confidence: extraction.overallConfidence
+    });
+  } else {
+    status = "needs_review";
+    logger.warn("No total amount extracted, marking for review", {
+      merchant: extraction.supplierName?.value,
+      confidence: extraction.overallConfidence
+    });
+  }
 
-      if (extraction.currency?.value) {
-        updateData.currency = extraction.currency.value;
-      }
-      if (extraction.date?.value) {
-        updateData.date = extraction.date.value;
-      }
+  // Step 6: Update receipt with extraction results
+  const updateData: Record<string, unknown> = {
+    status,
+    processedAt: admin.firestore.FieldValue.serverTimestamp(),
+    extraction,
+    merchant,
+    category,
+    processingError: admin.firestore.FieldValue.delete(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
 
-      // Log the full update data (excluding extraction for brevity)
-      logger.info(`Updating receipt ${receiptId}`, {
-        status: updateData.status,
-        totalAmount: updateData.totalAmount,
-        currency: updateData.currency,
-        date: updateData.date,
-        merchantName: merchant.canonicalName,
-      });
+  // ALWAYS set final values if they exist (not just for high confidence)
+  logger.info(`Setting final values for ${receiptId}`, {
+    hasTotal: extraction.totalAmount?.value !== undefined,
+    totalValue: extraction.totalAmount?.value,
+    totalType: typeof extraction.totalAmount?.value,
+    hasCurrency: !!extraction.currency?.value,
+    hasDate: !!extraction.date?.value,
+  });
 
-      await receiptRef.update(updateData);
+  if (extraction.totalAmount?.value !== undefined) {
+    updateData.totalAmount = extraction.totalAmount.value;
+    logger.info(`Adding totalAmount to update: ${extraction.totalAmount.value}`);
+  } else {
+    logger.warn(`No totalAmount to add for receipt ${receiptId}`);
+  }
 
-      logger.info(`Receipt processed successfully: ${receiptId}`, {
-        status,
-        merchant: merchant.canonicalName,
-        category: category.name,
-        amount: extraction.totalAmount?.value,
-        savedTotalAmount: updateData.totalAmount,
-      });
+  if (extraction.currency?.value) {
+    updateData.currency = extraction.currency.value;
+  }
+  if (extraction.date?.value) {
+    updateData.date = extraction.date.value;
+  }
+  if (extraction.lineItems?.length) {
+    updateData.lineItems = extraction.lineItems;
+  }
+  if (matchedRule?.actions.tags?.length) {
+    const existingTags: string[] = Array.isArray(receiptData.tags) ? receiptData.tags : [];
+    updateData.tags = Array.from(new Set([...existingTags, ...matchedRule.actions.tags]));
+  }
 
-    } catch (error) {
-      logger.error("Error processing receipt", error);
+  // Step 7: Flag the receipt if it looks like one the user already has
+  Object.assign(updateData, await buildDuplicateUpdate(userId, {
+    receiptId,
+    contentHash,
+    merchantName: merchant.canonicalName,
+    amount: extraction.totalAmount?.value ?? null,
+    currency: extraction.currency?.value ?? null,
+    date: extraction.date?.value ?? null,
+  }));
+
+  // Log the full update data (excluding extraction for brevity)
+  logger.info(`Updating receipt ${receiptId}`, {
+    status: updateData.status,
+    totalAmount: updateData.totalAmount,
+    currency: updateData.currency,
+    date: updateData.date,
+    merchantName: merchant.canonicalName,
+  });
+
+  await receiptRef.update(updateData);
+
+  if (matchedRule) {
+    await applyRuleSideEffects(userId, receiptId, matchedRule);
+  }
+
+  logger.info(`Receipt processed successfully: ${receiptId}`, {
+    status,
+    merchant: merchant.canonicalName,
+    category: category.name,
+    amount: extraction.totalAmount?.value,
+    savedTotalAmount: updateData.totalAmount,
+  });
+
+  return status;
+}
 
-      // Update status to needs_review on error
-      await receiptRef.update({
-        status: "needs_review",
-        processedAt: admin.firestore.FieldValue.serverTimestamp(),
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+const MAX_SCHEDULED_RETRIES = 20;
+
+/**
+ * Retry receipts whose last processing attempt hit a transient error and
+ * whose backoff has passed.
+ */
+export const retryFailedReceipts = onSchedule(
+  {
+    region: "us-central1",
+    schedule: "every 5 minutes",
+    timeZone: "UTC",
+    memory: "1GiB",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const db = admin.firestore();
+    const dueSnap = await db.collectionGroup("receipts")
+      .where("processingError.nextRetryAt", "<=", admin.firestore.Timestamp.now())
+      .limit(MAX_SCHEDULED_RETRIES)
+      .get();
+
+    let retried = 0;
+    for (const receiptDoc of dueSnap.docs) {
+      const userId = receiptDoc.ref.parent.parent?.id;
+      if (!userId) continue;
+
+      // Claim the retry so an overlapping run doesn't process it twice
+      const receiptData = await db.runTransaction(async (transaction) => {
+        const freshSnap = await transaction.get(receiptDoc.ref);
+        const nextRetryAt = freshSnap.get("processingError.nextRetryAt") as admin.firestore.Timestamp | null | undefined;
+        if (!freshSnap.exists || !nextRetryAt || nextRetryAt.toMillis() > Date.now()) return null;
+        transaction.update(receiptDoc.ref, { "processingError.nextRetryAt": null });
+        return freshSnap.data() ?? null;
       });
+      if (!receiptData) continue;
+
+      const attempt = Math.min((Number(receiptData.processingError?.attempts) || 0) + 1, MAX_PROCESSING_ATTEMPTS);
+      await processReceiptAttempt(userId, receiptDoc.id, receiptData, attempt);
+      retried++;
     }
+
+    logger.info("Scheduled receipt retries finished", { due: dueSnap.size, retried });
+  }
+);
+
+/**
+ * Process a failed receipt again now, with a fresh set of attempts.
+ */
+export const retryReceiptProcessing = onCall(
+  {
+    region: "us-central1",
+    memory: "1GiB",
+    timeoutSeconds: 300,
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const receiptId = typeof request.data?.receiptId === "string" ? request.data.receiptId : "";
+    const workspaceId = typeof request.data?.workspaceId === "string" && request.data.workspaceId ?
+      request.data.workspaceId :
+      request.auth.uid;
+    if (!receiptId) {
+      throw new HttpsError("invalid-argument", "Missing receipt.");
+    }
+    if (!canAddReceipts(await getWorkspaceRole(workspaceId, request.auth.uid))) {
+      throw new HttpsError("permission-denied", "You can't process receipts in this workspace.");
+    }
+
+    const receiptRef = admin.firestore().doc(`users/${workspaceId}/receipts/${receiptId}`);
+    const receiptSnap = await receiptRef.get();
+    const receiptData = receiptSnap.data();
+    if (!receiptData) {
+      throw new HttpsError("not-found", "Receipt not found.");
+    }
+    if (receiptData.status !== "failed" && !receiptData.processingError) {
+      throw new HttpsError("failed-precondition", "This receipt doesn't need processing again.");
+    }
+
+    // Stop a scheduled retry from running alongside this one
+    await receiptRef.update({ "processingError.nextRetryAt": null });
+    const status = await processReceiptAttempt(workspaceId, receiptId, receiptData, 1);
+    return { ok: true, status };
   }
 );
 
@@ -676,97 +1009,23 @@ export const generateReceiptNote = onDocumentUpdated(
   }
 );
 
-/**
- * Normalize merchant name and match to existing merchants
- */
-async function normalizeMerchant(
-  userId: string,
-  rawName: string,
-  confidence: number
-): Promise<ReceiptMerchant> {
-  const db = admin.firestore();
-
-  // Clean the merchant name
-  const cleanedName = rawName
-    .replace(/[#\d]+$/g, "") // Remove trailing numbers (store #1234)
-    .replace(/\s+/g, " ") // Normalize whitespace
-    .trim()
-    .split(" ")
-    .slice(0, 3) // Take first 3 words
-    .join(" ");
-
-  const canonicalName = cleanedName || rawName;
-
-  // Try to find existing merchant by alias
-  const merchantsRef = db.collection(`users/${userId}/merchants`);
-  const snapshot = await merchantsRef.get();
-
-  for (const doc of snapshot.docs) {
-    const merchant = doc.data();
-    const aliases: string[] = merchant.aliases || [];
-
-    // Check for exact match in aliases
-    if (aliases.some((a: string) => a.toLowerCase() === rawName.toLowerCase())) {
-      return {
-        canonicalId: doc.id,
-        canonicalName: merchant.canonicalName,
-        rawName,
-        matchConfidence: 1.0,
-        matchedBy: "alias",
-      };
-    }
-
-    // Check for fuzzy match (simple contains check)
-    if (aliases.some((a: string) =>
-      a.toLowerCase().includes(canonicalName.toLowerCase()) ||
-      canonicalName.toLowerCase().includes(a.toLowerCase())
-    )) {
-      return {
-        canonicalId: doc.id,
-        canonicalName: merchant.canonicalName,
-        rawName,
-        matchConfidence: 0.8,
-        matchedBy: "fuzzy",
-      };
-    }
-  }
-
-  // No match found - create new merchant
-  const newMerchantRef = await merchantsRef.add({
-    userId,
-    canonicalName,
-    aliases: [rawName],
-    receiptCount: 0,
-    totalSpend: 0,
-    createdAt: admin.firestore.FieldValue.serverTimestamp(),
-    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-  });
-
-  return {
-    canonicalId: newMerchantRef.id,
-    canonicalName,
-    rawName,
-    matchConfidence: confidence,
-    matchedBy: "ai",
-  };
-}
-
 /**
  * Classify receipt into a category.
  *
  * Priority:
  *  1. Gemini AI classification (from the extraction prompt)
- *  2. Keyword rules on merchant name
+ *  2. Keyword rules on merchant name (the user's own categories first)
  *  3. Default to "Other"
  */
 async function classifyCategory(
   merchantName: string,
-  extraction: ExtractionResult
+  extraction: ExtractionResult,
+  categories: CategoryDefinition[] = CATEGORIES
 ): Promise<ReceiptCategory> {
   // 1. Try AI classification from Gemini
   if (extraction.aiCategory) {
     const aiName = extraction.aiCategory.trim();
-    const matched = CATEGORIES.find(
+    const matched = categories.find(
       (c) => c.name.toLowerCase() === aiName.toLowerCase() || c.id === aiName.toLowerCase()
     );
     if (matched) {
@@ -778,7 +1037,7 @@ async function classifyCategory(
       };
     }
     // Fuzzy match: AI might return a slightly different name
-    const fuzzy = CATEGORIES.find(
+    const fuzzy = categories.find(
       (c) => aiName.toLowerCase().includes(c.name.toLowerCase()) ||
              c.name.toLowerCase().includes(aiName.toLowerCase())
     );
@@ -795,7 +1054,7 @@ async function classifyCategory(
 
   // 2. Fall back to keyword rules on merchant name
   const lowerMerchant = merchantName.toLowerCase();
-  for (const cat of CATEGORIES) {
+  for (const cat of orderForKeywordMatching(categories)) {
     if (cat.keywords.some((kw) => lowerMerchant.includes(kw))) {
       return {
         id: cat.id,
@@ -884,6 +1143,23 @@ function parsePositiveNumber(value: unknown): number | undefined {
   return undefined;
 }
 
+function parseSignedNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return isFinite(value) ? value : undefined;
+  }
+
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    const isParenthesized = /^\(.*\)$/.test(trimmed);
+    const parsed = parseFloat(trimmed.replace(/[^\d.-]/g, ""));
+    if (!isNaN(parsed) && isFinite(parsed)) {
+      return isParenthesized ? -Math.abs(parsed) : parsed;
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Build a short human-readable note from extracted receipt metadata.
  */
@@ -995,6 +1271,7 @@ export const backfillReceiptCategories = onCall(
         .where("category.assignedBy", "in", ["default", "rule"])
         .limit(batchSize - processed)
         .get();
+      const categories = receiptsSnap.empty ? CATEGORIES : await loadUserCategories(userId);
 
       for (const doc of receiptsSnap.docs) {
         if (processed >= batchSize) break;
@@ -1051,13 +1328,13 @@ export const backfillReceiptCategories = onCall(
             }
           }
 
-          const extraction = await extractWithGemini(processBuffer, processMimeType);
+          const extraction = await extractWithGemini(processBuffer, processMimeType, categories);
 
           const merchantName =
             data.merchant?.canonicalName ||
             extraction.supplierName?.value ||
             "Unknown";
-          const newCategory = await classifyCategory(merchantName, extraction);
+          const newCategory = await classifyCategory(merchantName, extraction, categories);
 
           if (newCategory.id !== "other" || newCategory.assignedBy === "ai") {
             await db.doc(`users/${userId}/receipts/${doc.id}`).update({
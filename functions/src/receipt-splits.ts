@@ -0,0 +1,54 @@
+/**
+ * Receipt Splits
+ *
+ * A receipt can be split across several categories (receipt.splits). Splits
+ * are only honoured when they add up to the receipt total, so a total edited
+ * after splitting falls back to the receipt's own category instead of
+ * skewing spend reports. Used by the monthly summaries and the spend summary
+ * emails so both count a receipt the same way.
+ */
+
+import * as admin from "firebase-admin";
+
+export interface SplitShare {
+  categoryId: string;
+  categoryName: string;
+  amount: number;
+}
+
+const SPLIT_TOTAL_TOLERANCE = 0.01;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The receipt's splits merged per category, or null when there are none or
+ * they don't add up to `amount` and the whole amount belongs to the
+ * receipt's category.
+ */
+export function getSplitShares(receipt: admin.firestore.DocumentData, amount: number): SplitShare[] | null {
+  const splits: unknown[] = Array.isArray(receipt.splits) ? receipt.splits : [];
+  const sharesById = new Map<string, SplitShare>();
+
+  for (const split of splits) {
+    if (!split || typeof split !== "object") continue;
+    const entry = split as Record<string, unknown>;
+    const splitAmount = typeof entry.amount === "number" && Number.isFinite(entry.amount) ? entry.amount : null;
+    const categoryId = typeof entry.categoryId === "string" ? entry.categoryId.trim() : "";
+    if (splitAmount === null || !categoryId) continue;
+
+    const share = sharesById.get(categoryId) ?? {
+      categoryId,
+      categoryName: String(entry.categoryName || categoryId).trim() || categoryId,
+      amount: 0,
+    };
+    share.amount = roundCurrency(share.amount + splitAmount);
+    sharesById.set(categoryId, share);
+  }
+
+  const shares = Array.from(sharesById.values());
+  const splitTotal = shares.reduce((sum, share) => sum + share.amount, 0);
+  if (!shares.length || Math.abs(splitTotal - amount) >= SPLIT_TOTAL_TOLERANCE) {
+    return null;
+  }
+  return shares;
+}
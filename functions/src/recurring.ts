@@ -0,0 +1,364 @@
+/**
+ * Recurring Expenses
+ *
+ * Scans a user's receipts for merchants that charge at a regular interval
+ * (weekly, monthly or annually) with similar amounts and keeps
+ * users/{userId}/recurringExpenses/{merchantKey} in sync with what it finds:
+ * the typical amount, the next expected charge, and whether a charge was
+ * missed or the price changed. Detection runs daily for every user and on
+ * demand from the web app. The user's "not recurring" choice (dismissed) is
+ * kept across runs.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { InsightData } from "./ai-insights";
+import { getReceiptHomeAmount, getUserHomeCurrency } from "./currency";
+import { normalizeMerchantKey } from "./duplicates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WRITE_BATCH_SIZE = 400;
+const MAX_STORED_RECEIPT_IDS = 12;
+// Charges within this share of the typical amount count as "the same price"
+const AMOUNT_TOLERANCE = 0.2;
+// A latest charge this far from the typical amount is flagged as a price change
+const PRICE_CHANGE_THRESHOLD = 0.05;
+
+export type RecurringFrequency = "weekly" | "monthly" | "annual";
+export type RecurringStatus = "active" | "missed";
+
+interface FrequencyRule {
+  frequency: RecurringFrequency;
+  intervalDays: number;
+  minDays: number;
+  maxDays: number;
+  minOccurrences: number;
+  // Days after the expected date before a charge counts as missed
+  graceDays: number;
+}
+
+const FREQUENCY_RULES: FrequencyRule[] = [
+  { frequency: "weekly", intervalDays: 7, minDays: 6, maxDays: 8, minOccurrences: 3, graceDays: 3 },
+  { frequency: "monthly", intervalDays: 30, minDays: 26, maxDays: 35, minOccurrences: 3, graceDays: 7 },
+  { frequency: "annual", intervalDays: 365, minDays: 350, maxDays: 380, minOccurrences: 2, graceDays: 30 },
+];
+
+export interface RecurringCharge {
+  receiptId: string;
+  merchantKey: string;
+  merchantName: string;
+  categoryId: string | null;
+  categoryName: string | null;
+  amount: number;
+  date: string; // YYYY-MM-DD
+}
+
+export interface RecurringPriceChange {
+  previousAmount: number;
+  latestAmount: number;
+  changePercent: number;
+  receiptId: string;
+}
+
+export interface RecurringExpense {
+  id: string;
+  merchantKey: string;
+  merchantName: string;
+  categoryId: string | null;
+  categoryName: string | null;
+  frequency: RecurringFrequency;
+  intervalDays: number;
+  typicalAmount: number;
+  lastAmount: number;
+  firstChargeDate: string;
+  lastChargeDate: string;
+  nextExpectedDate: string;
+  occurrences: number;
+  receiptIds: string[];
+  status: RecurringStatus;
+  priceChange: RecurringPriceChange | null;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const toDayNumber = (dateKey: string) => Math.floor(Date.parse(`${dateKey}T00:00:00Z`) / DAY_MS);
+
+const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+const toDocId = (merchantKey: string) => merchantKey.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 120) || "unknown";
+
+const resolveDateKey = (receipt: admin.firestore.DocumentData): string | null => {
+  for (const candidate of [receipt.date, receipt.extraction?.date?.value]) {
+    if (typeof candidate !== "string") continue;
+    const match = candidate.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+    if (match) return match[1];
+  }
+  const createdAt = receipt.createdAt;
+  if (createdAt && typeof createdAt.toDate === "function") {
+    return (createdAt.toDate() as Date).toISOString().slice(0, 10);
+  }
+  return null;
+};
+
+/**
+ * Reduce a receipt to what detection needs, or null when it has no amount,
+ * date or merchant yet.
+ */
+export function toRecurringCharge(receiptId: string, receipt: admin.firestore.DocumentData): RecurringCharge | null {
+  const amount = getReceiptHomeAmount(receipt);
+  const date = resolveDateKey(receipt);
+  const merchantName = String(
+    receipt.merchant?.canonicalName || receipt.merchant?.rawName || receipt.extraction?.supplierName?.value || ""
+  ).trim();
+  const merchantKey = String(receipt.merchant?.canonicalId || "").trim() || normalizeMerchantKey(merchantName);
+
+  if (amount <= 0 || !date || !merchantKey) {
+    return null;
+  }
+
+  return {
+    receiptId,
+    merchantKey,
+    merchantName,
+    categoryId: receipt.category?.id ?? null,
+    categoryName: receipt.category?.name ?? null,
+    amount,
+    date,
+  };
+}
+
+/**
+ * Find the frequency whose interval band most of the gaps fall into. Gaps of
+ * roughly twice the interval (one skipped charge) are tolerated.
+ */
+function matchFrequency(gaps: number[], occurrences: number): FrequencyRule | null {
+  for (const rule of FREQUENCY_RULES) {
+    if (occurrences < rule.minOccurrences) continue;
+    const regular = gaps.filter((gap) => gap >= rule.minDays && gap <= rule.maxDays).length;
+    const skipped = gaps.filter((gap) => gap >= rule.minDays * 2 && gap <= rule.maxDays * 2).length;
+    if (regular >= Math.max(1, Math.ceil(gaps.length * 0.7)) && regular + skipped === gaps.length) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+function detectForMerchant(charges: RecurringCharge[], today: string): RecurringExpense | null {
+  // Several receipts on one day (e.g. a duplicate upload) count once
+  const byDate = new Map<string, RecurringCharge>();
+  for (const charge of charges) {
+    byDate.set(charge.date, charge);
+  }
+  const sorted = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length < 2) return null;
+
+  const gaps = sorted.slice(1).map((charge, index) => toDayNumber(charge.date) - toDayNumber(sorted[index].date));
+  const rule = matchFrequency(gaps, sorted.length);
+  if (!rule) return null;
+
+  // Amounts before the latest charge set the typical price, so a price rise
+  // on the latest charge is reported instead of hiding the subscription.
+  const latest = sorted[sorted.length - 1];
+  const history = sorted.slice(0, -1);
+  const typicalAmount = median(history.map((charge) => charge.amount));
+  const similar = history.filter((charge) => Math.abs(charge.amount - typicalAmount) <= typicalAmount * AMOUNT_TOLERANCE);
+  if (similar.length < Math.ceil(history.length * 0.7)) return null;
+
+  const changePercent = typicalAmount > 0 ? (latest.amount - typicalAmount) / typicalAmount : 0;
+  const priceChange = Math.abs(changePercent) >= PRICE_CHANGE_THRESHOLD && Math.abs(latest.amount - typicalAmount) >= 0.5
+    ? {
+      previousAmount: roundCurrency(typicalAmount),
+      latestAmount: roundCurrency(latest.amount),
+      changePercent: Math.round(changePercent * 1000) / 10,
+      receiptId: latest.receiptId,
+    }
+    : null;
+
+  const intervalDays = Math.round(median(gaps.filter((gap) => gap >= rule.minDays && gap <= rule.maxDays)));
+  const nextExpectedDay = rule.frequency === "monthly"
+    ? toDayNumber(addMonths(latest.date, 1))
+    : rule.frequency === "annual"
+      ? toDayNumber(addMonths(latest.date, 12))
+      : toDayNumber(latest.date) + intervalDays;
+  const missed = toDayNumber(today) > nextExpectedDay + rule.graceDays;
+
+  return {
+    id: toDocId(latest.merchantKey),
+    merchantKey: latest.merchantKey,
+    merchantName: latest.merchantName || latest.merchantKey,
+    categoryId: latest.categoryId,
+    categoryName: latest.categoryName,
+    frequency: rule.frequency,
+    intervalDays,
+    typicalAmount: roundCurrency(priceChange ? latest.amount : typicalAmount),
+    lastAmount: roundCurrency(latest.amount),
+    firstChargeDate: sorted[0].date,
+    lastChargeDate: latest.date,
+    nextExpectedDate: fromDayNumber(nextExpectedDay),
+    occurrences: sorted.length,
+    receiptIds: sorted.slice(-MAX_STORED_RECEIPT_IDS).map((charge) => charge.receiptId).reverse(),
+    status: missed ? "missed" : "active",
+    priceChange,
+  };
+}
+
+// Same day next month(s), clamped to the month's last day
+function addMonths(dateKey: string, months: number): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Group charges by merchant and return every merchant that looks recurring.
+ */
+export function detectRecurringExpenses(charges: RecurringCharge[], today: string): RecurringExpense[] {
+  const byMerchant = new Map<string, RecurringCharge[]>();
+  for (const charge of charges) {
+    const group = byMerchant.get(charge.merchantKey) ?? [];
+    group.push(charge);
+    byMerchant.set(charge.merchantKey, group);
+  }
+
+  const results: RecurringExpense[] = [];
+  for (const group of byMerchant.values()) {
+    const expense = detectForMerchant(group, today);
+    if (expense) results.push(expense);
+  }
+  return results.sort((a, b) => a.nextExpectedDate.localeCompare(b.nextExpectedDate));
+}
+
+/**
+ * Re-run detection for a user and rewrite their recurringExpenses collection.
+ * Entries that no longer look recurring are removed.
+ */
+export async function refreshRecurringExpensesForUser(userId: string): Promise<RecurringExpense[]> {
+  const db = admin.firestore();
+  const [receiptsSnap, existingSnap, currency] = await Promise.all([
+    db.collection(`users/${userId}/receipts`).get(),
+    db.collection(`users/${userId}/recurringExpenses`).get(),
+    getUserHomeCurrency(userId),
+  ]);
+
+  const charges = receiptsSnap.docs
+    .map((receiptDoc) => toRecurringCharge(receiptDoc.id, receiptDoc.data()))
+    .filter((charge): charge is RecurringCharge => charge !== null);
+  const detected = detectRecurringExpenses(charges, new Date().toISOString().slice(0, 10));
+
+  const existing = new Map(existingSnap.docs.map((existingDoc) => [existingDoc.id, existingDoc]));
+  const collectionRef = db.collection(`users/${userId}/recurringExpenses`);
+  const writes: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+
+  for (const expense of detected) {
+    const previous = existing.get(expense.id)?.data();
+    writes.push((batch) => batch.set(collectionRef.doc(expense.id), {
+      ...expense,
+      userId,
+      currency,
+      dismissed: previous?.dismissed === true,
+      detectedAt: previous?.detectedAt ?? admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }));
+    existing.delete(expense.id);
+  }
+  for (const staleDoc of existing.values()) {
+    writes.push((batch) => batch.delete(staleDoc.ref));
+  }
+
+  for (let index = 0; index < writes.length; index += WRITE_BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(index, index + WRITE_BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+
+  return detected;
+}
+
+/**
+ * Recurring expenses for the AI chat context, skipping ones the user dismissed.
+ */
+export async function loadRecurringExpenseContext(
+  userId: string
+): Promise<NonNullable<InsightData["recurringExpenses"]>> {
+  const snap = await admin.firestore().collection(`users/${userId}/recurringExpenses`).get();
+  return snap.docs
+    .map((recurringDoc) => recurringDoc.data())
+    .filter((data) => data.dismissed !== true)
+    .map((data) => ({
+      merchant: String(data.merchantName ?? data.merchantKey ?? "Unknown"),
+      frequency: data.frequency as RecurringFrequency,
+      typicalAmount: Number(data.typicalAmount ?? 0),
+      lastChargeDate: String(data.lastChargeDate ?? ""),
+      nextExpectedDate: String(data.nextExpectedDate ?? ""),
+      status: data.status as RecurringStatus,
+      priceChange: data.priceChange
+        ? { previousAmount: Number(data.priceChange.previousAmount), latestAmount: Number(data.priceChange.latestAmount) }
+        : null,
+    }));
+}
+
+/**
+ * Detect recurring expenses for the signed-in user now.
+ */
+export const refreshRecurringExpenses = onCall(
+  {
+    region: "us-central1",
+    memory: "512MiB",
+    timeoutSeconds: 120,
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const userId = request.auth.uid;
+    try {
+      const detected = await refreshRecurringExpensesForUser(userId);
+      return { ok: true, count: detected.length };
+    } catch (error) {
+      logger.error("Failed to refresh recurring expenses", { userId, error });
+      throw new HttpsError("internal", "Failed to scan receipts for recurring expenses.");
+    }
+  }
+);
+
+/**
+ * Daily refresh so next-expected dates and missed charges stay current
+ * without the user opening the page.
+ */
+export const dispatchRecurringExpenseDetection = onSchedule(
+  {
+    region: "us-central1",
+    schedule: "every day 05:00",
+    timeZone: "UTC",
+    memory: "1GiB",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const usersSnap = await admin.firestore().collection("users").get();
+
+    let refreshedUsers = 0;
+    let failedUsers = 0;
+    for (const userDoc of usersSnap.docs) {
+      try {
+        await refreshRecurringExpensesForUser(userDoc.id);
+        refreshedUsers += 1;
+      } catch (error) {
+        failedUsers += 1;
+        logger.error("Failed to refresh recurring expenses", { userId: userDoc.id, error });
+      }
+    }
+
+    logger.info("Recurring expense detection finished", { refreshedUsers, failedUsers });
+  }
+);
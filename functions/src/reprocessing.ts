@@ -0,0 +1,286 @@
+/**
+ * Receipt Reprocessing
+ *
+ * Runs receipts that were already processed through extraction again, e.g.
+ * after a prompt improvement or when the first read of a crumpled receipt was
+ * wrong. The values the user sees are never overwritten here: the new
+ * extraction replaces receipt.extraction (the old one is kept in
+ * extractionVersions), and any field that came out differently is stored in
+ * reprocess.proposed. The user then accepts or rejects each proposed field
+ * with resolveReprocessedFields. The merchant directory is only written when
+ * a proposed merchant is accepted, so rejected ones leave nothing behind.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { ReceiptMerchant, saveMerchantMatch } from "./merchant-matching";
+import { LineItem, ReceiptAnalysis, ReceiptCategory, analyzeReceipt } from "./receipt-processor";
+import { canAddReceipts, getWorkspaceRole } from "./workspaces";
+
+export type ReprocessField = "merchant" | "totalAmount" | "currency" | "date" | "category" | "lineItems";
+
+export interface ReprocessProposal {
+  merchant?: ReceiptMerchant;
+  totalAmount?: number;
+  currency?: string;
+  date?: string;
+  category?: ReceiptCategory;
+  lineItems?: LineItem[];
+}
+
+export type ReprocessOutcome = "changed" | "unchanged" | "skipped" | "failed";
+
+export interface ReprocessResult {
+  receiptId: string;
+  outcome: ReprocessOutcome;
+  changedFields: ReprocessField[];
+  error?: string;
+}
+
+const REPROCESS_FIELDS: ReprocessField[] = ["merchant", "totalAmount", "currency", "date", "category", "lineItems"];
+/** Receipts per call; the app sends bigger batches in chunks. */
+const MAX_REPROCESS_BATCH = 10;
+/** Older extractions kept on the receipt, oldest dropped first. */
+const MAX_EXTRACTION_VERSIONS = 5;
+// Only receipts that finished processing; failed ones have retryReceiptProcessing
+const REPROCESSABLE_STATUSES = new Set(["extracted", "needs_review", "final"]);
+
+/**
+ * Check the caller can add receipts to the workspace and return its ID.
+ */
+async function requireEditableWorkspace(request: { auth?: { uid: string }; data?: Record<string, unknown> }): Promise<string> {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+
+  const workspaceId = typeof request.data?.workspaceId === "string" && request.data.workspaceId ?
+    request.data.workspaceId :
+    request.auth.uid;
+  if (!canAddReceipts(await getWorkspaceRole(workspaceId, request.auth.uid))) {
+    throw new HttpsError("permission-denied", "You can't process receipts in this workspace.");
+  }
+  return workspaceId;
+}
+
+const sameLineItems = (a: LineItem[] | undefined, b: LineItem[] | undefined): boolean => {
+  const key = (items: LineItem[] | undefined) =>
+    JSON.stringify((items ?? []).map((item) => [item.description, item.amount, item.quantity ?? null, item.type]));
+  return key(a) === key(b);
+};
+
+/**
+ * The analysed values that differ from what the receipt holds now. A value the
+ * new extraction couldn't read is never proposed as a change.
+ */
+export function buildReprocessProposal(
+  receipt: admin.firestore.DocumentData,
+  analysis: ReceiptAnalysis
+): ReprocessProposal {
+  const { extraction, merchant, category } = analysis;
+  const proposal: ReprocessProposal = {};
+
+  const currentMerchant = receipt.merchant as ReceiptMerchant | undefined;
+  const sameMerchant = currentMerchant?.canonicalId && merchant.canonicalId ?
+    currentMerchant.canonicalId === merchant.canonicalId :
+    currentMerchant?.canonicalName === merchant.canonicalName;
+  if (extraction.supplierName?.value && !sameMerchant) {
+    proposal.merchant = merchant;
+  }
+
+  const totalAmount = extraction.totalAmount?.value;
+  if (totalAmount !== undefined && totalAmount > 0 &&
+    (typeof receipt.totalAmount !== "number" || Math.abs(receipt.totalAmount - totalAmount) >= 0.005)) {
+    proposal.totalAmount = totalAmount;
+  }
+
+  const currency = extraction.currency?.value;
+  if (currency && currency !== receipt.currency) {
+    proposal.currency = currency;
+  }
+
+  const date = extraction.date?.value;
+  if (date && date !== receipt.date) {
+    proposal.date = date;
+  }
+
+  // The fallback category only means nothing matched
+  if (category.id !== receipt.category?.id && category.assignedBy !== "default") {
+    proposal.category = category;
+  }
+
+  if (extraction.lineItems?.length && !sameLineItems(receipt.lineItems, extraction.lineItems)) {
+    proposal.lineItems = extraction.lineItems;
+  }
+
+  return proposal;
+}
+
+/**
+ * Reprocess one receipt and store the new extraction and any proposed changes.
+ */
+async function reprocessReceipt(workspaceId: string, receiptId: string, requestedBy: string): Promise<ReprocessResult> {
+  const db = admin.firestore();
+  const receiptRef = db.doc(`users/${workspaceId}/receipts/${receiptId}`);
+  const receiptData = (await receiptRef.get()).data();
+
+  if (!receiptData?.file?.storagePath || !REPROCESSABLE_STATUSES.has(receiptData.status)) {
+    return { receiptId, outcome: "skipped", changedFields: [] };
+  }
+
+  let analysis: ReceiptAnalysis;
+  try {
+    analysis = await analyzeReceipt(workspaceId, receiptId, receiptData, { saveMerchant: false });
+  } catch (error) {
+    logger.error("Failed to reprocess receipt", { workspaceId, receiptId, error });
+    return {
+      receiptId,
+      outcome: "failed",
+      changedFields: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  // Compare against the receipt as it is now, in case it was edited meanwhile
+  return db.runTransaction(async (transaction) => {
+    const current = (await transaction.get(receiptRef)).data();
+    if (!current) {
+      return { receiptId, outcome: "skipped" as const, changedFields: [] };
+    }
+
+    const previousExtraction = current.extraction;
+    const previousVersion = typeof previousExtraction?.version === "number" ? previousExtraction.version : 1;
+    const versions = Array.isArray(current.extractionVersions) ? current.extractionVersions : [];
+    const extractionVersions = previousExtraction ?
+      [...versions, {
+        version: previousVersion,
+        extraction: previousExtraction,
+        archivedAt: admin.firestore.Timestamp.now(),
+      }].slice(-MAX_EXTRACTION_VERSIONS) :
+      versions;
+
+    const proposed = buildReprocessProposal(current, analysis);
+    const changedFields = REPROCESS_FIELDS.filter((field) => proposed[field] !== undefined);
+
+    transaction.update(receiptRef, {
+      extraction: { ...analysis.extraction, version: previousVersion + 1 },
+      extractionVersions,
+      reprocess: changedFields.length ?
+        {
+          proposed,
+          requestedBy,
+          reprocessedAt: admin.firestore.FieldValue.serverTimestamp(),
+        } :
+        admin.firestore.FieldValue.delete(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return {
+      receiptId,
+      outcome: changedFields.length ? "changed" as const : "unchanged" as const,
+      changedFields,
+    };
+  });
+}
+
+/**
+ * Callable: run one or more receipts through extraction again.
+ */
+export const reprocessReceipts = onCall(
+  {
+    region: "us-central1",
+    memory: "1GiB",
+    timeoutSeconds: 540,
+  },
+  async (request) => {
+    const workspaceId = await requireEditableWorkspace(request);
+    const rawIds: unknown[] = Array.isArray(request.data?.receiptIds) ? request.data.receiptIds : [];
+    const receiptIds = Array.from(new Set(
+      rawIds.filter((id): id is string => typeof id === "string" && id.length > 0)
+    ));
+    if (!receiptIds.length) {
+      throw new HttpsError("invalid-argument", "Choose at least one receipt.");
+    }
+    if (receiptIds.length > MAX_REPROCESS_BATCH) {
+      throw new HttpsError("invalid-argument", `Reprocess at most ${MAX_REPROCESS_BATCH} receipts at a time.`);
+    }
+
+    const results: ReprocessResult[] = [];
+    for (const receiptId of receiptIds) {
+      results.push(await reprocessReceipt(workspaceId, receiptId, request.auth!.uid));
+    }
+
+    logger.info("Reprocessed receipts", {
+      workspaceId,
+      changed: results.filter((result) => result.outcome === "changed").length,
+      failed: results.filter((result) => result.outcome === "failed").length,
+    });
+    return { ok: true, results };
+  }
+);
+
+/**
+ * Callable: accept or reject fields proposed by reprocessing. Accepted values
+ * replace the receipt's own; fields left out stay proposed.
+ */
+export const resolveReprocessedFields = onCall(
+  {
+    region: "us-central1",
+    memory: "256MiB",
+    timeoutSeconds: 60,
+  },
+  async (request) => {
+    const workspaceId = await requireEditableWorkspace(request);
+    const receiptId = typeof request.data?.receiptId === "string" ? request.data.receiptId : "";
+    const pickFields = (value: unknown): ReprocessField[] =>
+      Array.isArray(value) ? REPROCESS_FIELDS.filter((field) => value.includes(field)) : [];
+    const accept = pickFields(request.data?.accept);
+    const reject = pickFields(request.data?.reject).filter((field) => !accept.includes(field));
+    if (!receiptId || (!accept.length && !reject.length)) {
+      throw new HttpsError("invalid-argument", "receiptId and the fields to accept or reject are required.");
+    }
+
+    const db = admin.firestore();
+    const receiptRef = db.doc(`users/${workspaceId}/receipts/${receiptId}`);
+
+    // An accepted merchant is created or learns its alias only now
+    let acceptedMerchant: ReceiptMerchant | null = null;
+    if (accept.includes("merchant")) {
+      const proposedMerchant = (await receiptRef.get()).get("reprocess.proposed.merchant") as ReceiptMerchant | undefined;
+      if (proposedMerchant) {
+        acceptedMerchant = await saveMerchantMatch(workspaceId, proposedMerchant);
+      }
+    }
+
+    return db.runTransaction(async (transaction) => {
+      const receipt = (await transaction.get(receiptRef)).data();
+      if (!receipt) {
+        throw new HttpsError("not-found", "Receipt not found.");
+      }
+      const proposed: ReprocessProposal = receipt.reprocess?.proposed ?? {};
+
+      const update: Record<string, unknown> = {
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      for (const field of accept) {
+        if (proposed[field] !== undefined) {
+          update[field] = field === "merchant" && acceptedMerchant ? acceptedMerchant : proposed[field];
+        }
+      }
+
+      const remaining = REPROCESS_FIELDS.filter((field) =>
+        proposed[field] !== undefined && !accept.includes(field) && !reject.includes(field)
+      );
+      if (remaining.length) {
+        for (const field of [...accept, ...reject]) {
+          update[`reprocess.proposed.${field}`] = admin.firestore.FieldValue.delete();
+        }
+      } else {
+        update.reprocess = admin.firestore.FieldValue.delete();
+      }
+
+      transaction.update(receiptRef, update);
+      return { ok: true, remaining };
+    });
+  }
+);
@@ -0,0 +1,191 @@
+/**
+ * Share Links
+ *
+ * Housekeeping for public share links. Graph and chat shares are read
+ * straight from Firestore by the share page, so it reports each visit through
+ * recordShareView to keep view counts; folder shares count their own views in
+ * getFolderShare. Both go through countShareView.
+ *
+ * A visitor is counted at most once per VIEW_COUNT_WINDOW_HOURS; the last
+ * counted visit per visitor is kept in shareViewLimits under a hash of the
+ * share and the visitor's account or IP address.
+ *
+ * Links can carry an expiresAt. Firestore rules stop anyone but the owner
+ * reading an expired link, so the share page asks checkShareExpiry why a read
+ * was refused. purgeExpiredShares deletes expired links daily so the snapshot
+ * data doesn't linger.
+ * Accountant links are left alone: their owners keep the access log after
+ * the link expires.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+
+const VIEW_COUNTED_COLLECTIONS: Record<string, string> = {
+  graph: "graphShares",
+  chat: "chatShares",
+};
+const PURGED_COLLECTIONS = ["graphShares", "chatShares", "folderShares"];
+const PURGE_BATCH_SIZE = 400;
+const VIEW_LIMITS_COLLECTION = "shareViewLimits";
+const VIEW_COUNT_WINDOW_HOURS = 6;
+
+const buildViewLimitId = (collectionName: string, shareId: string, viewer: string): string =>
+  crypto.createHash("sha256").update(`${collectionName}/${shareId}/${viewer}`).digest("hex");
+
+const isShareExpired = (shareSnap: admin.firestore.DocumentSnapshot): boolean => {
+  const expiresAt = shareSnap.get("expiresAt") as admin.firestore.Timestamp | null | undefined;
+  return !!expiresAt && expiresAt.toMillis() <= Date.now();
+};
+
+/**
+ * Count a visit to a share unless the same visitor (account or IP address)
+ * was counted within the last VIEW_COUNT_WINDOW_HOURS. Returns whether the
+ * view was counted.
+ */
+export async function countShareView(
+  shareRef: admin.firestore.DocumentReference,
+  viewer: string | undefined
+): Promise<boolean> {
+  if (!viewer) {
+    return false;
+  }
+
+  const db = admin.firestore();
+  const limitId = buildViewLimitId(shareRef.parent.id, shareRef.id, viewer);
+  const limitRef = db.collection(VIEW_LIMITS_COLLECTION).doc(limitId);
+  return db.runTransaction(async (transaction) => {
+    const limitSnap = await transaction.get(limitRef);
+    const countedAt = limitSnap.get("countedAt") as admin.firestore.Timestamp | undefined;
+    if (countedAt && countedAt.toMillis() > Date.now() - VIEW_COUNT_WINDOW_HOURS * 60 * 60 * 1000) {
+      return false;
+    }
+
+    transaction.set(limitRef, { countedAt: admin.firestore.FieldValue.serverTimestamp() });
+    transaction.update(shareRef, {
+      viewCount: admin.firestore.FieldValue.increment(1),
+      lastViewedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Tell the share page whether a graph or chat share it can't read has
+ * expired. Expired shares throw with `details.expired`, the same signal
+ * folder and accountant links use.
+ */
+export const checkShareExpiry = onCall(
+  { region: "us-central1" },
+  async (request) => {
+    const collectionName = VIEW_COUNTED_COLLECTIONS[String(request.data?.shareType)];
+    const shareId = typeof request.data?.shareId === "string" ? request.data.shareId : "";
+    if (!collectionName || !shareId) {
+      throw new HttpsError("invalid-argument", "Missing share.");
+    }
+
+    const shareSnap = await admin.firestore().collection(collectionName).doc(shareId).get();
+    if (!shareSnap.exists) {
+      throw new HttpsError("not-found", "This share link no longer exists or has been removed.");
+    }
+    if (isShareExpired(shareSnap)) {
+      throw new HttpsError("deadline-exceeded", "This share has expired.", { expired: true });
+    }
+    return { ok: true, expired: false };
+  }
+);
+
+/**
+ * Count a visit to a graph or chat share. Owners viewing their own link
+ * aren't counted, expired links don't count, and repeat visits from the same
+ * visitor within the window are ignored.
+ */
+export const recordShareView = onCall(
+  { region: "us-central1" },
+  async (request) => {
+    const collectionName = VIEW_COUNTED_COLLECTIONS[String(request.data?.shareType)];
+    const shareId = typeof request.data?.shareId === "string" ? request.data.shareId : "";
+    if (!collectionName || !shareId) {
+      throw new HttpsError("invalid-argument", "Missing share.");
+    }
+
+    const shareRef = admin.firestore().collection(collectionName).doc(shareId);
+    const shareSnap = await shareRef.get();
+    if (!shareSnap.exists) {
+      throw new HttpsError("not-found", "Share not found.");
+    }
+
+    if (isShareExpired(shareSnap) || request.auth?.uid === shareSnap.get("userId")) {
+      return { ok: true, counted: false };
+    }
+
+    const counted = await countShareView(shareRef, request.auth?.uid ?? request.rawRequest?.ip);
+    return { ok: true, counted };
+  }
+);
+
+/**
+ * Daily cleanup of graph, chat and folder shares past their expiry, and of
+ * view limits past the counting window.
+ */
+export const purgeExpiredShares = onSchedule(
+  {
+    region: "us-central1",
+    schedule: "every day 03:30",
+    timeZone: "UTC",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const db = admin.firestore();
+    const now = admin.firestore.Timestamp.now();
+    const deleted: Record<string, number> = {};
+
+    for (const collectionName of PURGED_COLLECTIONS) {
+      deleted[collectionName] = 0;
+      try {
+        // Links without an expiry store null, which never matches a timestamp range
+        for (;;) {
+          const expiredSnap = await db.collection(collectionName)
+            .where("expiresAt", "<=", now)
+            .limit(PURGE_BATCH_SIZE)
+            .get();
+          if (expiredSnap.empty) break;
+
+          const batch = db.batch();
+          expiredSnap.docs.forEach((shareDoc) => batch.delete(shareDoc.ref));
+          await batch.commit();
+          deleted[collectionName] += expiredSnap.size;
+          if (expiredSnap.size < PURGE_BATCH_SIZE) break;
+        }
+      } catch (error) {
+        logger.error("Failed to purge expired shares", { collectionName, error });
+      }
+    }
+
+    // View limits only matter within the counting window
+    deleted[VIEW_LIMITS_COLLECTION] = 0;
+    try {
+      const cutoff = admin.firestore.Timestamp.fromMillis(now.toMillis() - VIEW_COUNT_WINDOW_HOURS * 60 * 60 * 1000);
+      for (;;) {
+        const staleSnap = await db.collection(VIEW_LIMITS_COLLECTION)
+          .where("countedAt", "<=", cutoff)
+          .limit(PURGE_BATCH_SIZE)
+          .get();
+        if (staleSnap.empty) break;
+
+        const batch = db.batch();
+        staleSnap.docs.forEach((limitDoc) => batch.delete(limitDoc.ref));
+        await batch.commit();
+        deleted[VIEW_LIMITS_COLLECTION] += staleSnap.size;
+        if (staleSnap.size < PURGE_BATCH_SIZE) break;
+      }
+    } catch (error) {
+      logger.error("Failed to purge share view limits", { error });
+    }
+
+    logger.info("Expired share purge finished", { deleted });
+  }
+);
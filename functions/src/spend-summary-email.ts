@@ -4,6 +4,8 @@ import { defineSecret } from "firebase-functions/params";
 import { logger } from "firebase-functions";
 import * as admin from "firebase-admin";
 import { assertAdmin } from "./authz";
+import { getHomeCurrencyAmount, normalizeCurrencyCode } from "./currency";
+import { getSplitShares } from "./receipt-splits";
 import { appendAppDownloadText, getEmailAppIconAttachments, renderAppDownloadHtmlCard } from "./email-app-links";
 import { sendSendgridMail } from "./sendgrid";
 
@@ -21,10 +23,16 @@ const WEEKDAY_VALUES = ["sunday", "monday", "tuesday", "wednesday", "thursday",
 type SummaryPeriodType = "week" | "month";
 type WeekdayValue = (typeof WEEKDAY_VALUES)[number];
 
+type CategoryShare = {
+  categoryName: string;
+  amount: number;
+};
+
 type NormalizedReceipt = {
   amount: number;
   currency: string;
   categoryName: string;
+  categoryShares: CategoryShare[];
   merchantName: string;
   dateKey: string;
   dateLabel: string;
@@ -122,7 +130,7 @@ type SpendSummaryScheduleResponse = {
   };
 };
 
-type NotificationSendResult = {
+export type NotificationSendResult = {
   sentCount: number;
   failedCount: number;
   invalidTokens: string[];
@@ -604,18 +612,31 @@ const getEffectiveDateTime = (receipt: admin.firestore.DocumentData, timeZone: s
   return timestamp;
 };
 
+/**
+ * Split the receipt amount across its category splits when they add up to the
+ * total; otherwise the whole amount belongs to the receipt's category.
+ */
+const getCategoryShares = (
+  receipt: admin.firestore.DocumentData,
+  amount: number,
+  fallbackCategoryName: string,
+): CategoryShare[] => getSplitShares(receipt, amount) ?? [{ categoryName: fallbackCategoryName, amount }];
+
 const normalizeReceipt = (
   receipt: admin.firestore.DocumentData,
   timeZone: string,
   currency: string,
 ): NormalizedReceipt | null => {
-  const amount = getEffectiveAmount(receipt);
+  const sourceAmount = getEffectiveAmount(receipt);
   const effectiveDate = getEffectiveDate(receipt);
 
-  if (amount === null || !effectiveDate) {
+  if (sourceAmount === null || !effectiveDate) {
     return null;
   }
 
+  const converted = getHomeCurrencyAmount(receipt, sourceAmount);
+  const amount = converted.amount;
+
   const merchantName = String(
     receipt.merchant?.canonicalName ??
     receipt.merchant?.rawName ??
@@ -627,8 +648,12 @@ const normalizeReceipt = (
 
   return {
     amount,
-    currency: String(receipt.currency ?? receipt.extraction?.currency?.value ?? currency).trim().toUpperCase() || currency,
+    currency: converted.currency ?? currency,
     categoryName,
+    categoryShares: getCategoryShares(receipt, sourceAmount, categoryName).map((share) => ({
+      ...share,
+      amount: share.amount * converted.factor,
+    })),
     merchantName,
     dateKey: toDateKey(effectiveDate, timeZone),
     dateLabel: new Intl.DateTimeFormat("en-US", {
@@ -660,10 +685,17 @@ const buildBreakdowns = (receipts: NormalizedReceipt[]) => {
   const merchantsMap = new Map<string, { total: number; count: number }>();
 
   for (const receipt of receipts) {
-    const categoryEntry = categoriesMap.get(receipt.categoryName) ?? { total: 0, count: 0 };
-    categoryEntry.total += receipt.amount;
-    categoryEntry.count += 1;
-    categoriesMap.set(receipt.categoryName, categoryEntry);
+    const receiptCategories = new Map<string, number>();
+    for (const share of receipt.categoryShares) {
+      receiptCategories.set(share.categoryName, (receiptCategories.get(share.categoryName) ?? 0) + share.amount);
+    }
+
+    for (const [categoryName, amount] of receiptCategories) {
+      const categoryEntry = categoriesMap.get(categoryName) ?? { total: 0, count: 0 };
+      categoryEntry.total += amount;
+      categoryEntry.count += 1;
+      categoriesMap.set(categoryName, categoryEntry);
+    }
 
     const merchantEntry = merchantsMap.get(receipt.merchantName) ?? { total: 0, count: 0 };
     merchantEntry.total += receipt.amount;
@@ -790,7 +822,7 @@ const buildSummaryData = (
   const { categories, merchants } = buildBreakdowns(filteredReceipts);
 
   const currencies = [...new Set(filteredReceipts.map((receipt) => receipt.currency).filter(Boolean))];
-  const currency = currencies[0] ?? FALLBACK_CURRENCY;
+  const currency = normalizeCurrencyCode(userData.homeCurrency) ?? currencies[0] ?? FALLBACK_CURRENCY;
 
   const metrics: SummaryMetrics = {
     totalSpend,
@@ -1620,9 +1652,19 @@ const chunkValues = <T,>(values: T[], size: number) => {
   return chunks;
 };
 
-const sendSummaryNotificationMessage = async (
+export type PushNotificationMessage = {
+  title: string;
+  body: string;
+  data: Record<string, string>;
+};
+
+/**
+ * Send a push notification to every registered device of a user. Tokens that
+ * FCM reports as no longer valid are returned so callers can remove them.
+ */
+export const sendPushNotification = async (
   tokens: string[],
-  summary: SpendSummaryData,
+  message: PushNotificationMessage,
 ): Promise<NotificationSendResult> => {
   const uniqueTokens = Array.from(new Set(tokens.filter((token) => token.trim().length > 0)));
   if (uniqueTokens.length === 0) {
@@ -1641,21 +1683,10 @@ const sendSummaryNotificationMessage = async (
     const response = await admin.messaging().sendEachForMulticast({
       tokens: tokenChunk,
       notification: {
-        title: buildSummaryNotificationTitle(summary),
-        body: buildSummaryNotificationBody(summary),
-      },
-      data: {
-        type: "spend_summary",
-        periodType: summary.period.type,
-        periodLabel: summary.period.label,
-        periodRange: summary.period.rangeLabel,
-        periodStartKey: summary.period.startKey,
-        periodEndKey: summary.period.endKey,
-        totalSpend: summary.metrics.totalSpend.toFixed(2),
-        receiptCount: String(summary.metrics.receiptCount),
-        currency: summary.currency,
-        mixedCurrencies: String(summary.mixedCurrencies),
+        title: message.title,
+        body: message.body,
       },
+      data: message.data,
       android: {
         priority: "high",
       },
@@ -1692,6 +1723,27 @@ const sendSummaryNotificationMessage = async (
   };
 };
 
+const sendSummaryNotificationMessage = (
+  tokens: string[],
+  summary: SpendSummaryData,
+): Promise<NotificationSendResult> =>
+  sendPushNotification(tokens, {
+    title: buildSummaryNotificationTitle(summary),
+    body: buildSummaryNotificationBody(summary),
+    data: {
+      type: "spend_summary",
+      periodType: summary.period.type,
+      periodLabel: summary.period.label,
+      periodRange: summary.period.rangeLabel,
+      periodStartKey: summary.period.startKey,
+      periodEndKey: summary.period.endKey,
+      totalSpend: summary.metrics.totalSpend.toFixed(2),
+      receiptCount: String(summary.metrics.receiptCount),
+      currency: summary.currency,
+      mixedCurrencies: String(summary.mixedCurrencies),
+    },
+  });
+
 const loadUserSpendSummary = async (
   userId: string,
   userData: admin.firestore.DocumentData,
@@ -1700,7 +1752,7 @@ const loadUserSpendSummary = async (
 ) => {
   const receiptsSnap = await admin.firestore().collection(`users/${userId}/receipts`).get();
   const normalizedReceipts = receiptsSnap.docs
-    .map((doc) => normalizeReceipt(doc.data(), timeZone, FALLBACK_CURRENCY))
+    .map((doc) => normalizeReceipt(doc.data(), timeZone, normalizeCurrencyCode(userData.homeCurrency) ?? FALLBACK_CURRENCY))
     .filter((receipt): receipt is NormalizedReceipt => receipt !== null);
 
   return buildSummaryData(period, userData, normalizedReceipts, timeZone);
@@ -1730,7 +1782,7 @@ const isMonthlyScheduleDue = (config: SpendSummaryScheduleConfig, date: Date) =>
   return parts.day === effectiveDay && currentTime === config.monthly.time;
 };
 
-const getUserNotificationTokens = (userData: admin.firestore.DocumentData) =>
+export const getUserNotificationTokens = (userData: admin.firestore.DocumentData) =>
   Array.from(
     new Set(
       (Array.isArray(userData.notificationTokens) ? userData.notificationTokens : [])
@@ -1740,7 +1792,7 @@ const getUserNotificationTokens = (userData: admin.firestore.DocumentData) =>
     ),
   );
 
-const getUserNotificationTimeZone = (userData: admin.firestore.DocumentData) =>
+export const getUserNotificationTimeZone = (userData: admin.firestore.DocumentData) =>
   normalizeTimeZone(userData.notificationTimeZone, FALLBACK_TIME_ZONE);
 
 const isWithinSummaryNotificationWindow = (date: Date, timeZone: string) => {
@@ -5,6 +5,9 @@
  * 1. Account linking via deep-link tokens
  * 2. AI chat (synced with web app's AI Insights)
  * 3. Receipt upload via photo messages
+ * 4. Spending and receipt commands (/month, /last, /category, ...) with
+ *    inline keyboards for correcting freshly processed receipts
+ * 5. Corrections sent as replies to a receipt message ("total was 42.18")
  */
 
 import { onRequest } from "firebase-functions/v2/https";
@@ -20,14 +23,28 @@ import {
   ChatMessage,
   handleChat,
   formatCurrency,
+  summarizeTags,
 } from "./ai-insights";
 import { getFreePlanReceiptLimit } from "./app-config";
 import { assertAdmin } from "./authz";
+import { getReceiptHomeAmount, getUserHomeCurrency } from "./currency";
+import { loadRecurringExpenseContext } from "./recurring";
+import {
+  MAX_MERCHANT_NAME_LENGTH,
+  ReceiptCorrection,
+  applyReceiptCorrections,
+  describeEdits,
+  findCategoryByName,
+  parseAmountInput,
+  parseReceiptCorrections,
+} from "./receipt-corrections";
+import { CategoryDefinition, loadUserCategories } from "./receipt-processor";
 import { getEffectiveSubscriptionPlan } from "./subscription";
+import { resolveIngestTarget } from "./workspaces";
 
 // ─── Secrets & Configuration ────────────────────────────────────────────────
 
-const telegramBotToken = defineSecret("TELEGRAM_BOT_TOKEN");
+export const telegramBotToken = defineSecret("TELEGRAM_BOT_TOKEN");
 
 /**
  * Bot username without the @ sign.
@@ -92,13 +109,29 @@ interface TelegramMessage {
   photo?: TelegramPhotoSize[];
   document?: TelegramDocument;
   caption?: string;
+  reply_to_message?: TelegramMessage;
+}
+
+interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
 }
 
 interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
 }
 
+interface TelegramInlineButton {
+  text: string;
+  callback_data: string;
+}
+
+type TelegramInlineKeyboard = TelegramInlineButton[][];
+
 interface TelegramFileResponse {
   ok: boolean;
   result?: { file_id: string; file_unique_id: string; file_path?: string };
@@ -124,17 +157,55 @@ async function telegramApi(
   return data;
 }
 
+/**
+ * Send a text message. Returns the sent message's ID, or null if it failed.
+ */
 async function sendTelegramMessage(
   token: string,
   chatId: number,
   text: string,
-  parseMode: "Markdown" | "HTML" | "" = ""
-): Promise<void> {
+  parseMode: "Markdown" | "HTML" | "" = "",
+  keyboard?: TelegramInlineKeyboard
+): Promise<number | null> {
   const body: Record<string, unknown> = { chat_id: chatId, text };
   if (parseMode) {
     body.parse_mode = parseMode;
   }
-  await telegramApi(token, "sendMessage", body);
+  if (keyboard?.length) {
+    body.reply_markup = { inline_keyboard: keyboard };
+  }
+  const data = (await telegramApi(token, "sendMessage", body)) as { result?: { message_id?: number } };
+  return data?.result?.message_id ?? null;
+}
+
+/**
+ * Stop the spinner on a pressed inline button, optionally with a short toast.
+ */
+async function answerCallbackQuery(
+  token: string,
+  callbackQueryId: string,
+  text = ""
+): Promise<void> {
+  const body: Record<string, unknown> = { callback_query_id: callbackQueryId };
+  if (text) {
+    body.text = text;
+  }
+  await telegramApi(token, "answerCallbackQuery", body);
+}
+
+/**
+ * Remove the buttons from a message once one of them has been used.
+ */
+async function clearInlineKeyboard(
+  token: string,
+  chatId: number,
+  messageId: number
+): Promise<void> {
+  await telegramApi(token, "editMessageReplyMarkup", {
+    chat_id: chatId,
+    message_id: messageId,
+    reply_markup: { inline_keyboard: [] },
+  });
 }
 
 async function sendTypingAction(
@@ -196,6 +267,7 @@ async function findUserByTelegramChatId(
  */
 async function buildServerInsightData(userId: string): Promise<InsightData> {
   const db = admin.firestore();
+  const homeCurrency = await getUserHomeCurrency(userId);
 
   // Get all receipts (up to 200)
   const receiptsSnap = await db
@@ -241,7 +313,7 @@ async function buildServerInsightData(userId: string): Promise<InsightData> {
 
   const totalSpend = currentMonthReceipts.reduce(
     (sum: number, r: admin.firestore.DocumentData) =>
-      sum + (r.totalAmount || 0),
+      sum + getReceiptHomeAmount(r),
     0
   );
 
@@ -249,7 +321,7 @@ async function buildServerInsightData(userId: string): Promise<InsightData> {
   const categoryTotals: Record<string, number> = {};
   for (const r of currentMonthReceipts) {
     const cat = r.category?.name || "Other";
-    categoryTotals[cat] = (categoryTotals[cat] || 0) + (r.totalAmount || 0);
+    categoryTotals[cat] = (categoryTotals[cat] || 0) + getReceiptHomeAmount(r);
   }
 
   const topCategories = Object.entries(categoryTotals)
@@ -266,7 +338,8 @@ async function buildServerInsightData(userId: string): Promise<InsightData> {
   const dailyTotals: number[] = new Array(daysInMonth).fill(0);
 
   for (const r of currentMonthReceipts) {
-    if (!r.totalAmount) continue;
+    const amount = getReceiptHomeAmount(r);
+    if (!amount) continue;
     let day: number | null = null;
     if (r.date) {
       day = new Date(r.date).getDate();
@@ -274,7 +347,7 @@ async function buildServerInsightData(userId: string): Promise<InsightData> {
       day = r.createdAt.toDate().getDate();
     }
     if (day && day >= 1 && day <= daysInMonth) {
-      dailyTotals[day - 1] += r.totalAmount;
+      dailyTotals[day - 1] += amount;
     }
   }
 
@@ -306,7 +379,7 @@ async function buildServerInsightData(userId: string): Promise<InsightData> {
     })
     .reduce(
       (sum: number, r: admin.firestore.DocumentData) =>
-        sum + (r.totalAmount || 0),
+        sum + getReceiptHomeAmount(r),
       0
     );
 
@@ -324,9 +397,10 @@ async function buildServerInsightData(userId: string): Promise<InsightData> {
   const receiptSummaries = currentMonthReceipts.map((r) => ({
     merchant:
       r.merchant?.canonicalName || r.merchant?.rawName || "Unknown",
-    amount: r.totalAmount || 0,
+    amount: getReceiptHomeAmount(r),
     date: r.date || "",
     category: r.category?.name || "Other",
+    tags: Array.isArray(r.tags) ? (r.tags as string[]) : undefined,
   }));
 
   // Monthly summaries data
@@ -382,15 +456,15 @@ async function buildServerInsightData(userId: string): Promise<InsightData> {
   // Fallback if no monthly summaries
   if (monthlySummaries.length === 0) {
     for (const r of allReceipts) {
-      allTimeTotal += r.totalAmount || 0;
+      allTimeTotal += getReceiptHomeAmount(r);
       allTimeCount += 1;
       const cat = r.category?.name || "Other";
       allCategoryTotals[cat] =
-        (allCategoryTotals[cat] || 0) + (r.totalAmount || 0);
+        (allCategoryTotals[cat] || 0) + getReceiptHomeAmount(r);
       const merchant =
         r.merchant?.canonicalName || r.merchant?.rawName || "Unknown";
       allMerchantTotals[merchant] =
-        (allMerchantTotals[merchant] || 0) + (r.totalAmount || 0);
+        (allMerchantTotals[merchant] || 0) + getReceiptHomeAmount(r);
     }
   }
 
@@ -427,12 +501,20 @@ async function buildServerInsightData(userId: string): Promise<InsightData> {
   const recentReceipts = allReceipts.slice(0, 50).map((r) => ({
     merchant:
       r.merchant?.canonicalName || r.merchant?.rawName || "Unknown",
-    amount: r.totalAmount || 0,
+    amount: getReceiptHomeAmount(r),
     date: r.date || "",
     category: r.category?.name || "Other",
+    tags: Array.isArray(r.tags) ? (r.tags as string[]) : undefined,
   }));
 
+  const topTags = summarizeTags(
+    allReceipts.map((r) => ({ tags: r.tags, amount: getReceiptHomeAmount(r) }))
+  );
+
+  const recurringExpenses = await loadRecurringExpenseContext(userId);
+
   return {
+    currency: homeCurrency,
     totalSpend,
     receiptCount: currentMonthReceipts.length,
     monthLabel,
@@ -450,6 +532,8 @@ async function buildServerInsightData(userId: string): Promise<InsightData> {
       lastMonth,
       monthsCount: monthlySummariesData.length,
     },
+    topTags,
+    recurringExpenses,
     monthlySummaries: monthsSorted,
     recentReceipts,
   };
@@ -594,6 +678,24 @@ async function appendToTelegramChat(
   });
 }
 
+/**
+ * Send a bot message to a linked user from outside the webhook (alerts) and
+ * keep it in the web app's Telegram chat history. Functions calling this must
+ * list telegramBotToken in their secrets.
+ */
+export async function notifyTelegramUser(userId: string, chatId: number, text: string): Promise<void> {
+  const token = telegramBotToken.value();
+  if (!token) {
+    logger.error("TELEGRAM_BOT_TOKEN not set, cannot send Telegram notification");
+    return;
+  }
+
+  await sendTelegramMessage(token, chatId, text);
+  await appendToTelegramChat(userId, [
+    { id: crypto.randomUUID(), role: "assistant", content: text, timestamp: new Date().toISOString() },
+  ]);
+}
+
 async function handleTextMessage(
   token: string,
   message: TelegramMessage,
@@ -678,7 +780,9 @@ async function handlePhotoMessage(
   );
 
   try {
-    const receiptAccess = await canUserAcceptNewReceipt(userId);
+    // Members can route Telegram receipts into a shared workspace
+    const { workspaceId, addedBy } = await resolveIngestTarget(userId);
+    const receiptAccess = await canUserAcceptNewReceipt(workspaceId);
     if (!receiptAccess.allowed) {
       await sendTelegramMessage(
         token,
@@ -712,7 +816,7 @@ async function handlePhotoMessage(
     // Upload to Firebase Storage
     const timestamp = Date.now();
     const fileName = `telegram_receipt_${timestamp}.jpg`;
-    const storagePath = `users/${userId}/receipts/${timestamp}_${fileName}`;
+    const storagePath = `users/${workspaceId}/receipts/${timestamp}_${fileName}`;
 
     const bucket = admin.storage().bucket();
     const storageFile = bucket.file(storagePath);
@@ -723,9 +827,10 @@ async function handlePhotoMessage(
     // Create receipt document in Firestore (triggers processReceipt)
     const db = admin.firestore();
     const receiptRef = await db
-      .collection(`users/${userId}/receipts`)
+      .collection(`users/${workspaceId}/receipts`)
       .add({
-        userId,
+        userId: workspaceId,
+        addedBy,
         status: "uploaded",
         file: {
           storagePath,
@@ -755,6 +860,7 @@ async function handlePhotoMessage(
 
     logger.info("Receipt uploaded via Telegram", {
       userId,
+      workspaceId,
       receiptId: receiptRef.id,
       fileSize: fileBuffer.length,
     });
@@ -813,7 +919,9 @@ async function handleDocumentMessage(
   );
 
   try {
-    const receiptAccess = await canUserAcceptNewReceipt(userId);
+    // Members can route Telegram receipts into a shared workspace
+    const { workspaceId, addedBy } = await resolveIngestTarget(userId);
+    const receiptAccess = await canUserAcceptNewReceipt(workspaceId);
     if (!receiptAccess.allowed) {
       await sendTelegramMessage(
         token,
@@ -836,7 +944,7 @@ async function handleDocumentMessage(
     const mimeType = document.mime_type || "image/jpeg";
     const timestamp = Date.now();
     const originalName = document.file_name || `telegram_receipt_${timestamp}`;
-    const storagePath = `users/${userId}/receipts/${timestamp}_${originalName.replace(/[^a-zA-Z0-9.-]/g, "_")}`;
+    const storagePath = `users/${workspaceId}/receipts/${timestamp}_${originalName.replace(/[^a-zA-Z0-9.-]/g, "_")}`;
 
     const bucket = admin.storage().bucket();
     const storageFile = bucket.file(storagePath);
@@ -846,9 +954,10 @@ async function handleDocumentMessage(
 
     const db = admin.firestore();
     const receiptRef = await db
-      .collection(`users/${userId}/receipts`)
+      .collection(`users/${workspaceId}/receipts`)
       .add({
-        userId,
+        userId: workspaceId,
+        addedBy,
         status: "uploaded",
         file: {
           storagePath,
@@ -877,6 +986,7 @@ async function handleDocumentMessage(
 
     logger.info("Receipt document uploaded via Telegram", {
       userId,
+      workspaceId,
       receiptId: receiptRef.id,
       fileName: originalName,
       fileSize: fileBuffer.length,
@@ -903,6 +1013,14 @@ async function handleHelpCommand(
     "Here's what I can do:\n\n" +
     "- Send a text message to chat about your expenses and get AI insights\n" +
     "- Send a photo or PDF of a receipt to add it to your account\n" +
+    "- /month or /week - See what you've spent\n" +
+    "- /budget - Check this month's spending against your budgets\n" +
+    "- /last - Show and edit your latest receipt\n" +
+    "- /category [name] - Recategorize your latest receipt\n" +
+    "- /delete - Delete your latest receipt\n" +
+    "- /search <store> - Find receipts from a store\n" +
+    "- /cancel - Stop a correction in progress\n" +
+    "- Reply to a message about a receipt to correct it, e.g. \"total was 42.18\"\n" +
     "- /help - Show this help message\n" +
     "- /status - Check your account status\n" +
     "- /unlink - Disconnect your Telegram from ReceiptNest AI"
@@ -920,9 +1038,9 @@ async function handleStatusCommand(
       `Your ReceiptNest AI Account:\n\n` +
       `Current Month: ${insightData.monthLabel}\n` +
       `Receipts This Month: ${insightData.receiptCount}\n` +
-      `Spending This Month: ${formatCurrency(insightData.totalSpend)}\n` +
+      `Spending This Month: ${formatCurrency(insightData.totalSpend, insightData.currency)}\n` +
       `All-Time Receipts: ${insightData.allTime.receiptCount}\n` +
-      `All-Time Spending: ${formatCurrency(insightData.allTime.totalSpend)}`;
+      `All-Time Spending: ${formatCurrency(insightData.allTime.totalSpend, insightData.currency)}`;
 
     await sendTelegramMessage(token, chatId, statusMsg);
   } catch (error) {
@@ -946,6 +1064,7 @@ async function handleUnlinkCommand(
   await db.doc(`users/${userId}`).update({
     telegramChatId: admin.firestore.FieldValue.delete(),
     telegramLinkedAt: admin.firestore.FieldValue.delete(),
+    telegramPendingEdit: admin.firestore.FieldValue.delete(),
     updatedAt: admin.firestore.FieldValue.serverTimestamp(),
   });
 
@@ -958,6 +1077,670 @@ async function handleUnlinkCommand(
   logger.info("Telegram account unlinked", { userId, chatId });
 }
 
+// ─── Spending & Receipt Commands ────────────────────────────────────────────
+// Commands read and edit the workspace Telegram receipts are saved to, so a
+// member of a shared workspace works on the same receipts they send in.
+
+/** Shown in Telegram's command menu next to the message box. */
+const BOT_COMMANDS = [
+  { command: "month", description: "Spending so far this month" },
+  { command: "week", description: "Spending in the last 7 days" },
+  { command: "budget", description: "This month's spending against your budgets" },
+  { command: "last", description: "Show and edit your latest receipt" },
+  { command: "category", description: "Recategorize your latest receipt" },
+  { command: "delete", description: "Delete your latest receipt" },
+  { command: "search", description: "Find receipts by store name" },
+  { command: "cancel", description: "Stop a correction in progress" },
+  { command: "status", description: "Check your account status" },
+  { command: "help", description: "Show what I can do" },
+];
+
+/** How long the bot treats the next text message as a corrected value. */
+const PENDING_EDIT_TTL_MS = 10 * 60 * 1000;
+/** Telegram rejects buttons whose callback_data is longer than this. */
+const MAX_CALLBACK_DATA_BYTES = 64;
+const SEARCH_SCAN_LIMIT = 500;
+const MAX_SEARCH_RESULTS = 10;
+const TOP_CATEGORY_COUNT = 5;
+const RECEIPT_ID_PATTERN = /^[\w-]{1,128}$/;
+
+type PendingEditField = "merchant" | "amount";
+
+/** Stored on the user as telegramPendingEdit while the bot waits for a value. */
+interface PendingEdit {
+  receiptPath: string;
+  field: PendingEditField;
+  requestedAt: admin.firestore.Timestamp;
+}
+
+interface TelegramReceipt {
+  workspaceId: string;
+  ref: admin.firestore.DocumentReference;
+  data: admin.firestore.DocumentData;
+}
+
+const getReceiptMerchant = (receipt: admin.firestore.DocumentData): string =>
+  receipt.merchant?.canonicalName || receipt.merchant?.rawName || "Unknown";
+
+const formatReceiptAmount = (receipt: admin.firestore.DocumentData): string =>
+  typeof receipt.totalAmount === "number" ?
+    formatCurrency(receipt.totalAmount, receipt.currency || "USD") :
+    "amount not detected";
+
+const describeReceipt = (receipt: admin.firestore.DocumentData): string =>
+  `Store: ${getReceiptMerchant(receipt)}\n` +
+  `Amount: ${formatReceiptAmount(receipt)}\n` +
+  `Date: ${receipt.date || "Unknown date"}\n` +
+  `Category: ${receipt.category?.name || "Uncategorized"}`;
+
+const getDateDaysAgo = (days: number): string => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+};
+
+const parseBudgetAmount = (value: unknown): number | null => {
+  const amount = typeof value === "string" ? Number.parseFloat(value) : value;
+  return typeof amount === "number" && Number.isFinite(amount) && amount > 0 ? amount : null;
+};
+
+const callbackData = (...parts: string[]): string => parts.join(":");
+
+const buildEditButtons = (receiptId: string): TelegramInlineButton[] => [
+  { text: "Merchant", callback_data: callbackData("m", receiptId) },
+  { text: "Amount", callback_data: callbackData("a", receiptId) },
+  { text: "Category", callback_data: callbackData("c", receiptId) },
+];
+
+function buildCategoryKeyboard(receiptId: string, categories: CategoryDefinition[]): TelegramInlineKeyboard {
+  const buttons = categories
+    .map((category) => ({ text: category.name, callback_data: callbackData("cs", receiptId, category.id) }))
+    .filter((button) => Buffer.byteLength(button.callback_data) <= MAX_CALLBACK_DATA_BYTES);
+
+  const rows: TelegramInlineKeyboard = [];
+  for (let i = 0; i < buttons.length; i += 2) {
+    rows.push(buttons.slice(i, i + 2));
+  }
+  return rows;
+}
+
+const getPendingEdit = (userData: admin.firestore.DocumentData): PendingEdit | null => {
+  const pending = userData.telegramPendingEdit as Partial<PendingEdit> | undefined;
+  if (!pending || typeof pending.receiptPath !== "string") return null;
+  if (pending.field !== "merchant" && pending.field !== "amount") return null;
+
+  const requestedAt = pending.requestedAt?.toMillis?.() ?? 0;
+  return Date.now() - requestedAt <= PENDING_EDIT_TTL_MS ? (pending as PendingEdit) : null;
+};
+
+async function getLatestReceipt(workspaceId: string): Promise<TelegramReceipt | null> {
+  const snapshot = await admin.firestore()
+    .collection(`users/${workspaceId}/receipts`)
+    .orderBy("createdAt", "desc")
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return null;
+  return { workspaceId, ref: snapshot.docs[0].ref, data: snapshot.docs[0].data() };
+}
+
+/**
+ * Find the receipt an inline button points at. Buttons only carry the
+ * receipt ID, so look in the workspace Telegram receipts go to, then in the
+ * user's own.
+ */
+async function findTelegramReceipt(userId: string, receiptId: string): Promise<TelegramReceipt | null> {
+  if (!RECEIPT_ID_PATTERN.test(receiptId)) return null;
+
+  const { workspaceId } = await resolveIngestTarget(userId);
+  for (const candidateId of new Set([workspaceId, userId])) {
+    const receiptSnap = await admin.firestore().doc(`users/${candidateId}/receipts/${receiptId}`).get();
+    if (receiptSnap.exists) {
+      return { workspaceId: candidateId, ref: receiptSnap.ref, data: receiptSnap.data()! };
+    }
+  }
+  return null;
+}
+
+/**
+ * Delete a receipt and its stored files, the same way the app does.
+ */
+async function deleteReceiptWithFiles(receipt: TelegramReceipt): Promise<void> {
+  const storagePaths = Array.from(new Set([
+    receipt.data.file?.storagePath,
+    receipt.data.email?.textStoragePath,
+    receipt.data.email?.htmlStoragePath,
+    receipt.data.email?.pdfStoragePath,
+    receipt.data.email?.previewStoragePath,
+  ].filter((path): path is string => typeof path === "string" && path.length > 0)));
+
+  const bucket = admin.storage().bucket();
+  for (const storagePath of storagePaths) {
+    try {
+      await bucket.file(storagePath).delete();
+    } catch (error) {
+      // Continue with the Firestore delete even if a file is already gone
+      logger.warn("Failed to delete receipt file", { storagePath, error });
+    }
+  }
+
+  await receipt.ref.delete();
+}
+
+async function correctReceipt(
+  receipt: TelegramReceipt,
+  userId: string,
+  corrections: ReceiptCorrection[]
+): Promise<void> {
+  await applyReceiptCorrections(receipt.ref, receipt.data, corrections, userId, "telegram");
+}
+
+const getMessageKey = (chatId: number, messageId: number): string => `${chatId}:${messageId}`;
+
+/**
+ * Remember that a bot message shows this receipt, so replies to it can
+ * correct the receipt. Message IDs are only unique within a chat, hence the
+ * chat ID in the key.
+ */
+async function rememberReceiptMessage(
+  receiptRef: admin.firestore.DocumentReference,
+  chatId: number,
+  messageId: number | null
+): Promise<void> {
+  if (messageId === null) return;
+  await receiptRef.update({
+    telegramMessageKeys: admin.firestore.FieldValue.arrayUnion(getMessageKey(chatId, messageId)),
+  });
+}
+
+/**
+ * The receipt a replied-to bot message was about, looked up in the same
+ * workspaces as inline buttons.
+ */
+async function findReceiptForMessage(
+  userId: string,
+  chatId: number,
+  messageId: number
+): Promise<TelegramReceipt | null> {
+  const { workspaceId } = await resolveIngestTarget(userId);
+  for (const candidateId of new Set([workspaceId, userId])) {
+    const snapshot = await admin.firestore()
+      .collection(`users/${candidateId}/receipts`)
+      .where("telegramMessageKeys", "array-contains", getMessageKey(chatId, messageId))
+      .limit(1)
+      .get();
+    if (!snapshot.empty) {
+      return { workspaceId: candidateId, ref: snapshot.docs[0].ref, data: snapshot.docs[0].data() };
+    }
+  }
+  return null;
+}
+
+async function handleSpendSummaryCommand(
+  token: string,
+  chatId: number,
+  userId: string,
+  period: "month" | "week"
+): Promise<void> {
+  const { workspaceId } = await resolveIngestTarget(userId);
+  const today = getDateDaysAgo(0);
+  const startDate = period === "month" ? `${today.slice(0, 7)}-01` : getDateDaysAgo(6);
+
+  const [receiptsSnap, currency] = await Promise.all([
+    admin.firestore()
+      .collection(`users/${workspaceId}/receipts`)
+      .where("date", ">=", startDate)
+      .where("date", "<=", today)
+      .get(),
+    getUserHomeCurrency(workspaceId),
+  ]);
+
+  const label = period === "month" ?
+    new Date().toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" }) :
+    `Last 7 days (since ${startDate})`;
+
+  if (receiptsSnap.empty) {
+    await sendTelegramMessage(token, chatId, `${label}: no receipts yet.`);
+    return;
+  }
+
+  let total = 0;
+  const categoryTotals: Record<string, number> = {};
+  for (const receiptDoc of receiptsSnap.docs) {
+    const receipt = receiptDoc.data();
+    const amount = getReceiptHomeAmount(receipt);
+    const categoryName = receipt.category?.name || "Other";
+    total += amount;
+    categoryTotals[categoryName] = (categoryTotals[categoryName] || 0) + amount;
+  }
+
+  const topCategories = Object.entries(categoryTotals)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, TOP_CATEGORY_COUNT)
+    .map(([name, amount]) => `- ${name}: ${formatCurrency(amount, currency)}`);
+
+  await sendTelegramMessage(
+    token,
+    chatId,
+    `${label}\n\n` +
+    `Spent: ${formatCurrency(total, currency)}\n` +
+    `Receipts: ${receiptsSnap.size}\n\n` +
+    `Top categories:\n${topCategories.join("\n")}`
+  );
+}
+
+/**
+ * This month's spend against the workspace's budgets. Uses the monthly
+ * summary, the same figures budget alerts are based on.
+ */
+async function handleBudgetCommand(
+  token: string,
+  chatId: number,
+  userId: string
+): Promise<void> {
+  const { workspaceId } = await resolveIngestTarget(userId);
+  const monthId = new Date().toISOString().slice(0, 7);
+  const db = admin.firestore();
+
+  const [workspaceSnap, summarySnap, categories, currency] = await Promise.all([
+    db.doc(`users/${workspaceId}`).get(),
+    db.doc(`users/${workspaceId}/monthlySummaries/${monthId}`).get(),
+    loadUserCategories(workspaceId),
+    getUserHomeCurrency(workspaceId),
+  ]);
+
+  const budgets = (workspaceSnap.get("budgets") ?? {}) as { overall?: unknown; categories?: Record<string, unknown> };
+  const byCategory = (summarySnap.get("byCategory") ?? {}) as Record<string, { categoryName?: string; total?: number }>;
+  const describeBudget = (label: string, spent: number, budget: number) =>
+    `${label}: ${formatCurrency(spent, currency)} of ${formatCurrency(budget, currency)} (${Math.round((spent / budget) * 100)}%)`;
+
+  const lines: string[] = [];
+  const overall = parseBudgetAmount(budgets.overall);
+  if (overall) {
+    lines.push(describeBudget("Monthly", Number(summarySnap.get("totalSpend") ?? 0), overall));
+  }
+  for (const [categoryId, value] of Object.entries(budgets.categories ?? {})) {
+    const budget = parseBudgetAmount(value);
+    if (!budget) continue;
+    const name = categories.find((c) => c.id === categoryId)?.name || byCategory[categoryId]?.categoryName || categoryId;
+    lines.push(describeBudget(name, Number(byCategory[categoryId]?.total ?? 0), budget));
+  }
+
+  if (!lines.length) {
+    await sendTelegramMessage(
+      token,
+      chatId,
+      "You haven't set any budgets yet. Add them in the ReceiptNest AI app under Settings > Budgets."
+    );
+    return;
+  }
+
+  const monthLabel = new Date().toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+  await sendTelegramMessage(token, chatId, `Budgets for ${monthLabel}\n\n${lines.join("\n")}`);
+}
+
+async function handleLastCommand(
+  token: string,
+  chatId: number,
+  userId: string
+): Promise<void> {
+  const { workspaceId } = await resolveIngestTarget(userId);
+  const receipt = await getLatestReceipt(workspaceId);
+  if (!receipt) {
+    await sendTelegramMessage(token, chatId, "You don't have any receipts yet. Send me a photo of one to get started.");
+    return;
+  }
+
+  const messageId = await sendTelegramMessage(
+    token,
+    chatId,
+    `Your latest receipt:\n\n${describeReceipt(receipt.data)}\n\nReply to this message to correct it, e.g. "total was 42.18".`,
+    "",
+    [buildEditButtons(receipt.ref.id), [{ text: "Delete", callback_data: callbackData("d", receipt.ref.id) }]]
+  );
+  await rememberReceiptMessage(receipt.ref, chatId, messageId);
+}
+
+async function handleCategoryCommand(
+  token: string,
+  chatId: number,
+  userId: string,
+  query: string
+): Promise<void> {
+  const { workspaceId } = await resolveIngestTarget(userId);
+  const receipt = await getLatestReceipt(workspaceId);
+  if (!receipt) {
+    await sendTelegramMessage(token, chatId, "You don't have any receipts yet.");
+    return;
+  }
+
+  const categories = await loadUserCategories(workspaceId);
+  const merchant = getReceiptMerchant(receipt.data);
+  if (query) {
+    const category = findCategoryByName(categories, query);
+    if (category) {
+      await correctReceipt(receipt, userId, [{ field: "category", value: category }]);
+      await sendTelegramMessage(token, chatId, `${merchant} is now in ${category.name}.`);
+      return;
+    }
+  }
+
+  const prompt = query ?
+    `I couldn't find a category called "${query}". Pick one for ${merchant}:` :
+    `Pick a category for ${merchant} (currently ${receipt.data.category?.name || "uncategorized"}):`;
+  await sendTelegramMessage(token, chatId, prompt, "", buildCategoryKeyboard(receipt.ref.id, categories));
+}
+
+async function sendDeleteConfirmation(
+  token: string,
+  chatId: number,
+  receipt: TelegramReceipt
+): Promise<void> {
+  await sendTelegramMessage(
+    token,
+    chatId,
+    `Delete this receipt? This can't be undone.\n\n${describeReceipt(receipt.data)}`,
+    "",
+    [[
+      { text: "Delete", callback_data: callbackData("dy", receipt.ref.id) },
+      { text: "Keep it", callback_data: callbackData("dn") },
+    ]]
+  );
+}
+
+async function handleDeleteCommand(
+  token: string,
+  chatId: number,
+  userId: string
+): Promise<void> {
+  const { workspaceId } = await resolveIngestTarget(userId);
+  const receipt = await getLatestReceipt(workspaceId);
+  if (!receipt) {
+    await sendTelegramMessage(token, chatId, "You don't have any receipts to delete.");
+    return;
+  }
+
+  await sendDeleteConfirmation(token, chatId, receipt);
+}
+
+/**
+ * Receipts whose store name contains the query, newest first. Firestore has
+ * no substring search, so this scans the most recent receipts.
+ */
+async function handleSearchCommand(
+  token: string,
+  chatId: number,
+  userId: string,
+  query: string
+): Promise<void> {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    await sendTelegramMessage(token, chatId, "Tell me which store to look for, e.g. /search starbucks");
+    return;
+  }
+
+  const { workspaceId } = await resolveIngestTarget(userId);
+  const [receiptsSnap, currency] = await Promise.all([
+    admin.firestore()
+      .collection(`users/${workspaceId}/receipts`)
+      .orderBy("createdAt", "desc")
+      .limit(SEARCH_SCAN_LIMIT)
+      .get(),
+    getUserHomeCurrency(workspaceId),
+  ]);
+
+  const matches = receiptsSnap.docs
+    .map((receiptDoc) => receiptDoc.data())
+    .filter((receipt) =>
+      getReceiptMerchant(receipt).toLowerCase().includes(needle) ||
+      String(receipt.merchant?.rawName ?? "").toLowerCase().includes(needle)
+    );
+
+  if (!matches.length) {
+    await sendTelegramMessage(token, chatId, `I couldn't find any receipts from "${query}".`);
+    return;
+  }
+
+  const total = matches.reduce((sum, receipt) => sum + getReceiptHomeAmount(receipt), 0);
+  const lines = matches
+    .slice(0, MAX_SEARCH_RESULTS)
+    .map((receipt) => `- ${receipt.date || "No date"} · ${getReceiptMerchant(receipt)} · ${formatReceiptAmount(receipt)}`);
+  const more = matches.length > MAX_SEARCH_RESULTS ?
+    `\n\n...and ${matches.length - MAX_SEARCH_RESULTS} more. Open the app to see them all.` :
+    "";
+
+  await sendTelegramMessage(
+    token,
+    chatId,
+    `${matches.length} ${matches.length === 1 ? "receipt" : "receipts"} matching "${query}", ` +
+    `${formatCurrency(total, currency)} in total:\n\n${lines.join("\n")}${more}`
+  );
+}
+
+async function handleCancelCommand(
+  token: string,
+  chatId: number,
+  userId: string,
+  userData: admin.firestore.DocumentData
+): Promise<void> {
+  if (!getPendingEdit(userData)) {
+    await sendTelegramMessage(token, chatId, "There's nothing to cancel.");
+    return;
+  }
+
+  await admin.firestore().doc(`users/${userId}`).update({
+    telegramPendingEdit: admin.firestore.FieldValue.delete(),
+  });
+  await sendTelegramMessage(token, chatId, "OK, I left the receipt as it was.");
+}
+
+// ─── Receipt Corrections ────────────────────────────────────────────────────
+// Merchant and amount corrections take two steps: a button press stores a
+// pending edit on the user, and their next plain text message is applied to
+// the receipt instead of going to the AI chat.
+
+async function startPendingEdit(
+  token: string,
+  chatId: number,
+  userId: string,
+  receipt: TelegramReceipt,
+  field: PendingEditField
+): Promise<void> {
+  await admin.firestore().doc(`users/${userId}`).update({
+    telegramPendingEdit: {
+      receiptPath: receipt.ref.path,
+      field,
+      requestedAt: admin.firestore.Timestamp.now(),
+    },
+  });
+
+  const prompt = field === "merchant" ?
+    `What's the right store name? I have "${getReceiptMerchant(receipt.data)}".` :
+    `What's the right total? I have ${formatReceiptAmount(receipt.data)}. Send just the number, e.g. 12.50.`;
+  await sendTelegramMessage(token, chatId, `${prompt}\n\nSend /cancel to leave it as it is.`);
+}
+
+async function applyPendingEdit(
+  token: string,
+  chatId: number,
+  userId: string,
+  pendingEdit: PendingEdit,
+  text: string
+): Promise<void> {
+  const db = admin.firestore();
+  const userRef = db.doc(`users/${userId}`);
+  const receiptSnap = await db.doc(pendingEdit.receiptPath).get();
+  const receipt = receiptSnap.data();
+
+  if (!receipt) {
+    await userRef.update({ telegramPendingEdit: admin.firestore.FieldValue.delete() });
+    await sendTelegramMessage(token, chatId, "That receipt no longer exists.");
+    return;
+  }
+
+  let correction: ReceiptCorrection;
+  if (pendingEdit.field === "merchant") {
+    correction = { field: "merchant", value: text.trim().slice(0, MAX_MERCHANT_NAME_LENGTH) };
+  } else {
+    const amount = parseAmountInput(text);
+    if (amount === null) {
+      await sendTelegramMessage(
+        token,
+        chatId,
+        "That doesn't look like an amount. Send just the number, e.g. 12.50, or /cancel."
+      );
+      return;
+    }
+    correction = { field: "totalAmount", value: amount };
+  }
+
+  const edits = await applyReceiptCorrections(receiptSnap.ref, receipt, [correction], userId, "telegram");
+  const confirmation = edits.length ?
+    `Updated.\n\n${describeEdits(edits, receipt.currency || "USD")}` :
+    "That's what I already had, so nothing changed.";
+  await userRef.update({ telegramPendingEdit: admin.firestore.FieldValue.delete() });
+  await sendTelegramMessage(token, chatId, confirmation);
+  logger.info("Receipt corrected via Telegram", { userId, receiptPath: pendingEdit.receiptPath, field: pendingEdit.field });
+}
+
+/**
+ * A text reply to a message about a receipt, e.g. "total was 42.18",
+ * "it's Costco not Cost" or "category groceries".
+ */
+async function handleCorrectionReply(
+  token: string,
+  chatId: number,
+  userId: string,
+  receipt: TelegramReceipt,
+  text: string
+): Promise<void> {
+  const categories = await loadUserCategories(receipt.workspaceId);
+  const { corrections, unrecognized } = parseReceiptCorrections(text, categories);
+
+  if (!corrections.length) {
+    await sendTelegramMessage(
+      token,
+      chatId,
+      "I couldn't tell what to change. Try something like:\n\n" +
+      "- total was 42.18\n" +
+      "- it's Costco not Cost\n" +
+      "- category groceries\n" +
+      "- date was 2025-03-04"
+    );
+    return;
+  }
+
+  const edits = await applyReceiptCorrections(receipt.ref, receipt.data, corrections, userId, "telegram");
+  let reply = edits.length ?
+    `Updated.\n\n${describeEdits(edits, receipt.data.currency || "USD")}` :
+    "That's what I already had, so nothing changed.";
+  if (unrecognized.length) {
+    reply += `\n\nI didn't understand: ${unrecognized.map((clause) => `"${clause}"`).join(", ")}`;
+  }
+
+  await sendTelegramMessage(token, chatId, reply);
+  logger.info("Receipt corrected via Telegram reply", {
+    userId,
+    receiptPath: receipt.ref.path,
+    fields: edits.map((edit) => edit.field),
+  });
+}
+
+/**
+ * Inline button presses. callback_data is "action:receiptId[:argument]":
+ * ok (confirm), m / a (edit merchant / amount), c (pick category),
+ * cs (set category), d (ask to delete), dy / dn (delete / keep).
+ */
+async function handleCallbackQuery(
+  token: string,
+  query: TelegramCallbackQuery
+): Promise<void> {
+  const chatId = query.message?.chat.id;
+  const messageId = query.message?.message_id;
+  if (!chatId || !messageId) {
+    await answerCallbackQuery(token, query.id);
+    return;
+  }
+
+  const userResult = await findUserByTelegramChatId(chatId);
+  if (!userResult) {
+    await answerCallbackQuery(token, query.id, "Link your ReceiptNest AI account first.");
+    return;
+  }
+
+  const { userId } = userResult;
+  const [action = "", receiptId = "", argument = ""] = (query.data || "").split(":");
+
+  if (action === "dn") {
+    await answerCallbackQuery(token, query.id, "Kept it.");
+    await clearInlineKeyboard(token, chatId, messageId);
+    return;
+  }
+
+  const receipt = await findTelegramReceipt(userId, receiptId);
+  if (!receipt) {
+    await answerCallbackQuery(token, query.id, "That receipt no longer exists.");
+    await clearInlineKeyboard(token, chatId, messageId);
+    return;
+  }
+
+  switch (action) {
+    case "ok":
+      if (receipt.data.status === "needs_review") {
+        await receipt.ref.update({
+          status: "final",
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+      await answerCallbackQuery(token, query.id, "Thanks, saved.");
+      await clearInlineKeyboard(token, chatId, messageId);
+      break;
+    case "m":
+    case "a":
+      await answerCallbackQuery(token, query.id);
+      await startPendingEdit(token, chatId, userId, receipt, action === "m" ? "merchant" : "amount");
+      break;
+    case "c": {
+      await answerCallbackQuery(token, query.id);
+      const categories = await loadUserCategories(receipt.workspaceId);
+      await sendTelegramMessage(
+        token,
+        chatId,
+        `Pick a category for ${getReceiptMerchant(receipt.data)}:`,
+        "",
+        buildCategoryKeyboard(receipt.ref.id, categories)
+      );
+      break;
+    }
+    case "cs": {
+      const categories = await loadUserCategories(receipt.workspaceId);
+      const category = categories.find((c) => c.id === argument);
+      if (!category) {
+        await answerCallbackQuery(token, query.id, "That category no longer exists.");
+        break;
+      }
+      await correctReceipt(receipt, userId, [{ field: "category", value: category }]);
+      await answerCallbackQuery(token, query.id, `Moved to ${category.name}.`);
+      await clearInlineKeyboard(token, chatId, messageId);
+      await sendTelegramMessage(token, chatId, `${getReceiptMerchant(receipt.data)} is now in ${category.name}.`);
+      break;
+    }
+    case "d":
+      await answerCallbackQuery(token, query.id);
+      await sendDeleteConfirmation(token, chatId, receipt);
+      break;
+    case "dy":
+      await deleteReceiptWithFiles(receipt);
+      await answerCallbackQuery(token, query.id, "Deleted.");
+      await clearInlineKeyboard(token, chatId, messageId);
+      await sendTelegramMessage(token, chatId, `Deleted the receipt from ${getReceiptMerchant(receipt.data)}.`);
+      logger.info("Receipt deleted via Telegram", { userId, receiptPath: receipt.ref.path });
+      break;
+    default:
+      await answerCallbackQuery(token, query.id);
+  }
+}
+
 // ─── Main Webhook Handler ───────────────────────────────────────────────────
 
 export const telegramWebhook = onRequest(
@@ -999,8 +1782,9 @@ export const telegramWebhook = onRequest(
 
       const result = await telegramApi(token, "setWebhook", {
         url: webhookUrl,
-        allowed_updates: ["message"],
+        allowed_updates: ["message", "callback_query"],
       });
+      await telegramApi(token, "setMyCommands", { commands: BOT_COMMANDS });
 
       logger.info("setWebhook result", result);
       res.status(200).send(
@@ -1018,11 +1802,22 @@ export const telegramWebhook = onRequest(
     logger.info("Received Telegram update", {
       update_id: update.update_id,
       has_message: !!update.message,
+      has_callback_query: !!update.callback_query,
       text: update.message?.text?.substring(0, 50),
     });
 
+    if (update.callback_query) {
+      try {
+        await handleCallbackQuery(token, update.callback_query);
+      } catch (error) {
+        logger.error("Error handling Telegram button press", error);
+      }
+      res.status(200).send("OK");
+      return;
+    }
+
     if (!update.message) {
-      // Could be an edited_message, callback_query, etc. -- ignore for now.
+      // Could be an edited_message, etc. -- ignore for now.
       res.status(200).send("OK");
       return;
     }
@@ -1054,21 +1849,50 @@ export const telegramWebhook = onRequest(
         return;
       }
 
-      const { userId } = userResult;
+      const { userId, userData } = userResult;
+
+      // Commands may carry an argument ("/search coffee") or the bot's name ("/help@receiptnestbot")
+      const [commandWord = "", ...commandArgs] = text.trim().split(/\s+/);
+      const command = commandWord.toLowerCase().replace(/@\w+$/, "");
+      const commandArgument = commandArgs.join(" ");
+      const pendingEdit = getPendingEdit(userData);
+      const repliedReceipt = text && !text.startsWith("/") && message.reply_to_message ?
+        await findReceiptForMessage(userId, chatId, message.reply_to_message.message_id) :
+        null;
 
       // Handle commands
-      if (text === "/help") {
+      if (command === "/help") {
         await handleHelpCommand(token, chatId);
-      } else if (text === "/status") {
+      } else if (command === "/status") {
         await handleStatusCommand(token, chatId, userId);
-      } else if (text === "/unlink") {
+      } else if (command === "/unlink") {
         await handleUnlinkCommand(token, message, userId);
+      } else if (command === "/month" || command === "/week") {
+        await handleSpendSummaryCommand(token, chatId, userId, command === "/month" ? "month" : "week");
+      } else if (command === "/budget") {
+        await handleBudgetCommand(token, chatId, userId);
+      } else if (command === "/last") {
+        await handleLastCommand(token, chatId, userId);
+      } else if (command === "/category") {
+        await handleCategoryCommand(token, chatId, userId, commandArgument);
+      } else if (command === "/delete") {
+        await handleDeleteCommand(token, chatId, userId);
+      } else if (command === "/search") {
+        await handleSearchCommand(token, chatId, userId, commandArgument);
+      } else if (command === "/cancel") {
+        await handleCancelCommand(token, chatId, userId, userData);
       } else if (message.photo && message.photo.length > 0) {
         // Photo message --> receipt upload
         await handlePhotoMessage(token, message, userId);
       } else if (message.document) {
         // Document message --> receipt upload (PDF, etc.)
         await handleDocumentMessage(token, message, userId);
+      } else if (repliedReceipt) {
+        // Reply to a message about a receipt --> correct that receipt
+        await handleCorrectionReply(token, chatId, userId, repliedReceipt, text);
+      } else if (text && !text.startsWith("/") && pendingEdit) {
+        // Reply to a merchant or amount correction prompt
+        await applyPendingEdit(token, chatId, userId, pendingEdit, text);
       } else if (text && !text.startsWith("/")) {
         // Regular text --> AI chat
         await handleTextMessage(token, message, userId);
@@ -1174,8 +1998,9 @@ export const setupTelegramWebhook = onCall(
 
     const result = await telegramApi(token, "setWebhook", {
       url: webhookUrl,
-      allowed_updates: ["message"],
+      allowed_updates: ["message", "callback_query"],
     });
+    await telegramApi(token, "setMyCommands", { commands: BOT_COMMANDS });
 
     logger.info("Telegram webhook setup result", { webhookUrl, result });
 
@@ -1185,7 +2010,7 @@ export const setupTelegramWebhook = onCall(
 
 // ─── Receipt Processing Notification ────────────────────────────────────────
 // Watches for receipt status changes. When a Telegram-sourced receipt finishes
-// processing (status goes from "processing" → "final" or "needs_review"),
+// processing (status goes from "processing" → "final", "needs_review" or "failed"),
 // send a Telegram notification so the user gets instant feedback even when
 // they are away from the web app.
 
@@ -1210,7 +2035,8 @@ export const onTelegramReceiptProcessed = onDocumentUpdated(
     if (!pendingStatuses.includes(before.status)) return;
     if (pendingStatuses.includes(after.status)) return;
 
-    const { userId } = event.params;
+    // Notify whoever sent the receipt, which may be a member of a shared workspace
+    const userId: string = after.addedBy?.userId || event.params.userId;
 
     // Look up the user's Telegram chatId
     const db = admin.firestore();
@@ -1233,27 +2059,43 @@ export const onTelegramReceiptProcessed = onDocumentUpdated(
       const amount = after.totalAmount;
       const currency = after.currency || "USD";
       const date = after.date || "Unknown date";
-      const amountStr = amount !== undefined ? formatCurrency(amount) : "amount not detected";
+      const amountStr = amount !== undefined ? formatCurrency(amount, currency) : "amount not detected";
 
       notificationMsg =
         `Receipt processed!\n\n` +
         `Store: ${merchant}\n` +
-        `Amount: ${amountStr} ${currency}\n` +
+        `Amount: ${amountStr}\n` +
         `Date: ${date}\n\n` +
-        `It has been added to your account automatically.`;
+        `It has been added to your account automatically. Something off? ` +
+        `Use the buttons below or reply to this message, e.g. "total was 42.18".`;
+      if (after.duplicate?.status === "suspected") {
+        notificationMsg +=
+          `\n\nThis looks like a receipt you already have. ` +
+          `Open the app to merge the two or keep both.`;
+      }
     } else if (status === "needs_review") {
       notificationMsg =
-        `Your receipt has been uploaded but I couldn't fully read it. ` +
-        `Open the app to review and fill in any missing details.`;
-    } else if (status === "error") {
+        `Your receipt has been uploaded but I couldn't fully read it.\n\n` +
+        `${describeReceipt(after)}\n\n` +
+        `Fix anything that's wrong with the buttons below or by replying to this message ` +
+        `(e.g. "it's Costco not Cost"), or open the app to review it.`;
+    } else if (status === "failed") {
       notificationMsg =
-        `Sorry, I had trouble processing that receipt. ` +
-        `Please try taking a clearer photo, or upload it through the app.`;
+        `Sorry, I couldn't process that receipt, even after retrying. ` +
+        `Try a clearer photo, or open it in the app and choose "Retry processing".`;
     }
 
     if (notificationMsg) {
+      // Buttons to confirm or correct what was read
+      const keyboard: TelegramInlineKeyboard = status === "final" || status === "needs_review" ?
+        [[{ text: "Looks right", callback_data: callbackData("ok", event.params.receiptId) }], buildEditButtons(event.params.receiptId)] :
+        [];
+
       // Send to Telegram
-      await sendTelegramMessage(token, telegramChatId, notificationMsg);
+      const messageId = await sendTelegramMessage(token, telegramChatId, notificationMsg, "", keyboard);
+      if (keyboard.length) {
+        await rememberReceiptMessage(event.data!.after.ref, telegramChatId, messageId);
+      }
 
       // Also save to the _telegram chat doc so it's visible in the web app
       await appendToTelegramChat(userId, [
@@ -0,0 +1,421 @@
+/**
+ * Shared Workspaces
+ *
+ * Every account's data (users/{ownerId}/receipts, folders, merchants, ...) is
+ * a workspace the owner can share with a partner or a small team. Members are
+ * stored in users/{ownerId}/members/{memberId} with an editor or viewer role,
+ * and each member gets an index entry in
+ * users/{memberId}/workspaceMemberships/{ownerId} for the workspace switcher.
+ *
+ * Invites are sent by email and kept in workspaceInvites/{inviteId} until the
+ * invitee accepts them with the same (verified) email address. Receipts sent
+ * in by email or Telegram go to the member's chosen default workspace as long
+ * as they can still add receipts there.
+ */
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { defineSecret } from "firebase-functions/params";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { sendSendgridMail } from "./sendgrid";
+
+const sendgridApiKey = defineSecret("SENDGRID_API_KEY");
+const appBaseUrl = defineSecret("APP_BASE_URL");
+const fromEmail = "info@receipt-nest.com";
+
+const MAX_WORKSPACE_MEMBERS = 10;
+const INVITE_TTL_DAYS = 14;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+type MemberRole = Exclude<WorkspaceRole, "owner">;
+
+const isMemberRole = (value: unknown): value is MemberRole =>
+  value === "editor" || value === "viewer";
+
+export const canAddReceipts = (role: WorkspaceRole | null): boolean =>
+  role === "owner" || role === "editor";
+
+const normalizeEmail = (value: unknown): string =>
+  typeof value === "string" ? value.trim().toLowerCase() : "";
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+const getDisplayName = (userData: admin.firestore.DocumentData | undefined, fallback = "A ReceiptNest user"): string => {
+  const name = `${userData?.firstName ?? ""} ${userData?.lastName ?? ""}`.trim();
+  return name || userData?.email || fallback;
+};
+
+export const getWorkspaceName = (ownerData: admin.firestore.DocumentData | undefined): string => {
+  if (typeof ownerData?.workspaceName === "string" && ownerData.workspaceName.trim()) {
+    return ownerData.workspaceName.trim();
+  }
+  const firstName = typeof ownerData?.firstName === "string" ? ownerData.firstName.trim() : "";
+  return firstName ? `${firstName}'s receipts` : "Shared receipts";
+};
+
+/**
+ * The user's role in a workspace, or null when they are not a member
+ */
+export async function getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+  if (workspaceId === userId) return "owner";
+
+  const memberSnap = await admin.firestore().doc(`users/${workspaceId}/members/${userId}`).get();
+  const role = memberSnap.get("role");
+  return isMemberRole(role) ? role : null;
+}
+
+export interface IngestTarget {
+  workspaceId: string;
+  addedBy: { userId: string; name: string };
+}
+
+/**
+ * Workspace that receipts sent in by email or Telegram should land in. Falls
+ * back to the user's own workspace when the chosen one is no longer writable.
+ */
+export async function resolveIngestTarget(userId: string): Promise<IngestTarget> {
+  const userData = (await admin.firestore().doc(`users/${userId}`).get()).data();
+  const addedBy = { userId, name: getDisplayName(userData, "Unknown") };
+  const defaultWorkspaceId = userData?.defaultWorkspaceId;
+  if (typeof defaultWorkspaceId !== "string" || !defaultWorkspaceId || defaultWorkspaceId === userId) {
+    return { workspaceId: userId, addedBy };
+  }
+
+  const role = await getWorkspaceRole(defaultWorkspaceId, userId);
+  if (canAddReceipts(role)) {
+    return { workspaceId: defaultWorkspaceId, addedBy };
+  }
+
+  logger.warn("Default workspace is no longer writable, using the user's own", {
+    userId,
+    defaultWorkspaceId,
+    role,
+  });
+  return { workspaceId: userId, addedBy };
+}
+
+const sendInviteEmail = async (
+  email: string,
+  inviterName: string,
+  workspaceName: string,
+  role: MemberRole,
+  inviteId: string
+) => {
+  const link = `${appBaseUrl.value().trim().replace(/\/+$/, "")}/app/workspace?invite=${encodeURIComponent(inviteId)}`;
+  const access = role === "editor" ? "add and edit receipts" : "view receipts";
+  const subject = `${inviterName} invited you to ${workspaceName} on ReceiptNest AI`;
+  const text =
+    `${inviterName} invited you to join "${workspaceName}" on ReceiptNest AI, where you can ${access}.\n\n` +
+    `Accept the invite: ${link}\n\n` +
+    `Sign in or create an account with this email address (${email}) to accept. ` +
+    `The invite expires in ${INVITE_TTL_DAYS} days.`;
+  const html = `
+    <div style="font-family:Arial, sans-serif; color:#0f172a; font-size:15px; line-height:1.6;">
+      <p style="margin:0 0 12px;">${escapeHtml(inviterName)} invited you to join
+        <strong>${escapeHtml(workspaceName)}</strong> on ReceiptNest AI, where you can ${access}.</p>
+      <p style="margin:18px 0;">
+        <a href="${link}" style="display:inline-block; padding:12px 22px; border-radius:999px; background:#10b981; color:#ffffff; font-weight:600; text-decoration:none;">Accept the invite</a>
+      </p>
+      <p style="margin:0; font-size:13px; color:#475569;">Sign in or create an account with ${escapeHtml(email)} to accept.
+        The invite expires in ${INVITE_TTL_DAYS} days.</p>
+    </div>
+  `;
+
+  await sendSendgridMail(sendgridApiKey.value(), {
+    to: email,
+    from: { email: fromEmail, name: "ReceiptNest AI" },
+    replyTo: { email: fromEmail, name: "ReceiptNest AI" },
+    subject,
+    text,
+    html,
+  });
+};
+
+/**
+ * Invite someone to the caller's workspace by email. Inviting the same
+ * address again refreshes the pending invite and its role.
+ */
+export const inviteWorkspaceMember = onCall(
+  { region: "us-central1", secrets: [sendgridApiKey, appBaseUrl] },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const workspaceId = request.auth.uid;
+    const email = normalizeEmail(request.data?.email);
+    const role = request.data?.role;
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new HttpsError("invalid-argument", "Enter a valid email address.");
+    }
+    if (!isMemberRole(role)) {
+      throw new HttpsError("invalid-argument", "Role must be editor or viewer.");
+    }
+    if (email === normalizeEmail(request.auth.token.email)) {
+      throw new HttpsError("invalid-argument", "You already own this workspace.");
+    }
+
+    const db = admin.firestore();
+    const [ownerSnap, membersSnap, pendingSnap] = await Promise.all([
+      db.doc(`users/${workspaceId}`).get(),
+      db.collection(`users/${workspaceId}/members`).get(),
+      db.collection("workspaceInvites")
+        .where("workspaceId", "==", workspaceId)
+        .where("status", "==", "pending")
+        .get(),
+    ]);
+
+    if (membersSnap.docs.some((memberDoc) => normalizeEmail(memberDoc.get("email")) === email)) {
+      throw new HttpsError("already-exists", "This person is already a member.");
+    }
+    const existingInvite = pendingSnap.docs.find((inviteDoc) => inviteDoc.get("email") === email);
+    if (!existingInvite && membersSnap.size + pendingSnap.size >= MAX_WORKSPACE_MEMBERS) {
+      throw new HttpsError(
+        "resource-exhausted",
+        `A workspace can have up to ${MAX_WORKSPACE_MEMBERS} members and pending invites.`
+      );
+    }
+
+    const ownerData = ownerSnap.data();
+    const inviterName = getDisplayName(ownerData);
+    const workspaceName = getWorkspaceName(ownerData);
+    const inviteRef = existingInvite?.ref ?? db.collection("workspaceInvites").doc();
+    const expiresAt = admin.firestore.Timestamp.fromMillis(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    await inviteRef.set({
+      workspaceId,
+      workspaceName,
+      invitedBy: workspaceId,
+      invitedByName: inviterName,
+      email,
+      role,
+      status: "pending",
+      createdAt: existingInvite?.get("createdAt") ?? admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt,
+    });
+
+    // The invite still shows up in the app for that address if the email fails
+    let emailSent = true;
+    try {
+      await sendInviteEmail(email, inviterName, workspaceName, role, inviteRef.id);
+    } catch (error) {
+      emailSent = false;
+      logger.error("Failed to send workspace invite email", { workspaceId, inviteId: inviteRef.id, error });
+    }
+
+    return { ok: true, inviteId: inviteRef.id, emailSent };
+  }
+);
+
+/**
+ * Accept or decline an invite addressed to the caller's email
+ */
+export const respondToWorkspaceInvite = onCall(
+  { region: "us-central1" },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const userId = request.auth.uid;
+    const inviteId = typeof request.data?.inviteId === "string" ? request.data.inviteId : "";
+    const accept = request.data?.accept !== false;
+    if (!inviteId) {
+      throw new HttpsError("invalid-argument", "Missing invite.");
+    }
+
+    const db = admin.firestore();
+    const inviteRef = db.doc(`workspaceInvites/${inviteId}`);
+    const inviteSnap = await inviteRef.get();
+    const invite = inviteSnap.data();
+    if (!invite || invite.status !== "pending") {
+      throw new HttpsError("not-found", "This invite is no longer available.");
+    }
+    if (invite.email !== normalizeEmail(request.auth.token.email) || request.auth.token.email_verified !== true) {
+      throw new HttpsError("permission-denied", "This invite was sent to a different email address.");
+    }
+    if (invite.workspaceId === userId) {
+      throw new HttpsError("invalid-argument", "You already own this workspace.");
+    }
+
+    if (!accept) {
+      await inviteRef.update({
+        status: "declined",
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { ok: true, workspaceId: null };
+    }
+
+    const expiresAt = invite.expiresAt as admin.firestore.Timestamp | undefined;
+    if (expiresAt && expiresAt.toMillis() < Date.now()) {
+      await inviteRef.update({ status: "expired", updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      throw new HttpsError("deadline-exceeded", "This invite has expired. Ask for a new one.");
+    }
+
+    const [memberUserSnap, ownerSnap] = await Promise.all([
+      db.doc(`users/${userId}`).get(),
+      db.doc(`users/${invite.workspaceId}`).get(),
+    ]);
+    if (!ownerSnap.exists) {
+      await inviteRef.update({ status: "revoked", updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      throw new HttpsError("not-found", "This workspace no longer exists.");
+    }
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const batch = db.batch();
+    batch.set(db.doc(`users/${invite.workspaceId}/members/${userId}`), {
+      userId,
+      email: invite.email,
+      displayName: getDisplayName(memberUserSnap.data(), invite.email),
+      role: invite.role,
+      invitedBy: invite.invitedBy,
+      joinedAt: now,
+    });
+    batch.set(db.doc(`users/${userId}/workspaceMemberships/${invite.workspaceId}`), {
+      workspaceId: invite.workspaceId,
+      name: getWorkspaceName(ownerSnap.data()),
+      ownerName: getDisplayName(ownerSnap.data()),
+      role: invite.role,
+      joinedAt: now,
+    });
+    batch.update(inviteRef, {
+      status: "accepted",
+      acceptedBy: userId,
+      acceptedAt: now,
+      updatedAt: now,
+    });
+    await batch.commit();
+
+    logger.info("Workspace invite accepted", { workspaceId: invite.workspaceId, userId });
+    return { ok: true, workspaceId: invite.workspaceId };
+  }
+);
+
+/**
+ * Change a member's role. Only the workspace owner can do this.
+ */
+export const updateWorkspaceMemberRole = onCall(
+  { region: "us-central1" },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const workspaceId = request.auth.uid;
+    const memberId = typeof request.data?.memberId === "string" ? request.data.memberId : "";
+    const role = request.data?.role;
+    if (!memberId || !isMemberRole(role)) {
+      throw new HttpsError("invalid-argument", "Choose a member and a role.");
+    }
+
+    const db = admin.firestore();
+    const memberRef = db.doc(`users/${workspaceId}/members/${memberId}`);
+    if (!(await memberRef.get()).exists) {
+      throw new HttpsError("not-found", "Member not found.");
+    }
+
+    const batch = db.batch();
+    batch.update(memberRef, { role });
+    batch.set(db.doc(`users/${memberId}/workspaceMemberships/${workspaceId}`), { role }, { merge: true });
+    await batch.commit();
+
+    return { ok: true };
+  }
+);
+
+/**
+ * Remove a member. The owner can remove anyone; members can remove themselves
+ * (leave the workspace). Receipts they added stay in the workspace.
+ */
+export const removeWorkspaceMember = onCall(
+  { region: "us-central1" },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const callerId = request.auth.uid;
+    const workspaceId = typeof request.data?.workspaceId === "string" ? request.data.workspaceId : "";
+    const memberId = typeof request.data?.memberId === "string" ? request.data.memberId : "";
+    if (!workspaceId || !memberId || workspaceId === memberId) {
+      throw new HttpsError("invalid-argument", "Choose a member to remove.");
+    }
+    if (callerId !== workspaceId && callerId !== memberId) {
+      throw new HttpsError("permission-denied", "Only the workspace owner can remove other members.");
+    }
+
+    await removeMembership(workspaceId, memberId);
+    return { ok: true };
+  }
+);
+
+/**
+ * Cancel a pending invite from the caller's workspace
+ */
+export const revokeWorkspaceInvite = onCall(
+  { region: "us-central1" },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated.");
+    }
+
+    const inviteId = typeof request.data?.inviteId === "string" ? request.data.inviteId : "";
+    const inviteRef = admin.firestore().doc(`workspaceInvites/${inviteId || "_"}`);
+    const inviteSnap = await inviteRef.get();
+    if (!inviteSnap.exists || inviteSnap.get("workspaceId") !== request.auth.uid) {
+      throw new HttpsError("not-found", "Invite not found.");
+    }
+    if (inviteSnap.get("status") === "pending") {
+      await inviteRef.update({
+        status: "revoked",
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    return { ok: true };
+  }
+);
+
+async function removeMembership(workspaceId: string, memberId: string): Promise<void> {
+  const db = admin.firestore();
+  const memberUserRef = db.doc(`users/${memberId}`);
+  const batch = db.batch();
+  batch.delete(db.doc(`users/${workspaceId}/members/${memberId}`));
+  batch.delete(db.doc(`users/${memberId}/workspaceMemberships/${workspaceId}`));
+
+  const memberUserSnap = await memberUserRef.get();
+  if (memberUserSnap.exists && memberUserSnap.get("defaultWorkspaceId") === workspaceId) {
+    batch.update(memberUserRef, { defaultWorkspaceId: null });
+  }
+  await batch.commit();
+}
+
+/**
+ * Detach a deleted account from every workspace: it leaves the ones it joined,
+ * its own members lose access and its invites are removed.
+ */
+export async function removeUserFromWorkspaces(userId: string): Promise<void> {
+  const db = admin.firestore();
+  const [joinedSnap, membersSnap, invitesSnap] = await Promise.all([
+    db.collection(`users/${userId}/workspaceMemberships`).get(),
+    db.collection(`users/${userId}/members`).get(),
+    db.collection("workspaceInvites").where("workspaceId", "==", userId).get(),
+  ]);
+
+  for (const membershipDoc of joinedSnap.docs) {
+    await removeMembership(membershipDoc.id, userId);
+  }
+  for (const memberDoc of membersSnap.docs) {
+    await removeMembership(userId, memberDoc.id);
+  }
+
+  const batch = db.batch();
+  invitesSnap.docs.forEach((inviteDoc) => batch.delete(inviteDoc.ref));
+  await batch.commit();
+}
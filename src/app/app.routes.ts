@@ -107,6 +107,41 @@ export const routes: Routes = [
         title: 'Insights',
         loadComponent: () => import('./features/ai-insights/ai-insights.component').then((m) => m.AiInsightsComponent)
       },
+      {
+        path: 'search',
+        title: 'Search',
+        loadComponent: () => import('./features/search/search.component').then((m) => m.SearchComponent)
+      },
+      {
+        path: 'review',
+        title: 'Review Inbox',
+        loadComponent: () => import('./features/review/review-inbox.component').then((m) => m.ReviewInboxComponent)
+      },
+      {
+        path: 'duplicates',
+        title: 'Possible Duplicates',
+        loadComponent: () => import('./features/duplicates/duplicates.component').then((m) => m.DuplicatesComponent)
+      },
+      {
+        path: 'recurring',
+        title: 'Subscriptions & Recurring',
+        loadComponent: () => import('./features/recurring/recurring-expenses.component').then((m) => m.RecurringExpensesComponent)
+      },
+      {
+        path: 'merchants',
+        title: 'Merchants',
+        loadComponent: () => import('./features/merchants/merchants.component').then((m) => m.MerchantsComponent)
+      },
+      {
+        path: 'merchants/:id',
+        title: 'Merchant',
+        loadComponent: () => import('./features/merchants/merchant-detail.component').then((m) => m.MerchantDetailComponent)
+      },
+      {
+        path: 'tax-report',
+        title: 'Tax Report',
+        loadComponent: () => import('./features/tax/tax-report.component').then((m) => m.TaxReportComponent)
+      },
       {
         path: 'categories/:id',
         title: 'Category Details',
@@ -121,6 +156,36 @@ export const routes: Routes = [
         path: 'folders',
         title: 'Folders',
         loadComponent: () => import('./features/folders/folders.component').then((m) => m.FoldersComponent)
+      },
+      {
+        path: 'settings/categories',
+        title: 'Categories',
+        loadComponent: () => import('./features/settings/category-settings.component').then((m) => m.CategorySettingsComponent)
+      },
+      {
+        path: 'settings/budgets',
+        title: 'Budgets',
+        loadComponent: () => import('./features/settings/budget-settings.component').then((m) => m.BudgetSettingsComponent)
+      },
+      {
+        path: 'settings/rules',
+        title: 'Rules',
+        loadComponent: () => import('./features/settings/rule-settings.component').then((m) => m.RuleSettingsComponent)
+      },
+      {
+        path: 'shares',
+        title: 'Shared Links',
+        loadComponent: () => import('./features/shares/share-links.component').then((m) => m.ShareLinksComponent)
+      },
+      {
+        path: 'accountant-access',
+        title: 'Accountant Access',
+        loadComponent: () => import('./features/accountant/accountant-access.component').then((m) => m.AccountantAccessComponent)
+      },
+      {
+        path: 'workspace',
+        title: 'Workspaces',
+        loadComponent: () => import('./features/workspace/workspace-settings.component').then((m) => m.WorkspaceSettingsComponent)
       }
     ]
   },
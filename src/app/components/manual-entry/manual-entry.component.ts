@@ -0,0 +1,132 @@
+import { Component, EventEmitter, Input, OnInit, Output, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+import { DistanceUnit } from '../../models/receipt.model';
+import { CategoryService } from '../../services/category.service';
+import { ReceiptService } from '../../services/receipt.service';
+import { SUPPORTED_CURRENCIES, formatMoney } from '../../utils/currency.utils';
+import {
+  DEFAULT_MILEAGE_RATES,
+  DISTANCE_UNIT_LABELS,
+  MAX_MILEAGE_PURPOSE_LENGTH,
+  computeMileageAmount
+} from '../../utils/manual-entry.utils';
+
+type ManualEntryMode = 'manual' | 'mileage';
+
+@Component({
+  selector: 'app-manual-entry',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './manual-entry.component.html'
+})
+export class ManualEntryComponent implements OnInit {
+  private readonly receiptService = inject(ReceiptService);
+  private readonly categoryService = inject(CategoryService);
+
+  @Input() initialMode: ManualEntryMode = 'manual';
+  @Output() created = new EventEmitter<string>();
+  @Output() entryError = new EventEmitter<string>();
+  @Output() close = new EventEmitter<void>();
+
+  readonly categories = this.categoryService.categories;
+  readonly currencyCodes = SUPPORTED_CURRENCIES.map(currency => currency.code);
+  readonly unitLabels = DISTANCE_UNIT_LABELS;
+  readonly maxPurposeLength = MAX_MILEAGE_PURPOSE_LENGTH;
+
+  readonly mode = signal<ManualEntryMode>('manual');
+  readonly merchant = signal('');
+  readonly amount = signal<number | null>(null);
+  readonly currency = signal(this.receiptService.homeCurrency());
+  readonly date = signal(this.getToday());
+  readonly categoryId = signal('other');
+  readonly notes = signal('');
+  readonly distance = signal<number | null>(null);
+  readonly unit = signal<DistanceUnit>('mi');
+  readonly ratePerUnit = signal<number | null>(DEFAULT_MILEAGE_RATES.mi);
+  readonly purpose = signal('');
+  readonly isSaving = signal(false);
+  readonly error = signal<string | null>(null);
+
+  readonly mileageAmount = computed(() =>
+    computeMileageAmount(Number(this.distance()) || 0, Number(this.ratePerUnit()) || 0)
+  );
+
+  ngOnInit(): void {
+    this.setMode(this.initialMode);
+  }
+
+  setMode(mode: ManualEntryMode): void {
+    this.mode.set(mode);
+    this.error.set(null);
+    if (mode === 'mileage') {
+      // Mileage is always claimed in the home currency
+      this.currency.set(this.receiptService.homeCurrency());
+      if (this.categoryId() === 'other') this.categoryId.set('transportation');
+      if (!this.merchant().trim()) this.merchant.set('Mileage');
+    } else if (this.merchant() === 'Mileage') {
+      this.merchant.set('');
+    }
+  }
+
+  setUnit(unit: DistanceUnit): void {
+    const previousDefault = DEFAULT_MILEAGE_RATES[this.unit()];
+    this.unit.set(unit);
+    // Swap in the new unit's suggested rate unless the user typed their own
+    if (this.ratePerUnit() === null || this.ratePerUnit() === previousDefault) {
+      this.ratePerUnit.set(DEFAULT_MILEAGE_RATES[unit]);
+    }
+  }
+
+  formatAmount(amount: number): string {
+    return formatMoney(amount, this.currency());
+  }
+
+  async submit(): Promise<void> {
+    if (this.isSaving()) return;
+
+    const category = this.categoryService.getCategory(this.categoryId());
+    const isMileage = this.mode() === 'mileage';
+
+    this.isSaving.set(true);
+    this.error.set(null);
+    try {
+      const receiptId = await this.receiptService.createManualEntry({
+        entryType: this.mode(),
+        merchant: this.merchant(),
+        amount: isMileage ? null : this.amount(),
+        currency: this.currency(),
+        date: this.date(),
+        category: { id: category.id, name: category.name },
+        notes: this.notes(),
+        mileage: isMileage
+          ? {
+            distance: Number(this.distance()),
+            unit: this.unit(),
+            ratePerUnit: Number(this.ratePerUnit()),
+            purpose: this.purpose()
+          }
+          : undefined
+      });
+      this.created.emit(receiptId);
+    } catch (error: any) {
+      if (error?.message === 'FREE_PLAN_LIMIT_REACHED') {
+        this.entryError.emit(error.message);
+      } else {
+        this.error.set(error?.message || 'Failed to save this entry.');
+      }
+    } finally {
+      this.isSaving.set(false);
+    }
+  }
+
+  onClose(): void {
+    this.close.emit();
+  }
+
+  private getToday(): string {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  }
+}
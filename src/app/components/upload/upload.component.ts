@@ -17,6 +17,29 @@ import { CommonModule } from '@angular/common';
 import { AppConfigService } from '../../services/app-config.service';
 import { ReceiptService, UploadProgress, MAX_FILE_SIZE } from '../../services/receipt.service';
 import { Receipt } from '../../models/receipt.model';
+import {
+  UploadQueueItem,
+  UploadQueueSource,
+  UploadQueueStatus,
+  createUploadQueueItems,
+  isUploadPending,
+  pickNextUploads,
+  summarizeUploadQueue,
+  withReceiptStatuses
+} from '../../utils/upload-queue.utils';
+
+const QUEUE_STATUS_LABELS: Record<UploadQueueStatus, string> = {
+  queued: 'Waiting',
+  converting: 'Preparing',
+  uploading: 'Uploading',
+  rejected: 'Not supported',
+  failed: 'Failed',
+  uploaded: 'Uploaded',
+  processing: 'Processing',
+  extracted: 'Ready',
+  needs_review: 'Needs review',
+  final: 'Ready'
+};
 
 @Component({
   selector: 'app-upload',
@@ -30,12 +53,18 @@ export class UploadComponent implements AfterViewInit, OnDestroy {
   private readonly receiptService = inject(ReceiptService);
 
   @Input() autoOpenScannerOnTouch = true;
+  // Allow several files or whole folders to be queued at once
+  @Input() allowMultiple = true;
+  // Offer manual expense / mileage entry for purchases without a receipt
+  @Input() allowManualEntry = false;
   @Output() uploadComplete = new EventEmitter<Receipt>();
   @Output() uploadError = new EventEmitter<string>();
   @Output() close = new EventEmitter<void>();
+  @Output() manualEntry = new EventEmitter<'manual' | 'mileage'>();
 
   @ViewChild('videoElement') videoElement?: ElementRef<HTMLVideoElement>;
   @ViewChild('fileInput') fileInput?: ElementRef<HTMLInputElement>;
+  @ViewChild('folderInput') folderInput?: ElementRef<HTMLInputElement>;
 
   // State
   readonly isUploading = signal(false);
@@ -49,6 +78,10 @@ export class UploadComponent implements AfterViewInit, OnDestroy {
   readonly isScannedFile = signal(false);
   readonly autoCaptureStatus = signal<'searching' | 'detected' | 'capturing' | 'unavailable'>('searching');
   readonly autoCaptureProgress = signal(0);
+  readonly uploadQueue = signal<UploadQueueItem[]>([]);
+  readonly isDragging = signal(false);
+  private queueStopped = false;
+  private destroyed = false;
   private videoStream: MediaStream | null = null;
   private autoScannerTriggered = false;
   private autoCaptureTimer: ReturnType<typeof setInterval> | null = null;
@@ -78,7 +111,9 @@ export class UploadComponent implements AfterViewInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
+    this.destroyed = true;
     this.stopCamera();
+    this.revokeQueuePreviews(this.uploadQueue());
   }
 
   // Computed
@@ -94,16 +129,259 @@ export class UploadComponent implements AfterViewInit, OnDestroy {
     return 'Point camera at receipt/check. Auto-capture will trigger when stable.';
   });
 
+  // Queue items with the live receipt status once processReceipt picks them up
+  readonly queueItems = computed(() =>
+    withReceiptStatuses(this.uploadQueue(), this.receiptService.receipts())
+  );
+  readonly queueSummary = computed(() => summarizeUploadQueue(this.queueItems()));
+  readonly hasQueue = computed(() => this.uploadQueue().length > 0);
+  readonly hasFailedUploads = computed(() =>
+    this.uploadQueue().some(item => item.status === 'failed')
+  );
+
   readonly maxSizeDisplay = `${MAX_FILE_SIZE / 1024 / 1024}MB`;
 
   onFileSelect(event: Event): void {
     const input = event.target as HTMLInputElement;
-    if (input.files && input.files.length > 0) {
-      this.handleFile(input.files[0], 'upload');
+    const files = Array.from(input.files ?? []);
+    if (files.length > 1 && this.allowMultiple) {
+      this.enqueueFiles(files.map(file => ({ file })));
+    } else if (files.length > 0) {
+      if (this.hasQueue()) {
+        this.enqueueFiles([{ file: files[0] }]);
+      } else {
+        this.handleFile(files[0], 'upload');
+      }
     }
     input.value = '';
   }
 
+  onFolderSelect(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    if (files.length > 0) {
+      this.enqueueFiles(files.map(file => ({ file, path: file.webkitRelativePath || file.name })));
+    }
+    input.value = '';
+  }
+
+  onDragOver(event: DragEvent): void {
+    if (this.showCamera() || this.selectedFile()) return;
+    event.preventDefault();
+    this.isDragging.set(true);
+  }
+
+  onDragLeave(event: DragEvent): void {
+    const related = event.relatedTarget as Node | null;
+    if (!related || !(event.currentTarget as HTMLElement).contains(related)) {
+      this.isDragging.set(false);
+    }
+  }
+
+  async onDrop(event: DragEvent): Promise<void> {
+    if (this.showCamera() || this.selectedFile()) return;
+    event.preventDefault();
+    this.isDragging.set(false);
+
+    const sources = await this.readDroppedFiles(event.dataTransfer);
+    if (!sources.length) return;
+
+    if (sources.length === 1 && !sources[0].path?.includes('/') && !this.hasQueue()) {
+      this.handleFile(sources[0].file, 'upload');
+    } else if (this.allowMultiple) {
+      this.enqueueFiles(sources);
+    } else {
+      this.errorMessage.set('Drop a single receipt file here.');
+    }
+  }
+
+  // Collect files from a drop, walking into folders where the browser allows it
+  private async readDroppedFiles(dataTransfer: DataTransfer | null): Promise<UploadQueueSource[]> {
+    if (!dataTransfer) return [];
+
+    const entries = Array.from(dataTransfer.items ?? [])
+      .filter(item => item.kind === 'file')
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (!entries.length) {
+      return Array.from(dataTransfer.files ?? []).map(file => ({ file }));
+    }
+
+    const sources: UploadQueueSource[] = [];
+    for (const entry of entries) {
+      await this.collectEntryFiles(entry, sources);
+    }
+    return sources;
+  }
+
+  private async collectEntryFiles(entry: FileSystemEntry, sources: UploadQueueSource[]): Promise<void> {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      sources.push({ file, path: entry.fullPath });
+      return;
+    }
+
+    if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns results in batches until it yields an empty list
+      while (true) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+          reader.readEntries(resolve, reject)
+        );
+        if (!batch.length) break;
+        for (const child of batch) {
+          await this.collectEntryFiles(child, sources);
+        }
+      }
+    }
+  }
+
+  private enqueueFiles(sources: UploadQueueSource[]): void {
+    this.errorMessage.set(null);
+
+    // A file already picked in the single-file flow joins the queue too
+    const selected = this.selectedFile();
+    if (selected) {
+      sources = [{ file: selected }, ...sources];
+      this.reset();
+    }
+
+    const items = createUploadQueueItems(sources, this.uploadQueue());
+    if (!items.length) {
+      if (!this.hasQueue()) {
+        this.errorMessage.set('No new receipt files found.');
+      }
+      return;
+    }
+
+    this.queueStopped = false;
+    this.uploadQueue.update(queue => [...queue, ...items]);
+    this.processQueue();
+  }
+
+  // Start as many queued uploads as the concurrency limit allows
+  private processQueue(): void {
+    if (this.queueStopped || this.destroyed) return;
+
+    for (const item of pickNextUploads(this.uploadQueue())) {
+      this.updateQueueItem(item.id, { status: 'converting', error: null, progress: 0 });
+      this.uploadQueueItem(item).finally(() => this.processQueue());
+    }
+  }
+
+  private async uploadQueueItem(item: UploadQueueItem): Promise<void> {
+    const validation = this.receiptService.validateFile(item.file);
+    if (!validation.valid) {
+      this.updateQueueItem(item.id, { status: 'rejected', error: validation.error || 'Invalid file' });
+      return;
+    }
+
+    if (!item.previewUrl) {
+      const previewUrl = await this.createQueuePreview(item.file);
+      this.updateQueueItem(item.id, { previewUrl });
+    }
+
+    this.updateQueueItem(item.id, { status: 'uploading', attempts: item.attempts + 1 });
+
+    try {
+      const receipt = await this.receiptService.uploadReceipt(
+        item.file,
+        (progress) => this.updateQueueItem(item.id, { progress: Math.round(progress.progress) })
+      );
+      this.updateQueueItem(item.id, { status: 'uploaded', progress: 100, receiptId: receipt.id });
+    } catch (error: any) {
+      if (error?.message === 'FREE_PLAN_LIMIT_REACHED') {
+        this.stopQueueForPlanLimit(item.id);
+        return;
+      }
+      this.updateQueueItem(item.id, { status: 'failed', progress: 0, error: error?.message || 'Upload failed' });
+    }
+  }
+
+  // Uploads already in flight may still finish; everything waiting is marked failed
+  private stopQueueForPlanLimit(id: string): void {
+    const message = `Free plan includes up to ${this.appConfig.freePlanReceiptLimit()} receipts total. Upgrade to add more.`;
+    this.uploadQueue.update(queue => queue.map(item =>
+      item.id === id || item.status === 'queued'
+        ? { ...item, status: 'failed', progress: 0, error: message }
+        : item
+    ));
+
+    if (this.queueStopped) return;
+    this.queueStopped = true;
+    this.errorMessage.set(message);
+    this.uploadError.emit('FREE_PLAN_LIMIT_REACHED');
+  }
+
+  private updateQueueItem(id: string, changes: Partial<UploadQueueItem>): void {
+    this.uploadQueue.update(queue => queue.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }
+
+  // Thumbnails use object URLs so a large batch does not hold every image as a data URL
+  private async createQueuePreview(file: File): Promise<string | null> {
+    if (!file.type.startsWith('image/') && !this.isHeic(file)) return null;
+
+    if (this.isHeic(file)) {
+      try {
+        return URL.createObjectURL(await this.convertHeicToJpeg(file));
+      } catch (error) {
+        console.error('Failed to convert HEIC for preview:', error);
+        return null;
+      }
+    }
+
+    return URL.createObjectURL(file);
+  }
+
+  private revokeQueuePreviews(items: UploadQueueItem[]): void {
+    for (const item of items) {
+      if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+    }
+  }
+
+  retryUpload(id: string): void {
+    const item = this.uploadQueue().find(entry => entry.id === id);
+    if (!item || item.status !== 'failed') return;
+
+    this.queueStopped = false;
+    this.errorMessage.set(null);
+    this.updateQueueItem(id, { status: 'queued', error: null, progress: 0 });
+    this.processQueue();
+  }
+
+  retryFailedUploads(): void {
+    this.queueStopped = false;
+    this.errorMessage.set(null);
+    this.uploadQueue.update(queue => queue.map(item =>
+      item.status === 'failed' ? { ...item, status: 'queued', error: null, progress: 0 } : item
+    ));
+    this.processQueue();
+  }
+
+  removeQueueItem(id: string): void {
+    const item = this.uploadQueue().find(entry => entry.id === id);
+    if (!item || item.status === 'converting' || item.status === 'uploading') return;
+
+    this.revokeQueuePreviews([item]);
+    this.uploadQueue.update(queue => queue.filter(entry => entry.id !== id));
+  }
+
+  getQueueStatusLabel(item: UploadQueueItem): string {
+    if (item.status === 'uploading') return `Uploading ${item.progress}%`;
+    return QUEUE_STATUS_LABELS[item.status];
+  }
+
+  trackQueueItem(_index: number, item: UploadQueueItem): string {
+    return item.id;
+  }
+
+  isQueueItemPending(item: UploadQueueItem): boolean {
+    return isUploadPending(item.status);
+  }
+
   // Handle selected file
   private async handleFile(file: File, source: 'upload' | 'camera' = 'upload'): Promise<void> {
     this.errorMessage.set(null);
@@ -163,21 +441,26 @@ export class UploadComponent implements AfterViewInit, OnDestroy {
     }
   }
 
-  // Convert HEIC to JPEG for preview using heic2any
+  // Convert HEIC to JPEG using heic2any
+  private async convertHeicToJpeg(file: File): Promise<Blob> {
+    // Dynamically import heic2any
+    const heic2any = (await import('heic2any')).default;
+
+    // Convert HEIC to JPEG blob
+    const convertedBlob = await heic2any({
+      blob: file,
+      toType: 'image/jpeg',
+      quality: 0.9
+    });
+
+    // Handle both single blob and array of blobs
+    return Array.isArray(convertedBlob) ? convertedBlob[0] : convertedBlob;
+  }
+
+  // Convert HEIC to JPEG for preview
   private async convertHeicForPreview(file: File): Promise<void> {
     try {
-      // Dynamically import heic2any
-      const heic2any = (await import('heic2any')).default;
-
-      // Convert HEIC to JPEG blob
-      const convertedBlob = await heic2any({
-        blob: file,
-        toType: 'image/jpeg',
-        quality: 0.9
-      });
-
-      // Handle both single blob and array of blobs
-      const blob = Array.isArray(convertedBlob) ? convertedBlob[0] : convertedBlob;
+      const blob = await this.convertHeicToJpeg(file);
 
       // Create preview URL from converted blob
       const reader = new FileReader();
@@ -195,7 +478,10 @@ export class UploadComponent implements AfterViewInit, OnDestroy {
   // Check if selected file is HEIC
   isHeicFile(): boolean {
     const file = this.selectedFile();
-    if (!file) return false;
+    return !!file && this.isHeic(file);
+  }
+
+  private isHeic(file: File): boolean {
     return file.type === 'image/heic' || file.type === 'image/heif' ||
       file.name.toLowerCase().endsWith('.heic') || file.name.toLowerCase().endsWith('.heif');
   }
@@ -263,6 +549,12 @@ export class UploadComponent implements AfterViewInit, OnDestroy {
 
   // Close modal
   onClose(): void {
+    const pending = this.uploadQueue().filter(item => isUploadPending(item.status)).length;
+    if (pending && !window.confirm(`${pending} file(s) have not finished uploading. Close anyway?`)) {
+      return;
+    }
+
+    this.queueStopped = true;
     this.stopCamera();
     this.reset();
     this.close.emit();
@@ -286,6 +578,11 @@ export class UploadComponent implements AfterViewInit, OnDestroy {
     this.fileInput?.nativeElement.click();
   }
 
+  openFolderPicker(): void {
+    this.errorMessage.set(null);
+    this.folderInput?.nativeElement.click();
+  }
+
   // Initialize camera stream
   async initializeCamera(): Promise<void> {
     if (!this.videoElement) {
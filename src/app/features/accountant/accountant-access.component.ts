@@ -0,0 +1,368 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Timestamp } from 'firebase/firestore';
+
+import { FolderService } from '../../services/folder.service';
+import { ShareService } from '../../services/share.service';
+import { WorkspaceService } from '../../services/workspace.service';
+import { AccountantAccessLogEntry, AccountantShare } from '../../models/share-link.model';
+import {
+  ACCOUNTANT_SHARE_EXPIRY_OPTIONS,
+  AccountantShareStatus,
+  describeAccountantScope,
+  getAccountantShareStatus
+} from '../../utils/accountant-share.utils';
+
+const STATUS_CLASSES: Record<AccountantShareStatus, string> = {
+  active: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300',
+  expired: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  revoked: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400'
+};
+
+@Component({
+  selector: 'app-accountant-access',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-4xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <!-- Header -->
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <a routerLink="/app/folders" class="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 mb-4">
+            <svg class="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to folders
+          </a>
+          <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Accountant access</h1>
+          <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+            Give your accountant a private, read-only link to selected collections or a date range. Links expire
+            automatically and you can revoke them at any time.
+          </p>
+        </section>
+
+        @if (!isOwnWorkspace()) {
+          <section class="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700 dark:border-amber-800 dark:bg-amber-950/30 dark:text-amber-300">
+            Accountant links can only be created for your own receipts. Switch to your workspace to manage them.
+          </section>
+        } @else {
+          @if (error()) {
+            <section class="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 dark:border-rose-800 dark:bg-rose-950/30 dark:text-rose-300">
+              {{ error() }}
+            </section>
+          }
+          @if (message()) {
+            <p class="text-sm text-emerald-600 dark:text-emerald-400">{{ message() }}</p>
+          }
+
+          <!-- Create -->
+          <form class="rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80" (ngSubmit)="create()">
+            <h2 class="font-semibold text-slate-900 dark:text-white">New link</h2>
+            <div class="mt-4 grid gap-4 sm:grid-cols-2">
+              <label class="block">
+                <span class="text-sm font-medium text-slate-700 dark:text-slate-200">Label</span>
+                <input type="text" name="label" maxlength="80" placeholder="2025 tax return" required
+                  [ngModel]="label()" (ngModelChange)="label.set($event)"
+                  class="mt-1 w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+              </label>
+              <label class="block">
+                <span class="text-sm font-medium text-slate-700 dark:text-slate-200">Accountant email <span class="font-normal text-slate-400">(optional)</span></span>
+                <input type="email" name="accountantEmail" placeholder="accountant@example.com"
+                  [ngModel]="accountantEmail()" (ngModelChange)="accountantEmail.set($event)"
+                  class="mt-1 w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+              </label>
+              <label class="block">
+                <span class="text-sm font-medium text-slate-700 dark:text-slate-200">From</span>
+                <input type="date" name="startDate" [ngModel]="startDate()" (ngModelChange)="startDate.set($event)"
+                  class="mt-1 w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+              </label>
+              <label class="block">
+                <span class="text-sm font-medium text-slate-700 dark:text-slate-200">To</span>
+                <input type="date" name="endDate" [ngModel]="endDate()" (ngModelChange)="endDate.set($event)"
+                  class="mt-1 w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+              </label>
+            </div>
+
+            @if (folders().length) {
+              <p class="mt-4 text-sm font-medium text-slate-700 dark:text-slate-200">Collections</p>
+              <div class="mt-2 flex flex-wrap gap-2">
+                @for (folder of folders(); track folder.id) {
+                  <button type="button" (click)="toggleFolder(folder.id)"
+                    class="rounded-full border px-3 py-1 text-xs font-medium transition"
+                    [ngClass]="selectedFolderIds().includes(folder.id)
+                      ? 'border-emerald-400 bg-emerald-50 text-emerald-700 dark:border-emerald-600 dark:bg-emerald-950/40 dark:text-emerald-300'
+                      : 'border-slate-200 text-slate-600 hover:border-slate-300 dark:border-slate-700 dark:text-slate-300'">
+                    {{ folder.name }}
+                  </button>
+                }
+              </div>
+            }
+            <p class="mt-2 text-xs text-slate-500 dark:text-slate-400">
+              Pick collections, a date range, or both. Leaving collections empty shares every receipt in the range.
+            </p>
+
+            <div class="mt-4 flex flex-wrap items-center gap-3">
+              <select name="expiresInDays" [ngModel]="expiresInDays()" (ngModelChange)="expiresInDays.set(+$event)"
+                aria-label="Link expiry"
+                class="rounded-lg border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200">
+                @for (days of expiryOptions; track days) {
+                  <option [value]="days">Expires in {{ days }} days</option>
+                }
+              </select>
+              <button type="submit" [disabled]="creating() || !canCreate()"
+                class="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-50 dark:text-slate-950">
+                {{ creating() ? 'Creating...' : 'Create link' }}
+              </button>
+            </div>
+
+            @if (createdLink(); as link) {
+              <div class="mt-4 flex flex-wrap items-center gap-2 rounded-xl border border-emerald-200 bg-emerald-50/70 px-3 py-2 dark:border-emerald-800/60 dark:bg-emerald-950/20">
+                <code class="min-w-0 flex-1 truncate text-xs text-slate-700 dark:text-slate-200">{{ link }}</code>
+                <button type="button" (click)="copy(link)"
+                  class="text-xs font-semibold text-emerald-700 hover:text-emerald-800 dark:text-emerald-300">
+                  Copy
+                </button>
+              </div>
+            }
+          </form>
+
+          <!-- Existing links -->
+          <section class="rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+            <h2 class="font-semibold text-slate-900 dark:text-white">Links</h2>
+            @if (loading()) {
+              <p class="mt-3 text-sm text-slate-500 dark:text-slate-400">Loading...</p>
+            } @else if (!shares().length) {
+              <p class="mt-3 text-sm text-slate-500 dark:text-slate-400">You haven't shared anything with an accountant yet.</p>
+            } @else {
+              <div class="mt-3 divide-y divide-slate-100 rounded-xl border border-slate-200 dark:divide-slate-800 dark:border-slate-800">
+                @for (share of shares(); track share.id) {
+                  <div class="px-4 py-3">
+                    <div class="flex flex-wrap items-start justify-between gap-3">
+                      <div class="min-w-0">
+                        <p class="flex items-center gap-2 text-sm font-semibold text-slate-900 dark:text-white">
+                          <span class="truncate">{{ share.label }}</span>
+                          <span class="rounded-full px-2 py-0.5 text-[11px] font-medium capitalize" [ngClass]="statusClasses[statusOf(share)]">
+                            {{ statusOf(share) }}
+                          </span>
+                        </p>
+                        <p class="truncate text-xs text-slate-500 dark:text-slate-400">{{ scopeOf(share) }}</p>
+                        <p class="text-xs text-slate-500 dark:text-slate-400">
+                          {{ share.accountantEmail ? share.accountantEmail + ' · ' : '' }}{{ statusOf(share) === 'active' ? 'expires' : 'expired' }} {{ formatDate(share.expiresAt) }}
+                          · opened {{ share.accessCount }} {{ share.accessCount === 1 ? 'time' : 'times' }}
+                          @if (share.lastAccessedAt) {
+                            · last {{ formatDateTime(share.lastAccessedAt) }}
+                          }
+                        </p>
+                      </div>
+                      <div class="flex items-center gap-3">
+                        @if (statusOf(share) === 'active') {
+                          <button type="button" (click)="copy(linkFor(share))"
+                            class="text-sm font-medium text-emerald-600 hover:text-emerald-700 dark:text-emerald-400">
+                            Copy link
+                          </button>
+                          <button type="button" (click)="revoke(share)" [disabled]="pendingId() !== null"
+                            class="text-sm font-medium text-rose-600 hover:text-rose-700 disabled:opacity-50 dark:text-rose-400">
+                            {{ pendingId() === share.id ? 'Revoking...' : 'Revoke' }}
+                          </button>
+                        }
+                        @if (share.accessCount) {
+                          <button type="button" (click)="toggleLog(share)"
+                            class="text-sm font-medium text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200">
+                            {{ openLogId() === share.id ? 'Hide log' : 'Access log' }}
+                          </button>
+                        }
+                      </div>
+                    </div>
+
+                    @if (openLogId() === share.id) {
+                      <div class="mt-3 rounded-lg bg-slate-50 px-3 py-2 text-xs text-slate-600 dark:bg-slate-800/60 dark:text-slate-300">
+                        @if (logLoading()) {
+                          <p>Loading...</p>
+                        } @else {
+                          @for (entry of accessLog(); track entry.id) {
+                            <p class="truncate py-0.5">
+                              {{ formatDateTime(entry.accessedAt) }} · {{ entry.receiptCount }} receipts{{ entry.ip ? ' · ' + entry.ip : '' }}
+                            </p>
+                          } @empty {
+                            <p>No visits recorded.</p>
+                          }
+                        }
+                      </div>
+                    }
+                  </div>
+                }
+              </div>
+            }
+          </section>
+        }
+      </div>
+    </div>
+  `,
+  styles: [`:host { display: block; }`]
+})
+export class AccountantAccessComponent implements OnInit, OnDestroy {
+  private readonly folderService = inject(FolderService);
+  private readonly shareService = inject(ShareService);
+  private readonly workspaceService = inject(WorkspaceService);
+
+  readonly expiryOptions = ACCOUNTANT_SHARE_EXPIRY_OPTIONS;
+  readonly statusClasses = STATUS_CLASSES;
+
+  readonly folders = this.folderService.folders;
+  readonly isOwnWorkspace = this.workspaceService.isOwnWorkspace;
+
+  readonly shares = signal<AccountantShare[]>([]);
+  readonly loading = signal(true);
+  readonly label = signal('');
+  readonly accountantEmail = signal('');
+  readonly startDate = signal('');
+  readonly endDate = signal('');
+  readonly selectedFolderIds = signal<string[]>([]);
+  readonly expiresInDays = signal(30);
+  readonly creating = signal(false);
+  readonly createdLink = signal<string | null>(null);
+  readonly pendingId = signal<string | null>(null);
+  readonly openLogId = signal<string | null>(null);
+  readonly accessLog = signal<AccountantAccessLogEntry[]>([]);
+  readonly logLoading = signal(false);
+  readonly error = signal<string | null>(null);
+  readonly message = signal<string | null>(null);
+
+  readonly canCreate = computed(() =>
+    !!this.label().trim() && (this.selectedFolderIds().length > 0 || !!this.startDate() || !!this.endDate())
+  );
+
+  private readonly folderNameById = computed(() =>
+    new Map(this.folders().map(folder => [folder.id, folder.name]))
+  );
+
+  ngOnInit(): void {
+    this.folderService.subscribeToFolders();
+    void this.loadShares();
+  }
+
+  ngOnDestroy(): void {
+    this.folderService.unsubscribeFromFolders();
+  }
+
+  toggleFolder(folderId: string): void {
+    this.selectedFolderIds.update(ids =>
+      ids.includes(folderId) ? ids.filter(id => id !== folderId) : [...ids, folderId]
+    );
+  }
+
+  async create(): Promise<void> {
+    if (this.creating() || !this.canCreate()) return;
+
+    this.creating.set(true);
+    this.resetMessages();
+    try {
+      const email = this.accountantEmail().trim();
+      const { link, emailSent } = await this.shareService.createAccountantShare({
+        label: this.label().trim(),
+        accountantEmail: email || undefined,
+        folderIds: this.selectedFolderIds(),
+        startDate: this.startDate() || null,
+        endDate: this.endDate() || null,
+        expiresInDays: this.expiresInDays()
+      });
+      this.createdLink.set(link);
+      this.message.set(emailSent ? `Link created and emailed to ${email}.` : 'Link created. Copy it below to send to your accountant.');
+      this.label.set('');
+      this.accountantEmail.set('');
+      this.selectedFolderIds.set([]);
+      await this.loadShares();
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to create link.');
+    } finally {
+      this.creating.set(false);
+    }
+  }
+
+  async revoke(share: AccountantShare): Promise<void> {
+    if (this.pendingId() !== null || !confirm(`Revoke "${share.label}"? The link will stop working immediately.`)) return;
+
+    this.pendingId.set(share.id);
+    this.resetMessages();
+    try {
+      await this.shareService.revokeAccountantShare(share.id);
+      await this.loadShares();
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to revoke link.');
+    } finally {
+      this.pendingId.set(null);
+    }
+  }
+
+  async toggleLog(share: AccountantShare): Promise<void> {
+    if (this.openLogId() === share.id) {
+      this.openLogId.set(null);
+      return;
+    }
+
+    this.openLogId.set(share.id);
+    this.logLoading.set(true);
+    this.accessLog.set([]);
+    try {
+      this.accessLog.set(await this.shareService.getAccountantAccessLog(share.id));
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to load access log.');
+    } finally {
+      this.logLoading.set(false);
+    }
+  }
+
+  async copy(link: string): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(link);
+      this.message.set('Link copied.');
+    } catch {
+      this.error.set('Could not copy the link. Select it and copy manually.');
+    }
+  }
+
+  statusOf(share: AccountantShare): AccountantShareStatus {
+    return getAccountantShareStatus(share);
+  }
+
+  scopeOf(share: AccountantShare): string {
+    const names = share.scope.folderIds
+      .map(id => this.folderNameById().get(id))
+      .filter((name): name is string => !!name);
+    return describeAccountantScope(share.scope, names);
+  }
+
+  linkFor(share: AccountantShare): string {
+    return `${window.location.origin}/share/${share.id}?key=${share.key}`;
+  }
+
+  formatDate(value: Timestamp): string {
+    return value.toDate().toLocaleDateString();
+  }
+
+  formatDateTime(value: Timestamp): string {
+    return value.toDate().toLocaleString();
+  }
+
+  private async loadShares(): Promise<void> {
+    if (!this.isOwnWorkspace()) {
+      this.loading.set(false);
+      return;
+    }
+
+    try {
+      this.shares.set(await this.shareService.listAccountantShares());
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to load links.');
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  private resetMessages(): void {
+    this.error.set(null);
+    this.message.set(null);
+  }
+}
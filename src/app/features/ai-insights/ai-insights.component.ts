@@ -152,10 +152,7 @@ export class AiInsightsComponent implements OnInit, OnDestroy {
   }
 
   formatCurrency(amount: number): string {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+    return this.receiptService.formatHomeCurrency(amount);
   }
 
   formatTime(date: Date): string {
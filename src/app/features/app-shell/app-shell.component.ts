@@ -8,8 +8,12 @@ import { AuthService } from '../../services/auth.service';
 import { ThemeService } from '../../services/theme.service';
 import { AiInsightsService } from '../../services/ai-insights.service';
 import { ShareService } from '../../services/share.service';
+import { ReceiptService } from '../../services/receipt.service';
+import { WorkspaceService } from '../../services/workspace.service';
 import { NotificationSettings } from '../../models/user.model';
 import { getEffectiveSubscriptionPlan } from '../../utils/subscription.utils';
+import { SUPPORTED_CURRENCIES } from '../../utils/currency.utils';
+import { WORKSPACE_ROLE_LABELS } from '../../utils/workspace.utils';
 
 @Component({
   selector: 'app-shell',
@@ -27,6 +31,8 @@ export class AppShellComponent {
   private readonly route = inject(ActivatedRoute);
   private readonly aiService = inject(AiInsightsService);
   private readonly shareService = inject(ShareService);
+  private readonly receiptService = inject(ReceiptService);
+  private readonly workspaceService = inject(WorkspaceService);
 
   readonly user = this.auth.user;
   readonly isDarkMode = this.theme.isDarkMode;
@@ -50,6 +56,10 @@ export class AppShellComponent {
   readonly shareError = signal<string | null>(null);
   readonly shareCopied = signal(false);
   readonly shareLoading = signal(false);
+  readonly workspaces = this.workspaceService.workspaces;
+  readonly activeWorkspace = this.workspaceService.activeWorkspace;
+  readonly pendingInviteCount = computed(() => this.workspaceService.receivedInvites().length);
+  readonly roleLabels = WORKSPACE_ROLE_LABELS;
   readonly visibleChatHistory = computed(() =>
     this.chatHistory().filter((chat) => chat.id !== '_telegram')
   );
@@ -59,6 +69,8 @@ export class AppShellComponent {
   readonly settingsFirstName = signal('');
   readonly settingsLastName = signal('');
   readonly settingsEmail = signal('');
+  readonly settingsHomeCurrency = signal('USD');
+  readonly currencyOptions = SUPPORTED_CURRENCIES;
   readonly settingsSaving = signal(false);
   readonly settingsError = signal<string | null>(null);
   readonly settingsSuccess = signal<string | null>(null);
@@ -69,6 +81,7 @@ export class AppShellComponent {
   readonly notificationsMonthlySummaryEmails = signal(true);
   readonly notificationsWeeklySummaryPush = signal(true);
   readonly notificationsMonthlySummaryPush = signal(true);
+  readonly notificationsBudgetAlerts = signal(true);
   readonly notificationsSaving = signal(false);
   readonly notificationsError = signal<string | null>(null);
   readonly notificationsSuccess = signal<string | null>(null);
@@ -174,6 +187,10 @@ export class AppShellComponent {
     this.settingsDropUpOpen.set(false);
   }
 
+  onWorkspaceChange(event: Event): void {
+    this.workspaceService.selectWorkspace((event.target as HTMLSelectElement).value);
+  }
+
   toggleSidebar(): void {
     this.sidebarOpen.update((open) => !open);
   }
@@ -224,6 +241,7 @@ export class AppShellComponent {
     this.settingsFirstName.set(profile?.firstName ?? '');
     this.settingsLastName.set(profile?.lastName ?? '');
     this.settingsEmail.set(profile?.email ?? '');
+    this.settingsHomeCurrency.set(this.receiptService.homeCurrency());
     this.notificationsReceiptProcessing.set(defaults.receiptProcessing);
     this.notificationsProductUpdates.set(defaults.productUpdates);
     this.notificationsSecurityAlerts.set(defaults.securityAlerts);
@@ -231,6 +249,7 @@ export class AppShellComponent {
     this.notificationsMonthlySummaryEmails.set(defaults.monthlySummaryEmails);
     this.notificationsWeeklySummaryPush.set(defaults.weeklySummaryPush);
     this.notificationsMonthlySummaryPush.set(defaults.monthlySummaryPush);
+    this.notificationsBudgetAlerts.set(defaults.budgetAlerts);
 
     this.settingsActiveTab.set(tab);
     this.settingsModalOpen.set(true);
@@ -264,6 +283,14 @@ export class AppShellComponent {
         firstName: this.settingsFirstName(),
         lastName: this.settingsLastName()
       });
+
+      if (this.settingsHomeCurrency() !== this.receiptService.homeCurrency()) {
+        const result = await this.receiptService.setHomeCurrency(this.settingsHomeCurrency());
+        this.settingsSuccess.set(
+          `Profile saved. ${result.converted} receipt${result.converted === 1 ? '' : 's'} converted to ${this.settingsHomeCurrency()}.`
+        );
+        return;
+      }
       this.settingsSuccess.set('Profile saved.');
     } catch (error) {
       this.settingsError.set(this.getErrorMessage(error, 'Unable to save profile details.'));
@@ -284,7 +311,8 @@ export class AppShellComponent {
       weeklySummaryEmails: this.notificationsWeeklySummaryEmails(),
       monthlySummaryEmails: this.notificationsMonthlySummaryEmails(),
       weeklySummaryPush: this.notificationsWeeklySummaryPush(),
-      monthlySummaryPush: this.notificationsMonthlySummaryPush()
+      monthlySummaryPush: this.notificationsMonthlySummaryPush(),
+      budgetAlerts: this.notificationsBudgetAlerts()
     };
 
     try {
@@ -0,0 +1,186 @@
+import { Component, OnDestroy, OnInit, computed, effect, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+
+import { Receipt, ReceiptSource } from '../../models/receipt.model';
+import { ReceiptService } from '../../services/receipt.service';
+import { WorkspaceService } from '../../services/workspace.service';
+
+interface DuplicatePair {
+  duplicate: Receipt;
+  original: Receipt | null;
+}
+
+const SOURCE_LABELS: Record<ReceiptSource, string> = {
+  upload: 'Uploaded',
+  email: 'Email',
+  telegram: 'Telegram'
+};
+
+@Component({
+  selector: 'app-duplicates',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-5xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Possible duplicates</h1>
+          <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+            These receipts look like ones you already have. Merge them to stop double-counting, or keep both if they are separate purchases.
+          </p>
+        </section>
+
+        @if (error()) {
+          <section class="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 dark:border-rose-800 dark:bg-rose-950/30 dark:text-rose-300">
+            {{ error() }}
+          </section>
+        }
+
+        @if (receiptsLoading() && !pairs().length) {
+          <section class="space-y-3">
+            @for (item of [1, 2, 3]; track item) {
+              <div class="h-40 animate-pulse rounded-2xl border border-slate-200 bg-slate-100 dark:border-slate-800 dark:bg-slate-900"></div>
+            }
+          </section>
+        } @else if (!pairs().length) {
+          <section class="rounded-3xl border border-dashed border-slate-300 bg-white/80 p-10 text-center dark:border-slate-700 dark:bg-slate-900/60">
+            <h2 class="text-xl font-semibold text-slate-900 dark:text-white">No duplicates to review</h2>
+            <p class="mt-2 text-sm text-slate-500 dark:text-slate-400">New receipts are checked against your existing ones automatically.</p>
+            <a routerLink="/app" class="mt-6 inline-flex rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-100">
+              Back to receipts
+            </a>
+          </section>
+        } @else {
+          @for (pair of pairs(); track pair.duplicate.id) {
+            <section class="rounded-2xl border border-amber-200 bg-white p-4 shadow-sm dark:border-amber-900/60 dark:bg-slate-900 sm:p-5">
+              <div class="flex flex-wrap items-center justify-between gap-2">
+                <span class="rounded-full bg-amber-100 px-2.5 py-1 text-xs font-semibold text-amber-800 dark:bg-amber-900/40 dark:text-amber-200">
+                  {{ getReasonLabel(pair.duplicate) }}
+                </span>
+                @if (canEdit()) {
+                  <div class="flex gap-2">
+                    <button type="button" (click)="resolve(pair, 'dismiss')" [disabled]="!!pendingId()"
+                      class="rounded-lg border border-slate-300 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                      Keep both
+                    </button>
+                    <button type="button" (click)="resolve(pair, 'merge')" [disabled]="!!pendingId() || !pair.original"
+                      class="rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-emerald-700 disabled:opacity-50">
+                      {{ pendingId() === pair.duplicate.id ? 'Saving...' : 'Merge' }}
+                    </button>
+                  </div>
+                }
+              </div>
+
+              <div class="mt-4 grid gap-3 sm:grid-cols-2">
+                @for (side of [pair.original, pair.duplicate]; track $index) {
+                  <div class="rounded-xl border border-slate-200 p-3 dark:border-slate-700">
+                    <p class="text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+                      {{ $index === 0 ? 'Existing receipt' : 'New receipt' }}
+                    </p>
+                    @if (side) {
+                      <a [routerLink]="['/app/receipt', side.id]" class="mt-2 flex gap-3 rounded-lg transition hover:bg-slate-50 dark:hover:bg-slate-800/60">
+                        <div class="flex h-20 w-16 shrink-0 items-center justify-center overflow-hidden rounded-lg bg-slate-100 text-xl dark:bg-slate-800">
+                          @if (imageUrls()[side.id]) {
+                            <img [src]="imageUrls()[side.id]" [alt]="side.file?.originalName" class="h-full w-full object-cover" loading="lazy" />
+                          } @else {
+                            🧾
+                          }
+                        </div>
+                        <div class="min-w-0 text-sm">
+                          <p class="truncate font-semibold text-slate-900 dark:text-white">{{ getMerchant(side) }}</p>
+                          <p class="text-slate-700 dark:text-slate-200">{{ receiptService.formatReceiptAmount(side) ?? 'No amount' }}</p>
+                          <p class="text-xs text-slate-500 dark:text-slate-400">{{ side.date || 'No date' }} · {{ getSourceLabel(side) }}</p>
+                          <p class="truncate text-xs text-slate-400">{{ side.file?.originalName }}</p>
+                        </div>
+                      </a>
+                    } @else {
+                      <p class="mt-2 text-sm text-slate-500 dark:text-slate-400">The existing receipt was deleted. Keep this one.</p>
+                    }
+                  </div>
+                }
+              </div>
+            </section>
+          }
+        }
+      </div>
+    </div>
+  `
+})
+export class DuplicatesComponent implements OnInit, OnDestroy {
+  readonly receiptService = inject(ReceiptService);
+  private readonly workspaceService = inject(WorkspaceService);
+
+  readonly receiptsLoading = this.receiptService.isLoading;
+  readonly canEdit = this.workspaceService.canEdit;
+  readonly pendingId = signal<string | null>(null);
+  readonly error = signal<string | null>(null);
+  readonly imageUrls = signal<Record<string, string>>({});
+
+  readonly pairs = computed<DuplicatePair[]>(() => {
+    const receiptMap = new Map(this.receiptService.receipts().map(receipt => [receipt.id, receipt]));
+    return this.receiptService.suspectedDuplicates().map(duplicate => ({
+      duplicate,
+      original: receiptMap.get(duplicate.duplicate!.receiptId) ?? null
+    }));
+  });
+
+  private readonly imageEffect = effect(() => {
+    for (const pair of this.pairs()) {
+      this.loadImageUrl(pair.duplicate);
+      if (pair.original) this.loadImageUrl(pair.original);
+    }
+  });
+
+  ngOnInit(): void {
+    this.receiptService.subscribeToReceipts();
+  }
+
+  ngOnDestroy(): void {
+    this.receiptService.unsubscribeFromReceipts();
+  }
+
+  async resolve(pair: DuplicatePair, action: 'merge' | 'dismiss'): Promise<void> {
+    if (this.pendingId()) return;
+
+    this.pendingId.set(pair.duplicate.id);
+    this.error.set(null);
+    try {
+      await this.receiptService.resolveDuplicate(pair.duplicate.id, action);
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to update this receipt');
+    } finally {
+      this.pendingId.set(null);
+    }
+  }
+
+  getReasonLabel(receipt: Receipt): string {
+    const duplicate = receipt.duplicate;
+    if (!duplicate) return '';
+    return duplicate.reason === 'content_hash'
+      ? 'Same file uploaded twice'
+      : `Same amount, similar merchant and date (${Math.round(duplicate.score * 100)}% match)`;
+  }
+
+  getMerchant(receipt: Receipt): string {
+    return receipt.merchant?.canonicalName || receipt.merchant?.rawName || receipt.extraction?.supplierName?.value || 'Unknown merchant';
+  }
+
+  getSourceLabel(receipt: Receipt): string {
+    return SOURCE_LABELS[receipt.source ?? 'upload'];
+  }
+
+  private async loadImageUrl(receipt: Receipt): Promise<void> {
+    const storagePath = receipt.file?.storagePath;
+    if (!storagePath || !receipt.file?.mimeType?.startsWith('image/') || this.imageUrls()[receipt.id]) {
+      return;
+    }
+
+    try {
+      const url = await this.receiptService.getReceiptFileUrl(storagePath);
+      this.imageUrls.update(current => ({ ...current, [receipt.id]: url }));
+    } catch (error) {
+      console.error('Failed to load duplicate preview:', error);
+    }
+  }
+}
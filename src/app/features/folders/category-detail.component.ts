@@ -1,10 +1,14 @@
 import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, RouterLink } from '@angular/router';
+import type { PDFDocument } from 'pdf-lib';
 
 import { Receipt } from '../../models/receipt.model';
-import { Category, getCategoryById } from '../../models/category.model';
+import { Category } from '../../models/category.model';
 import { ReceiptService } from '../../services/receipt.service';
+import { CategoryService } from '../../services/category.service';
+import { buildBudgetProgress } from '../../utils/budget.utils';
+import { getEntryExportLines, isManualEntry } from '../../utils/manual-entry.utils';
 
 type TimeRange = 'month' | 'year' | 'allTime';
 
@@ -147,6 +151,34 @@ interface PeriodOption {
             </div>
           }
 
+          <!-- Monthly budget -->
+          @if (budgetProgress(); as progress) {
+            <div class="mt-4 rounded-2xl border border-slate-200 p-4 dark:border-slate-800">
+              <div class="flex items-baseline justify-between gap-3 text-sm">
+                <span class="font-semibold text-slate-900 dark:text-white">Monthly budget</span>
+                <span class="text-slate-600 dark:text-slate-300">
+                  {{ formatCurrency(progress.spent) }} of {{ formatCurrency(progress.budget) }}
+                </span>
+              </div>
+              <div class="mt-2 h-2.5 w-full overflow-hidden rounded-full bg-slate-100 dark:bg-slate-800">
+                <div class="h-full rounded-full transition-all duration-300"
+                  [ngClass]="progress.level === 'over' ? 'bg-red-500' : progress.level === 'warning' ? 'bg-amber-500' : 'bg-emerald-500'"
+                  [style.width.%]="progress.percent"></div>
+              </div>
+              <div class="mt-1.5 flex items-center justify-between gap-3 text-xs">
+                <span [ngClass]="progress.level === 'over' ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'">
+                  {{ progress.remaining >= 0 ? formatCurrency(progress.remaining) + ' left' : formatCurrency(-progress.remaining) + ' over budget' }}
+                </span>
+                <a routerLink="/app/settings/budgets" class="font-medium text-emerald-600 hover:text-emerald-700 dark:text-emerald-400">Edit</a>
+              </div>
+            </div>
+          } @else if (activeRange() === 'month' && !categoryBudget()) {
+            <a routerLink="/app/settings/budgets"
+              class="mt-4 inline-flex text-xs font-medium text-emerald-600 hover:text-emerald-700 dark:text-emerald-400">
+              Set a monthly budget for this category
+            </a>
+          }
+
           <div class="mt-4 rounded-2xl border border-emerald-200 bg-emerald-50/80 p-4 dark:border-emerald-900/60 dark:bg-emerald-950/20">
             <p class="text-xs font-semibold uppercase tracking-[0.12em] text-emerald-700 dark:text-emerald-300">Tax-Ready</p>
             <p class="mt-1 text-sm text-emerald-900 dark:text-emerald-100">
@@ -193,7 +225,14 @@ interface PeriodOption {
                     <p class="truncate text-sm font-semibold text-slate-900 dark:text-white">{{ getMerchant(receipt) }}</p>
                     <p class="text-xs text-slate-500 dark:text-slate-400">{{ receipt.date || 'No date' }}</p>
                   </div>
-                  <p class="text-sm font-semibold text-slate-900 dark:text-white">{{ formatCurrency(receipt.totalAmount || 0) }}</p>
+                  <div class="text-right">
+                    <p class="text-sm font-semibold text-slate-900 dark:text-white">{{ formatCurrency(getCategoryAmount(receipt)) }}</p>
+                    @if (isSplitReceipt(receipt)) {
+                      <p class="text-[11px] text-slate-500 dark:text-slate-400">Split of {{ formatReceiptAmount(receipt) }}</p>
+                    } @else if (isForeignCurrency(receipt)) {
+                      <p class="text-[11px] text-slate-500 dark:text-slate-400">{{ formatReceiptAmount(receipt) }}</p>
+                    }
+                  </div>
                   <svg class="h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
                     <path stroke-linecap="round" stroke-linejoin="round" d="M9 6l6 6-6 6" />
                   </svg>
@@ -211,6 +250,7 @@ export class CategoryDetailComponent implements OnInit, OnDestroy {
   private pdfLibPromise: Promise<typeof import('pdf-lib')> | null = null;
   private readonly route = inject(ActivatedRoute);
   private readonly receiptService = inject(ReceiptService);
+  private readonly categoryService = inject(CategoryService);
 
   readonly categoryId = signal<string>('other');
   readonly activeRange = signal<TimeRange>('month');
@@ -223,13 +263,13 @@ export class CategoryDetailComponent implements OnInit, OnDestroy {
   readonly csvExportError = signal<string | null>(null);
 
   readonly category = computed<Category | undefined>(() => {
-    return getCategoryById(this.categoryId());
+    return this.categoryService.findCategory(this.categoryId());
   });
 
   readonly categoryReceipts = computed<Receipt[]>(() => {
     const id = this.categoryId();
     return this.receiptService.receipts()
-      .filter(r => (r.category?.id || 'other') === id)
+      .filter(r => this.getAllocatedCategoryIds(r).includes(id))
       .sort((a, b) => {
         const da = a.date || '';
         const db = b.date || '';
@@ -238,7 +278,7 @@ export class CategoryDetailComponent implements OnInit, OnDestroy {
   });
 
   readonly totalAmount = computed(() => {
-    return this.categoryReceipts().reduce((sum, r) => sum + (r.totalAmount || 0), 0);
+    return this.categoryReceipts().reduce((sum, r) => sum + this.getCategoryAmount(r), 0);
   });
 
   readonly periods = computed<PeriodOption[]>(() => {
@@ -309,7 +349,16 @@ export class CategoryDetailComponent implements OnInit, OnDestroy {
   });
 
   readonly filteredTotal = computed(() => {
-    return this.filteredReceipts().reduce((sum, r) => sum + (r.totalAmount || 0), 0);
+    return this.filteredReceipts().reduce((sum, r) => sum + this.getCategoryAmount(r), 0);
+  });
+
+  readonly categoryBudget = computed(() => this.receiptService.budgets().categories[this.categoryId()] ?? null);
+
+  // Budget vs actual for the month being viewed
+  readonly budgetProgress = computed(() => {
+    const budget = this.categoryBudget();
+    if (!budget || this.activeRange() !== 'month') return null;
+    return buildBudgetProgress(budget, this.filteredTotal());
   });
 
   readonly exportScopeLabel = computed(() => {
@@ -390,13 +439,21 @@ export class CategoryDetailComponent implements OnInit, OnDestroy {
 
       const categoryName = this.category()?.name || 'Category';
       const rows: string[] = [];
-      rows.push(['Category', 'Merchant', 'Date', 'Amount'].map(this.escapeCsvValue).join(','));
+      const homeCurrency = this.receiptService.homeCurrency();
+      rows.push(
+        ['Category', 'Merchant', 'Date', `Amount (${homeCurrency})`, 'Original Amount', 'Original Currency', 'Tags']
+          .map(this.escapeCsvValue)
+          .join(',')
+      );
 
       let total = 0;
       for (const receipt of receipts) {
         const merchant = this.getMerchant(receipt);
         const date = receipt.date || receipt.extraction?.date?.value || '';
-        const amount = receipt.totalAmount ?? receipt.extraction?.totalAmount?.value ?? null;
+        const originalAmount = this.receiptService.getOriginalAmount(receipt);
+        const amount = originalAmount === null
+          ? null
+          : this.getCategoryAmount(receipt);
 
         if (typeof amount === 'number') {
           total += amount;
@@ -406,7 +463,10 @@ export class CategoryDetailComponent implements OnInit, OnDestroy {
           categoryName,
           merchant,
           date,
-          typeof amount === 'number' ? amount.toFixed(2) : ''
+          typeof amount === 'number' ? amount.toFixed(2) : '',
+          typeof originalAmount === 'number' ? originalAmount.toFixed(2) : '',
+          this.receiptService.getReceiptCurrency(receipt),
+          (receipt.tags ?? []).join('; ')
         ].map(this.escapeCsvValue).join(','));
       }
 
@@ -414,7 +474,10 @@ export class CategoryDetailComponent implements OnInit, OnDestroy {
         '',
         'Total',
         '',
-        total.toFixed(2)
+        total.toFixed(2),
+        '',
+        '',
+        ''
       ].map(this.escapeCsvValue).join(','));
 
       const csvBlob = new Blob([rows.join('\n')], { type: 'text/csv;charset=utf-8;' });
@@ -454,6 +517,12 @@ export class CategoryDetailComponent implements OnInit, OnDestroy {
 
       for (const receipt of receipts) {
         try {
+          if (!receipt.file?.storagePath && isManualEntry(receipt)) {
+            this.addEntryPage(pdfDoc, receipt);
+            appendedPages += 1;
+            continue;
+          }
+
           const blob = await this.fetchReceiptBlob(receipt);
           const mimeType = this.getReceiptMimeType(receipt, blob);
 
@@ -530,6 +599,26 @@ export class CategoryDetailComponent implements OnInit, OnDestroy {
     return receipt.merchant?.canonicalName || receipt.merchant?.rawName || receipt.file?.originalName || 'Unknown';
   }
 
+  /**
+   * Amount of the receipt that falls in this category. Receipts whose category
+   * no longer exists (e.g. a deleted custom category) count as "Other".
+   */
+  getCategoryAmount(receipt: Receipt): number {
+    const id = this.categoryId();
+    return this.receiptService.getCategoryAllocations(receipt)
+      .filter(a => this.categoryService.getCategory(a.categoryId).id === id)
+      .reduce((sum, a) => sum + a.amount, 0);
+  }
+
+  private getAllocatedCategoryIds(receipt: Receipt): string[] {
+    return this.receiptService.getCategoryAllocations(receipt)
+      .map(a => this.categoryService.getCategory(a.categoryId).id);
+  }
+
+  isSplitReceipt(receipt: Receipt): boolean {
+    return this.receiptService.getCategoryAllocations(receipt).length > 1;
+  }
+
   getInitials(name: string): string {
     const parts = name.trim().split(/\s+/);
     if (parts.length >= 2) {
@@ -538,8 +627,16 @@ export class CategoryDetailComponent implements OnInit, OnDestroy {
     return name.length >= 2 ? name.substring(0, 2).toUpperCase() : name.toUpperCase();
   }
 
+  isForeignCurrency(receipt: Receipt): boolean {
+    return this.receiptService.isForeignCurrency(receipt);
+  }
+
   formatCurrency(amount: number): string {
-    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+    return this.receiptService.formatHomeCurrency(amount);
+  }
+
+  formatReceiptAmount(receipt: Receipt): string {
+    return this.receiptService.formatReceiptAmount(receipt) ?? '-';
   }
 
   private escapeCsvValue(value: string): string {
@@ -557,15 +654,33 @@ export class CategoryDetailComponent implements OnInit, OnDestroy {
     return this.pdfLibPromise;
   }
 
+  // Manual and mileage entries have no file, so they get a page of text instead
+  private addEntryPage(pdfDoc: PDFDocument, receipt: Receipt): void {
+    const pageWidth = 612; // Letter
+    const pageHeight = 792;
+    const margin = 36;
+    const page = pdfDoc.addPage([pageWidth, pageHeight]);
+
+    const lines = [this.buildReceiptCaption(receipt), ...getEntryExportLines(receipt)];
+    lines.forEach((line, index) => {
+      page.drawText(line.length > 90 ? `${line.slice(0, 87)}…` : line, {
+        x: margin,
+        y: pageHeight - margin * 2 - index * 22,
+        size: index === 0 ? 16 : 12,
+        maxWidth: pageWidth - margin * 2
+      });
+    });
+  }
+
   private buildReceiptCaption(receipt: Receipt): string {
     const parts: string[] = [];
 
     parts.push(this.category()?.name || 'Category');
     parts.push(this.getMerchant(receipt));
 
-    const amount = receipt.totalAmount ?? receipt.extraction?.totalAmount?.value;
-    if (typeof amount === 'number') {
-      parts.push(this.formatCurrency(amount));
+    const amount = this.receiptService.formatReceiptAmount(receipt);
+    if (amount) {
+      parts.push(amount);
     }
 
     const parsedDate = this.parseDate(receipt.date || receipt.extraction?.date?.value);
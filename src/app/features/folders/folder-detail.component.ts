@@ -5,9 +5,25 @@ import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 
 import { Folder, FolderMergeEntry } from '../../models/folder.model';
 import { Receipt } from '../../models/receipt.model';
+import { FolderShare } from '../../models/share-link.model';
 import { FolderService } from '../../services/folder.service';
 import { PdfThumbnailService } from '../../services/pdf-thumbnail.service';
 import { ReceiptService } from '../../services/receipt.service';
+import { ShareService } from '../../services/share.service';
+import { WorkspaceService } from '../../services/workspace.service';
+import { collectTags, hasTag, parseTagInput } from '../../utils/tag.utils';
+import { getEntryExportLines, isManualEntry } from '../../utils/manual-entry.utils';
+import { SHARE_EXPIRY_OPTIONS, describeShareExpiry, getShareStatus } from '../../utils/share.utils';
+import {
+  addReceiptImagePage,
+  addReceiptTextPage,
+  downloadBlob,
+  downloadPdf,
+  fetchReceiptFile,
+  getReceiptMimeType,
+  loadPdfLib,
+  normalizeReceiptImage
+} from '../../utils/receipt-pdf.utils';
 
 interface MonthGroup {
   key: string;
@@ -25,12 +41,13 @@ interface MonthGroup {
   styleUrl: './folder-detail.component.css'
 })
 export class FolderDetailComponent implements OnInit, OnDestroy {
-  private pdfLibPromise: Promise<typeof import('pdf-lib')> | null = null;
   private readonly route = inject(ActivatedRoute);
   private readonly router = inject(Router);
   private readonly receiptService = inject(ReceiptService);
   private readonly folderService = inject(FolderService);
   private readonly pdfThumbnailService = inject(PdfThumbnailService);
+  private readonly shareService = inject(ShareService);
+  private readonly workspace = inject(WorkspaceService);
 
   readonly folderId = signal<string | null>(null);
 
@@ -39,14 +56,27 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
   readonly foldersError = this.folderService.error;
 
   readonly receipts = this.receiptService.receipts;
+  readonly canEdit = this.workspace.canEdit;
   readonly receiptsLoading = this.receiptService.isLoading;
 
   readonly addModalOpen = signal(false);
   readonly removeModalOpen = signal(false);
   readonly deleteModalOpen = signal(false);
   readonly renameModalOpen = signal(false);
+  readonly tagModalOpen = signal(false);
+  readonly bulkTagInput = signal('');
+  readonly tagFilter = signal<string | null>(null);
   readonly mergedSourcesExpanded = signal(false);
   readonly renameFolderName = signal('');
+  readonly shareModalOpen = signal(false);
+  readonly shareExpiryOptions = SHARE_EXPIRY_OPTIONS;
+  readonly shareExpiresInDays = signal<number | null>(30);
+  readonly sharePassword = signal('');
+  readonly shareIncludeThumbnails = signal(false);
+  readonly shareIncludeName = signal(false);
+  readonly folderShares = signal<FolderShare[]>([]);
+  readonly createdShareLink = signal<string | null>(null);
+  readonly shareCopiedId = signal<string | null>(null);
 
   readonly selectedReceiptIds = signal<Set<string>>(new Set());
   readonly mutationLoading = signal(false);
@@ -84,14 +114,25 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
       .sort((a, b) => this.getReceiptDateValue(b) - this.getReceiptDateValue(a));
   });
 
+  readonly folderTags = computed(() => collectTags(this.folderReceipts()));
+  readonly allTags = this.receiptService.allTags;
+  readonly visibleReceipts = computed(() => {
+    const tag = this.tagFilter();
+    const receipts = this.folderReceipts();
+    return tag ? receipts.filter((receipt) => hasTag(receipt.tags, tag)) : receipts;
+  });
+
   readonly folderReceiptsByMonth = computed(() => this.groupReceiptsByMonth(this.folderReceipts()));
+  readonly visibleReceiptsByMonth = computed(() => this.groupReceiptsByMonth(this.visibleReceipts()));
   readonly allReceiptsByMonth = computed(() => this.groupReceiptsByMonth(this.receipts()));
 
   readonly selectedCount = computed(() => this.selectedReceiptIds().size);
   readonly canAddPictures = computed(() => this.selectedCount() > 0 && !this.mutationLoading());
   readonly canRemovePictures = computed(() => this.selectedCount() > 0 && !this.mutationLoading());
+  readonly bulkTags = computed(() => parseTagInput(this.bulkTagInput()));
+  readonly canApplyTags = computed(() => this.selectedCount() > 0 && this.bulkTags().length > 0 && !this.mutationLoading());
 
-  readonly totalAmount = computed(() => this.folderReceipts().reduce((sum, receipt) => sum + (receipt.totalAmount || 0), 0));
+  readonly totalAmount = computed(() => this.folderReceipts().reduce((sum, receipt) => sum + (this.receiptService.getEffectiveAmount(receipt) ?? 0), 0));
   readonly mergedSources = computed(() => this.folder()?.mergedSources || []);
   readonly downloadingPdfKey = signal<string | null>(null);
   readonly downloadingCsvKey = signal<string | null>(null);
@@ -135,6 +176,13 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
     this.removeModalOpen.set(true);
   }
 
+  openTagModal(): void {
+    this.selectedReceiptIds.set(new Set());
+    this.bulkTagInput.set('');
+    this.mutationError.set(null);
+    this.tagModalOpen.set(true);
+  }
+
   openDeleteModal(): void {
     this.mutationError.set(null);
     this.deleteModalOpen.set(true);
@@ -146,6 +194,98 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
     this.renameModalOpen.set(true);
   }
 
+  openShareModal(): void {
+    this.mutationError.set(null);
+    this.sharePassword.set('');
+    this.createdShareLink.set(null);
+    this.shareModalOpen.set(true);
+    void this.loadFolderShares();
+  }
+
+  async createFolderShare(): Promise<void> {
+    const folderId = this.folderId();
+    const workspaceId = this.workspace.activeWorkspaceId();
+    if (!folderId || !workspaceId || this.mutationLoading()) {
+      return;
+    }
+
+    this.mutationLoading.set(true);
+    this.mutationError.set(null);
+    try {
+      const shareId = await this.shareService.createFolderShare({
+        folderId,
+        workspaceId,
+        expiresInDays: this.shareExpiresInDays(),
+        password: this.sharePassword() || undefined,
+        includeThumbnails: this.shareIncludeThumbnails(),
+        includeName: this.shareIncludeName()
+      });
+      this.createdShareLink.set(this.buildShareLink(shareId));
+      this.sharePassword.set('');
+      await this.loadFolderShares();
+    } catch (error: any) {
+      this.mutationError.set(error?.message || 'Failed to create share link.');
+    } finally {
+      this.mutationLoading.set(false);
+    }
+  }
+
+  async revokeShare(share: FolderShare): Promise<void> {
+    if (this.mutationLoading() || !confirm('Revoke this link? Anyone who has it will lose access.')) {
+      return;
+    }
+
+    this.mutationLoading.set(true);
+    this.mutationError.set(null);
+    try {
+      await this.shareService.revokeFolderShare(share.id);
+      if (this.createdShareLink() === this.buildShareLink(share.id)) {
+        this.createdShareLink.set(null);
+      }
+      await this.loadFolderShares();
+    } catch (error: any) {
+      this.mutationError.set(error?.message || 'Failed to revoke share link.');
+    } finally {
+      this.mutationLoading.set(false);
+    }
+  }
+
+  async copyShareLink(link: string): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(link);
+      this.shareCopiedId.set(link);
+      setTimeout(() => this.shareCopiedId.set(null), 2000);
+    } catch {
+      this.mutationError.set('Could not copy the link. Select it and copy manually.');
+    }
+  }
+
+  buildShareLink(shareId: string): string {
+    return `${window.location.origin}/share/${shareId}`;
+  }
+
+  isShareActive(share: FolderShare): boolean {
+    return getShareStatus(share) === 'active';
+  }
+
+  describeShareState(share: FolderShare): string {
+    const views = `${share.viewCount ?? 0} ${share.viewCount === 1 ? 'view' : 'views'}`;
+    return `${describeShareExpiry(share)} · ${views}`;
+  }
+
+  private async loadFolderShares(): Promise<void> {
+    const folderId = this.folderId();
+    if (!folderId) {
+      return;
+    }
+
+    try {
+      this.folderShares.set(await this.shareService.listFolderShares(folderId));
+    } catch (error: any) {
+      this.mutationError.set(error?.message || 'Failed to load share links.');
+    }
+  }
+
   toggleMergedSources(): void {
     this.mergedSourcesExpanded.update((expanded) => !expanded);
   }
@@ -163,6 +303,8 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
     this.removeModalOpen.set(false);
     this.deleteModalOpen.set(false);
     this.renameModalOpen.set(false);
+    this.tagModalOpen.set(false);
+    this.shareModalOpen.set(false);
     this.selectedReceiptIds.set(new Set());
     this.mutationError.set(null);
     this.mutationLoading.set(false);
@@ -184,6 +326,16 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
     });
   }
 
+  toggleSelectAll(): void {
+    const receipts = this.folderReceipts();
+    const allSelected = receipts.length > 0 && receipts.every((receipt) => this.selectedReceiptIds().has(receipt.id));
+    this.selectedReceiptIds.set(allSelected ? new Set() : new Set(receipts.map((receipt) => receipt.id)));
+  }
+
+  setTagFilter(tag: string | null): void {
+    this.tagFilter.update((current) => (current === tag ? null : tag));
+  }
+
   isReceiptSelected(receiptId: string): boolean {
     return this.selectedReceiptIds().has(receiptId);
   }
@@ -240,6 +392,32 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
     }
   }
 
+  async applyBulkTags(mode: 'add' | 'remove'): Promise<void> {
+    if (!this.canApplyTags()) {
+      return;
+    }
+
+    const receiptIds = Array.from(this.selectedReceiptIds());
+    const tags = this.bulkTags();
+
+    this.mutationLoading.set(true);
+    this.mutationError.set(null);
+
+    try {
+      if (mode === 'add') {
+        await this.receiptService.addTagsToReceipts(receiptIds, tags);
+      } else {
+        for (const tag of tags) {
+          await this.receiptService.removeTagFromReceipts(receiptIds, tag);
+        }
+      }
+      this.closeAllModals();
+    } catch (error: any) {
+      this.mutationError.set(error?.message || 'Unable to update tags for these receipts.');
+      this.mutationLoading.set(false);
+    }
+  }
+
   async deleteFolder(): Promise<void> {
     if (this.mutationLoading()) {
       return;
@@ -345,14 +523,11 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
   }
 
   isPdf(receipt: Receipt): boolean {
-    return receipt.file?.mimeType === 'application/pdf' || receipt.file?.originalName?.toLowerCase().endsWith('.pdf');
+    return receipt.file?.mimeType === 'application/pdf' || !!receipt.file?.originalName?.toLowerCase().endsWith('.pdf');
   }
 
   formatCurrency(amount: number): string {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+    return this.receiptService.formatHomeCurrency(amount);
   }
 
   formatDate(receipt: Receipt): string {
@@ -385,7 +560,7 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
   }
 
   getMonthTotal(group: MonthGroup): number {
-    return group.receipts.reduce((sum, receipt) => sum + (receipt.totalAmount || 0), 0);
+    return group.receipts.reduce((sum, receipt) => sum + (this.receiptService.getEffectiveAmount(receipt) ?? 0), 0);
   }
 
   private groupReceiptsByMonth(receipts: Receipt[]): MonthGroup[] {
@@ -525,7 +700,12 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
       }
 
       const rows: string[] = [];
-      rows.push(['Merchant', 'Date', 'Amount'].map(this.escapeCsvValue).join(','));
+      const homeCurrency = this.receiptService.homeCurrency();
+      rows.push(
+        ['Merchant', 'Date', `Amount (${homeCurrency})`, 'Original Amount', 'Original Currency', 'Tags']
+          .map(this.escapeCsvValue)
+          .join(',')
+      );
 
       let total = 0;
       for (const receipt of receipts) {
@@ -534,8 +714,8 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
           || receipt.extraction?.supplierName?.value
           || 'Unknown';
         const date = receipt.date || receipt.extraction?.date?.value || '';
-        const amountValue = receipt.totalAmount ?? receipt.extraction?.totalAmount?.value;
-        const amount = typeof amountValue === 'number' ? amountValue : null;
+        const originalAmount = this.receiptService.getOriginalAmount(receipt);
+        const amount = this.receiptService.getEffectiveAmount(receipt);
         if (amount !== null) {
           total += amount;
         }
@@ -543,22 +723,17 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
         rows.push([
           merchant,
           date,
-          amount !== null ? amount.toFixed(2) : ''
+          amount !== null ? amount.toFixed(2) : '',
+          originalAmount !== null ? originalAmount.toFixed(2) : '',
+          this.receiptService.getReceiptCurrency(receipt),
+          (receipt.tags ?? []).join('; ')
         ].map(this.escapeCsvValue).join(','));
       }
 
-      rows.push(['Total', '', total.toFixed(2)].map(this.escapeCsvValue).join(','));
+      rows.push(['Total', '', total.toFixed(2), '', '', ''].map(this.escapeCsvValue).join(','));
 
       const csv = rows.join('\n');
-      const csvBlob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-      const downloadUrl = URL.createObjectURL(csvBlob);
-      const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = `${this.toSafeFileLabel(label)}.csv`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      setTimeout(() => URL.revokeObjectURL(downloadUrl), 250);
+      downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), `${this.toSafeFileLabel(label)}.csv`);
     } catch (error: any) {
       this.csvDownloadError.set({
         key,
@@ -583,18 +758,22 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
         throw new Error('No receipts available for export.');
       }
 
-      const { PDFDocument } = await this.loadPdfLib();
+      const { PDFDocument } = await loadPdfLib();
       const pdfDoc = await PDFDocument.create();
       let appendedPages = 0;
 
       for (const receipt of receipts) {
         try {
           if (!receipt.file?.storagePath) {
+            if (isManualEntry(receipt)) {
+              addReceiptTextPage(pdfDoc, this.buildReceiptCaption(receipt), getEntryExportLines(receipt));
+              appendedPages += 1;
+            }
             continue;
           }
 
-          const blob = await this.fetchReceiptBlob(receipt);
-          const mimeType = this.getReceiptMimeType(receipt, blob);
+          const blob = await fetchReceiptFile(receipt, path => this.receiptService.getReceiptFileUrl(path));
+          const mimeType = getReceiptMimeType(receipt, blob);
 
           if (this.isPdf(receipt) || mimeType === 'application/pdf') {
             const sourcePdf = await PDFDocument.load(await blob.arrayBuffer());
@@ -602,39 +781,8 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
             copiedPages.forEach((page) => pdfDoc.addPage(page));
             appendedPages += copiedPages.length;
           } else {
-            const { bytes, type } = await this.normalizeImageBlob(blob, receipt);
-            const embeddedImage = type === 'png'
-              ? await pdfDoc.embedPng(bytes)
-              : await pdfDoc.embedJpg(bytes);
-
-            const pageWidth = 612;
-            const pageHeight = 792;
-            const margin = 36;
-            const maxWidth = pageWidth - margin * 2;
-            const maxHeight = pageHeight - margin * 3;
-
-            const dimensions = embeddedImage.scale(1);
-            const scale = Math.min(maxWidth / dimensions.width, maxHeight / dimensions.height, 1);
-            const scaledWidth = dimensions.width * scale;
-            const scaledHeight = dimensions.height * scale;
-
-            const page = pdfDoc.addPage([pageWidth, pageHeight]);
-            page.drawImage(embeddedImage, {
-              x: (pageWidth - scaledWidth) / 2,
-              y: margin * 1.5,
-              width: scaledWidth,
-              height: scaledHeight
-            });
-
-            const caption = this.buildReceiptCaption(receipt);
-            const text = caption.length > 90 ? `${caption.slice(0, 87)}…` : caption;
-            page.drawText(text, {
-              x: margin,
-              y: margin / 2,
-              size: 12,
-              maxWidth: pageWidth - margin * 2
-            });
-
+            const image = await normalizeReceiptImage(blob, receipt);
+            await addReceiptImagePage(pdfDoc, image, this.buildReceiptCaption(receipt));
             appendedPages += 1;
           }
         } catch (innerError) {
@@ -646,17 +794,7 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
         throw new Error('Unable to prepare this PDF right now. Please try again later.');
       }
 
-      const pdfBytes = await pdfDoc.save();
-      const pdfBuffer = pdfBytes.buffer.slice(0) as ArrayBuffer;
-      const pdfBlob = new Blob([pdfBuffer], { type: 'application/pdf' });
-      const downloadUrl = URL.createObjectURL(pdfBlob);
-      const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = `${this.toSafeFileLabel(label)}.pdf`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      setTimeout(() => URL.revokeObjectURL(downloadUrl), 250);
+      await downloadPdf(pdfDoc, `${this.toSafeFileLabel(label)}.pdf`);
     } catch (error: any) {
       this.pdfDownloadError.set({
         key,
@@ -676,13 +814,6 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
     return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'receipts';
   }
 
-  private loadPdfLib(): Promise<typeof import('pdf-lib')> {
-    if (!this.pdfLibPromise) {
-      this.pdfLibPromise = import('pdf-lib');
-    }
-    return this.pdfLibPromise;
-  }
-
   private buildReceiptCaption(receipt: Receipt): string {
     const parts: string[] = [];
 
@@ -694,8 +825,9 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
       parts.push(receipt.file.originalName);
     }
 
-    if (receipt.totalAmount !== undefined && receipt.totalAmount !== null) {
-      parts.push(this.formatCurrency(receipt.totalAmount));
+    const amount = this.receiptService.formatReceiptAmount(receipt);
+    if (amount) {
+      parts.push(amount);
     }
 
     if (receipt.date) {
@@ -707,119 +839,4 @@ export class FolderDetailComponent implements OnInit, OnDestroy {
 
     return parts.join(' • ') || 'Receipt';
   }
-
-  private getReceiptMimeType(receipt: Receipt, blob: Blob): string {
-    return blob?.type || receipt.file?.mimeType || '';
-  }
-
-  private async fetchReceiptBlob(receipt: Receipt): Promise<Blob> {
-    if (!receipt.file?.storagePath) {
-      throw new Error('Missing file path for receipt.');
-    }
-
-    const url = await this.receiptService.getReceiptFileUrl(receipt.file.storagePath);
-    return this.fetchBlobWithXHR(url);
-  }
-
-  private async normalizeImageBlob(blob: Blob, receipt: Receipt): Promise<{ bytes: Uint8Array; type: 'jpg' | 'png' }> {
-    const mimeType = this.getReceiptMimeType(receipt, blob).toLowerCase();
-    const fileName = receipt.file?.originalName?.toLowerCase() || '';
-    const asUint8Array = async (b: Blob) => new Uint8Array(await b.arrayBuffer());
-
-    const isPng = mimeType.includes('png') || fileName.endsWith('.png');
-    if (isPng) {
-      return { bytes: await asUint8Array(blob), type: 'png' };
-    }
-
-    const isJpeg = mimeType.includes('jpeg') || mimeType.includes('jpg') || fileName.endsWith('.jpg') || fileName.endsWith('.jpeg');
-    if (isJpeg) {
-      return { bytes: await asUint8Array(blob), type: 'jpg' };
-    }
-
-    const isWebp = mimeType.includes('webp') || fileName.endsWith('.webp');
-    if (isWebp) {
-      const converted = await this.convertImageViaCanvas(blob, 'image/png');
-      return { bytes: await asUint8Array(converted), type: 'png' };
-    }
-
-    const isHeic = mimeType.includes('heic') || mimeType.includes('heif') || fileName.endsWith('.heic') || fileName.endsWith('.heif');
-    if (isHeic) {
-      const heic2anyModule = await import('heic2any');
-      const heic2any = (heic2anyModule as any).default ?? heic2anyModule;
-      const converted = await heic2any({
-        blob,
-        toType: 'image/jpeg',
-        quality: 0.9
-      });
-      const normalizedBlob = Array.isArray(converted) ? converted[0] : converted;
-      return { bytes: await asUint8Array(normalizedBlob), type: 'jpg' };
-    }
-
-    const fallback = await this.convertImageViaCanvas(blob, 'image/jpeg');
-    return { bytes: await asUint8Array(fallback), type: 'jpg' };
-  }
-
-  private convertImageViaCanvas(blob: Blob, outputType: 'image/png' | 'image/jpeg'): Promise<Blob> {
-    if (typeof document === 'undefined') {
-      return Promise.reject(new Error('Image conversion is not supported in this environment.'));
-    }
-
-    return new Promise((resolve, reject) => {
-      const url = URL.createObjectURL(blob);
-      const image = new Image();
-      image.crossOrigin = 'anonymous';
-
-      image.onload = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = image.naturalWidth || image.width || 0;
-        canvas.height = image.naturalHeight || image.height || 0;
-        const context = canvas.getContext('2d');
-
-        if (!context) {
-          URL.revokeObjectURL(url);
-          reject(new Error('Unable to convert image.'));
-          return;
-        }
-
-        context.drawImage(image, 0, 0);
-        canvas.toBlob((converted) => {
-          URL.revokeObjectURL(url);
-          if (converted) {
-            resolve(converted);
-          } else {
-            reject(new Error('Image conversion failed.'));
-          }
-        }, outputType, 0.95);
-      };
-
-      image.onerror = () => {
-        URL.revokeObjectURL(url);
-        reject(new Error('Failed to load image for conversion.'));
-      };
-
-      image.src = url;
-    });
-  }
-
-  private fetchBlobWithXHR(url: string): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      const xhr = new XMLHttpRequest();
-      xhr.open('GET', url, true);
-      xhr.responseType = 'blob';
-
-      xhr.onload = () => {
-        if (xhr.status === 200) {
-          resolve(xhr.response);
-        } else {
-          reject(new Error(`Failed to download receipt (${xhr.status}).`));
-        }
-      };
-
-      xhr.onerror = () => {
-        reject(new Error('Network error while downloading receipt.'));
-      };
-
-      xhr.send();
-    });
-  }
 }
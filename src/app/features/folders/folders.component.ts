@@ -3,12 +3,13 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { RouterLink } from '@angular/router';
 
-import { Category, DEFAULT_CATEGORIES, getCategoryById } from '../../models/category.model';
+import { Category } from '../../models/category.model';
 import { Folder } from '../../models/folder.model';
 import { Receipt } from '../../models/receipt.model';
 import { FolderService } from '../../services/folder.service';
 import { PdfThumbnailService } from '../../services/pdf-thumbnail.service';
 import { ReceiptService } from '../../services/receipt.service';
+import { CategoryService } from '../../services/category.service';
 
 type CatTimeRange = 'month' | 'year' | 'allTime';
 
@@ -41,6 +42,7 @@ interface FolderListItem {
 export class FoldersComponent implements OnInit, OnDestroy {
   private readonly receiptService = inject(ReceiptService);
   private readonly folderService = inject(FolderService);
+  private readonly categoryService = inject(CategoryService);
   private readonly pdfThumbnailService = inject(PdfThumbnailService);
 
   readonly folders = this.folderService.folders;
@@ -127,7 +129,7 @@ export class FoldersComponent implements OnInit, OnDestroy {
       return {
         folder,
         receiptCount: folder.receiptIds.length,
-        totalAmount: receipts.reduce((sum, receipt) => sum + (receipt.totalAmount || 0), 0)
+        totalAmount: receipts.reduce((sum, receipt) => sum + (this.receiptService.getEffectiveAmount(receipt) ?? 0), 0)
       };
     });
   });
@@ -223,18 +225,23 @@ export class FoldersComponent implements OnInit, OnDestroy {
     const receipts = this.filteredCatReceipts();
     const byCategory = new Map<string, Receipt[]>();
 
+    const totals = new Map<string, number>();
+
     for (const receipt of receipts) {
-      const catId = receipt.category?.id || 'other';
-      if (!byCategory.has(catId)) {
-        byCategory.set(catId, []);
+      for (const allocation of this.receiptService.getCategoryAllocations(receipt)) {
+        const catId = this.categoryService.getCategory(allocation.categoryId).id;
+        if (!byCategory.has(catId)) {
+          byCategory.set(catId, []);
+        }
+        byCategory.get(catId)!.push(receipt);
+        totals.set(catId, (totals.get(catId) ?? 0) + allocation.amount);
       }
-      byCategory.get(catId)!.push(receipt);
     }
 
-    return DEFAULT_CATEGORIES
+    return this.categoryService.categories()
       .map(cat => {
         const list = byCategory.get(cat.id) || [];
-        const total = list.reduce((sum, r) => sum + (r.totalAmount || 0), 0);
+        const total = totals.get(cat.id) ?? 0;
         return { category: cat, receipts: list, total };
       })
       .filter(entry => entry.receipts.length > 0)
@@ -246,7 +253,7 @@ export class FoldersComponent implements OnInit, OnDestroy {
   });
 
   readonly categoryAllTimeTotal = computed(() => {
-    return this.receipts().reduce((sum, r) => sum + (r.totalAmount || 0), 0);
+    return this.receipts().reduce((sum, r) => sum + (this.receiptService.getEffectiveAmount(r) ?? 0), 0);
   });
 
   getCategoryPercentage(total: number): number {
@@ -432,14 +439,11 @@ export class FoldersComponent implements OnInit, OnDestroy {
   }
 
   isPdf(receipt: Receipt): boolean {
-    return receipt.file?.mimeType === 'application/pdf' || receipt.file?.originalName?.toLowerCase().endsWith('.pdf');
+    return receipt.file?.mimeType === 'application/pdf' || !!receipt.file?.originalName?.toLowerCase().endsWith('.pdf');
   }
 
   formatCurrency(amount: number): string {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+    return this.receiptService.formatHomeCurrency(amount);
   }
 
   trackGroup(_: number, group: MonthGroup): string {
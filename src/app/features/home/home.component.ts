@@ -2,6 +2,7 @@ import { AfterViewInit, Component, ElementRef, HostListener, OnDestroy, OnInit,
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Router, RouterLink } from '@angular/router';
+import type { PDFDocument } from 'pdf-lib';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 
 import { AuthService } from '../../services/auth.service';
@@ -9,11 +10,21 @@ import { ThemeService } from '../../services/theme.service';
 import { ReceiptService } from '../../services/receipt.service';
 import { PdfThumbnailService } from '../../services/pdf-thumbnail.service';
 import { ShareService } from '../../services/share.service';
+import { CategoryService } from '../../services/category.service';
+import { ReceiptSearchService } from '../../services/receipt-search.service';
+import { RecurringExpenseService } from '../../services/recurring-expense.service';
+import { WorkspaceService } from '../../services/workspace.service';
 import { UploadComponent } from '../../components/upload/upload.component';
+import { ManualEntryComponent } from '../../components/manual-entry/manual-entry.component';
 import { Receipt, ReceiptStatus } from '../../models/receipt.model';
-import { DEFAULT_CATEGORIES, getCategoryById, Category } from '../../models/category.model';
+import { Category } from '../../models/category.model';
 import { app } from '../../../../environments/environments';
 import { getEffectiveSubscriptionPlan } from '../../utils/subscription.utils';
+import { hasTag } from '../../utils/tag.utils';
+import { BudgetLevel } from '../../utils/budget.utils';
+import { getMonthlyEquivalent, needsAttention } from '../../utils/recurring.utils';
+import { getEntryExportLines, isManualEntry } from '../../utils/manual-entry.utils';
+import { SHARE_EXPIRY_OPTIONS } from '../../utils/share.utils';
 
 // Interface for grouped receipts by month
 interface MonthGroup {
@@ -91,7 +102,7 @@ interface CategoryPieSlice {
 @Component({
   selector: 'app-home',
   standalone: true,
-  imports: [CommonModule, FormsModule, RouterLink, UploadComponent],
+  imports: [CommonModule, FormsModule, RouterLink, UploadComponent, ManualEntryComponent],
   templateUrl: './home.component.html',
   styleUrl: './home.component.css'
 })
@@ -104,12 +115,18 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
   readonly receiptService = inject(ReceiptService);
   private readonly pdfThumbnailService = inject(PdfThumbnailService);
   private readonly shareService = inject(ShareService);
+  private readonly categoryService = inject(CategoryService);
+  private readonly searchService = inject(ReceiptSearchService);
+  private readonly recurringService = inject(RecurringExpenseService);
+  private readonly workspaceService = inject(WorkspaceService);
   private readonly functions = getFunctions(app);
 
   readonly user = this.authService.user;
   readonly isDarkMode = this.theme.isDarkMode;
   readonly menuOpen = signal(false);
   readonly showUploadModal = signal(false);
+  readonly canEdit = this.workspaceService.canEdit;
+  readonly manualEntryMode = signal<'manual' | 'mileage' | null>(null);
   readonly showMonthPickerCard = signal(false);
   readonly showMonthPickerGraph = signal(false);
   readonly searchQuery = signal('');
@@ -132,6 +149,8 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
   readonly shareLink = signal<string | null>(null);
   readonly shareError = signal<string | null>(null);
   readonly shareCopied = signal(false);
+  readonly shareExpiryOptions = SHARE_EXPIRY_OPTIONS;
+  readonly shareExpiresInDays = signal<number | null>(30);
   readonly downloadingMonthKey = signal<string | null>(null);
   readonly monthDownloadError = signal<{ key: string; message: string } | null>(null);
   readonly downloadingCsvKey = signal<string | null>(null);
@@ -176,6 +195,21 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
   readonly isLoadingReceipts = this.receiptService.isLoading;
   readonly receiptCount = this.receiptService.receiptCount;
   readonly needsReviewCount = this.receiptService.needsReviewCount;
+  readonly duplicateCount = this.receiptService.duplicateCount;
+  // Budget vs actual for the selected month
+  readonly budgetProgress = this.receiptService.selectedMonthBudgetProgress;
+  readonly hasBudgets = computed(() => {
+    const progress = this.budgetProgress();
+    return !!progress.overall || progress.categories.length > 0;
+  });
+  // Detected subscriptions, summarized for the link to /app/recurring
+  readonly recurringExpenses = this.recurringService.activeExpenses;
+  readonly recurringMonthlyTotal = computed(() =>
+    this.recurringExpenses().reduce((sum, expense) => sum + getMonthlyEquivalent(expense), 0)
+  );
+  readonly recurringAttentionCount = computed(() => this.recurringExpenses().filter(needsAttention).length);
+  readonly allTags = this.receiptService.allTags;
+  readonly tagFilter = signal<string | null>(null);
 
   readonly displayName = computed(() => {
     const profile = this.user();
@@ -406,25 +440,28 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
       const receiptDay = new Date(date.getFullYear(), date.getMonth(), date.getDate());
       if (receiptDay < start || receiptDay > end) continue;
 
-      const categoryId = receipt.category?.id || 'other';
-      const category = getCategoryById(categoryId) || DEFAULT_CATEGORIES.find(c => c.id === 'other')!;
       const merchant = receipt.merchant?.canonicalName
         || receipt.merchant?.rawName
         || receipt.extraction?.supplierName?.value
         || receipt.file?.originalName
         || 'Unknown merchant';
 
-      const group = groups.get(category.id) ?? {
-        total: 0,
-        receiptCount: 0,
-        category,
-        merchants: new Map<string, number>()
-      };
+      for (const allocation of this.receiptService.getCategoryAllocations(receipt)) {
+        if (allocation.amount <= 0) continue;
+        const category = this.categoryService.getCategory(allocation.categoryId);
+
+        const group = groups.get(category.id) ?? {
+          total: 0,
+          receiptCount: 0,
+          category,
+          merchants: new Map<string, number>()
+        };
 
-      group.total += amount;
-      group.receiptCount += 1;
-      group.merchants.set(merchant, (group.merchants.get(merchant) ?? 0) + amount);
-      groups.set(category.id, group);
+        group.total += allocation.amount;
+        group.receiptCount += 1;
+        group.merchants.set(merchant, (group.merchants.get(merchant) ?? 0) + allocation.amount);
+        groups.set(category.id, group);
+      }
     }
 
     const total = Array.from(groups.values()).reduce((sum, group) => sum + group.total, 0);
@@ -831,32 +868,24 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
 
   // Search functionality
   readonly filteredReceipts = computed(() => {
-    const query = this.searchQuery().toLowerCase().trim();
+    const query = this.searchQuery().trim();
     const receipts = this.receipts();
 
     if (!query) {
       return receipts.slice(0, 10); // Show last 10 when no search
     }
 
-    return receipts.filter(r => {
-      // Search by merchant name
-      const merchantMatch = r.merchant?.canonicalName?.toLowerCase().includes(query) ||
-        r.merchant?.rawName?.toLowerCase().includes(query);
-
-      // Search by amount (as string)
-      const amountMatch = this.receiptService.getEffectiveAmount(r)?.toString().includes(query);
-
-      // Search by date
-      const dateValue = r.date || r.extraction?.date?.value || '';
-      const dateMatch = dateValue.toLowerCase().includes(query);
-
-      // Search by file name
-      const fileMatch = r.file?.originalName?.toLowerCase().includes(query);
-
-      return merchantMatch || amountMatch || dateMatch || fileMatch;
-    });
+    return this.searchService.search(query, receipts).results.map(result => result.receipt);
   });
 
+  // Open the full search page for the current query
+  openSearchPage(): void {
+    const query = this.searchQuery().trim();
+    if (!query) return;
+    this.searchFocused.set(false);
+    void this.router.navigate(['/app/search'], { queryParams: { q: query } });
+  }
+
   clearSearch(): void {
     this.searchQuery.set('');
     this.searchFocused.set(false);
@@ -885,14 +914,14 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
   });
 
   // Get first receipt that needs review
-  getFirstNeedsReviewId(): string {
-    const receipt = this.receipts().find(r => r.status === 'needs_review');
-    return receipt?.id || '';
+  toggleTagFilter(tag: string): void {
+    this.tagFilter.update(current => (current === tag ? null : tag));
   }
 
-  // Group all receipts by month for gallery view
+  // Group all receipts by month for gallery view (limited to the selected tag)
   readonly receiptsGroupedByMonth = computed(() => {
-    const receipts = this.receipts();
+    const tag = this.tagFilter();
+    const receipts = tag ? this.receipts().filter(r => hasTag(r.tags, tag)) : this.receipts();
     const groups: Map<string, MonthGroup> = new Map();
 
     for (const receipt of receipts) {
@@ -962,19 +991,18 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
         (r.status === 'final' || r.status === 'extracted');
     });
 
-    // Group by category
+    // Group by category (split receipts count towards each of their categories)
     const categoryTotals: Record<string, { total: number; category: Category }> = {};
     let maxTotal = 0;
 
-    for (const receipt of monthReceipts) {
-      const categoryId = receipt.category?.id || 'other';
-      const category = getCategoryById(categoryId) || DEFAULT_CATEGORIES.find(c => c.id === 'other')!;
+    for (const [categoryId, total] of this.receiptService.getCategoryTotals(monthReceipts)) {
+      const category = this.categoryService.getCategory(categoryId);
 
-      if (!categoryTotals[categoryId]) {
-        categoryTotals[categoryId] = { total: 0, category };
+      if (!categoryTotals[category.id]) {
+        categoryTotals[category.id] = { total: 0, category };
       }
-      categoryTotals[categoryId].total += this.receiptService.getEffectiveAmount(receipt) ?? 0;
-      maxTotal = Math.max(maxTotal, categoryTotals[categoryId].total);
+      categoryTotals[category.id].total += total;
+      maxTotal = Math.max(maxTotal, categoryTotals[category.id].total);
     }
 
     // Convert to array and sort by total
@@ -1020,11 +1048,13 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
   ngOnInit(): void {
     // Subscribe to real-time receipt updates
     this.receiptService.subscribeToReceipts();
+    this.recurringService.subscribeToRecurringExpenses();
     void this.loadReceiptForwardingAddress();
   }
 
   ngOnDestroy(): void {
     this.receiptService.unsubscribeFromReceipts();
+    this.recurringService.unsubscribeFromRecurringExpenses();
     this.addReceiptObserver?.disconnect();
   }
 
@@ -1157,7 +1187,7 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
   // Check if file is a PDF
   isPdf(receipt: Receipt): boolean {
     return receipt.file?.mimeType === 'application/pdf' ||
-      receipt.file?.originalName?.toLowerCase().endsWith('.pdf');
+      !!receipt.file?.originalName?.toLowerCase().endsWith('.pdf');
   }
 
   // Navigate to receipt detail
@@ -1203,7 +1233,7 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
       }
 
       const rows: string[] = [];
-      rows.push(['Merchant', 'Date', 'Amount'].map(this.escapeCsvValue).join(','));
+      rows.push(['Merchant', 'Date', 'Amount', 'Tags'].map(this.escapeCsvValue).join(','));
 
       let total = 0;
 
@@ -1221,14 +1251,16 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
         rows.push([
           merchant,
           date,
-          amount !== null ? amount.toFixed(2) : ''
+          amount !== null ? amount.toFixed(2) : '',
+          (receipt.tags ?? []).join('; ')
         ].map(this.escapeCsvValue).join(','));
       }
 
       rows.push([
         'Total',
         '',
-        total.toFixed(2)
+        total.toFixed(2),
+        ''
       ].map(this.escapeCsvValue).join(','));
 
       const csvBlob = new Blob([rows.join('\n')], { type: 'text/csv;charset=utf-8;' });
@@ -1274,6 +1306,10 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
       for (const receipt of monthGroup.receipts) {
         try {
           if (!receipt.file?.storagePath) {
+            if (isManualEntry(receipt)) {
+              this.addEntryPage(pdfDoc, receipt);
+              appendedPages += 1;
+            }
             continue;
           }
 
@@ -1500,6 +1536,25 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
     }
   }
 
+  openManualEntry(mode: 'manual' | 'mileage') {
+    this.showUploadModal.set(false);
+    this.manualEntryMode.set(mode);
+  }
+
+  closeManualEntry() {
+    this.manualEntryMode.set(null);
+  }
+
+  onManualEntryCreated(receiptId: string) {
+    this.manualEntryMode.set(null);
+    this.router.navigate(['/app/receipt', receiptId]);
+  }
+
+  onManualEntryError(error: string) {
+    this.manualEntryMode.set(null);
+    this.onUploadError(error);
+  }
+
   private escapeCsvValue(value: string): string {
     return `"${value.replace(/"/g, '""')}"`;
   }
@@ -1531,6 +1586,8 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
         return 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400';
       case 'final':
         return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400';
+      case 'failed':
+        return 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400';
       default:
         return 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-400';
     }
@@ -1543,6 +1600,7 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
       case 'extracted': return 'Extracted';
       case 'needs_review': return 'Needs Review';
       case 'final': return 'Complete';
+      case 'failed': return 'Failed';
       default: return status;
     }
   }
@@ -1550,13 +1608,13 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
   // Get category info
   getCategoryIcon(categoryId?: string): string {
     if (!categoryId) return '📦';
-    const category = getCategoryById(categoryId);
+    const category = this.categoryService.findCategory(categoryId);
     return category?.icon || '📦';
   }
 
   getCategoryName(categoryId?: string): string {
     if (!categoryId) return 'Uncategorized';
-    const category = getCategoryById(categoryId);
+    const category = this.categoryService.findCategory(categoryId);
     return category?.name || 'Other';
   }
 
@@ -1567,6 +1625,24 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
     return this.pdfLibPromise;
   }
 
+  // Manual and mileage entries have no file, so they get a page of text instead
+  private addEntryPage(pdfDoc: PDFDocument, receipt: Receipt): void {
+    const pageWidth = 612; // Letter
+    const pageHeight = 792;
+    const margin = 36;
+    const page = pdfDoc.addPage([pageWidth, pageHeight]);
+
+    const lines = [this.buildReceiptCaption(receipt), ...getEntryExportLines(receipt)];
+    lines.forEach((line, index) => {
+      page.drawText(line.length > 90 ? `${line.slice(0, 87)}…` : line, {
+        x: margin,
+        y: pageHeight - margin * 2 - index * 22,
+        size: index === 0 ? 16 : 12,
+        maxWidth: pageWidth - margin * 2
+      });
+    });
+  }
+
   private buildReceiptCaption(receipt: Receipt): string {
     const parts: string[] = [];
 
@@ -1578,9 +1654,9 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
       parts.push(receipt.file.originalName);
     }
 
-    const amount = this.receiptService.getEffectiveAmount(receipt);
+    const amount = this.receiptService.formatReceiptAmount(receipt);
     if (amount !== null) {
-      parts.push(this.formatCurrency(amount));
+      parts.push(amount);
     }
 
     const date = this.resolveReceiptDate(receipt);
@@ -1706,31 +1782,44 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
     });
   }
 
-  // Format currency
+  getBudgetCategory(categoryId: string): Category {
+    return this.categoryService.getCategory(categoryId);
+  }
+
+  getBudgetBarClass(level: BudgetLevel): string {
+    if (level === 'over') return 'bg-red-500';
+    if (level === 'warning') return 'bg-amber-500';
+    return 'bg-emerald-500';
+  }
+
+  // Format currency (home currency)
   formatCurrency(amount?: number): string {
     if (amount === undefined || amount === null) return '-';
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+    return this.receiptService.formatHomeCurrency(amount);
   }
 
   formatCompactCurrency(amount: number): string {
     if (Math.abs(amount) < 1000) {
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-        maximumFractionDigits: 0
-      }).format(amount);
+      return this.receiptService.formatHomeCurrency(amount, { maximumFractionDigits: 0 });
     }
 
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
+    return this.receiptService.formatHomeCurrency(amount, {
       notation: 'compact',
       minimumFractionDigits: Math.abs(amount) < 10_000 ? 1 : 0,
       maximumFractionDigits: 1
-    }).format(amount);
+    });
+  }
+
+  // Receipt total as printed, in the receipt's own currency
+  formatReceiptAmount(receipt: Receipt): string {
+    return this.receiptService.formatReceiptAmount(receipt) ?? '-';
+  }
+
+  // Home-currency equivalent, shown only for foreign-currency receipts
+  getConvertedAmountLabel(receipt: Receipt): string | null {
+    if (!this.receiptService.isForeignCurrency(receipt)) return null;
+    const amount = this.receiptService.getEffectiveAmount(receipt);
+    return amount === null ? null : `≈ ${this.formatCurrency(amount)}`;
   }
 
   // Format date
@@ -2117,11 +2206,13 @@ export class HomeComponent implements OnInit, OnDestroy, AfterViewInit {
         year: this.receiptService.selectedYear(),
         monthLabel: this.selectedMonthLabel(),
         totalSpend: this.selectedMonthSpend(),
+        currency: this.receiptService.homeCurrency(),
         dailyData,
         includeName: this.shareIncludeName(),
         includeEmail: this.shareIncludeEmail(),
         ownerName: this.shareIncludeName() ? this.shareOwnerName().trim() : undefined,
-        ownerEmail: this.shareIncludeEmail() ? this.shareOwnerEmail().trim() : undefined
+        ownerEmail: this.shareIncludeEmail() ? this.shareOwnerEmail().trim() : undefined,
+        expiresInDays: this.shareExpiresInDays()
       });
 
       this.shareLink.set(this.buildShareUrl(share.id));
@@ -0,0 +1,362 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+
+import { Merchant } from '../../models/merchant.model';
+import { Receipt } from '../../models/receipt.model';
+import { CategoryService } from '../../services/category.service';
+import { MerchantService } from '../../services/merchant.service';
+import { ReceiptService } from '../../services/receipt.service';
+import { WorkspaceService } from '../../services/workspace.service';
+import { MerchantSpendEntry, buildMerchantMonthlySpend, normalizeAliasList } from '../../utils/merchant.utils';
+
+const SPEND_HISTORY_MONTHS = 12;
+const RECENT_RECEIPT_LIMIT = 10;
+
+@Component({
+  selector: 'app-merchant-detail',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-5xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <a routerLink="/app/merchants" class="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 mb-4">
+            <svg class="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+            All merchants
+          </a>
+
+          @if (merchant(); as merchant) {
+            @if (renaming()) {
+              <form class="flex flex-wrap items-center gap-2" (ngSubmit)="saveName()">
+                <input type="text" name="merchantName" maxlength="120" aria-label="Merchant name"
+                  [ngModel]="nameInput()" (ngModelChange)="nameInput.set($event)"
+                  class="min-w-0 flex-1 rounded-lg border border-slate-300 bg-white px-3 py-2 text-lg font-semibold text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+                <button type="submit" [disabled]="pending() || !nameInput().trim()"
+                  class="rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-700 disabled:opacity-50">
+                  {{ pending() ? 'Saving...' : 'Save' }}
+                </button>
+                <button type="button" (click)="renaming.set(false)"
+                  class="rounded-lg px-3 py-2 text-sm font-semibold text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800">
+                  Cancel
+                </button>
+              </form>
+            } @else {
+              <div class="flex flex-wrap items-center justify-between gap-3">
+                <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">{{ merchant.canonicalName }}</h1>
+                @if (canEdit()) {
+                  <button type="button" (click)="startRename(merchant)"
+                    class="rounded-lg border border-slate-300 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                    Rename
+                  </button>
+                }
+              </div>
+            }
+
+            <div class="mt-5 grid gap-3 sm:grid-cols-3">
+              <div class="rounded-2xl bg-slate-50 p-4 dark:bg-slate-800/60">
+                <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Total spend</p>
+                <p class="mt-1 text-xl font-semibold text-slate-900 dark:text-white">{{ formatHomeCurrency(merchant.totalSpend) }}</p>
+              </div>
+              <div class="rounded-2xl bg-slate-50 p-4 dark:bg-slate-800/60">
+                <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Receipts</p>
+                <p class="mt-1 text-xl font-semibold text-slate-900 dark:text-white">{{ merchant.receiptCount }}</p>
+              </div>
+              <div class="rounded-2xl bg-slate-50 p-4 dark:bg-slate-800/60">
+                <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Average receipt</p>
+                <p class="mt-1 text-xl font-semibold text-slate-900 dark:text-white">
+                  {{ merchant.receiptCount ? formatHomeCurrency(merchant.totalSpend / merchant.receiptCount) : '—' }}
+                </p>
+              </div>
+            </div>
+          } @else if (isLoading()) {
+            <div class="h-24 animate-pulse rounded-2xl bg-slate-100 dark:bg-slate-900"></div>
+          } @else {
+            <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Merchant not found</h1>
+            <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">It may have been merged into another merchant.</p>
+          }
+        </section>
+
+        @if (error() || loadError()) {
+          <section class="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 dark:border-rose-800 dark:bg-rose-950/30 dark:text-rose-300">
+            {{ error() || loadError() }}
+          </section>
+        }
+        @if (message()) {
+          <p class="text-sm text-emerald-600 dark:text-emerald-400">{{ message() }}</p>
+        }
+
+        @if (merchant(); as merchant) {
+          <!-- Spend over time -->
+          <section class="rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+            <h2 class="text-sm font-semibold text-slate-900 dark:text-white">Spend over the last {{ historyMonths }} months</h2>
+            <div class="mt-4 space-y-2">
+              @for (month of monthlySpend(); track month.key) {
+                <div class="flex items-center gap-3 text-xs">
+                  <span class="w-14 shrink-0 text-slate-500 dark:text-slate-400">{{ month.label }}</span>
+                  <div class="h-2.5 flex-1 overflow-hidden rounded-full bg-slate-100 dark:bg-slate-800">
+                    <div class="h-full rounded-full bg-emerald-500" [style.width.%]="barWidth(month.total)"></div>
+                  </div>
+                  <span class="w-24 shrink-0 text-right font-medium text-slate-700 dark:text-slate-200">
+                    {{ month.total ? formatHomeCurrency(month.total) : '—' }}
+                  </span>
+                </div>
+              }
+            </div>
+          </section>
+
+          <div class="grid gap-6 lg:grid-cols-2">
+            <!-- Aliases -->
+            <section class="rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+              <h2 class="text-sm font-semibold text-slate-900 dark:text-white">Also appears as</h2>
+              <p class="mt-1 text-xs text-slate-500 dark:text-slate-400">Receipts showing any of these names are filed under {{ merchant.canonicalName }}.</p>
+              <div class="mt-3 flex flex-wrap gap-2">
+                @for (alias of merchant.aliases; track alias) {
+                  <span class="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2.5 py-1 text-xs text-slate-700 dark:bg-slate-800 dark:text-slate-200">
+                    {{ alias }}
+                    @if (canEdit()) {
+                      <button type="button" (click)="removeAlias(merchant, alias)" [disabled]="pending()"
+                        [attr.aria-label]="'Remove alias ' + alias"
+                        class="text-slate-400 hover:text-rose-600 disabled:opacity-50">&times;</button>
+                    }
+                  </span>
+                } @empty {
+                  <p class="text-xs text-slate-400">No other names yet.</p>
+                }
+              </div>
+              @if (canEdit()) {
+                <form class="mt-3 flex gap-2" (ngSubmit)="addAlias(merchant)">
+                  <input type="text" name="alias" maxlength="120" placeholder="Add a name, e.g. WM SUPERCENTER" aria-label="New alias"
+                    [ngModel]="aliasInput()" (ngModelChange)="aliasInput.set($event)"
+                    class="min-w-0 flex-1 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+                  <button type="submit" [disabled]="pending() || !aliasInput().trim()"
+                    class="rounded-lg border border-slate-300 px-3 py-2 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                    Add
+                  </button>
+                </form>
+              }
+            </section>
+
+            <!-- Default category and merge -->
+            <section class="space-y-5 rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+              <label class="block">
+                <span class="text-sm font-semibold text-slate-900 dark:text-white">Default category</span>
+                <span class="mt-1 block text-xs text-slate-500 dark:text-slate-400">Used for new receipts from this merchant unless a rule says otherwise.</span>
+                <select [ngModel]="merchant.defaultCategoryId ?? ''" (ngModelChange)="setDefaultCategory(merchant, $event)"
+                  [disabled]="!canEdit() || pending()"
+                  class="mt-2 w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-700 disabled:opacity-60 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200">
+                  <option value="">Let ReceiptNest decide</option>
+                  @for (category of categories(); track category.id) {
+                    <option [value]="category.id">{{ category.icon }} {{ category.name }}</option>
+                  }
+                </select>
+              </label>
+
+              @if (canEdit() && mergeTargets().length) {
+                <div>
+                  <span class="text-sm font-semibold text-slate-900 dark:text-white">Merge into another merchant</span>
+                  <span class="mt-1 block text-xs text-slate-500 dark:text-slate-400">
+                    Moves all {{ merchant.receiptCount }} receipts there and keeps {{ merchant.canonicalName }} as one of its names.
+                  </span>
+                  <div class="mt-2 flex gap-2">
+                    <select [ngModel]="mergeTargetId()" (ngModelChange)="mergeTargetId.set($event)" aria-label="Merge target"
+                      class="min-w-0 flex-1 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200">
+                      <option value="">Choose a merchant...</option>
+                      @for (target of mergeTargets(); track target.id) {
+                        <option [value]="target.id">{{ target.canonicalName }}</option>
+                      }
+                    </select>
+                    <button type="button" (click)="merge(merchant)" [disabled]="pending() || !mergeTargetId()"
+                      class="rounded-lg border border-rose-300 px-3 py-2 text-xs font-semibold text-rose-700 transition hover:bg-rose-50 disabled:opacity-50 dark:border-rose-800 dark:text-rose-300 dark:hover:bg-rose-950/30">
+                      Merge
+                    </button>
+                  </div>
+                </div>
+              }
+            </section>
+          </div>
+
+          <!-- Recent receipts -->
+          <section class="overflow-hidden rounded-2xl border border-slate-200/80 bg-white/90 dark:border-slate-800 dark:bg-slate-900/80">
+            <h2 class="px-5 pt-5 text-sm font-semibold text-slate-900 dark:text-white">Recent receipts</h2>
+            @if (!merchantReceipts().length) {
+              <p class="px-5 py-4 text-sm text-slate-500 dark:text-slate-400">No receipts from this merchant.</p>
+            }
+            <div class="mt-2 divide-y divide-slate-100 dark:divide-slate-800">
+              @for (receipt of recentReceipts(); track receipt.id) {
+                <a [routerLink]="['/app/receipt', receipt.id]"
+                  class="flex items-center justify-between gap-4 px-5 py-3 text-sm transition hover:bg-slate-50 dark:hover:bg-slate-800/60">
+                  <span class="text-slate-600 dark:text-slate-300">
+                    {{ formatDate(receipt) }}
+                    @if (receipt.category?.name) {
+                      · {{ receipt.category?.name }}
+                    }
+                  </span>
+                  <span class="font-medium text-slate-900 dark:text-white">{{ formatAmount(receipt) }}</span>
+                </a>
+              }
+            </div>
+          </section>
+        }
+      </div>
+    </div>
+  `
+})
+export class MerchantDetailComponent implements OnInit, OnDestroy {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly merchantService = inject(MerchantService);
+  private readonly receiptService = inject(ReceiptService);
+  private readonly categoryService = inject(CategoryService);
+  private readonly workspaceService = inject(WorkspaceService);
+
+  readonly historyMonths = SPEND_HISTORY_MONTHS;
+  readonly canEdit = this.workspaceService.canEdit;
+  readonly categories = this.categoryService.categories;
+  readonly isLoading = this.merchantService.isLoading;
+  readonly loadError = this.merchantService.error;
+
+  readonly merchantId = signal(this.route.snapshot.paramMap.get('id') ?? '');
+  readonly renaming = signal(false);
+  readonly nameInput = signal('');
+  readonly aliasInput = signal('');
+  readonly mergeTargetId = signal('');
+  readonly pending = signal(false);
+  readonly error = signal<string | null>(null);
+  readonly message = signal<string | null>(null);
+
+  readonly merchant = computed(() => this.merchantService.findMerchant(this.merchantId()));
+  readonly mergeTargets = computed(() =>
+    this.merchantService.merchants()
+      .filter(merchant => merchant.id !== this.merchantId())
+      .sort((a, b) => a.canonicalName.localeCompare(b.canonicalName))
+  );
+
+  readonly merchantReceipts = computed(() =>
+    this.receiptService.receipts()
+      .filter(receipt => receipt.merchant?.canonicalId === this.merchantId())
+      .sort((a, b) =>
+        (this.receiptService.getEffectiveDate(b)?.getTime() ?? 0) - (this.receiptService.getEffectiveDate(a)?.getTime() ?? 0)
+      )
+  );
+  readonly recentReceipts = computed(() => this.merchantReceipts().slice(0, RECENT_RECEIPT_LIMIT));
+
+  readonly monthlySpend = computed(() => {
+    const entries: MerchantSpendEntry[] = [];
+    for (const receipt of this.merchantReceipts()) {
+      const date = this.receiptService.getEffectiveDate(receipt);
+      const amount = this.receiptService.getEffectiveAmount(receipt);
+      if (date && amount !== null) entries.push({ date, amount });
+    }
+    return buildMerchantMonthlySpend(entries, SPEND_HISTORY_MONTHS);
+  });
+  private readonly maxMonthlySpend = computed(() => Math.max(0, ...this.monthlySpend().map(month => month.total)));
+
+  ngOnInit(): void {
+    this.merchantService.subscribeToMerchants();
+    this.receiptService.subscribeToReceipts();
+  }
+
+  ngOnDestroy(): void {
+    this.merchantService.unsubscribeFromMerchants();
+    this.receiptService.unsubscribeFromReceipts();
+  }
+
+  startRename(merchant: Merchant): void {
+    this.nameInput.set(merchant.canonicalName);
+    this.renaming.set(true);
+  }
+
+  async saveName(): Promise<void> {
+    const merchant = this.merchant();
+    const name = this.nameInput().trim();
+    if (!merchant || !name) return;
+    if (name === merchant.canonicalName) {
+      this.renaming.set(false);
+      return;
+    }
+
+    await this.runPending(async () => {
+      const count = await this.merchantService.renameMerchant(merchant.id, name);
+      this.renaming.set(false);
+      this.message.set(count === 1 ? 'Renamed, and updated 1 receipt.' : `Renamed, and updated ${count} receipts.`);
+    }, 'Failed to rename merchant');
+  }
+
+  async addAlias(merchant: Merchant): Promise<void> {
+    const alias = this.aliasInput().trim();
+    if (!alias) return;
+
+    await this.runPending(async () => {
+      await this.merchantService.updateAliases(merchant.id, [...merchant.aliases, alias]);
+      this.aliasInput.set('');
+    }, 'Failed to add alias');
+  }
+
+  async removeAlias(merchant: Merchant, alias: string): Promise<void> {
+    await this.runPending(
+      () => this.merchantService.updateAliases(merchant.id, merchant.aliases.filter(existing => existing !== alias)),
+      'Failed to remove alias'
+    );
+  }
+
+  async setDefaultCategory(merchant: Merchant, categoryId: string): Promise<void> {
+    await this.runPending(
+      () => this.merchantService.setDefaultCategory(merchant.id, categoryId || null),
+      'Failed to set default category'
+    );
+  }
+
+  async merge(merchant: Merchant): Promise<void> {
+    const target = this.merchantService.findMerchant(this.mergeTargetId());
+    if (!target) return;
+    if (!confirm(`Merge ${merchant.canonicalName} into ${target.canonicalName}? This can't be undone.`)) return;
+
+    await this.runPending(async () => {
+      await this.merchantService.mergeMerchants(merchant.id, target.id);
+      await this.router.navigate(['/app/merchants', target.id]);
+      this.merchantId.set(target.id);
+      this.mergeTargetId.set('');
+      this.message.set(`Merged ${merchant.canonicalName} into ${target.canonicalName}.`);
+    }, 'Failed to merge merchants');
+  }
+
+  barWidth(total: number): number {
+    const max = this.maxMonthlySpend();
+    return max > 0 ? Math.round((total / max) * 100) : 0;
+  }
+
+  formatHomeCurrency(amount: number): string {
+    return this.receiptService.formatHomeCurrency(amount);
+  }
+
+  formatAmount(receipt: Receipt): string {
+    return this.receiptService.formatReceiptAmount(receipt) ?? '—';
+  }
+
+  formatDate(receipt: Receipt): string {
+    return this.receiptService.getEffectiveDate(receipt)?.toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    }) ?? 'No date';
+  }
+
+  private async runPending(action: () => Promise<void>, fallback: string): Promise<void> {
+    if (this.pending()) return;
+
+    this.pending.set(true);
+    this.error.set(null);
+    this.message.set(null);
+    try {
+      await action();
+    } catch (error: any) {
+      this.error.set(error?.message || fallback);
+    } finally {
+      this.pending.set(false);
+    }
+  }
+}
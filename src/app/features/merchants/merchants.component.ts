@@ -0,0 +1,172 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+
+import { CategoryService } from '../../services/category.service';
+import { MerchantService } from '../../services/merchant.service';
+import { ReceiptService } from '../../services/receipt.service';
+import { WorkspaceService } from '../../services/workspace.service';
+import { MerchantSort, filterMerchants, sortMerchants } from '../../utils/merchant.utils';
+
+@Component({
+  selector: 'app-merchants',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-5xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <div class="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Merchants</h1>
+              <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                Every store your receipts came from. Open one to rename it, merge duplicates, edit the names it's matched by or pick its default category.
+              </p>
+            </div>
+            @if (canEdit()) {
+              <button type="button" (click)="recalculate()" [disabled]="recalculating()"
+                class="rounded-lg border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                {{ recalculating() ? 'Recounting...' : 'Recount stats' }}
+              </button>
+            }
+          </div>
+
+          @if (merchants().length) {
+            <div class="mt-5 grid gap-3 sm:grid-cols-2">
+              <div class="rounded-2xl bg-slate-50 p-4 dark:bg-slate-800/60">
+                <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Merchants</p>
+                <p class="mt-1 text-xl font-semibold text-slate-900 dark:text-white">{{ merchants().length }}</p>
+              </div>
+              <div class="rounded-2xl bg-slate-50 p-4 dark:bg-slate-800/60">
+                <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Total spend</p>
+                <p class="mt-1 text-xl font-semibold text-slate-900 dark:text-white">{{ formatHomeCurrency(totalSpend()) }}</p>
+              </div>
+            </div>
+          }
+        </section>
+
+        @if (error() || loadError()) {
+          <section class="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 dark:border-rose-800 dark:bg-rose-950/30 dark:text-rose-300">
+            {{ error() || loadError() }}
+          </section>
+        }
+        @if (message()) {
+          <p class="text-sm text-emerald-600 dark:text-emerald-400">{{ message() }}</p>
+        }
+
+        @if (isLoading() && !merchants().length) {
+          <section class="space-y-3">
+            @for (item of [1, 2, 3]; track item) {
+              <div class="h-16 animate-pulse rounded-2xl border border-slate-200 bg-slate-100 dark:border-slate-800 dark:bg-slate-900"></div>
+            }
+          </section>
+        } @else if (!merchants().length) {
+          <section class="rounded-3xl border border-dashed border-slate-300 bg-white/80 p-10 text-center dark:border-slate-700 dark:bg-slate-900/60">
+            <h2 class="text-xl font-semibold text-slate-900 dark:text-white">No merchants yet</h2>
+            <p class="mt-2 text-sm text-slate-500 dark:text-slate-400">
+              Merchants are added as your receipts are processed.
+            </p>
+            <a routerLink="/app" class="mt-6 inline-flex rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-100">
+              Back to receipts
+            </a>
+          </section>
+        } @else {
+          <section class="flex flex-wrap items-center gap-3">
+            <input type="search" placeholder="Search merchants or aliases" aria-label="Search merchants"
+              [ngModel]="query()" (ngModelChange)="query.set($event)"
+              class="min-w-0 flex-1 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+            <select [ngModel]="sort()" (ngModelChange)="sort.set($event)" aria-label="Sort merchants"
+              class="rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200">
+              <option value="spend">Most spent</option>
+              <option value="receipts">Most receipts</option>
+              <option value="name">Name</option>
+            </select>
+          </section>
+
+          <section class="overflow-hidden rounded-2xl border border-slate-200/80 bg-white/90 dark:border-slate-800 dark:bg-slate-900/80">
+            @if (!visibleMerchants().length) {
+              <p class="px-5 py-4 text-sm text-slate-500 dark:text-slate-400">No merchants match "{{ query() }}".</p>
+            }
+            <div class="divide-y divide-slate-100 dark:divide-slate-800">
+              @for (merchant of visibleMerchants(); track merchant.id) {
+                <a [routerLink]="['/app/merchants', merchant.id]"
+                  class="flex items-center gap-4 px-5 py-4 transition hover:bg-slate-50 dark:hover:bg-slate-800/60">
+                  <div class="min-w-0 flex-1">
+                    <p class="truncate font-semibold text-slate-900 dark:text-white">{{ merchant.canonicalName }}</p>
+                    <p class="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                      {{ merchant.receiptCount }} receipt{{ merchant.receiptCount === 1 ? '' : 's' }}
+                      @if (merchant.aliases.length) {
+                        · {{ merchant.aliases.length }} alias{{ merchant.aliases.length === 1 ? '' : 'es' }}
+                      }
+                      @if (merchant.defaultCategoryId) {
+                        · {{ categoryName(merchant.defaultCategoryId) }}
+                      }
+                    </p>
+                  </div>
+                  <p class="font-semibold text-slate-900 dark:text-white">{{ formatHomeCurrency(merchant.totalSpend) }}</p>
+                </a>
+              }
+            </div>
+          </section>
+        }
+      </div>
+    </div>
+  `
+})
+export class MerchantsComponent implements OnInit, OnDestroy {
+  private readonly merchantService = inject(MerchantService);
+  private readonly receiptService = inject(ReceiptService);
+  private readonly categoryService = inject(CategoryService);
+  private readonly workspaceService = inject(WorkspaceService);
+
+  readonly canEdit = this.workspaceService.canEdit;
+  readonly merchants = this.merchantService.merchants;
+  readonly isLoading = this.merchantService.isLoading;
+  readonly loadError = this.merchantService.error;
+
+  readonly query = signal('');
+  readonly sort = signal<MerchantSort>('spend');
+  readonly recalculating = signal(false);
+  readonly error = signal<string | null>(null);
+  readonly message = signal<string | null>(null);
+
+  readonly visibleMerchants = computed(() =>
+    sortMerchants(filterMerchants(this.merchants(), this.query()), this.sort())
+  );
+  readonly totalSpend = computed(() =>
+    this.merchants().reduce((sum, merchant) => sum + (merchant.totalSpend ?? 0), 0)
+  );
+
+  ngOnInit(): void {
+    this.merchantService.subscribeToMerchants();
+  }
+
+  ngOnDestroy(): void {
+    this.merchantService.unsubscribeFromMerchants();
+  }
+
+  async recalculate(): Promise<void> {
+    if (this.recalculating()) return;
+
+    this.recalculating.set(true);
+    this.error.set(null);
+    this.message.set(null);
+    try {
+      await this.merchantService.recalculateStats();
+      this.message.set('Merchant stats are up to date.');
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to recount merchant stats');
+    } finally {
+      this.recalculating.set(false);
+    }
+  }
+
+  categoryName(categoryId: string): string {
+    return this.categoryService.findCategory(categoryId)?.name ?? categoryId;
+  }
+
+  formatHomeCurrency(amount: number): string {
+    return this.receiptService.formatHomeCurrency(amount);
+  }
+}
@@ -6,8 +6,35 @@ import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
 
 import { ReceiptService } from '../../services/receipt.service';
 import { ThemeService } from '../../services/theme.service';
-import { Receipt, ReceiptStatus } from '../../models/receipt.model';
-import { DEFAULT_CATEGORIES, Category } from '../../models/category.model';
+import { CategoryService } from '../../services/category.service';
+import { WorkspaceService } from '../../services/workspace.service';
+import {
+  DistanceUnit,
+  LineItem,
+  LineItemType,
+  ProcessingFailureReason,
+  Receipt,
+  ReceiptEditField,
+  ReceiptSplit,
+  ReceiptStatus,
+  ReprocessField
+} from '../../models/receipt.model';
+import { SUPPORTED_CURRENCIES, formatMoney } from '../../utils/currency.utils';
+import { MAX_TAGS_PER_RECEIPT, hasTag, mergeTags, parseTagInput } from '../../utils/tag.utils';
+import { TAX_CATEGORIES, getTaxCategory, resolveTaxCategoryId } from '../../utils/tax.utils';
+import { MAX_MILEAGE_PURPOSE_LENGTH, computeMileageAmount, validateMileage } from '../../utils/manual-entry.utils';
+import { buildManualMerchant } from '../../utils/merchant.utils';
+import { getExtractionVersionInfo, getReprocessChanges } from '../../utils/reprocess.utils';
+
+const PROCESSING_FAILURE_MESSAGES: Record<ProcessingFailureReason, string> = {
+  model_unavailable: 'The reading service was unavailable.',
+  rate_limited: 'Too many receipts were being read at once.',
+  invalid_model_response: 'The reading service returned something we couldn\'t use.',
+  unreadable_file: 'The file couldn\'t be read. It may be damaged or in an unsupported format.',
+  file_missing: 'The uploaded file could not be found.',
+  not_permitted: 'This receipt is in a workspace that can\'t process it.',
+  unknown: 'Something went wrong while reading this receipt.'
+};
 
 @Component({
   selector: 'app-receipt-detail',
@@ -20,16 +47,33 @@ export class ReceiptDetailComponent implements OnInit, OnDestroy {
   private readonly route = inject(ActivatedRoute);
   private readonly router = inject(Router);
   private readonly receiptService = inject(ReceiptService);
+  private readonly categoryService = inject(CategoryService);
+  private readonly workspaceService = inject(WorkspaceService);
   private readonly theme = inject(ThemeService);
   private readonly sanitizer = inject(DomSanitizer);
 
   readonly isDarkMode = this.theme.isDarkMode;
-  readonly categories = DEFAULT_CATEGORIES;
+  readonly categories = this.categoryService.categories;
+  readonly homeCurrency = this.receiptService.homeCurrency;
+  readonly lineItemTypes: { value: LineItemType; label: string }[] = [
+    { value: 'item', label: 'Item' },
+    { value: 'discount', label: 'Discount' },
+    { value: 'tax', label: 'Tax' },
+    { value: 'fee', label: 'Fee' }
+  ];
+  readonly taxCategories = TAX_CATEGORIES;
+  readonly maxMileagePurposeLength = MAX_MILEAGE_PURPOSE_LENGTH;
 
   // State
   readonly receipt = signal<Receipt | null>(null);
+  readonly canEdit = this.workspaceService.canEdit;
   readonly isLoading = signal(true);
   readonly isSaving = signal(false);
+  readonly isResolvingDuplicate = signal(false);
+  readonly isRetrying = signal(false);
+  readonly isReprocessing = signal(false);
+  readonly resolvingReprocess = signal(false);
+  readonly reprocessMessage = signal<string | null>(null);
   readonly error = signal<string | null>(null);
   readonly imageUrl = signal<string | null>(null);
   readonly safeImageUrl = signal<SafeResourceUrl | null>(null);
@@ -41,11 +85,62 @@ export class ReceiptDetailComponent implements OnInit, OnDestroy {
   // Edit form values
   readonly editMerchant = signal('');
   readonly editAmount = signal<number | null>(null);
+  readonly editCurrency = signal('USD');
   readonly editDate = signal('');
   readonly editCategory = signal('other');
   readonly editNotes = signal('');
+  readonly editLineItems = signal<LineItem[]>([]);
+  readonly editSplits = signal<ReceiptSplit[]>([]);
+  readonly editTags = signal<string[]>([]);
+  readonly tagInput = signal('');
+  readonly editTaxDeductible = signal(false);
+  readonly editTaxBusiness = signal(false);
+  readonly editTaxCategoryId = signal(''); // '' follows the spending category
+  readonly editMileageDistance = signal<number | null>(null);
+  readonly editMileageUnit = signal<DistanceUnit>('mi');
+  readonly editMileageRate = signal<number | null>(null);
+  readonly editMileagePurpose = signal('');
 
   // Computed
+  readonly isMileage = computed(() => this.receipt()?.entryType === 'mileage');
+
+  readonly currencyOptions = computed(() => {
+    const codes = SUPPORTED_CURRENCIES.map(currency => currency.code);
+    const current = this.editCurrency();
+    return codes.includes(current) ? codes : [current, ...codes];
+  });
+
+  /**
+   * Stored home-currency conversion, shown while the amount and currency are
+   * unchanged (a new conversion is computed after saving)
+   */
+  readonly conversion = computed(() => {
+    const r = this.receipt();
+    const conversion = r?.conversion;
+    if (!r || !conversion || this.editCurrency() === this.homeCurrency()) return null;
+    if (conversion.sourceAmount !== this.editAmount() || conversion.sourceCurrency !== this.editCurrency()) return null;
+    return conversion.currency === this.homeCurrency() ? conversion : null;
+  });
+
+  /**
+   * Existing tags not yet on this receipt, offered as autocomplete
+   */
+  readonly tagSuggestions = computed(() => {
+    const current = this.editTags();
+    const typed = this.tagInput().trim().replace(/^#/, '').toLowerCase();
+    return this.receiptService.allTags()
+      .map(entry => entry.tag)
+      .filter(tag => !hasTag(current, tag) && (!typed || tag.toLowerCase().includes(typed)))
+      .slice(0, 8);
+  });
+
+  /**
+   * Tax line used when no tax category is picked, based on the spending category
+   */
+  readonly defaultTaxCategory = computed(() =>
+    getTaxCategory(resolveTaxCategoryId({ category: { id: this.editCategory() } }))
+  );
+
   readonly isEdited = computed(() => {
     const r = this.receipt();
     if (!r) return false;
@@ -53,22 +148,117 @@ export class ReceiptDetailComponent implements OnInit, OnDestroy {
     return (
       this.editMerchant() !== (r.merchant?.canonicalName || '') ||
       this.editAmount() !== (r.totalAmount || null) ||
+      this.editCurrency() !== this.receiptService.getReceiptCurrency(r) ||
       this.editDate() !== (r.date || '') ||
       this.editCategory() !== (r.category?.id || 'other') ||
-      this.editNotes() !== (r.notes || '')
+      this.editNotes() !== (r.notes || '') ||
+      JSON.stringify(this.editTags()) !== JSON.stringify(r.tags ?? []) ||
+      this.editTaxDeductible() !== !!r.tax?.deductible ||
+      this.editTaxBusiness() !== !!r.tax?.business ||
+      this.editTaxCategoryId() !== (r.tax?.taxCategoryId ?? '') ||
+      this.editMileageUnit() !== (r.mileage?.unit ?? 'mi') ||
+      this.editMileagePurpose() !== (r.mileage?.purpose ?? '') ||
+      JSON.stringify(this.editLineItems()) !== JSON.stringify(this.getInitialLineItems(r)) ||
+      JSON.stringify(this.editSplits()) !== JSON.stringify(r.splits ?? [])
     );
   });
 
+  readonly splitsTotal = computed(() =>
+    Math.round(this.editSplits().reduce((sum, split) => sum + (Number(split.amount) || 0), 0) * 100) / 100
+  );
+
+  /**
+   * Amount of the receipt total not yet assigned to a split.
+   */
+  readonly splitsRemaining = computed(() => {
+    const total = this.editAmount() ?? 0;
+    const remaining = Math.round((total - this.splitsTotal()) * 100) / 100;
+    return Math.abs(remaining) < 0.01 ? 0 : remaining;
+  });
+
+  /**
+   * Splits are optional, but when present they must cover the total exactly.
+   */
+  readonly splitsValid = computed(() =>
+    this.editSplits().length === 0 || this.splitsRemaining() === 0
+  );
+
+  readonly lineItemsTotal = computed(() =>
+    this.editLineItems().reduce((sum, item) => sum + (Number(item.amount) || 0), 0)
+  );
+
+  /**
+   * Difference between the receipt total and the sum of its lines.
+   * Null when there is nothing to compare.
+   */
+  readonly lineItemsDifference = computed(() => {
+    const total = this.editAmount();
+    if (!this.editLineItems().length || total === null || total === undefined) {
+      return null;
+    }
+    const difference = Math.round((total - this.lineItemsTotal()) * 100) / 100;
+    return Math.abs(difference) < 0.01 ? 0 : difference;
+  });
+
+  /**
+   * Line item totals grouped by category. Lines without their own category
+   * (including tax and fees) fall under the receipt's category.
+   */
+  readonly lineItemCategoryTotals = computed(() => {
+    const totals = new Map<string, number>();
+    for (const item of this.editLineItems()) {
+      const categoryId = item.categoryId || this.editCategory();
+      totals.set(categoryId, (totals.get(categoryId) ?? 0) + (Number(item.amount) || 0));
+    }
+
+    return Array.from(totals.entries())
+      .map(([categoryId, total]) => ({
+        category: this.categoryService.getCategory(categoryId),
+        total
+      }))
+      .sort((a, b) => b.total - a.total);
+  });
+
   readonly needsReview = computed(() => {
     const r = this.receipt();
     return r?.status === 'needs_review' || r?.status === 'extracted';
   });
 
+  readonly isFailed = computed(() => this.receipt()?.status === 'failed');
+
+  readonly processingFailureMessage = computed(() => {
+    const processingError = this.receipt()?.processingError;
+    return processingError ? PROCESSING_FAILURE_MESSAGES[processingError.reason] ?? PROCESSING_FAILURE_MESSAGES.unknown : null;
+  });
+
+  /** When the next automatic attempt runs, while a transient failure is being retried */
+  readonly nextRetryAt = computed(() => {
+    const r = this.receipt();
+    return r?.status === 'processing' ? r.processingError?.nextRetryAt?.toDate() ?? null : null;
+  });
+
+  // Only receipts that finished processing; failed ones are retried instead
+  readonly canReprocess = computed(() => {
+    const r = this.receipt();
+    return !!r?.file && (r.status === 'extracted' || r.status === 'needs_review' || r.status === 'final');
+  });
+
+  readonly reprocessChanges = computed(() => {
+    const r = this.receipt();
+    return r ? getReprocessChanges(r, id => this.categoryService.getCategory(id).name) : [];
+  });
+
+  readonly extractionVersion = computed(() => {
+    const r = this.receipt();
+    return r ? getExtractionVersionInfo(r) : null;
+  });
+
   readonly hasHtmlPreview = computed(() => !!this.htmlPreviewUrl());
 
   private receiptId: string = '';
 
   ngOnInit(): void {
+    this.receiptService.subscribeToReceipts();
     this.route.params.subscribe(params => {
       this.receiptId = params['id'];
       this.loadReceipt();
@@ -76,7 +266,7 @@ export class ReceiptDetailComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
-    // Cleanup if needed
+    this.receiptService.unsubscribeFromReceipts();
   }
 
   async loadReceipt(): Promise<void> {
@@ -134,36 +324,225 @@ export class ReceiptDetailComponent implements OnInit, OnDestroy {
   private initEditForm(receipt: Receipt): void {
     this.editMerchant.set(receipt.merchant?.canonicalName || receipt.extraction?.supplierName?.value || '');
     this.editAmount.set(receipt.totalAmount ?? receipt.extraction?.totalAmount?.value ?? null);
+    this.editCurrency.set(this.receiptService.getReceiptCurrency(receipt));
     this.editDate.set(receipt.date || receipt.extraction?.date?.value || '');
     this.editCategory.set(receipt.category?.id || 'other');
     this.editNotes.set(receipt.notes || '');
+    this.editLineItems.set(this.getInitialLineItems(receipt));
+    this.editSplits.set((receipt.splits ?? []).map(split => ({ ...split })));
+    this.editTags.set([...(receipt.tags ?? [])]);
+    this.tagInput.set('');
+    this.editTaxDeductible.set(!!receipt.tax?.deductible);
+    this.editTaxBusiness.set(!!receipt.tax?.business);
+    this.editTaxCategoryId.set(receipt.tax?.taxCategoryId ?? '');
+    this.editMileageDistance.set(receipt.mileage?.distance ?? null);
+    this.editMileageUnit.set(receipt.mileage?.unit ?? 'mi');
+    this.editMileageRate.set(receipt.mileage?.ratePerUnit ?? null);
+    this.editMileagePurpose.set(receipt.mileage?.purpose ?? '');
+  }
+
+  setMileageDistance(distance: number | null): void {
+    this.editMileageDistance.set(distance);
+    this.updateMileageAmount();
+  }
+
+  setMileageUnit(unit: DistanceUnit): void {
+    this.editMileageUnit.set(unit);
+  }
+
+  setMileageRate(rate: number | null): void {
+    this.editMileageRate.set(rate);
+    this.updateMileageAmount();
+  }
+
+  // Mileage amounts are always distance × rate, never typed in
+  private updateMileageAmount(): void {
+    this.editAmount.set(computeMileageAmount(Number(this.editMileageDistance()), Number(this.editMileageRate())));
+  }
+
+  addTags(value: string = this.tagInput()): void {
+    const tags = mergeTags(this.editTags(), parseTagInput(value));
+    this.editTags.set(tags.slice(0, MAX_TAGS_PER_RECEIPT));
+    this.tagInput.set('');
+  }
+
+  removeTag(tag: string): void {
+    this.editTags.update(tags => tags.filter(entry => entry !== tag));
+  }
+
+  onTagKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault();
+      this.addTags();
+    } else if (event.key === 'Backspace' && !this.tagInput() && this.editTags().length) {
+      this.editTags.update(tags => tags.slice(0, -1));
+    }
+  }
+
+  addSplit(): void {
+    const remaining = this.editSplits().length ? this.splitsRemaining() : (this.editAmount() ?? 0);
+    const categoryId = this.editSplits().length ? 'other' : this.editCategory();
+    this.editSplits.update(splits => [
+      ...splits,
+      {
+        amount: Math.max(remaining, 0),
+        categoryId,
+        categoryName: this.getCategoryName(categoryId)
+      }
+    ]);
+  }
+
+  removeSplit(index: number): void {
+    this.editSplits.update(splits => splits.filter((_, i) => i !== index));
+  }
+
+  updateSplit<K extends keyof ReceiptSplit>(index: number, field: K, value: ReceiptSplit[K]): void {
+    this.editSplits.update(splits => splits.map((split, i) => {
+      if (i !== index) return split;
+      const updated: ReceiptSplit = { ...split, [field]: value };
+      if (field === 'categoryId') {
+        updated.categoryName = this.getCategoryName(updated.categoryId);
+      }
+      return updated;
+    }));
+  }
+
+  /**
+   * Replace the splits with the per-category line item totals. Any gap between
+   * the lines and the receipt total (usually tax) goes to the receipt category.
+   */
+  splitFromLineItems(): void {
+    const totals = new Map<string, number>();
+    for (const entry of this.lineItemCategoryTotals()) {
+      totals.set(entry.category.id, entry.total);
+    }
+
+    const difference = this.lineItemsDifference() ?? 0;
+    if (difference) {
+      const categoryId = this.editCategory();
+      totals.set(categoryId, (totals.get(categoryId) ?? 0) + difference);
+    }
+
+    this.editSplits.set(Array.from(totals.entries()).map(([categoryId, amount]) => ({
+      amount: Math.round(amount * 100) / 100,
+      categoryId,
+      categoryName: this.getCategoryName(categoryId)
+    })));
+  }
+
+  clearSplits(): void {
+    this.editSplits.set([]);
+  }
+
+  private getCategoryName(categoryId: string): string {
+    return this.categoryService.getCategory(categoryId).name;
+  }
+
+  private buildSplitsForSave(): ReceiptSplit[] {
+    return this.editSplits().map(split => {
+      const cleaned: ReceiptSplit = {
+        amount: Math.round((Number(split.amount) || 0) * 100) / 100,
+        categoryId: split.categoryId,
+        categoryName: this.getCategoryName(split.categoryId)
+      };
+      if (split.note?.trim()) cleaned.note = split.note.trim();
+      return cleaned;
+    });
+  }
+
+  private getInitialLineItems(receipt: Receipt): LineItem[] {
+    const items = receipt.lineItems ?? receipt.extraction?.lineItems ?? [];
+    return items.map(item => ({ ...item, type: item.type ?? 'item' }));
+  }
+
+  addLineItem(): void {
+    this.editLineItems.update(items => [...items, { description: '', amount: 0, type: 'item' }]);
+  }
+
+  removeLineItem(index: number): void {
+    this.editLineItems.update(items => items.filter((_, i) => i !== index));
+  }
+
+  updateLineItem<K extends keyof LineItem>(index: number, field: K, value: LineItem[K]): void {
+    this.editLineItems.update(items => items.map((item, i) => {
+      if (i !== index) return item;
+
+      const updated: LineItem = { ...item, [field]: value };
+      if ((field === 'quantity' || field === 'unitPrice') && updated.quantity && updated.unitPrice) {
+        updated.amount = Math.round(updated.quantity * updated.unitPrice * 100) / 100;
+      }
+      if (updated.type === 'discount' && updated.amount > 0) {
+        updated.amount = -updated.amount;
+      }
+      return updated;
+    }));
+  }
+
+  /**
+   * Strip empty rows and undefined fields that Firestore rejects.
+   */
+  private buildLineItemsForSave(): LineItem[] {
+    return this.editLineItems()
+      .filter(item => item.description.trim() || Number(item.amount))
+      .map(item => {
+        const cleaned: LineItem = {
+          description: item.description.trim(),
+          amount: Number(item.amount) || 0,
+          type: item.type ?? 'item'
+        };
+        if (item.quantity) cleaned.quantity = Number(item.quantity);
+        if (item.unitPrice) cleaned.unitPrice = Number(item.unitPrice);
+        if (item.categoryId) cleaned.categoryId = item.categoryId;
+        return cleaned;
+      });
   }
 
   async saveChanges(): Promise<void> {
-    if (!this.receipt()) return;
+    if (!this.receipt() || !this.splitsValid()) return;
 
     this.isSaving.set(true);
     this.error.set(null);
 
     try {
-      const category = this.categories.find(c => c.id === this.editCategory());
+      const category = this.categoryService.findCategory(this.editCategory());
 
       // Build update object, avoiding undefined values that Firestore rejects
       const updateData: Partial<Receipt> = {
-        merchant: {
-          canonicalName: this.editMerchant() || '',
-          rawName: this.receipt()!.merchant?.rawName || this.editMerchant() || '',
-          matchConfidence: 1.0,
-          matchedBy: 'manual'
-        },
+        merchant: buildManualMerchant(this.receipt()!.merchant, this.editMerchant() || ''),
         notes: this.editNotes() || '', // Use empty string, not undefined
+        lineItems: this.buildLineItemsForSave(),
+        splits: this.buildSplitsForSave(),
+        tags: mergeTags(this.editTags(), parseTagInput(this.tagInput())).slice(0, MAX_TAGS_PER_RECEIPT),
         status: 'final' as ReceiptStatus
       };
 
+      if (this.isMileage()) {
+        const mileage = {
+          distance: Number(this.editMileageDistance()),
+          unit: this.editMileageUnit(),
+          ratePerUnit: Number(this.editMileageRate()),
+          purpose: this.editMileagePurpose().trim()
+        };
+        const mileageError = validateMileage(mileage);
+        if (mileageError) throw new Error(mileageError);
+        updateData.mileage = mileage;
+      }
+
+      if (this.receipt()!.tax || this.editTaxDeductible() || this.editTaxBusiness()) {
+        updateData.tax = {
+          deductible: this.editTaxDeductible(),
+          business: this.editTaxBusiness(),
+          taxCategoryId: this.editTaxCategoryId() || null
+        };
+      }
+
       // Only set optional fields if they have values
       if (this.editAmount() !== null && this.editAmount() !== undefined) {
         updateData.totalAmount = this.editAmount()!;
       }
+      if (this.editCurrency()) {
+        updateData.currency = this.editCurrency();
+      }
       if (this.editDate()) {
         updateData.date = this.editDate();
       }
@@ -187,6 +566,86 @@ export class ReceiptDetailComponent implements OnInit, OnDestroy {
     }
   }
 
+  async resolveDuplicate(action: 'merge' | 'dismiss'): Promise<void> {
+    const duplicate = this.receipt()?.duplicate;
+    if (!duplicate || this.isResolvingDuplicate()) return;
+
+    this.isResolvingDuplicate.set(true);
+    this.error.set(null);
+
+    try {
+      await this.receiptService.resolveDuplicate(this.receiptId, action);
+      if (action === 'merge') {
+        // This receipt was deleted; show the one it was merged into
+        await this.router.navigate(['/app/receipt', duplicate.receiptId]);
+      } else {
+        await this.loadReceipt();
+      }
+    } catch (e: any) {
+      this.error.set(e.message || 'Failed to update this receipt');
+    } finally {
+      this.isResolvingDuplicate.set(false);
+    }
+  }
+
+  async retryProcessing(): Promise<void> {
+    if (this.isRetrying()) return;
+
+    this.isRetrying.set(true);
+    this.error.set(null);
+
+    try {
+      await this.receiptService.retryProcessing(this.receiptId);
+      await this.loadReceipt();
+    } catch (e: any) {
+      this.error.set(e.message || 'Failed to process this receipt');
+    } finally {
+      this.isRetrying.set(false);
+    }
+  }
+
+  async reprocess(): Promise<void> {
+    if (this.isReprocessing()) return;
+
+    this.isReprocessing.set(true);
+    this.reprocessMessage.set(null);
+    this.error.set(null);
+
+    try {
+      const [result] = await this.receiptService.reprocessReceipts([this.receiptId]);
+      if (result?.outcome === 'failed') {
+        this.reprocessMessage.set('The receipt couldn\'t be read again. Try later.');
+      } else if (result?.outcome === 'unchanged') {
+        this.reprocessMessage.set('Reprocessed. Nothing changed.');
+      }
+      await this.loadReceipt();
+    } catch (e: any) {
+      this.error.set(e.message || 'Failed to reprocess this receipt');
+    } finally {
+      this.isReprocessing.set(false);
+    }
+  }
+
+  async resolveReprocess(decision: 'accept' | 'reject', fields: ReprocessField[]): Promise<void> {
+    if (!fields.length || this.resolvingReprocess()) return;
+
+    this.resolvingReprocess.set(true);
+    this.error.set(null);
+
+    try {
+      await this.receiptService.resolveReprocessedFields(this.receiptId, { [decision]: fields });
+      await this.loadReceipt();
+    } catch (e: any) {
+      this.error.set(e.message || 'Failed to update this receipt');
+    } finally {
+      this.resolvingReprocess.set(false);
+    }
+  }
+
+  async resolveAllReprocess(decision: 'accept' | 'reject'): Promise<void> {
+    await this.resolveReprocess(decision, this.reprocessChanges().map(change => change.field));
+  }
+
   async confirmReceipt(): Promise<void> {
     await this.saveChanges();
   }
@@ -275,6 +734,8 @@ export class ReceiptDetailComponent implements OnInit, OnDestroy {
         return 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400';
       case 'final':
         return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400';
+      case 'failed':
+        return 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400';
       default:
         return 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-400';
     }
@@ -287,16 +748,34 @@ export class ReceiptDetailComponent implements OnInit, OnDestroy {
       case 'extracted': return 'Extracted';
       case 'needs_review': return 'Needs Review';
       case 'final': return 'Confirmed';
+      case 'failed': return 'Failed';
       default: return status;
     }
   }
 
+  // Amounts on this page are in the receipt's own currency
   formatCurrency(amount?: number | null): string {
     if (amount === undefined || amount === null) return '-';
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+    return formatMoney(amount, this.editCurrency());
+  }
+
+  formatHomeCurrency(amount: number): string {
+    return this.receiptService.formatHomeCurrency(amount);
+  }
+
+  // Edit values are stored as shown: amounts as numbers, the rest as text
+  formatEditValue(value: string | number | null): string {
+    if (value === null) return 'none';
+    return typeof value === 'number' ? this.formatCurrency(value) : value;
+  }
+
+  editFieldLabel(field: ReceiptEditField): string {
+    switch (field) {
+      case 'merchant': return 'Store';
+      case 'totalAmount': return 'Total';
+      case 'date': return 'Date';
+      case 'category': return 'Category';
+    }
   }
 
   formatConfidence(confidence?: number): string {
@@ -308,7 +787,7 @@ export class ReceiptDetailComponent implements OnInit, OnDestroy {
     const receipt = this.receipt();
     if (!receipt) return false;
     return receipt.file?.mimeType === 'application/pdf' ||
-      receipt.file?.originalName?.toLowerCase().endsWith('.pdf');
+      !!receipt.file?.originalName?.toLowerCase().endsWith('.pdf');
   }
 
   isHeic(): boolean {
@@ -0,0 +1,247 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+
+import { RecurringExpense } from '../../models/recurring-expense.model';
+import { ReceiptService } from '../../services/receipt.service';
+import { RecurringExpenseService } from '../../services/recurring-expense.service';
+import { WorkspaceService } from '../../services/workspace.service';
+import { formatMoney } from '../../utils/currency.utils';
+import { RECURRING_FREQUENCY_LABELS, getMonthlyEquivalent } from '../../utils/recurring.utils';
+
+@Component({
+  selector: 'app-recurring-expenses',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-5xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <div class="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Subscriptions &amp; recurring</h1>
+              <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                Merchants that charge you weekly, monthly or yearly for a similar amount, found in your receipts.
+              </p>
+            </div>
+            @if (isOwnWorkspace()) {
+              <button type="button" (click)="refresh()" [disabled]="refreshing()"
+                class="rounded-lg border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                {{ refreshing() ? 'Scanning...' : 'Scan receipts now' }}
+              </button>
+            }
+          </div>
+
+          @if (expenses().length) {
+            <div class="mt-5 grid gap-3 sm:grid-cols-3">
+              <div class="rounded-2xl bg-slate-50 p-4 dark:bg-slate-800/60">
+                <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Per month</p>
+                <p class="mt-1 text-xl font-semibold text-slate-900 dark:text-white">{{ formatHomeCurrency(monthlyTotal()) }}</p>
+              </div>
+              <div class="rounded-2xl bg-slate-50 p-4 dark:bg-slate-800/60">
+                <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Per year</p>
+                <p class="mt-1 text-xl font-semibold text-slate-900 dark:text-white">{{ formatHomeCurrency(monthlyTotal() * 12) }}</p>
+              </div>
+              <div class="rounded-2xl bg-slate-50 p-4 dark:bg-slate-800/60">
+                <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Recurring charges</p>
+                <p class="mt-1 text-xl font-semibold text-slate-900 dark:text-white">{{ expenses().length }}</p>
+              </div>
+            </div>
+          }
+        </section>
+
+        @if (error() || loadError()) {
+          <section class="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 dark:border-rose-800 dark:bg-rose-950/30 dark:text-rose-300">
+            {{ error() || loadError() }}
+          </section>
+        }
+        @if (message()) {
+          <p class="text-sm text-emerald-600 dark:text-emerald-400">{{ message() }}</p>
+        }
+
+        @if (isLoading() && !expenses().length) {
+          <section class="space-y-3">
+            @for (item of [1, 2, 3]; track item) {
+              <div class="h-24 animate-pulse rounded-2xl border border-slate-200 bg-slate-100 dark:border-slate-800 dark:bg-slate-900"></div>
+            }
+          </section>
+        } @else if (!expenses().length) {
+          <section class="rounded-3xl border border-dashed border-slate-300 bg-white/80 p-10 text-center dark:border-slate-700 dark:bg-slate-900/60">
+            <h2 class="text-xl font-semibold text-slate-900 dark:text-white">No recurring charges found yet</h2>
+            <p class="mt-2 text-sm text-slate-500 dark:text-slate-400">
+              We need at least three monthly or weekly receipts (or two yearly ones) from the same merchant to spot a subscription.
+            </p>
+            <a routerLink="/app" class="mt-6 inline-flex rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-100">
+              Back to receipts
+            </a>
+          </section>
+        } @else {
+          <section class="overflow-hidden rounded-2xl border border-slate-200/80 bg-white/90 dark:border-slate-800 dark:bg-slate-900/80">
+            <div class="divide-y divide-slate-100 dark:divide-slate-800">
+              @for (expense of expenses(); track expense.id) {
+                <div class="flex flex-wrap items-center gap-4 px-5 py-4">
+                  <div class="min-w-0 flex-1">
+                    <div class="flex flex-wrap items-center gap-2">
+                      <p class="truncate font-semibold text-slate-900 dark:text-white">{{ expense.merchantName }}</p>
+                      <span class="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-600 dark:bg-slate-800 dark:text-slate-300">
+                        {{ frequencyLabels[expense.frequency] }}
+                      </span>
+                      @if (expense.status === 'missed') {
+                        <span class="rounded-full bg-rose-100 px-2 py-0.5 text-[11px] font-semibold text-rose-700 dark:bg-rose-900/40 dark:text-rose-200">
+                          Missed charge
+                        </span>
+                      }
+                      @if (expense.priceChange) {
+                        <span class="rounded-full bg-amber-100 px-2 py-0.5 text-[11px] font-semibold text-amber-800 dark:bg-amber-900/40 dark:text-amber-200">
+                          Price {{ expense.priceChange.changePercent > 0 ? 'up' : 'down' }} {{ getAbsolutePercent(expense) }}%
+                        </span>
+                      }
+                    </div>
+                    <p class="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                      {{ expense.categoryName || 'Uncategorized' }} · {{ expense.occurrences }} charges since {{ formatDate(expense.firstChargeDate) }}
+                    </p>
+                    <p class="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                      Last charged {{ formatDate(expense.lastChargeDate) }} ·
+                      @if (expense.status === 'missed') {
+                        <span class="text-rose-600 dark:text-rose-400">expected {{ formatDate(expense.nextExpectedDate) }} but no receipt yet</span>
+                      } @else {
+                        next expected {{ formatDate(expense.nextExpectedDate) }}
+                      }
+                    </p>
+                    @if (expense.priceChange) {
+                      <p class="mt-1 text-xs text-amber-700 dark:text-amber-300">
+                        Was {{ formatAmount(expense.priceChange.previousAmount, expense) }}, last charge
+                        <a [routerLink]="['/app/receipt', expense.priceChange.receiptId]" class="underline">{{ formatAmount(expense.priceChange.latestAmount, expense) }}</a>
+                      </p>
+                    }
+                  </div>
+                  <div class="text-right">
+                    <p class="font-semibold text-slate-900 dark:text-white">{{ formatAmount(expense.typicalAmount, expense) }}</p>
+                    @if (expense.frequency !== 'monthly') {
+                      <p class="text-xs text-slate-500 dark:text-slate-400">{{ formatAmount(getMonthlyEquivalent(expense), expense) }}/mo</p>
+                    }
+                  </div>
+                  <div class="flex gap-2">
+                    @if (expense.receiptIds.length) {
+                      <a [routerLink]="['/app/receipt', expense.receiptIds[0]]"
+                        class="rounded-lg border border-slate-300 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                        Latest receipt
+                      </a>
+                    }
+                    <button type="button" (click)="setDismissed(expense, true)" [disabled]="pendingId() === expense.id"
+                      class="rounded-lg px-3 py-1.5 text-xs font-semibold text-slate-500 transition hover:bg-slate-100 disabled:opacity-50 dark:text-slate-400 dark:hover:bg-slate-800">
+                      Not recurring
+                    </button>
+                  </div>
+                </div>
+              }
+            </div>
+          </section>
+        }
+
+        @if (dismissedExpenses().length) {
+          <section>
+            <button type="button" (click)="showDismissed.set(!showDismissed())"
+              class="text-sm font-medium text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200">
+              {{ showDismissed() ? 'Hide' : 'Show' }} {{ dismissedExpenses().length }} hidden
+            </button>
+            @if (showDismissed()) {
+              <div class="mt-3 divide-y divide-slate-100 rounded-2xl border border-slate-200/80 dark:divide-slate-800 dark:border-slate-800">
+                @for (expense of dismissedExpenses(); track expense.id) {
+                  <div class="flex items-center justify-between gap-4 px-5 py-3 text-sm">
+                    <span class="text-slate-600 dark:text-slate-300">
+                      {{ expense.merchantName }} · {{ formatAmount(expense.typicalAmount, expense) }} {{ frequencyLabels[expense.frequency].toLowerCase() }}
+                    </span>
+                    <button type="button" (click)="setDismissed(expense, false)" [disabled]="pendingId() === expense.id"
+                      class="text-xs font-semibold text-emerald-600 hover:text-emerald-700 disabled:opacity-50 dark:text-emerald-400">
+                      Restore
+                    </button>
+                  </div>
+                }
+              </div>
+            }
+          </section>
+        }
+      </div>
+    </div>
+  `
+})
+export class RecurringExpensesComponent implements OnInit, OnDestroy {
+  private readonly recurringService = inject(RecurringExpenseService);
+  private readonly receiptService = inject(ReceiptService);
+  private readonly workspaceService = inject(WorkspaceService);
+
+  // The scan runs on the signed-in user's own receipts
+  readonly isOwnWorkspace = this.workspaceService.isOwnWorkspace;
+  readonly frequencyLabels = RECURRING_FREQUENCY_LABELS;
+  readonly getMonthlyEquivalent = getMonthlyEquivalent;
+
+  readonly expenses = this.recurringService.activeExpenses;
+  readonly dismissedExpenses = this.recurringService.dismissedExpenses;
+  readonly isLoading = this.recurringService.isLoading;
+  readonly loadError = this.recurringService.error;
+
+  readonly refreshing = signal(false);
+  readonly pendingId = signal<string | null>(null);
+  readonly showDismissed = signal(false);
+  readonly error = signal<string | null>(null);
+  readonly message = signal<string | null>(null);
+
+  readonly monthlyTotal = computed(() =>
+    this.expenses().reduce((sum, expense) => sum + getMonthlyEquivalent(expense), 0)
+  );
+
+  ngOnInit(): void {
+    this.recurringService.subscribeToRecurringExpenses();
+  }
+
+  ngOnDestroy(): void {
+    this.recurringService.unsubscribeFromRecurringExpenses();
+  }
+
+  async refresh(): Promise<void> {
+    if (this.refreshing()) return;
+
+    this.refreshing.set(true);
+    this.error.set(null);
+    this.message.set(null);
+    try {
+      const count = await this.recurringService.refresh();
+      this.message.set(count === 1 ? 'Found 1 recurring charge.' : `Found ${count} recurring charges.`);
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to scan receipts');
+    } finally {
+      this.refreshing.set(false);
+    }
+  }
+
+  async setDismissed(expense: RecurringExpense, dismissed: boolean): Promise<void> {
+    this.pendingId.set(expense.id);
+    this.error.set(null);
+    try {
+      await this.recurringService.setDismissed(expense.id, dismissed);
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to update this charge');
+    } finally {
+      this.pendingId.set(null);
+    }
+  }
+
+  getAbsolutePercent(expense: RecurringExpense): number {
+    return Math.abs(expense.priceChange?.changePercent ?? 0);
+  }
+
+  formatAmount(amount: number, expense: RecurringExpense): string {
+    return formatMoney(amount, expense.currency);
+  }
+
+  formatHomeCurrency(amount: number): string {
+    return this.receiptService.formatHomeCurrency(amount);
+  }
+
+  formatDate(dateKey: string): string {
+    const date = new Date(`${dateKey}T00:00:00`);
+    if (Number.isNaN(date.getTime())) return dateKey;
+    return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+}
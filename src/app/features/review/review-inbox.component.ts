@@ -0,0 +1,446 @@
+import { Component, HostListener, OnDestroy, OnInit, computed, effect, inject, signal, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+
+import { Receipt, ReceiptStatus } from '../../models/receipt.model';
+import { CategoryService } from '../../services/category.service';
+import { ReceiptService } from '../../services/receipt.service';
+import { WorkspaceService } from '../../services/workspace.service';
+import { SUPPORTED_CURRENCIES } from '../../utils/currency.utils';
+import { buildManualMerchant } from '../../utils/merchant.utils';
+import {
+  REVIEW_FIELD_LABELS,
+  ReviewField,
+  ReviewFieldStatus,
+  getReviewFieldStatuses,
+  getReviewShortcut
+} from '../../utils/review.utils';
+
+type PreviewKind = 'image' | 'frame' | 'none';
+
+const INPUT_CLASSES =
+  'w-full rounded-lg border bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:bg-slate-800 dark:text-white';
+const FLAGGED_INPUT_CLASSES = 'border-amber-400 ring-1 ring-amber-300 dark:border-amber-600 dark:ring-amber-700';
+const NORMAL_INPUT_CLASSES = 'border-slate-300 dark:border-slate-700';
+
+@Component({
+  selector: 'app-review-inbox',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-6xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <div class="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Review inbox</h1>
+              <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                Receipts we couldn't read with confidence, one at a time. Highlighted fields are the ones to check.
+              </p>
+            </div>
+            <div class="text-right text-sm text-slate-500 dark:text-slate-400">
+              <p><span class="font-semibold text-slate-900 dark:text-white">{{ queue().length }}</span> to review</p>
+              @if (reviewedCount()) {
+                <p>{{ reviewedCount() }} done this session</p>
+              }
+            </div>
+          </div>
+          <p class="mt-4 hidden text-xs text-slate-400 sm:block">
+            <kbd class="rounded border border-slate-300 px-1 dark:border-slate-700">C</kbd> or
+            <kbd class="rounded border border-slate-300 px-1 dark:border-slate-700">Ctrl</kbd>+<kbd class="rounded border border-slate-300 px-1 dark:border-slate-700">Enter</kbd> confirm ·
+            <kbd class="rounded border border-slate-300 px-1 dark:border-slate-700">S</kbd> skip ·
+            <kbd class="rounded border border-slate-300 px-1 dark:border-slate-700">K</kbd> back ·
+            <kbd class="rounded border border-slate-300 px-1 dark:border-slate-700">D</kbd> delete
+          </p>
+        </section>
+
+        @if (error()) {
+          <section class="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 dark:border-rose-800 dark:bg-rose-950/30 dark:text-rose-300">
+            {{ error() }}
+          </section>
+        }
+
+        @if (isLoading() && !queue().length) {
+          <div class="h-96 animate-pulse rounded-2xl border border-slate-200 bg-slate-100 dark:border-slate-800 dark:bg-slate-900"></div>
+        } @else if (current(); as receipt) {
+          <div class="grid gap-5 lg:grid-cols-[minmax(0,1fr)_minmax(340px,0.8fr)] lg:items-start">
+            <!-- Preview -->
+            <section class="overflow-hidden rounded-2xl border border-slate-200 bg-slate-50 dark:border-slate-800 dark:bg-slate-900">
+              @switch (previewKind()) {
+                @case ('image') {
+                  <img [src]="previewUrl()" [alt]="'Receipt from ' + (editMerchant() || 'unknown store')" class="mx-auto max-h-[75vh] w-auto object-contain" />
+                }
+                @case ('frame') {
+                  <iframe [src]="safePreviewUrl()" title="Receipt preview" class="h-[75vh] w-full bg-white"></iframe>
+                }
+                @default {
+                  <div class="flex h-64 items-center justify-center p-6 text-center text-sm text-slate-500 dark:text-slate-400">
+                    @if (isPreviewLoading()) {
+                      Loading preview...
+                    } @else {
+                      <span>
+                        No preview here.
+                        <a [routerLink]="['/app/receipt', receipt.id]" class="font-medium text-emerald-600 hover:underline dark:text-emerald-400">Open the receipt</a>
+                      </span>
+                    }
+                  </div>
+                }
+              }
+            </section>
+
+            <!-- Fields -->
+            <form class="space-y-4 rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80" (ngSubmit)="confirm()">
+              @if (flaggedFields().length) {
+                <p class="rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-800 dark:bg-amber-950/30 dark:text-amber-200">
+                  Check {{ describeFlagged() }}.
+                </p>
+              }
+
+              <label class="block">
+                <span class="flex items-center justify-between text-sm font-medium text-slate-700 dark:text-slate-200">
+                  Store <span class="text-xs font-normal text-slate-400">{{ describeConfidence('merchant') }}</span>
+                </span>
+                <input type="text" name="merchant" [ngModel]="editMerchant()" (ngModelChange)="editMerchant.set($event)"
+                  [class]="inputClasses('merchant')" class="mt-1" placeholder="e.g., Walmart" />
+                @if (receipt.merchant?.candidates?.length) {
+                  <span class="mt-2 flex flex-wrap items-center gap-1.5 text-xs">
+                    <span class="text-slate-500 dark:text-slate-400">Could also be:</span>
+                    @for (candidate of receipt.merchant!.candidates!; track candidate.merchantId) {
+                      <button type="button" (click)="editMerchant.set(candidate.name)"
+                        class="rounded-full border border-slate-200 px-2 py-0.5 text-slate-700 hover:border-emerald-400 hover:text-emerald-700 dark:border-slate-700 dark:text-slate-200 dark:hover:text-emerald-300">
+                        {{ candidate.name }}
+                      </button>
+                    }
+                  </span>
+                }
+              </label>
+
+              <div class="grid grid-cols-[minmax(0,1fr)_7rem] gap-3">
+                <label class="block">
+                  <span class="flex items-center justify-between text-sm font-medium text-slate-700 dark:text-slate-200">
+                    Total <span class="text-xs font-normal text-slate-400">{{ describeConfidence('totalAmount') }}</span>
+                  </span>
+                  <input type="number" name="totalAmount" min="0" step="0.01" inputmode="decimal"
+                    [ngModel]="editAmount()" (ngModelChange)="editAmount.set($event)"
+                    [class]="inputClasses('totalAmount')" class="mt-1" placeholder="0.00" />
+                </label>
+                <label class="block">
+                  <span class="text-sm font-medium text-slate-700 dark:text-slate-200">Currency</span>
+                  <select name="currency" [ngModel]="editCurrency()" (ngModelChange)="editCurrency.set($event)"
+                    [class]="inputClasses('currency')" class="mt-1">
+                    @for (code of currencyOptions(); track code) {
+                      <option [value]="code">{{ code }}</option>
+                    }
+                  </select>
+                </label>
+              </div>
+
+              <label class="block">
+                <span class="flex items-center justify-between text-sm font-medium text-slate-700 dark:text-slate-200">
+                  Date <span class="text-xs font-normal text-slate-400">{{ describeConfidence('date') }}</span>
+                </span>
+                <input type="date" name="date" [ngModel]="editDate()" (ngModelChange)="editDate.set($event)"
+                  [class]="inputClasses('date')" class="mt-1" />
+              </label>
+
+              <label class="block">
+                <span class="flex items-center justify-between text-sm font-medium text-slate-700 dark:text-slate-200">
+                  Category <span class="text-xs font-normal text-slate-400">{{ describeConfidence('category') }}</span>
+                </span>
+                <select name="category" [ngModel]="editCategory()" (ngModelChange)="editCategory.set($event)"
+                  [class]="inputClasses('category')" class="mt-1">
+                  @for (category of categories(); track category.id) {
+                    <option [value]="category.id">{{ category.icon }} {{ category.name }}</option>
+                  }
+                </select>
+              </label>
+
+              @if (canEdit()) {
+                <div class="flex flex-wrap items-center gap-2 pt-2">
+                  <button type="submit" [disabled]="isSaving()"
+                    class="rounded-lg bg-emerald-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-700 disabled:opacity-50">
+                    {{ isSaving() ? 'Saving...' : 'Confirm' }}
+                  </button>
+                  <button type="button" (click)="skip()" [disabled]="isSaving()"
+                    class="rounded-lg border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                    Skip
+                  </button>
+                  <button type="button" (click)="deleteCurrent()" [disabled]="isSaving()"
+                    class="ml-auto rounded-lg px-3 py-2 text-sm font-semibold text-rose-600 transition hover:bg-rose-50 disabled:opacity-50 dark:text-rose-400 dark:hover:bg-rose-950/30">
+                    Delete
+                  </button>
+                </div>
+              } @else {
+                <p class="text-xs text-slate-500 dark:text-slate-400">You can view this workspace but not edit its receipts.</p>
+              }
+              <a [routerLink]="['/app/receipt', receipt.id]" class="block text-xs font-medium text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200">
+                Open full details (line items, splits, notes)
+              </a>
+            </form>
+          </div>
+        } @else if (skippedIds().length) {
+          <section class="rounded-3xl border border-dashed border-slate-300 bg-white/80 p-10 text-center dark:border-slate-700 dark:bg-slate-900/60">
+            <h2 class="text-xl font-semibold text-slate-900 dark:text-white">
+              You skipped {{ skippedIds().length }} receipt{{ skippedIds().length === 1 ? '' : 's' }}
+            </h2>
+            <button type="button" (click)="startOver()"
+              class="mt-6 inline-flex rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-100">
+              Go through them again
+            </button>
+          </section>
+        } @else {
+          <section class="rounded-3xl border border-dashed border-slate-300 bg-white/80 p-10 text-center dark:border-slate-700 dark:bg-slate-900/60">
+            <h2 class="text-xl font-semibold text-slate-900 dark:text-white">All caught up</h2>
+            <p class="mt-2 text-sm text-slate-500 dark:text-slate-400">No receipts need review.</p>
+            <a routerLink="/app" class="mt-6 inline-flex rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-100">
+              Back to receipts
+            </a>
+          </section>
+        }
+      </div>
+    </div>
+  `
+})
+export class ReviewInboxComponent implements OnInit, OnDestroy {
+  private readonly receiptService = inject(ReceiptService);
+  private readonly categoryService = inject(CategoryService);
+  private readonly workspaceService = inject(WorkspaceService);
+  private readonly sanitizer = inject(DomSanitizer);
+
+  readonly canEdit = this.workspaceService.canEdit;
+  readonly categories = this.categoryService.categories;
+  readonly isLoading = this.receiptService.isLoading;
+
+  // Receipts confirmed or deleted here, hidden before the snapshot catches up
+  private readonly handledIds = signal<string[]>([]);
+  readonly skippedIds = signal<string[]>([]);
+  private readonly currentId = signal<string | null>(null);
+
+  readonly queue = computed(() => {
+    const handled = new Set(this.handledIds());
+    return this.receiptService.receipts().filter(receipt => receipt.status === 'needs_review' && !handled.has(receipt.id));
+  });
+  readonly current = computed<Receipt | null>(() => {
+    const queue = this.queue();
+    const skipped = new Set(this.skippedIds());
+    return queue.find(receipt => receipt.id === this.currentId()) ??
+      queue.find(receipt => !skipped.has(receipt.id)) ??
+      null;
+  });
+  readonly reviewedCount = computed(() => this.handledIds().length);
+
+  readonly editMerchant = signal('');
+  readonly editAmount = signal<number | null>(null);
+  readonly editCurrency = signal('');
+  readonly editDate = signal('');
+  readonly editCategory = signal('other');
+  readonly isSaving = signal(false);
+  readonly error = signal<string | null>(null);
+
+  readonly previewUrl = signal<string | null>(null);
+  readonly safePreviewUrl = signal<SafeResourceUrl | null>(null);
+  readonly previewKind = signal<PreviewKind>('none');
+  readonly isPreviewLoading = signal(false);
+
+  readonly fieldStatuses = computed(() => {
+    const receipt = this.current();
+    return receipt ? getReviewFieldStatuses(receipt) : [];
+  });
+  readonly flaggedFields = computed(() => this.fieldStatuses().filter(status => status.flagged));
+
+  readonly currencyOptions = computed(() => {
+    const codes = SUPPORTED_CURRENCIES.map(currency => currency.code);
+    const current = this.editCurrency();
+    return !current || codes.includes(current) ? codes : [current, ...codes];
+  });
+
+  private loadedReceiptId: string | null = null;
+
+  // Refill the form only when a different receipt comes up, so snapshot
+  // updates don't wipe what's being typed
+  private readonly currentEffect = effect(() => {
+    const receipt = this.current();
+    if ((receipt?.id ?? null) === this.loadedReceiptId) return;
+    untracked(() => this.loadReceipt(receipt));
+  });
+
+  ngOnInit(): void {
+    this.receiptService.subscribeToReceipts();
+  }
+
+  ngOnDestroy(): void {
+    this.receiptService.unsubscribeFromReceipts();
+  }
+
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    if (!this.current() || !this.canEdit() || this.isSaving()) return;
+
+    const target = event.target as HTMLElement | null;
+    const isTyping = !!target && (
+      ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName) || target.isContentEditable
+    );
+    const action = getReviewShortcut(event, isTyping);
+    if (!action) return;
+
+    event.preventDefault();
+    switch (action) {
+      case 'confirm':
+        void this.confirm();
+        break;
+      case 'skip':
+        this.skip();
+        break;
+      case 'back':
+        this.back();
+        break;
+      case 'delete':
+        void this.deleteCurrent();
+        break;
+    }
+  }
+
+  async confirm(): Promise<void> {
+    const receipt = this.current();
+    if (!receipt || this.isSaving()) return;
+
+    const amount = Number(this.editAmount());
+    if (!Number.isFinite(amount) || amount <= 0) {
+      this.error.set('Enter the receipt total before confirming.');
+      return;
+    }
+
+    this.isSaving.set(true);
+    this.error.set(null);
+    try {
+      const category = this.categoryService.findCategory(this.editCategory());
+      const updates: Partial<Receipt> = {
+        merchant: buildManualMerchant(receipt.merchant, this.editMerchant().trim()),
+        totalAmount: amount,
+        status: 'final' as ReceiptStatus
+      };
+      if (this.editCurrency()) updates.currency = this.editCurrency();
+      if (this.editDate()) updates.date = this.editDate();
+      if (category) {
+        updates.category = { id: category.id, name: category.name, confidence: 1.0, assignedBy: 'user' };
+      }
+
+      await this.receiptService.updateReceipt(receipt.id, updates);
+      this.markHandled(receipt.id);
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to save this receipt');
+    } finally {
+      this.isSaving.set(false);
+    }
+  }
+
+  skip(): void {
+    const receipt = this.current();
+    if (!receipt) return;
+
+    this.skippedIds.update(ids => [...ids.filter(id => id !== receipt.id), receipt.id]);
+    this.currentId.set(null);
+  }
+
+  /**
+   * Return to the last skipped receipt
+   */
+  back(): void {
+    const queueIds = new Set(this.queue().map(receipt => receipt.id));
+    const previousId = [...this.skippedIds()].reverse().find(id => queueIds.has(id));
+    if (!previousId) return;
+
+    this.skippedIds.update(ids => ids.filter(id => id !== previousId));
+    this.currentId.set(previousId);
+  }
+
+  startOver(): void {
+    this.skippedIds.set([]);
+    this.currentId.set(null);
+  }
+
+  async deleteCurrent(): Promise<void> {
+    const receipt = this.current();
+    if (!receipt || this.isSaving()) return;
+    if (!confirm('Are you sure you want to delete this receipt? This cannot be undone.')) return;
+
+    this.isSaving.set(true);
+    this.error.set(null);
+    try {
+      await this.receiptService.deleteReceipt(receipt.id);
+      this.markHandled(receipt.id);
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to delete receipt');
+    } finally {
+      this.isSaving.set(false);
+    }
+  }
+
+  inputClasses(field: ReviewField): string {
+    return `${INPUT_CLASSES} ${this.statusOf(field)?.flagged ? FLAGGED_INPUT_CLASSES : NORMAL_INPUT_CLASSES}`;
+  }
+
+  describeConfidence(field: ReviewField): string {
+    const status = this.statusOf(field);
+    if (!status) return '';
+    if (status.confidence === null) return status.flagged ? 'Not found' : '';
+    return `${Math.round(status.confidence * 100)}% sure`;
+  }
+
+  describeFlagged(): string {
+    const labels = this.flaggedFields().map(status => REVIEW_FIELD_LABELS[status.field].toLowerCase());
+    return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels[0] ?? '';
+  }
+
+  private statusOf(field: ReviewField): ReviewFieldStatus | undefined {
+    return this.fieldStatuses().find(status => status.field === field);
+  }
+
+  private markHandled(receiptId: string): void {
+    this.handledIds.update(ids => [...ids, receiptId]);
+    this.skippedIds.update(ids => ids.filter(id => id !== receiptId));
+    this.currentId.set(null);
+  }
+
+  private async loadReceipt(receipt: Receipt | null): Promise<void> {
+    this.loadedReceiptId = receipt?.id ?? null;
+    this.currentId.set(receipt?.id ?? null);
+    this.error.set(null);
+    this.previewUrl.set(null);
+    this.safePreviewUrl.set(null);
+    this.previewKind.set('none');
+    if (!receipt) return;
+
+    this.editMerchant.set(receipt.merchant?.canonicalName || receipt.extraction?.supplierName?.value || '');
+    this.editAmount.set(receipt.totalAmount ?? receipt.extraction?.totalAmount?.value ?? null);
+    this.editCurrency.set(this.receiptService.getReceiptCurrency(receipt));
+    this.editDate.set(receipt.date || receipt.extraction?.date?.value || '');
+    this.editCategory.set(receipt.category?.id || 'other');
+
+    const storagePath = receipt.email?.htmlStoragePath ?? receipt.file?.storagePath;
+    if (!storagePath) return;
+
+    const mimeType = receipt.file?.mimeType ?? '';
+    const isHeic = mimeType === 'image/heic' || mimeType === 'image/heif';
+    const kind: PreviewKind = receipt.email?.htmlStoragePath || mimeType === 'application/pdf'
+      ? 'frame'
+      : mimeType.startsWith('image/') && !isHeic ? 'image' : 'none';
+    if (kind === 'none') return;
+
+    this.isPreviewLoading.set(true);
+    try {
+      const url = await this.receiptService.getReceiptFileUrl(storagePath);
+      // A later receipt may have come up while the URL loaded
+      if (this.loadedReceiptId !== receipt.id) return;
+      this.previewUrl.set(url);
+      this.safePreviewUrl.set(this.sanitizer.bypassSecurityTrustResourceUrl(url));
+      this.previewKind.set(kind);
+    } catch (error) {
+      console.warn('Could not load receipt preview:', error);
+    } finally {
+      this.isPreviewLoading.set(false);
+    }
+  }
+}
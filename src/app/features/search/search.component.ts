@@ -0,0 +1,411 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subscription } from 'rxjs';
+
+import { Receipt } from '../../models/receipt.model';
+import { SavedSearch } from '../../models/saved-search.model';
+import { ReceiptService } from '../../services/receipt.service';
+import { ReceiptSearchService, SearchMatchField } from '../../services/receipt-search.service';
+import { CategoryService } from '../../services/category.service';
+import { WorkspaceService } from '../../services/workspace.service';
+import { describeSearchQuery } from '../../utils/receipt-search.utils';
+
+const RESULTS_PAGE_SIZE = 50;
+
+// Reprocessing runs extraction again, so big batches are capped
+const MAX_REPROCESS_RESULTS = 50;
+
+const SEARCH_EXAMPLES: { query: string; label: string }[] = [
+  { query: 'merchant:costco amount:>100', label: 'Costco trips over 100' },
+  { query: 'category:dining date:2024-03', label: 'Dining in March 2024' },
+  { query: '#work -tag:reimbursed', label: 'Work receipts not yet reimbursed' },
+  { query: 'status:review source:email', label: 'Emailed receipts to review' },
+  { query: 'notes:"client dinner"', label: 'Notes mentioning a client dinner' }
+];
+
+@Component({
+  selector: 'app-search',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <!-- Header -->
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Search receipts</h1>
+          <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+            Combine words with filters like <code class="rounded bg-slate-100 px-1 dark:bg-slate-800">merchant:</code>,
+            <code class="rounded bg-slate-100 px-1 dark:bg-slate-800">amount:&gt;50</code> or
+            <code class="rounded bg-slate-100 px-1 dark:bg-slate-800">date:2024-01..2024-03</code>.
+          </p>
+
+          <form class="mt-4 flex flex-col gap-2 sm:flex-row" (ngSubmit)="submitSearch()">
+            <div class="relative flex-1">
+              <svg class="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+                <path stroke-linecap="round" stroke-linejoin="round" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+              </svg>
+              <input type="search" name="q" [ngModel]="queryInput()" (ngModelChange)="queryInput.set($event)" autocomplete="off"
+                class="w-full rounded-xl border border-slate-300 bg-white py-2.5 pl-10 pr-3 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white"
+                placeholder="e.g., coffee tag:work amount:<20" />
+            </div>
+            <button type="submit"
+              class="rounded-xl bg-slate-900 px-5 py-2.5 text-sm font-medium text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-100">
+              Search
+            </button>
+          </form>
+
+          @if (queryChips().length) {
+            <div class="mt-3 flex flex-wrap gap-2">
+              @for (chip of queryChips(); track $index) {
+                <span class="rounded-full bg-emerald-50 px-2.5 py-1 text-xs font-medium text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300">{{ chip }}</span>
+              }
+            </div>
+          }
+          @for (message of queryErrors(); track $index) {
+            <p class="mt-2 text-xs text-amber-600 dark:text-amber-400">{{ message }}</p>
+          }
+        </section>
+
+        <div class="grid gap-6 lg:grid-cols-[1fr_18rem]">
+          <!-- Results -->
+          <section class="rounded-2xl border border-slate-200/80 bg-white/90 dark:border-slate-800 dark:bg-slate-900/80">
+            @if (!activeQuery()) {
+              <div class="p-5">
+                <h2 class="font-semibold text-slate-900 dark:text-white">Try a search</h2>
+                <ul class="mt-3 space-y-2">
+                  @for (example of examples; track example.query) {
+                    <li>
+                      <button type="button" (click)="runSearch(example.query)"
+                        class="text-left text-sm text-slate-600 hover:text-emerald-700 dark:text-slate-300 dark:hover:text-emerald-300">
+                        <code class="rounded bg-slate-100 px-1.5 py-0.5 text-xs dark:bg-slate-800">{{ example.query }}</code>
+                        <span class="ml-2 text-slate-400">{{ example.label }}</span>
+                      </button>
+                    </li>
+                  }
+                </ul>
+              </div>
+            } @else {
+              <div class="flex flex-wrap items-center justify-between gap-2 border-b border-slate-100 px-5 py-4 dark:border-slate-800">
+                <p class="text-sm text-slate-600 dark:text-slate-300">
+                  <span class="font-semibold text-slate-900 dark:text-white">{{ results().length }}</span>
+                  result{{ results().length === 1 ? '' : 's' }}
+                  @if (results().length) {
+                    · {{ formatCurrency(resultsTotal()) }}
+                  }
+                </p>
+                <div class="flex flex-wrap items-center gap-2">
+                  @if (canEdit() && reprocessableIds().length) {
+                    <button type="button" (click)="reprocessResults()" [disabled]="reprocessProgress() !== null"
+                      class="rounded-lg border border-slate-300 px-3 py-1.5 text-sm font-medium text-slate-700 transition hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                      @if (reprocessProgress(); as progress) {
+                        Reprocessing {{ progress.done }} of {{ progress.total }}...
+                      } @else {
+                        Reprocess {{ reprocessableIds().length === 1 ? 'result' : 'results' }}
+                      }
+                    </button>
+                  }
+                  @if (!isCurrentQuerySaved()) {
+                    @if (saveFormOpen()) {
+                      <form class="flex items-center gap-2" (ngSubmit)="saveCurrentSearch()">
+                        <input type="text" name="searchName" maxlength="60" [ngModel]="saveName()" (ngModelChange)="saveName.set($event)"
+                          class="w-44 rounded-lg border border-slate-300 bg-white px-2.5 py-1.5 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white"
+                          placeholder="Name this search" />
+                        <button type="submit" [disabled]="isSaving()"
+                          class="rounded-lg bg-emerald-600 px-3 py-1.5 text-sm font-medium text-white transition hover:bg-emerald-700 disabled:opacity-50">
+                          {{ isSaving() ? 'Saving...' : 'Save' }}
+                        </button>
+                        <button type="button" (click)="saveFormOpen.set(false)" class="text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400">Cancel</button>
+                      </form>
+                    } @else {
+                      <button type="button" (click)="openSaveForm()"
+                        class="rounded-lg border border-slate-300 px-3 py-1.5 text-sm font-medium text-slate-700 transition hover:bg-slate-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                        Save search
+                      </button>
+                    }
+                  }
+                </div>
+              </div>
+
+              @if (saveError()) {
+                <p class="px-5 pt-3 text-sm text-rose-600 dark:text-rose-300">{{ saveError() }}</p>
+              }
+              @if (reprocessError()) {
+                <p class="px-5 pt-3 text-sm text-rose-600 dark:text-rose-300">{{ reprocessError() }}</p>
+              }
+              @if (reprocessSummary()) {
+                <p class="px-5 pt-3 text-sm text-emerald-700 dark:text-emerald-300">{{ reprocessSummary() }}</p>
+              }
+
+              @if (receiptsLoading() && !results().length) {
+                <p class="p-5 text-sm text-slate-500 dark:text-slate-400">Loading receipts...</p>
+              } @else if (!results().length) {
+                <p class="p-5 text-sm text-slate-500 dark:text-slate-400">No receipts match "{{ activeQuery() }}".</p>
+              } @else {
+                <ul class="divide-y divide-slate-100 dark:divide-slate-800">
+                  @for (result of visibleResults(); track result.receipt.id) {
+                    <li>
+                      <a [routerLink]="['/app/receipt', result.receipt.id]"
+                        class="flex items-center gap-3 px-5 py-3 transition hover:bg-slate-50 dark:hover:bg-slate-800/60">
+                        <div class="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-xl text-lg"
+                          [style.background-color]="getCategoryColor(result.receipt) + '18'">
+                          {{ getCategoryIcon(result.receipt) }}
+                        </div>
+                        <div class="min-w-0 flex-1">
+                          <p class="truncate text-sm font-semibold text-slate-900 dark:text-white">{{ getMerchant(result.receipt) }}</p>
+                          <p class="truncate text-xs text-slate-500 dark:text-slate-400">
+                            {{ getDateLabel(result.receipt) }} · {{ getCategoryName(result.receipt) }}
+                            @if (result.receipt.tags?.length) {
+                              · {{ result.receipt.tags!.join(', ') }}
+                            }
+                          </p>
+                          @if (describeMatch(result.matchedFields)) {
+                            <p class="text-[11px] text-emerald-700 dark:text-emerald-400">Matched {{ describeMatch(result.matchedFields) }}</p>
+                          }
+                        </div>
+                        <div class="text-right">
+                          <p class="text-sm font-semibold text-slate-900 dark:text-white">{{ formatReceiptAmount(result.receipt) }}</p>
+                          @if (result.receipt.status === 'needs_review') {
+                            <p class="text-[11px] font-medium text-amber-600 dark:text-amber-400">Needs review</p>
+                          }
+                          @if (result.receipt.reprocess) {
+                            <p class="text-[11px] font-medium text-sky-600 dark:text-sky-400">Changes to review</p>
+                          }
+                        </div>
+                      </a>
+                    </li>
+                  }
+                </ul>
+                @if (results().length > visibleResults().length) {
+                  <div class="border-t border-slate-100 p-4 text-center dark:border-slate-800">
+                    <button type="button" (click)="showMore()"
+                      class="text-sm font-medium text-emerald-700 hover:text-emerald-800 dark:text-emerald-300">
+                      Show more ({{ results().length - visibleResults().length }} left)
+                    </button>
+                  </div>
+                }
+              }
+            }
+          </section>
+
+          <!-- Saved searches -->
+          <aside class="h-fit rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+            <h2 class="font-semibold text-slate-900 dark:text-white">Saved searches</h2>
+            @if (savedSearchesError()) {
+              <p class="mt-2 text-sm text-rose-600 dark:text-rose-300">{{ savedSearchesError() }}</p>
+            }
+            @if (!savedSearches().length) {
+              <p class="mt-2 text-sm text-slate-500 dark:text-slate-400">Save a search to get back to it in one click.</p>
+            } @else {
+              <ul class="mt-3 space-y-1">
+                @for (saved of savedSearches(); track saved.id) {
+                  <li class="group flex items-center gap-2 rounded-lg px-2 py-1.5"
+                    [ngClass]="saved.query === activeQuery() ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''">
+                    <button type="button" (click)="runSearch(saved.query)" class="min-w-0 flex-1 text-left">
+                      <p class="truncate text-sm font-medium text-slate-800 dark:text-slate-100">{{ saved.name }}</p>
+                      <p class="truncate text-xs text-slate-500 dark:text-slate-400">{{ saved.query }}</p>
+                    </button>
+                    <button type="button" (click)="deleteSavedSearch(saved)" [attr.aria-label]="'Delete ' + saved.name"
+                      class="shrink-0 rounded p-1 text-slate-400 opacity-0 transition hover:text-rose-600 group-hover:opacity-100 focus:opacity-100">
+                      <svg class="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+                        <path stroke-linecap="round" stroke-linejoin="round" d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </li>
+                }
+              </ul>
+            }
+          </aside>
+        </div>
+      </div>
+    </div>
+  `
+})
+export class SearchComponent implements OnInit, OnDestroy {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly receiptService = inject(ReceiptService);
+  private readonly searchService = inject(ReceiptSearchService);
+  private readonly categoryService = inject(CategoryService);
+  private readonly workspaceService = inject(WorkspaceService);
+
+  private queryParamSub?: Subscription;
+
+  readonly examples = SEARCH_EXAMPLES;
+  readonly receiptsLoading = this.receiptService.isLoading;
+  readonly savedSearches = this.searchService.savedSearches;
+  readonly savedSearchesError = this.searchService.savedSearchesError;
+
+  readonly queryInput = signal('');
+  readonly activeQuery = signal('');
+  readonly visibleCount = signal(RESULTS_PAGE_SIZE);
+  readonly saveFormOpen = signal(false);
+  readonly saveName = signal('');
+  readonly isSaving = signal(false);
+  readonly saveError = signal<string | null>(null);
+  readonly canEdit = this.workspaceService.canEdit;
+  readonly reprocessProgress = signal<{ done: number; total: number } | null>(null);
+  readonly reprocessSummary = signal<string | null>(null);
+  readonly reprocessError = signal<string | null>(null);
+
+  readonly searchResponse = computed(() =>
+    this.searchService.search(this.activeQuery(), this.receiptService.receipts())
+  );
+  readonly results = computed(() => this.searchResponse().results);
+  readonly visibleResults = computed(() => this.results().slice(0, this.visibleCount()));
+  readonly queryChips = computed(() => describeSearchQuery(this.searchResponse().parsed));
+  readonly queryErrors = computed(() => this.searchResponse().parsed.errors);
+  readonly resultsTotal = computed(() =>
+    this.results().reduce((sum, result) => sum + (this.receiptService.getEffectiveAmount(result.receipt) ?? 0), 0)
+  );
+  // Results that finished processing and have a file to read again
+  readonly reprocessableIds = computed(() =>
+    this.results()
+      .map(result => result.receipt)
+      .filter(receipt => !!receipt.file && ['extracted', 'needs_review', 'final'].includes(receipt.status))
+      .slice(0, MAX_REPROCESS_RESULTS)
+      .map(receipt => receipt.id)
+  );
+  readonly isCurrentQuerySaved = computed(() =>
+    this.savedSearches().some(saved => saved.query === this.activeQuery())
+  );
+
+  ngOnInit(): void {
+    this.receiptService.subscribeToReceipts();
+    this.searchService.subscribeToSavedSearches();
+
+    this.queryParamSub = this.route.queryParamMap.subscribe(params => {
+      const queryText = params.get('q') ?? '';
+      this.queryInput.set(queryText);
+      this.activeQuery.set(queryText.trim());
+      this.visibleCount.set(RESULTS_PAGE_SIZE);
+      this.saveFormOpen.set(false);
+      this.saveError.set(null);
+      this.reprocessSummary.set(null);
+      this.reprocessError.set(null);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.queryParamSub?.unsubscribe();
+    this.receiptService.unsubscribeFromReceipts();
+    this.searchService.unsubscribeFromSavedSearches();
+  }
+
+  submitSearch(): void {
+    this.runSearch(this.queryInput());
+  }
+
+  runSearch(queryText: string): void {
+    const trimmed = queryText.trim();
+    void this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { q: trimmed || null },
+      replaceUrl: trimmed === this.activeQuery()
+    });
+  }
+
+  showMore(): void {
+    this.visibleCount.update(count => count + RESULTS_PAGE_SIZE);
+  }
+
+  openSaveForm(): void {
+    this.saveName.set(this.queryChips().join(', ').slice(0, 60));
+    this.saveError.set(null);
+    this.saveFormOpen.set(true);
+  }
+
+  async saveCurrentSearch(): Promise<void> {
+    this.isSaving.set(true);
+    this.saveError.set(null);
+    try {
+      await this.searchService.saveSearch(this.saveName(), this.activeQuery());
+      this.saveFormOpen.set(false);
+    } catch (error: any) {
+      this.saveError.set(error?.message || 'Failed to save search');
+    } finally {
+      this.isSaving.set(false);
+    }
+  }
+
+  async deleteSavedSearch(saved: SavedSearch): Promise<void> {
+    if (!window.confirm(`Delete the saved search "${saved.name}"?`)) return;
+    try {
+      await this.searchService.deleteSavedSearch(saved.id);
+    } catch (error: any) {
+      this.saveError.set(error?.message || 'Failed to delete saved search');
+    }
+  }
+
+  async reprocessResults(): Promise<void> {
+    const receiptIds = this.reprocessableIds();
+    if (!receiptIds.length || this.reprocessProgress()) return;
+
+    const capped = this.results().length > receiptIds.length ? ` (the first ${receiptIds.length})` : '';
+    if (!window.confirm(`Read ${receiptIds.length} receipt${receiptIds.length === 1 ? '' : 's'}${capped} again? You'll review any changed values before they're used.`)) {
+      return;
+    }
+
+    this.reprocessProgress.set({ done: 0, total: receiptIds.length });
+    this.reprocessSummary.set(null);
+    this.reprocessError.set(null);
+    try {
+      const results = await this.receiptService.reprocessReceipts(
+        receiptIds,
+        (done, total) => this.reprocessProgress.set({ done, total })
+      );
+      const changed = results.filter(result => result.outcome === 'changed').length;
+      const failed = results.filter(result => result.outcome === 'failed').length;
+      this.reprocessSummary.set(
+        `Reprocessed ${results.length} receipt${results.length === 1 ? '' : 's'}: ` +
+        `${changed} with changes to review` +
+        (failed ? `, ${failed} couldn't be read` : '') + '.'
+      );
+    } catch (error: any) {
+      this.reprocessError.set(error?.message || 'Failed to reprocess these receipts');
+    } finally {
+      this.reprocessProgress.set(null);
+    }
+  }
+
+  getMerchant(receipt: Receipt): string {
+    return receipt.merchant?.canonicalName
+      || receipt.merchant?.rawName
+      || receipt.extraction?.supplierName?.value
+      || receipt.file?.originalName
+      || 'Unknown';
+  }
+
+  getCategoryName(receipt: Receipt): string {
+    return this.categoryService.getCategory(receipt.category?.id).name;
+  }
+
+  getCategoryIcon(receipt: Receipt): string {
+    return this.categoryService.getCategory(receipt.category?.id).icon;
+  }
+
+  getCategoryColor(receipt: Receipt): string {
+    return this.categoryService.getCategory(receipt.category?.id).color;
+  }
+
+  getDateLabel(receipt: Receipt): string {
+    const date = this.receiptService.getEffectiveDate(receipt);
+    return date
+      ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+      : 'No date';
+  }
+
+  describeMatch(fields: SearchMatchField[]): string {
+    // Merchant matches are obvious from the title
+    return fields.filter(field => field !== 'merchant').join(', ');
+  }
+
+  formatCurrency(amount: number): string {
+    return this.receiptService.formatHomeCurrency(amount);
+  }
+
+  formatReceiptAmount(receipt: Receipt): string {
+    return this.receiptService.formatReceiptAmount(receipt) ?? '-';
+  }
+}
@@ -0,0 +1,171 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+
+import { AuthService } from '../../services/auth.service';
+import { CategoryService } from '../../services/category.service';
+import { ReceiptService } from '../../services/receipt.service';
+import { BUDGET_WARNING_RATIO } from '../../utils/budget.utils';
+
+@Component({
+  selector: 'app-budget-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-4xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <!-- Header -->
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <a routerLink="/app" class="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 mb-4">
+            <svg class="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to receipts
+          </a>
+          <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Monthly budgets</h1>
+          <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+            Set a spending target per month in {{ homeCurrency() }}. We'll alert you by push notification and Telegram
+            when spending reaches {{ warningPercent }}% and 100% of a budget. Leave a field blank for no budget.
+          </p>
+        </section>
+
+        <!-- Overall -->
+        <section class="rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+          <label class="block">
+            <span class="font-semibold text-slate-900 dark:text-white">All spending</span>
+            <span class="mt-0.5 block text-xs text-slate-500 dark:text-slate-400">
+              This month so far: {{ formatCurrency(monthSpend()) }}
+            </span>
+            <input type="number" min="0" step="0.01" inputmode="decimal" placeholder="No budget"
+              [ngModel]="overallInput()" (ngModelChange)="overallInput.set($event)"
+              class="mt-3 w-full max-w-xs rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+          </label>
+        </section>
+
+        <!-- Categories -->
+        <section class="rounded-2xl border border-slate-200/80 bg-white/90 dark:border-slate-800 dark:bg-slate-900/80 overflow-hidden">
+          <h2 class="px-5 pt-5 font-semibold text-slate-900 dark:text-white">By category</h2>
+          <div class="mt-3 divide-y divide-slate-100 dark:divide-slate-800">
+            @for (category of categories(); track category.id) {
+              <div class="flex items-center gap-4 px-5 py-3">
+                <div class="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-xl text-xl"
+                     [style.background-color]="category.color + '18'">
+                  {{ category.icon }}
+                </div>
+                <div class="min-w-0 flex-1">
+                  <p class="truncate text-sm font-semibold text-slate-900 dark:text-white">{{ category.name }}</p>
+                  <p class="text-xs text-slate-500 dark:text-slate-400">
+                    This month: {{ formatCurrency(monthCategoryTotals().get(category.id) ?? 0) }}
+                  </p>
+                </div>
+                <input type="number" min="0" step="0.01" inputmode="decimal" placeholder="No budget"
+                  [attr.aria-label]="category.name + ' monthly budget'"
+                  [ngModel]="categoryInputs()[category.id] ?? ''" (ngModelChange)="setCategoryInput(category.id, $event)"
+                  class="w-32 rounded-lg border border-slate-300 bg-white px-3 py-2 text-right text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+              </div>
+            }
+          </div>
+        </section>
+
+        @if (error()) {
+          <p class="text-sm text-red-600 dark:text-red-400">{{ error() }}</p>
+        }
+        @if (saved()) {
+          <p class="text-sm text-emerald-600 dark:text-emerald-400">Budgets saved.</p>
+        }
+
+        <div class="flex gap-3">
+          <button type="button" (click)="save()" [disabled]="saving()"
+            class="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-50 dark:text-slate-950">
+            {{ saving() ? 'Saving...' : 'Save budgets' }}
+          </button>
+          <button type="button" (click)="loadInputs()" [disabled]="saving()"
+            class="rounded-lg border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+            Reset
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`:host { display: block; }`]
+})
+export class BudgetSettingsComponent implements OnInit, OnDestroy {
+  private readonly auth = inject(AuthService);
+  private readonly categoryService = inject(CategoryService);
+  private readonly receiptService = inject(ReceiptService);
+
+  readonly warningPercent = Math.round(BUDGET_WARNING_RATIO * 100);
+  readonly categories = this.categoryService.categories;
+  readonly homeCurrency = this.receiptService.homeCurrency;
+
+  readonly overallInput = signal<string | number>('');
+  readonly categoryInputs = signal<Partial<Record<string, string | number>>>({});
+  readonly saving = signal(false);
+  readonly saved = signal(false);
+  readonly error = signal<string | null>(null);
+
+  // Budgets apply to calendar months, so show the current month's spend
+  private readonly currentMonthReceipts = computed(() => {
+    const now = new Date();
+    return this.receiptService.receipts().filter(receipt => {
+      const date = this.receiptService.getEffectiveDate(receipt);
+      return !!date && date.getMonth() === now.getMonth() && date.getFullYear() === now.getFullYear();
+    });
+  });
+  readonly monthSpend = computed(() =>
+    this.currentMonthReceipts().reduce((sum, receipt) => sum + (this.receiptService.getEffectiveAmount(receipt) ?? 0), 0)
+  );
+  readonly monthCategoryTotals = computed(() => this.receiptService.getCategoryTotals(this.currentMonthReceipts()));
+
+  ngOnInit(): void {
+    this.receiptService.subscribeToReceipts();
+    this.loadInputs();
+  }
+
+  ngOnDestroy(): void {
+    this.receiptService.unsubscribeFromReceipts();
+  }
+
+  loadInputs(): void {
+    const budgets = this.receiptService.budgets();
+    this.overallInput.set(budgets.overall ?? '');
+    this.categoryInputs.set({ ...budgets.categories });
+    this.error.set(null);
+    this.saved.set(false);
+  }
+
+  setCategoryInput(categoryId: string, value: string | number): void {
+    this.categoryInputs.update(inputs => ({ ...inputs, [categoryId]: value }));
+    this.saved.set(false);
+  }
+
+  async save(): Promise<void> {
+    if (this.saving()) return;
+
+    const categoryIds = new Set(this.categories().map(category => category.id));
+    const categories: Record<string, number> = {};
+    for (const [categoryId, value] of Object.entries(this.categoryInputs())) {
+      if (categoryIds.has(categoryId)) {
+        categories[categoryId] = Number(value);
+      }
+    }
+
+    this.saving.set(true);
+    this.error.set(null);
+    this.saved.set(false);
+    try {
+      await this.auth.updateBudgets({ overall: Number(this.overallInput()), categories });
+      this.loadInputs();
+      this.saved.set(true);
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to save budgets.');
+    } finally {
+      this.saving.set(false);
+    }
+  }
+
+  formatCurrency(amount: number): string {
+    return this.receiptService.formatHomeCurrency(amount);
+  }
+}
@@ -0,0 +1,228 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+
+import { Category } from '../../models/category.model';
+import { CategoryService } from '../../services/category.service';
+
+const CATEGORY_COLORS = ['#10b981', '#f59e0b', '#06b6d4', '#3b82f6', '#a855f7', '#f43f5e', '#14b8a6', '#f97316', '#84cc16', '#64748b'];
+
+@Component({
+  selector: 'app-category-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-4xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <!-- Header -->
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <a routerLink="/app/folders" class="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 mb-4">
+            <svg class="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Collections
+          </a>
+          <div class="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Categories</h1>
+              <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                Add your own categories. Keywords help new receipts land in the right place automatically.
+              </p>
+            </div>
+            <div class="flex shrink-0 gap-2">
+              <a routerLink="/app/settings/budgets"
+                class="rounded-lg border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                Budgets
+              </a>
+              <a routerLink="/app/settings/rules"
+                class="rounded-lg border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                Manage rules
+              </a>
+            </div>
+          </div>
+        </section>
+
+        <!-- Editor -->
+        <section class="space-y-4 rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+          <h2 class="font-semibold text-slate-900 dark:text-white">{{ editingId() ? 'Edit category' : 'New category' }}</h2>
+
+          <div class="grid gap-3 sm:grid-cols-[80px_minmax(0,1fr)]">
+            <div>
+              <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Icon</label>
+              <input type="text" maxlength="4" [ngModel]="formIcon()" (ngModelChange)="formIcon.set($event)"
+                class="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-center text-lg dark:border-slate-700 dark:bg-slate-800" />
+            </div>
+            <div>
+              <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Name</label>
+              <input type="text" maxlength="60" [ngModel]="formName()" (ngModelChange)="formName.set($event)"
+                class="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white"
+                placeholder="e.g., Kids' activities" />
+            </div>
+          </div>
+
+          <div>
+            <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Keywords</label>
+            <input type="text" [ngModel]="formKeywords()" (ngModelChange)="formKeywords.set($event)"
+              class="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white"
+              placeholder="Comma separated, e.g. swim school, gymnastics, summer camp" />
+          </div>
+
+          <div>
+            <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Color</label>
+            <div class="flex flex-wrap gap-2">
+              @for (color of colors; track color) {
+                <button type="button" (click)="formColor.set(color)" [attr.aria-label]="'Use color ' + color"
+                  class="h-7 w-7 rounded-full ring-offset-2 transition dark:ring-offset-slate-900"
+                  [class.ring-2]="formColor() === color"
+                  [class.ring-slate-900]="formColor() === color"
+                  [style.background-color]="color"></button>
+              }
+            </div>
+          </div>
+
+          @if (formError()) {
+            <p class="text-sm text-red-600 dark:text-red-400">{{ formError() }}</p>
+          }
+
+          <div class="flex gap-3">
+            <button type="button" (click)="save()" [disabled]="saving() || !formName().trim()"
+              class="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-50 dark:text-slate-950">
+              {{ saving() ? 'Saving...' : (editingId() ? 'Save category' : 'Add category') }}
+            </button>
+            @if (editingId()) {
+              <button type="button" (click)="resetForm()"
+                class="rounded-lg border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                Cancel
+              </button>
+            }
+          </div>
+        </section>
+
+        <!-- Custom categories -->
+        <section class="rounded-2xl border border-slate-200/80 bg-white/90 dark:border-slate-800 dark:bg-slate-900/80 overflow-hidden">
+          <h2 class="px-5 pt-5 font-semibold text-slate-900 dark:text-white">Your categories</h2>
+          @if (customCategories().length === 0) {
+            <p class="px-5 pb-5 pt-2 text-sm text-slate-500 dark:text-slate-400">You haven't added any categories yet.</p>
+          } @else {
+            <div class="mt-3 divide-y divide-slate-100 dark:divide-slate-800">
+              @for (category of customCategories(); track category.id) {
+                <div class="flex items-center gap-4 px-5 py-3">
+                  <div class="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-xl text-xl"
+                       [style.background-color]="category.color + '18'">
+                    {{ category.icon }}
+                  </div>
+                  <div class="min-w-0 flex-1">
+                    <p class="truncate text-sm font-semibold text-slate-900 dark:text-white">{{ category.name }}</p>
+                    <p class="truncate text-xs text-slate-500 dark:text-slate-400">
+                      {{ category.keywords.length ? category.keywords.join(', ') : 'No keywords' }}
+                    </p>
+                  </div>
+                  <a [routerLink]="['/app/categories', category.id]"
+                    class="text-xs font-medium text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200">View</a>
+                  <button type="button" (click)="edit(category)"
+                    class="text-xs font-medium text-emerald-600 hover:text-emerald-700 dark:text-emerald-400">Edit</button>
+                  <button type="button" (click)="remove(category)" [disabled]="deletingId() === category.id"
+                    class="text-xs font-medium text-red-600 hover:text-red-700 disabled:opacity-50 dark:text-red-400">Delete</button>
+                </div>
+              }
+            </div>
+          }
+        </section>
+
+        <!-- Built-in categories -->
+        <section class="rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+          <h2 class="font-semibold text-slate-900 dark:text-white">Built-in categories</h2>
+          <div class="mt-3 flex flex-wrap gap-2">
+            @for (category of defaultCategories(); track category.id) {
+              <span class="inline-flex items-center gap-1.5 rounded-full bg-slate-100 px-3 py-1 text-xs font-medium text-slate-700 dark:bg-slate-800 dark:text-slate-200">
+                {{ category.icon }} {{ category.name }}
+              </span>
+            }
+          </div>
+        </section>
+      </div>
+    </div>
+  `,
+  styles: [`:host { display: block; }`]
+})
+export class CategorySettingsComponent {
+  private readonly categoryService = inject(CategoryService);
+
+  readonly colors = CATEGORY_COLORS;
+  readonly customCategories = computed(() => this.categoryService.categories().filter(c => c.isCustom));
+  readonly defaultCategories = computed(() => this.categoryService.categories().filter(c => !c.isCustom));
+
+  readonly editingId = signal<string | null>(null);
+  readonly formName = signal('');
+  readonly formIcon = signal('🏷️');
+  readonly formColor = signal(CATEGORY_COLORS[0]);
+  readonly formKeywords = signal('');
+  readonly formError = signal<string | null>(null);
+  readonly saving = signal(false);
+  readonly deletingId = signal<string | null>(null);
+
+  edit(category: Category): void {
+    this.editingId.set(category.id);
+    this.formName.set(category.name);
+    this.formIcon.set(category.icon);
+    this.formColor.set(category.color);
+    this.formKeywords.set(category.keywords.join(', '));
+    this.formError.set(null);
+  }
+
+  resetForm(): void {
+    this.editingId.set(null);
+    this.formName.set('');
+    this.formIcon.set('🏷️');
+    this.formColor.set(CATEGORY_COLORS[0]);
+    this.formKeywords.set('');
+    this.formError.set(null);
+  }
+
+  async save(): Promise<void> {
+    if (this.saving()) return;
+
+    this.saving.set(true);
+    this.formError.set(null);
+
+    const input = {
+      name: this.formName(),
+      icon: this.formIcon(),
+      color: this.formColor(),
+      keywords: this.formKeywords().split(',')
+    };
+
+    try {
+      const editingId = this.editingId();
+      if (editingId) {
+        await this.categoryService.updateCategory(editingId, input);
+      } else {
+        await this.categoryService.createCategory(input);
+      }
+      this.resetForm();
+    } catch (error: any) {
+      this.formError.set(error?.message || 'Failed to save category.');
+    } finally {
+      this.saving.set(false);
+    }
+  }
+
+  async remove(category: Category): Promise<void> {
+    if (!window.confirm(`Delete "${category.name}"? Receipts in it will show under Other until recategorized.`)) {
+      return;
+    }
+
+    this.deletingId.set(category.id);
+    try {
+      await this.categoryService.deleteCategory(category.id);
+      if (this.editingId() === category.id) {
+        this.resetForm();
+      }
+    } catch (error: any) {
+      this.formError.set(error?.message || 'Failed to delete category.');
+    } finally {
+      this.deletingId.set(null);
+    }
+  }
+}
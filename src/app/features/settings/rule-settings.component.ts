@@ -0,0 +1,340 @@
+import { Component, OnDestroy, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+
+import { CategorizationRule } from '../../models/categorization-rule.model';
+import { CategorizationRuleService } from '../../services/categorization-rule.service';
+import { CategoryService } from '../../services/category.service';
+import { FolderService } from '../../services/folder.service';
+import { WorkspaceService } from '../../services/workspace.service';
+
+@Component({
+  selector: 'app-rule-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-4xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <!-- Header -->
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <a routerLink="/app/settings/categories" class="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 mb-4">
+            <svg class="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Categories
+          </a>
+          <div class="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Rules</h1>
+              <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                Rules run on every new receipt before AI categorization. Recategorize the same merchant twice and a rule is learned for you.
+              </p>
+            </div>
+            @if (isOwnWorkspace()) {
+              <button type="button" (click)="reapply()" [disabled]="reapplyingId() !== null || rules().length === 0"
+                class="shrink-0 rounded-lg border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                {{ reapplyingId() === 'all' ? 'Re-applying...' : 'Re-apply to past receipts' }}
+              </button>
+            }
+          </div>
+          @if (reapplyMessage()) {
+            <p class="mt-3 text-sm text-emerald-700 dark:text-emerald-300">{{ reapplyMessage() }}</p>
+          }
+        </section>
+
+        <!-- Editor -->
+        <section class="space-y-4 rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+          <h2 class="font-semibold text-slate-900 dark:text-white">{{ editingId() ? 'Edit rule' : 'New rule' }}</h2>
+
+          <div>
+            <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Name</label>
+            <input type="text" maxlength="120" [ngModel]="formName()" (ngModelChange)="formName.set($event)"
+              class="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white"
+              placeholder="e.g., Costco runs are groceries" />
+          </div>
+
+          <p class="text-xs font-semibold uppercase tracking-[0.12em] text-slate-500 dark:text-slate-400">When</p>
+          <div class="grid gap-3 sm:grid-cols-2">
+            <div>
+              <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Merchant contains</label>
+              <input type="text" [ngModel]="formMerchant()" (ngModelChange)="formMerchant.set($event)"
+                class="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white"
+                placeholder="e.g., Costco" />
+            </div>
+            <div>
+              <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Any of these keywords</label>
+              <input type="text" [ngModel]="formKeywords()" (ngModelChange)="formKeywords.set($event)"
+                class="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white"
+                placeholder="Comma separated" />
+            </div>
+            <div>
+              <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Amount at least</label>
+              <input type="number" step="0.01" [ngModel]="formMinAmount()" (ngModelChange)="formMinAmount.set($event)"
+                class="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+            </div>
+            <div>
+              <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Amount at most</label>
+              <input type="number" step="0.01" [ngModel]="formMaxAmount()" (ngModelChange)="formMaxAmount.set($event)"
+                class="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+            </div>
+          </div>
+
+          <p class="text-xs font-semibold uppercase tracking-[0.12em] text-slate-500 dark:text-slate-400">Then</p>
+          <div class="grid gap-3 sm:grid-cols-3">
+            <div>
+              <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Set category</label>
+              <select [ngModel]="formCategoryId()" (ngModelChange)="formCategoryId.set($event)"
+                class="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white">
+                <option value="">Don't change</option>
+                @for (category of categories(); track category.id) {
+                  <option [value]="category.id">{{ category.icon }} {{ category.name }}</option>
+                }
+              </select>
+            </div>
+            <div>
+              <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Add tags</label>
+              <input type="text" [ngModel]="formTags()" (ngModelChange)="formTags.set($event)"
+                class="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white"
+                placeholder="Comma separated" />
+            </div>
+            <div>
+              <label class="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">Add to folder</label>
+              <select [ngModel]="formFolderId()" (ngModelChange)="formFolderId.set($event)"
+                class="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white">
+                <option value="">None</option>
+                @for (folder of folders(); track folder.id) {
+                  <option [value]="folder.id">{{ folder.name }}</option>
+                }
+              </select>
+            </div>
+          </div>
+
+          @if (formError()) {
+            <p class="text-sm text-red-600 dark:text-red-400">{{ formError() }}</p>
+          }
+
+          <div class="flex gap-3">
+            <button type="button" (click)="save()" [disabled]="saving()"
+              class="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-50 dark:text-slate-950">
+              {{ saving() ? 'Saving...' : (editingId() ? 'Save rule' : 'Add rule') }}
+            </button>
+            @if (editingId()) {
+              <button type="button" (click)="resetForm()"
+                class="rounded-lg border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                Cancel
+              </button>
+            }
+          </div>
+        </section>
+
+        <!-- Rule list -->
+        <section class="rounded-2xl border border-slate-200/80 bg-white/90 dark:border-slate-800 dark:bg-slate-900/80 overflow-hidden">
+          <h2 class="px-5 pt-5 font-semibold text-slate-900 dark:text-white">Your rules</h2>
+          @if (rules().length === 0) {
+            <p class="px-5 pb-5 pt-2 text-sm text-slate-500 dark:text-slate-400">No rules yet.</p>
+          } @else {
+            <div class="mt-3 divide-y divide-slate-100 dark:divide-slate-800">
+              @for (rule of rules(); track rule.id) {
+                <div class="flex flex-col gap-2 px-5 py-4 sm:flex-row sm:items-center">
+                  <div class="min-w-0 flex-1">
+                    <div class="flex items-center gap-2">
+                      <p class="truncate text-sm font-semibold text-slate-900 dark:text-white"
+                        [class.opacity-50]="!rule.enabled">{{ rule.name }}</p>
+                      @if (rule.source === 'learned') {
+                        <span class="rounded-full bg-emerald-100 px-2 py-0.5 text-[10px] font-semibold uppercase text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300">Learned</span>
+                      }
+                    </div>
+                    <p class="mt-0.5 text-xs text-slate-500 dark:text-slate-400">{{ describeRule(rule) }}</p>
+                    <p class="mt-0.5 text-[11px] text-slate-400 dark:text-slate-500">
+                      Matched {{ rule.matchCount || 0 }} time{{ rule.matchCount === 1 ? '' : 's' }}
+                    </p>
+                  </div>
+                  <div class="flex shrink-0 items-center gap-3 text-xs font-medium">
+                    <label class="inline-flex items-center gap-1.5 text-slate-600 dark:text-slate-300">
+                      <input type="checkbox" [checked]="rule.enabled" (change)="toggle(rule, $any($event.target).checked)"
+                        class="rounded border-slate-300 text-emerald-600 focus:ring-emerald-500" />
+                      On
+                    </label>
+                    @if (isOwnWorkspace()) {
+                      <button type="button" (click)="reapply(rule)" [disabled]="reapplyingId() !== null || !rule.enabled"
+                        class="text-slate-500 hover:text-slate-700 disabled:opacity-50 dark:text-slate-400 dark:hover:text-slate-200">
+                        {{ reapplyingId() === rule.id ? 'Applying...' : 'Re-apply' }}
+                      </button>
+                    }
+                    <button type="button" (click)="edit(rule)"
+                      class="text-emerald-600 hover:text-emerald-700 dark:text-emerald-400">Edit</button>
+                    <button type="button" (click)="remove(rule)"
+                      class="text-red-600 hover:text-red-700 dark:text-red-400">Delete</button>
+                  </div>
+                </div>
+              }
+            </div>
+          }
+        </section>
+      </div>
+    </div>
+  `,
+  styles: [`:host { display: block; }`]
+})
+export class RuleSettingsComponent implements OnInit, OnDestroy {
+  private readonly ruleService = inject(CategorizationRuleService);
+  private readonly categoryService = inject(CategoryService);
+  private readonly folderService = inject(FolderService);
+  private readonly workspaceService = inject(WorkspaceService);
+
+  readonly rules = this.ruleService.rules;
+  readonly categories = this.categoryService.categories;
+  readonly folders = this.folderService.folders;
+  // Re-applying runs over the signed-in user's own receipts
+  readonly isOwnWorkspace = this.workspaceService.isOwnWorkspace;
+
+  readonly editingId = signal<string | null>(null);
+  readonly formName = signal('');
+  readonly formMerchant = signal('');
+  readonly formKeywords = signal('');
+  readonly formMinAmount = signal<number | null>(null);
+  readonly formMaxAmount = signal<number | null>(null);
+  readonly formCategoryId = signal('');
+  readonly formTags = signal('');
+  readonly formFolderId = signal('');
+  readonly formError = signal<string | null>(null);
+  readonly saving = signal(false);
+  readonly reapplyingId = signal<string | null>(null);
+  readonly reapplyMessage = signal<string | null>(null);
+
+  ngOnInit(): void {
+    this.ruleService.subscribeToRules();
+    this.folderService.subscribeToFolders();
+  }
+
+  ngOnDestroy(): void {
+    this.ruleService.unsubscribeFromRules();
+    this.folderService.unsubscribeFromFolders();
+  }
+
+  describeRule(rule: CategorizationRule): string {
+    const when: string[] = [];
+    if (rule.conditions.merchant) when.push(`merchant contains "${rule.conditions.merchant}"`);
+    if (rule.conditions.keywords?.length) when.push(`mentions ${rule.conditions.keywords.join(' or ')}`);
+    if (rule.conditions.minAmount !== undefined) when.push(`at least $${rule.conditions.minAmount}`);
+    if (rule.conditions.maxAmount !== undefined) when.push(`at most $${rule.conditions.maxAmount}`);
+
+    const then: string[] = [];
+    if (rule.actions.categoryId) then.push(`category ${this.categoryService.getCategory(rule.actions.categoryId).name}`);
+    if (rule.actions.tags?.length) then.push(`tag ${rule.actions.tags.join(', ')}`);
+    if (rule.actions.folderId) {
+      const folder = this.folders().find(f => f.id === rule.actions.folderId);
+      then.push(`add to ${folder?.name ?? 'folder'}`);
+    }
+
+    return `When ${when.join(', ')} → ${then.join(', ')}`;
+  }
+
+  edit(rule: CategorizationRule): void {
+    this.editingId.set(rule.id);
+    this.formName.set(rule.name);
+    this.formMerchant.set(rule.conditions.merchant ?? '');
+    this.formKeywords.set((rule.conditions.keywords ?? []).join(', '));
+    this.formMinAmount.set(rule.conditions.minAmount ?? null);
+    this.formMaxAmount.set(rule.conditions.maxAmount ?? null);
+    this.formCategoryId.set(rule.actions.categoryId ?? '');
+    this.formTags.set((rule.actions.tags ?? []).join(', '));
+    this.formFolderId.set(rule.actions.folderId ?? '');
+    this.formError.set(null);
+  }
+
+  resetForm(): void {
+    this.editingId.set(null);
+    this.formName.set('');
+    this.formMerchant.set('');
+    this.formKeywords.set('');
+    this.formMinAmount.set(null);
+    this.formMaxAmount.set(null);
+    this.formCategoryId.set('');
+    this.formTags.set('');
+    this.formFolderId.set('');
+    this.formError.set(null);
+  }
+
+  async save(): Promise<void> {
+    if (this.saving()) return;
+
+    this.saving.set(true);
+    this.formError.set(null);
+
+    const categoryId = this.formCategoryId();
+    const editingId = this.editingId();
+    const input = {
+      name: this.formName(),
+      enabled: editingId ? this.rules().find(r => r.id === editingId)?.enabled ?? true : true,
+      conditions: {
+        merchant: this.formMerchant(),
+        keywords: this.formKeywords().split(','),
+        minAmount: this.formMinAmount() ?? undefined,
+        maxAmount: this.formMaxAmount() ?? undefined
+      },
+      actions: {
+        categoryId: categoryId || undefined,
+        categoryName: categoryId ? this.categoryService.getCategory(categoryId).name : undefined,
+        tags: this.formTags().split(','),
+        folderId: this.formFolderId() || undefined
+      }
+    };
+
+    try {
+      if (editingId) {
+        await this.ruleService.updateRule(editingId, input);
+      } else {
+        await this.ruleService.createRule(input);
+      }
+      this.resetForm();
+    } catch (error: any) {
+      this.formError.set(error?.message || 'Failed to save rule.');
+    } finally {
+      this.saving.set(false);
+    }
+  }
+
+  async toggle(rule: CategorizationRule, enabled: boolean): Promise<void> {
+    try {
+      await this.ruleService.setRuleEnabled(rule, enabled);
+    } catch (error: any) {
+      this.formError.set(error?.message || 'Failed to update rule.');
+    }
+  }
+
+  async remove(rule: CategorizationRule): Promise<void> {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) {
+      return;
+    }
+
+    try {
+      await this.ruleService.deleteRule(rule.id);
+      if (this.editingId() === rule.id) {
+        this.resetForm();
+      }
+    } catch (error: any) {
+      this.formError.set(error?.message || 'Failed to delete rule.');
+    }
+  }
+
+  async reapply(rule?: CategorizationRule): Promise<void> {
+    if (this.reapplyingId() !== null) return;
+
+    this.reapplyingId.set(rule?.id ?? 'all');
+    this.reapplyMessage.set(null);
+    this.formError.set(null);
+
+    try {
+      const result = await this.ruleService.reapplyRules(rule?.id);
+      this.reapplyMessage.set(
+        `Checked ${result.scanned} receipts: ${result.matched} matched, ${result.updated} updated.`
+      );
+    } catch (error: any) {
+      this.formError.set(error?.message || 'Failed to re-apply rules.');
+    } finally {
+      this.reapplyingId.set(null);
+    }
+  }
+}
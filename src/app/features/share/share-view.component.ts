@@ -1,16 +1,26 @@
 import { CommonModule } from '@angular/common';
 import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
 import { ActivatedRoute, RouterLink } from '@angular/router';
 import { Subscription } from 'rxjs';
 
-import { ChatShareMessage, GraphSharePoint, PublicShare } from '../../models/share-link.model';
+import {
+  AccountantShareView,
+  ChatShareMessage,
+  FolderShareView,
+  GraphSharePoint,
+  PublicShare
+} from '../../models/share-link.model';
 import { ShareService } from '../../services/share.service';
 import { ThemeService } from '../../services/theme.service';
+import { formatMoney } from '../../utils/currency.utils';
+import { buildAccountantCsv, describeAccountantScope } from '../../utils/accountant-share.utils';
+import { isShareExpired } from '../../utils/share.utils';
 
 @Component({
   selector: 'app-share-view',
   standalone: true,
-  imports: [CommonModule, RouterLink],
+  imports: [CommonModule, FormsModule, RouterLink],
   templateUrl: './share-view.component.html',
   styleUrl: './share-view.component.css'
 })
@@ -19,15 +29,23 @@ export class ShareViewComponent implements OnInit, OnDestroy {
   private readonly shareService = inject(ShareService);
   private readonly theme = inject(ThemeService);
   private routeSub: Subscription | null = null;
+  private shareId: string | null = null;
 
   readonly isLoading = signal(true);
   readonly error = signal<string | null>(null);
+  readonly isExpired = signal(false);
   readonly share = signal<PublicShare | null>(null);
+  readonly passwordRequired = signal(false);
+  readonly passwordInput = signal('');
+  readonly passwordError = signal<string | null>(null);
+  readonly isUnlocking = signal(false);
   readonly hoveredDay = signal<GraphSharePoint | null>(null);
   readonly Math = Math;
   readonly isDarkMode = this.theme.isDarkMode;
   readonly isGraphShare = computed(() => this.share()?.shareType === 'graph');
   readonly isChatShare = computed(() => this.share()?.shareType === 'chat');
+  readonly isAccountantShare = computed(() => this.share()?.shareType === 'accountant');
+  readonly isFolderShare = computed(() => this.share()?.shareType === 'folder');
 
   readonly dailyData = computed<GraphSharePoint[]>(() => {
     const currentShare = this.share();
@@ -41,6 +59,13 @@ export class ShareViewComponent implements OnInit, OnDestroy {
     const currentShare = this.share();
     return currentShare?.shareType === 'graph' ? currentShare.totalSpend : 0;
   });
+  readonly currency = computed(() => {
+    const currentShare = this.share();
+    if (currentShare?.shareType === 'graph' || currentShare?.shareType === 'folder') {
+      return currentShare.currency;
+    }
+    return currentShare?.shareType === 'accountant' ? currentShare.homeCurrency : undefined;
+  });
   readonly includeName = computed(() => {
     const currentShare = this.share();
     return currentShare?.shareType === 'graph' && !!currentShare.includeName && !!currentShare.ownerName;
@@ -58,6 +83,25 @@ export class ShareViewComponent implements OnInit, OnDestroy {
     return currentShare?.shareType === 'chat' ? currentShare.messages : [];
   });
 
+  readonly accountantShare = computed<AccountantShareView | null>(() => {
+    const currentShare = this.share();
+    return currentShare?.shareType === 'accountant' ? currentShare : null;
+  });
+  readonly accountantScope = computed(() => {
+    const access = this.accountantShare();
+    return access
+      ? describeAccountantScope({ folderIds: [], startDate: access.startDate, endDate: access.endDate }, access.folderNames)
+      : '';
+  });
+  readonly accountantTotal = computed(() =>
+    (this.accountantShare()?.receipts ?? []).reduce((sum, receipt) => sum + (receipt.homeAmount ?? 0), 0)
+  );
+
+  readonly folderShare = computed<FolderShareView | null>(() => {
+    const currentShare = this.share();
+    return currentShare?.shareType === 'folder' ? currentShare : null;
+  });
+
   readonly chartPathData = computed(() => {
     const data = this.dailyData();
     if (!data.length) {
@@ -108,7 +152,11 @@ export class ShareViewComponent implements OnInit, OnDestroy {
         this.share.set(null);
         return;
       }
-      this.loadShare(shareId);
+      this.shareId = shareId;
+      this.passwordRequired.set(false);
+      this.passwordInput.set('');
+      // Accountant links carry a key, e.g. /share/abc?key=xyz
+      this.loadShare(shareId, this.route.snapshot.queryParamMap.get('key'));
     });
   }
 
@@ -116,20 +164,62 @@ export class ShareViewComponent implements OnInit, OnDestroy {
     this.routeSub?.unsubscribe();
   }
 
-  private async loadShare(shareId: string): Promise<void> {
-    this.isLoading.set(true);
+  async unlock(): Promise<void> {
+    const password = this.passwordInput();
+    if (!this.shareId || !password || this.isUnlocking()) {
+      return;
+    }
+
+    this.isUnlocking.set(true);
+    await this.loadShare(this.shareId, null, password);
+    this.isUnlocking.set(false);
+  }
+
+  private async loadShare(shareId: string, key: string | null, password?: string): Promise<void> {
+    // Keep the password form on screen while checking a password
+    this.isLoading.set(!password);
     this.error.set(null);
+    this.isExpired.set(false);
+    this.passwordError.set(null);
     try {
-      const share = await this.shareService.getPublicShare(shareId);
+      const share = await this.shareService.getPublicShare(shareId, key, password);
       if (!share) {
         this.error.set('This share link no longer exists or has been removed.');
         this.share.set(null);
         return;
       }
+      // Graph and chat shares are read directly, so expiry is checked here
+      if ((share.shareType === 'graph' || share.shareType === 'chat') && isShareExpired(share)) {
+        this.isExpired.set(true);
+        this.share.set(null);
+        return;
+      }
+      this.passwordRequired.set(false);
       this.share.set(share);
-    } catch (error) {
+      if (share.shareType === 'graph' || share.shareType === 'chat') {
+        this.shareService.recordShareView(share.shareType, share.id).catch(viewError => {
+          console.warn('Failed to record share view', viewError);
+        });
+      }
+    } catch (error: any) {
+      // Every kind of share reports expiry through the server's `details.expired`
+      if (error?.details?.expired) {
+        this.isExpired.set(true);
+        this.share.set(null);
+        return;
+      }
+
+      if (error?.details?.passwordRequired) {
+        this.passwordRequired.set(true);
+        this.passwordError.set(password ? error.message : null);
+        this.share.set(null);
+        return;
+      }
+
       console.error('Failed to load share link', error);
-      this.error.set('Unable to load this share right now. Please try again later.');
+      // Accountant and folder links explain why they stopped working (revoked, removed)
+      const isExplained = ['functions/not-found', 'functions/permission-denied'].includes(error?.code);
+      this.error.set(isExplained ? error.message : 'Unable to load this share right now. Please try again later.');
       this.share.set(null);
     } finally {
       this.isLoading.set(false);
@@ -141,10 +231,37 @@ export class ShareViewComponent implements OnInit, OnDestroy {
       return '-';
     }
 
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+    return formatMoney(amount, this.currency());
+  }
+
+  formatReceiptAmount(receipt: { amount: number | null; currency: string }): string {
+    return receipt.amount === null ? '-' : formatMoney(receipt.amount, receipt.currency);
+  }
+
+  formatHomeAmount(amount: number | null): string {
+    return amount === null ? '-' : formatMoney(amount, this.currency());
+  }
+
+  formatShareDate(isoValue: string): string {
+    const date = new Date(isoValue);
+    return isNaN(date.getTime())
+      ? ''
+      : new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(date);
+  }
+
+  downloadAccountantCsv(): void {
+    const share = this.accountantShare();
+    if (!share) return;
+
+    const csvBlob = new Blob([buildAccountantCsv(share.receipts, share.homeCurrency)], { type: 'text/csv;charset=utf-8;' });
+    const downloadUrl = URL.createObjectURL(csvBlob);
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    link.download = `${share.label.replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'receipts'}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(downloadUrl), 250);
   }
 
   getChartX(day: number): number {
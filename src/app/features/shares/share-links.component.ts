@@ -0,0 +1,184 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Timestamp } from 'firebase/firestore';
+
+import { ManagedShare, ManagedShareType } from '../../models/share-link.model';
+import { ShareService } from '../../services/share.service';
+import { SHARE_EXPIRY_OPTIONS, ShareStatus, describeShareExpiry, getShareStatus } from '../../utils/share.utils';
+
+const TYPE_LABELS: Record<ManagedShareType, string> = {
+  graph: 'Graph',
+  chat: 'Chat',
+  folder: 'Folder'
+};
+
+const STATUS_CLASSES: Record<ShareStatus, string> = {
+  active: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300',
+  expired: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  revoked: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400'
+};
+
+@Component({
+  selector: 'app-share-links',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-4xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <!-- Header -->
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <a routerLink="/app" class="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 mb-4">
+            <svg class="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to receipts
+          </a>
+          <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Shared links</h1>
+          <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+            Every spending graph, chat and folder you've shared. Expired links are deleted automatically within a day.
+            Accountant links live on the <a routerLink="/app/accountant-access" class="font-medium text-emerald-600 hover:underline dark:text-emerald-400">accountant access</a> page.
+          </p>
+        </section>
+
+        @if (error()) {
+          <section class="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 dark:border-rose-800 dark:bg-rose-950/30 dark:text-rose-300">
+            {{ error() }}
+          </section>
+        }
+
+        <section class="rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+          @if (loading()) {
+            <p class="text-sm text-slate-500 dark:text-slate-400">Loading...</p>
+          } @else if (!shares().length) {
+            <p class="text-sm text-slate-500 dark:text-slate-400">You haven't shared anything yet.</p>
+          } @else {
+            <div class="divide-y divide-slate-100 dark:divide-slate-800">
+              @for (share of shares(); track share.shareType + share.id) {
+                <div class="flex flex-wrap items-center justify-between gap-3 py-3">
+                  <div class="min-w-0">
+                    <p class="flex items-center gap-2 text-sm font-semibold text-slate-900 dark:text-white">
+                      <span class="truncate">{{ share.title }}</span>
+                      <span class="rounded-full px-2 py-0.5 text-[11px] font-medium capitalize" [ngClass]="statusClasses[statusOf(share)]">
+                        {{ statusOf(share) }}
+                      </span>
+                    </p>
+                    <p class="text-xs text-slate-500 dark:text-slate-400">
+                      {{ typeLabels[share.shareType] }} · {{ describeExpiry(share) }}
+                      · {{ share.viewCount }} {{ share.viewCount === 1 ? 'view' : 'views' }}
+                      @if (share.lastViewedAt) {
+                        · last viewed {{ formatDateTime(share.lastViewedAt) }}
+                      }
+                    </p>
+                  </div>
+                  @if (statusOf(share) !== 'revoked') {
+                    <div class="flex items-center gap-3">
+                      <select (change)="changeExpiry(share, $any($event.target))" [disabled]="pendingId() !== null"
+                        [attr.aria-label]="'Change expiry for ' + share.title"
+                        class="rounded-lg border border-slate-300 bg-white px-2 py-1.5 text-xs text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200">
+                        <option value="" selected disabled>{{ statusOf(share) === 'expired' ? 'Reopen...' : 'Change expiry...' }}</option>
+                        @for (option of expiryOptions; track option.label; let index = $index) {
+                          <option [value]="index">{{ option.label }}</option>
+                        }
+                      </select>
+                      @if (statusOf(share) === 'active') {
+                        <button type="button" (click)="copy(share)"
+                          class="text-sm font-medium text-emerald-600 hover:text-emerald-700 dark:text-emerald-400">
+                          {{ copiedId() === share.id ? 'Copied' : 'Copy link' }}
+                        </button>
+                      }
+                      <button type="button" (click)="revoke(share)" [disabled]="pendingId() !== null"
+                        class="text-sm font-medium text-rose-600 hover:text-rose-700 disabled:opacity-50 dark:text-rose-400">
+                        {{ pendingId() === share.id ? 'Revoking...' : 'Revoke' }}
+                      </button>
+                    </div>
+                  }
+                </div>
+              }
+            </div>
+          }
+        </section>
+      </div>
+    </div>
+  `,
+  styles: [`:host { display: block; }`]
+})
+export class ShareLinksComponent implements OnInit {
+  private readonly shareService = inject(ShareService);
+
+  readonly expiryOptions = SHARE_EXPIRY_OPTIONS;
+  readonly typeLabels = TYPE_LABELS;
+  readonly statusClasses = STATUS_CLASSES;
+
+  readonly shares = signal<ManagedShare[]>([]);
+  readonly loading = signal(true);
+  readonly pendingId = signal<string | null>(null);
+  readonly copiedId = signal<string | null>(null);
+  readonly error = signal<string | null>(null);
+
+  ngOnInit(): void {
+    void this.loadShares();
+  }
+
+  async changeExpiry(share: ManagedShare, select: HTMLSelectElement): Promise<void> {
+    const option = this.expiryOptions[Number(select.value)];
+    select.value = '';
+    if (!option) return;
+    await this.runPending(share.id, () => this.shareService.updateShareExpiry(share, option.days), 'Failed to change expiry.');
+  }
+
+  async revoke(share: ManagedShare): Promise<void> {
+    const warning = share.shareType === 'folder'
+      ? 'Revoke this link? Anyone who has it will lose access.'
+      : 'Revoke this link? The shared snapshot will be deleted.';
+    if (!confirm(warning)) return;
+    await this.runPending(share.id, () => this.shareService.revokeShare(share), 'Failed to revoke link.');
+  }
+
+  async copy(share: ManagedShare): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/share/${share.id}`);
+      this.copiedId.set(share.id);
+      setTimeout(() => this.copiedId.set(null), 2000);
+    } catch {
+      this.error.set('Could not copy the link.');
+    }
+  }
+
+  statusOf(share: ManagedShare): ShareStatus {
+    return getShareStatus(share);
+  }
+
+  describeExpiry(share: ManagedShare): string {
+    return describeShareExpiry(share);
+  }
+
+  formatDateTime(value: Timestamp): string {
+    return value.toDate().toLocaleString();
+  }
+
+  private async loadShares(): Promise<void> {
+    try {
+      this.shares.set(await this.shareService.listShares());
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to load shared links.');
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  private async runPending(id: string, action: () => Promise<void>, fallback: string): Promise<void> {
+    if (this.pendingId() !== null) return;
+
+    this.pendingId.set(id);
+    this.error.set(null);
+    try {
+      await action();
+      await this.loadShares();
+    } catch (error: any) {
+      this.error.set(error?.message || fallback);
+    } finally {
+      this.pendingId.set(null);
+    }
+  }
+}
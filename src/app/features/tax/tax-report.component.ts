@@ -0,0 +1,454 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import type { PDFDocument, PDFFont, PDFPage } from 'pdf-lib';
+
+import { Receipt } from '../../models/receipt.model';
+import { ReceiptService } from '../../services/receipt.service';
+import {
+  TaxReportRow,
+  getTaxCategory,
+  isTaxRelevant,
+  resolveTaxCategoryId,
+  summarizeByTaxCategory
+} from '../../utils/tax.utils';
+import { getEntryExportLines, isManualEntry } from '../../utils/manual-entry.utils';
+import {
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  addReceiptImagePage,
+  addReceiptTextPage,
+  downloadBlob,
+  downloadPdf,
+  fetchReceiptFile,
+  getReceiptMimeType,
+  loadPdfLib,
+  normalizeReceiptImage,
+  toPdfText
+} from '../../utils/receipt-pdf.utils';
+
+const PAGE_MARGIN = 48;
+
+@Component({
+  selector: 'app-tax-report',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-5xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <a routerLink="/app" class="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 mb-4">
+            <svg class="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to receipts
+          </a>
+          <div class="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Year-end tax report</h1>
+              <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                Receipts marked tax deductible or business, grouped by Schedule C line. Mark receipts from their detail page.
+              </p>
+            </div>
+            <div class="flex flex-wrap items-center gap-2">
+              <select [value]="activeYear()" (change)="selectedYear.set($any($event.target).value)" aria-label="Tax year"
+                class="rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-white">
+                @for (year of years(); track year) {
+                  <option [value]="year">{{ year }}</option>
+                }
+              </select>
+              <button type="button" (click)="downloadCsv()" [disabled]="!rows().length || downloadingCsv()"
+                class="rounded-lg border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                CSV
+              </button>
+              <button type="button" (click)="downloadPdf()" [disabled]="!rows().length || downloadingPdf()"
+                class="rounded-lg bg-emerald-600 px-3 py-2 text-sm font-semibold text-white transition hover:bg-emerald-700 disabled:opacity-50">
+                {{ downloadingPdf() ? 'Preparing PDF...' : 'PDF with receipts' }}
+              </button>
+            </div>
+          </div>
+        </section>
+
+        @if (exportError()) {
+          <section class="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 dark:border-rose-800 dark:bg-rose-950/30 dark:text-rose-300">
+            {{ exportError() }}
+          </section>
+        }
+
+        @if (isLoading() && !rows().length) {
+          <div class="h-40 animate-pulse rounded-2xl border border-slate-200 bg-slate-100 dark:border-slate-800 dark:bg-slate-900"></div>
+        } @else if (!rows().length) {
+          <section class="rounded-3xl border border-dashed border-slate-300 bg-white/80 p-10 text-center dark:border-slate-700 dark:bg-slate-900/60">
+            <h2 class="text-xl font-semibold text-slate-900 dark:text-white">No tax receipts for {{ activeYear() || 'this year' }}</h2>
+            <p class="mt-2 text-sm text-slate-500 dark:text-slate-400">
+              Open a receipt and tick "Tax deductible" or "Business expense" to include it here.
+            </p>
+          </section>
+        } @else {
+          <section class="grid gap-3 sm:grid-cols-3">
+            <div class="rounded-2xl border border-slate-200/80 bg-white/90 p-4 dark:border-slate-800 dark:bg-slate-900/80">
+              <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Receipts</p>
+              <p class="mt-1 text-xl font-semibold text-slate-900 dark:text-white">{{ rows().length }}</p>
+            </div>
+            <div class="rounded-2xl border border-slate-200/80 bg-white/90 p-4 dark:border-slate-800 dark:bg-slate-900/80">
+              <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Total</p>
+              <p class="mt-1 text-xl font-semibold text-slate-900 dark:text-white">{{ formatCurrency(grandTotal()) }}</p>
+            </div>
+            <div class="rounded-2xl border border-slate-200/80 bg-white/90 p-4 dark:border-slate-800 dark:bg-slate-900/80">
+              <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Deductible</p>
+              <p class="mt-1 text-xl font-semibold text-emerald-600 dark:text-emerald-400">{{ formatCurrency(deductibleTotal()) }}</p>
+            </div>
+          </section>
+
+          <section class="overflow-hidden rounded-2xl border border-slate-200/80 bg-white/90 dark:border-slate-800 dark:bg-slate-900/80">
+            <h2 class="px-5 pt-5 font-semibold text-slate-900 dark:text-white">By tax category</h2>
+            <table class="mt-3 w-full text-sm">
+              <thead class="text-left text-xs uppercase tracking-wide text-slate-400">
+                <tr>
+                  <th class="px-5 py-2 font-semibold">Line</th>
+                  <th class="px-5 py-2 font-semibold">Category</th>
+                  <th class="px-5 py-2 text-right font-semibold">Receipts</th>
+                  <th class="px-5 py-2 text-right font-semibold">Total</th>
+                  <th class="px-5 py-2 text-right font-semibold">Deductible</th>
+                </tr>
+              </thead>
+              <tbody class="divide-y divide-slate-100 dark:divide-slate-800">
+                @for (entry of summary(); track entry.category.id) {
+                  <tr class="text-slate-700 dark:text-slate-200">
+                    <td class="px-5 py-2.5 text-slate-500 dark:text-slate-400">{{ entry.category.line }}</td>
+                    <td class="px-5 py-2.5">
+                      {{ entry.category.label }}
+                      @if (entry.category.deductibleRate < 1) {
+                        <span class="text-xs text-slate-400">({{ entry.category.deductibleRate * 100 }}% deductible)</span>
+                      }
+                    </td>
+                    <td class="px-5 py-2.5 text-right">{{ entry.receiptCount }}</td>
+                    <td class="px-5 py-2.5 text-right">{{ formatCurrency(entry.total) }}</td>
+                    <td class="px-5 py-2.5 text-right font-semibold">{{ formatCurrency(entry.deductibleTotal) }}</td>
+                  </tr>
+                }
+              </tbody>
+            </table>
+          </section>
+
+          <section class="overflow-hidden rounded-2xl border border-slate-200/80 bg-white/90 dark:border-slate-800 dark:bg-slate-900/80">
+            <h2 class="px-5 pt-5 font-semibold text-slate-900 dark:text-white">Receipts</h2>
+            <div class="mt-3 divide-y divide-slate-100 dark:divide-slate-800">
+              @for (row of rows(); track row.receiptId) {
+                <a [routerLink]="['/app/receipt', row.receiptId]"
+                  class="flex items-center gap-4 px-5 py-3 text-sm transition hover:bg-slate-50 dark:hover:bg-slate-800/60">
+                  <span class="w-24 shrink-0 text-slate-500 dark:text-slate-400">{{ row.date || 'No date' }}</span>
+                  <span class="min-w-0 flex-1">
+                    <span class="block truncate font-medium text-slate-900 dark:text-white">{{ row.merchant }}</span>
+                    <span class="block text-xs text-slate-500 dark:text-slate-400">
+                      {{ getTaxCategoryLabel(row) }}{{ row.deductible ? ' · Deductible' : '' }}{{ row.business ? ' · Business' : '' }}
+                    </span>
+                  </span>
+                  <span class="font-semibold text-slate-900 dark:text-white">{{ formatCurrency(row.amount) }}</span>
+                </a>
+              }
+            </div>
+          </section>
+        }
+      </div>
+    </div>
+  `,
+  styles: [`:host { display: block; }`]
+})
+export class TaxReportComponent implements OnInit, OnDestroy {
+  private readonly receiptService = inject(ReceiptService);
+
+  readonly isLoading = this.receiptService.isLoading;
+  readonly selectedYear = signal<string | null>(null);
+  readonly downloadingPdf = signal(false);
+  readonly downloadingCsv = signal(false);
+  readonly exportError = signal<string | null>(null);
+
+  private readonly taxReceipts = computed(() =>
+    this.receiptService.receipts().filter(receipt => isTaxRelevant(receipt))
+  );
+
+  readonly years = computed(() => {
+    const years = new Set<string>([String(new Date().getFullYear())]);
+    for (const receipt of this.taxReceipts()) {
+      const date = this.receiptService.getEffectiveDate(receipt);
+      if (date) years.add(String(date.getFullYear()));
+    }
+    return Array.from(years).sort((a, b) => b.localeCompare(a));
+  });
+
+  // Defaults to the most recent year with tax receipts
+  readonly activeYear = computed(() => {
+    const selected = this.selectedYear();
+    if (selected) return selected;
+    const latest = this.taxReceipts()
+      .map(receipt => this.receiptService.getEffectiveDate(receipt)?.getFullYear())
+      .filter((year): year is number => typeof year === 'number')
+      .sort((a, b) => b - a)[0];
+    return String(latest ?? new Date().getFullYear());
+  });
+
+  readonly yearReceipts = computed<Receipt[]>(() => {
+    const year = this.activeYear();
+    return this.taxReceipts()
+      .filter(receipt => String(this.receiptService.getEffectiveDate(receipt)?.getFullYear()) === year)
+      .sort((a, b) => this.getDateKey(a).localeCompare(this.getDateKey(b)));
+  });
+
+  readonly rows = computed<TaxReportRow[]>(() =>
+    this.yearReceipts().map(receipt => ({
+      receiptId: receipt.id,
+      date: this.getDateKey(receipt),
+      merchant: this.getMerchant(receipt),
+      amount: Math.round((this.receiptService.getEffectiveAmount(receipt) ?? 0) * 100) / 100,
+      taxCategoryId: resolveTaxCategoryId(receipt),
+      deductible: !!receipt.tax?.deductible,
+      business: !!receipt.tax?.business
+    }))
+  );
+
+  readonly summary = computed(() => summarizeByTaxCategory(this.rows()));
+  readonly grandTotal = computed(() => this.summary().reduce((sum, entry) => sum + entry.total, 0));
+  readonly deductibleTotal = computed(() => this.summary().reduce((sum, entry) => sum + entry.deductibleTotal, 0));
+
+  ngOnInit(): void {
+    this.receiptService.subscribeToReceipts();
+  }
+
+  ngOnDestroy(): void {
+    this.receiptService.unsubscribeFromReceipts();
+  }
+
+  downloadCsv(): void {
+    if (this.downloadingCsv()) {
+      return;
+    }
+
+    this.downloadingCsv.set(true);
+    this.exportError.set(null);
+
+    try {
+      const rows = this.rows();
+      if (!rows.length) {
+        throw new Error('No tax receipts available for export.');
+      }
+
+      const homeCurrency = this.receiptService.homeCurrency();
+      const lines: string[] = [
+        ['Date', 'Merchant', 'Schedule C Line', 'Tax Category', `Amount (${homeCurrency})`, `Deductible Amount (${homeCurrency})`, 'Deductible', 'Business', 'Receipt ID']
+          .map(this.escapeCsvValue)
+          .join(',')
+      ];
+
+      for (const row of rows) {
+        const category = getTaxCategory(row.taxCategoryId);
+        const deductibleAmount = row.deductible ? row.amount * category.deductibleRate : 0;
+        lines.push([
+          row.date,
+          row.merchant,
+          category.line,
+          category.label,
+          row.amount.toFixed(2),
+          deductibleAmount.toFixed(2),
+          row.deductible ? 'Yes' : 'No',
+          row.business ? 'Yes' : 'No',
+          row.receiptId
+        ].map(this.escapeCsvValue).join(','));
+      }
+
+      lines.push('');
+      lines.push(['Schedule C Line', 'Tax Category', 'Receipts', 'Total', 'Deductible'].map(this.escapeCsvValue).join(','));
+      for (const entry of this.summary()) {
+        lines.push([
+          entry.category.line,
+          entry.category.label,
+          String(entry.receiptCount),
+          entry.total.toFixed(2),
+          entry.deductibleTotal.toFixed(2)
+        ].map(this.escapeCsvValue).join(','));
+      }
+      lines.push(['', 'Total', String(rows.length), this.grandTotal().toFixed(2), this.deductibleTotal().toFixed(2)]
+        .map(this.escapeCsvValue)
+        .join(','));
+
+      downloadBlob(new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8;' }), `tax-report-${this.activeYear()}.csv`);
+    } catch (error: any) {
+      this.exportError.set(error?.message || 'Failed to export CSV. Please try again.');
+    } finally {
+      this.downloadingCsv.set(false);
+    }
+  }
+
+  async downloadPdf(): Promise<void> {
+    if (this.downloadingPdf()) {
+      return;
+    }
+
+    this.downloadingPdf.set(true);
+    this.exportError.set(null);
+
+    try {
+      const receipts = this.yearReceipts();
+      if (!receipts.length) {
+        throw new Error('No tax receipts available for export.');
+      }
+
+      const { PDFDocument, StandardFonts } = await loadPdfLib();
+      const pdfDoc = await PDFDocument.create();
+      const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+      const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+      this.drawSummaryPages(pdfDoc, font, boldFont);
+
+      // Every receipt file follows the summary, in date order
+      for (const receipt of receipts) {
+        try {
+          if (!receipt.file?.storagePath && isManualEntry(receipt)) {
+            addReceiptTextPage(pdfDoc, this.buildReceiptCaption(receipt), getEntryExportLines(receipt), font);
+            continue;
+          }
+
+          const blob = await fetchReceiptFile(receipt, path => this.receiptService.getReceiptFileUrl(path));
+          const mimeType = getReceiptMimeType(receipt, blob);
+
+          if (mimeType === 'application/pdf' || receipt.file?.mimeType === 'application/pdf' || receipt.file?.originalName?.toLowerCase().endsWith('.pdf')) {
+            const sourcePdf = await PDFDocument.load(await blob.arrayBuffer());
+            const copiedPages = await pdfDoc.copyPages(sourcePdf, sourcePdf.getPageIndices());
+            copiedPages.forEach((page) => pdfDoc.addPage(page));
+            continue;
+          }
+
+          const image = await normalizeReceiptImage(blob, receipt);
+          await addReceiptImagePage(pdfDoc, image, this.buildReceiptCaption(receipt), font);
+        } catch (innerError) {
+          console.error('Failed to add receipt to tax report PDF', innerError);
+        }
+      }
+
+      await downloadPdf(pdfDoc, `tax-report-${this.activeYear()}.pdf`);
+    } catch (error: any) {
+      this.exportError.set(error?.message || 'Failed to export PDF. Please try again.');
+    } finally {
+      this.downloadingPdf.set(false);
+    }
+  }
+
+  getTaxCategoryLabel(row: TaxReportRow): string {
+    const category = getTaxCategory(row.taxCategoryId);
+    return `Line ${category.line} · ${category.label}`;
+  }
+
+  formatCurrency(amount: number): string {
+    return this.receiptService.formatHomeCurrency(amount);
+  }
+
+  /**
+   * Totals per tax category, then every receipt line, on as many pages as needed
+   */
+  private drawSummaryPages(pdfDoc: PDFDocument, font: PDFFont, boldFont: PDFFont): void {
+    const homeCurrency = this.receiptService.homeCurrency();
+    const amountRight = PDF_PAGE_WIDTH - PAGE_MARGIN;
+    let page: PDFPage = pdfDoc.addPage([PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT]);
+    let y = PDF_PAGE_HEIGHT - PAGE_MARGIN;
+
+    const ensureSpace = (height: number) => {
+      if (y - height < PAGE_MARGIN) {
+        page = pdfDoc.addPage([PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT]);
+        y = PDF_PAGE_HEIGHT - PAGE_MARGIN;
+      }
+    };
+    const drawRow = (columns: { text: string; x: number; right?: boolean }[], bold = false, size = 10) => {
+      ensureSpace(size + 6);
+      const rowFont = bold ? boldFont : font;
+      for (const column of columns) {
+        const text = toPdfText(column.text);
+        const x = column.right ? column.x - rowFont.widthOfTextAtSize(text, size) : column.x;
+        page.drawText(text, { x, y, size, font: rowFont });
+      }
+      y -= size + 6;
+    };
+    const truncate = (text: string, maxLength: number) =>
+      text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+
+    drawRow([{ text: `Tax report ${this.activeYear()}`, x: PAGE_MARGIN }], true, 18);
+    drawRow([{ text: `Generated ${new Date().toLocaleDateString('en-US')} · amounts in ${homeCurrency}`, x: PAGE_MARGIN }]);
+    y -= 12;
+
+    drawRow([{ text: 'Totals by Schedule C line', x: PAGE_MARGIN }], true, 13);
+    drawRow([
+      { text: 'Line', x: PAGE_MARGIN },
+      { text: 'Category', x: PAGE_MARGIN + 40 },
+      { text: 'Receipts', x: 380, right: true },
+      { text: 'Total', x: 470, right: true },
+      { text: 'Deductible', x: amountRight, right: true }
+    ], true);
+    for (const entry of this.summary()) {
+      drawRow([
+        { text: entry.category.line, x: PAGE_MARGIN },
+        { text: entry.category.label, x: PAGE_MARGIN + 40 },
+        { text: String(entry.receiptCount), x: 380, right: true },
+        { text: entry.total.toFixed(2), x: 470, right: true },
+        { text: entry.deductibleTotal.toFixed(2), x: amountRight, right: true }
+      ]);
+    }
+    drawRow([
+      { text: 'Total', x: PAGE_MARGIN + 40 },
+      { text: String(this.rows().length), x: 380, right: true },
+      { text: this.grandTotal().toFixed(2), x: 470, right: true },
+      { text: this.deductibleTotal().toFixed(2), x: amountRight, right: true }
+    ], true);
+    y -= 12;
+
+    drawRow([{ text: 'Receipts', x: PAGE_MARGIN }], true, 13);
+    drawRow([
+      { text: 'Date', x: PAGE_MARGIN },
+      { text: 'Merchant', x: PAGE_MARGIN + 70 },
+      { text: 'Line', x: 330 },
+      { text: 'Flags', x: 370 },
+      { text: 'Amount', x: amountRight, right: true }
+    ], true);
+    for (const row of this.rows()) {
+      const flags = [row.deductible ? 'D' : '', row.business ? 'B' : ''].filter(Boolean).join(' ');
+      drawRow([
+        { text: row.date, x: PAGE_MARGIN },
+        { text: truncate(row.merchant, 40), x: PAGE_MARGIN + 70 },
+        { text: getTaxCategory(row.taxCategoryId).line, x: 330 },
+        { text: flags, x: 370 },
+        { text: row.amount.toFixed(2), x: amountRight, right: true }
+      ]);
+    }
+    y -= 6;
+    drawRow([{ text: 'D = tax deductible, B = business expense. Receipt images follow.', x: PAGE_MARGIN }], false, 9);
+  }
+
+  private getMerchant(receipt: Receipt): string {
+    return receipt.merchant?.canonicalName || receipt.merchant?.rawName || receipt.file?.originalName || 'Unknown';
+  }
+
+  private getDateKey(receipt: Receipt): string {
+    return receipt.date || receipt.extraction?.date?.value || '';
+  }
+
+  private escapeCsvValue(value: string): string {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+
+  private buildReceiptCaption(receipt: Receipt): string {
+    const parts: string[] = [];
+
+    parts.push(`Line ${getTaxCategory(resolveTaxCategoryId(receipt)).line}`);
+    parts.push(this.getMerchant(receipt));
+
+    const amount = this.receiptService.formatReceiptAmount(receipt);
+    if (amount) {
+      parts.push(amount);
+    }
+
+    const date = this.getDateKey(receipt);
+    if (date) {
+      parts.push(date);
+    }
+
+    return parts.join(' - ');
+  }
+}
@@ -0,0 +1,364 @@
+import { Component, computed, effect, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { map } from 'rxjs/operators';
+
+import { AuthService } from '../../services/auth.service';
+import { WorkspaceService } from '../../services/workspace.service';
+import { WorkspaceInvite, WorkspaceMember, WorkspaceMemberRole } from '../../models/workspace.model';
+import { MAX_WORKSPACE_NAME_LENGTH, WORKSPACE_ROLE_LABELS } from '../../utils/workspace.utils';
+
+@Component({
+  selector: 'app-workspace-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  template: `
+    <div class="min-h-screen bg-white dark:bg-slate-950">
+      <div class="mx-auto max-w-4xl px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <!-- Header -->
+        <section class="rounded-3xl border border-slate-200/80 bg-white/85 p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900/80 sm:p-7">
+          <a routerLink="/app" class="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 mb-4">
+            <svg class="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to receipts
+          </a>
+          <h1 class="text-2xl font-semibold text-slate-900 dark:text-white">Workspaces</h1>
+          <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+            Share your receipts with a partner, bookkeeper or small team. Editors can add and change receipts;
+            viewers can only look. Switch workspaces from the sidebar.
+          </p>
+        </section>
+
+        @if (error() || loadError()) {
+          <section class="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 dark:border-rose-800 dark:bg-rose-950/30 dark:text-rose-300">
+            {{ error() || loadError() }}
+          </section>
+        }
+        @if (message()) {
+          <p class="text-sm text-emerald-600 dark:text-emerald-400">{{ message() }}</p>
+        }
+
+        <!-- Invites to the user -->
+        @if (receivedInvites().length) {
+          <section class="rounded-2xl border border-emerald-200 bg-emerald-50/70 p-5 dark:border-emerald-800/60 dark:bg-emerald-950/20">
+            <h2 class="font-semibold text-slate-900 dark:text-white">Invitations</h2>
+            <div class="mt-3 space-y-3">
+              @for (invite of receivedInvites(); track invite.id) {
+                <div class="flex flex-wrap items-center justify-between gap-3 rounded-xl border bg-white px-4 py-3 dark:bg-slate-900"
+                  [ngClass]="invite.id === highlightedInviteId() ? 'border-emerald-400 dark:border-emerald-600' : 'border-slate-200 dark:border-slate-800'">
+                  <div class="min-w-0">
+                    <p class="truncate text-sm font-semibold text-slate-900 dark:text-white">{{ invite.workspaceName }}</p>
+                    <p class="text-xs text-slate-500 dark:text-slate-400">
+                      {{ invite.invitedByName }} invited you as {{ roleLabels[invite.role].toLowerCase() }}
+                    </p>
+                  </div>
+                  <div class="flex gap-2">
+                    <button type="button" (click)="respond(invite, false)" [disabled]="pendingId() !== null"
+                      class="rounded-lg border border-slate-300 px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                      Decline
+                    </button>
+                    <button type="button" (click)="respond(invite, true)" [disabled]="pendingId() !== null"
+                      class="rounded-lg bg-emerald-500 px-3 py-1.5 text-sm font-semibold text-white hover:bg-emerald-600 disabled:opacity-50 dark:text-slate-950">
+                      {{ pendingId() === invite.id ? 'Joining...' : 'Accept' }}
+                    </button>
+                  </div>
+                </div>
+              }
+            </div>
+          </section>
+        }
+
+        <!-- Active workspace -->
+        @if (activeWorkspace(); as workspace) {
+          <section class="rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+            <div class="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <p class="text-xs font-semibold uppercase tracking-wide text-slate-400">Current workspace</p>
+                <h2 class="mt-1 text-lg font-semibold text-slate-900 dark:text-white">{{ workspace.name }}</h2>
+                <p class="text-xs text-slate-500 dark:text-slate-400">
+                  {{ isOwner() ? 'You own this workspace' : roleLabels[workspace.role] + ' · shared by ' + workspace.ownerName }}
+                </p>
+              </div>
+              @if (!isOwner()) {
+                <button type="button" (click)="leave()" [disabled]="pendingId() !== null"
+                  class="rounded-lg border border-rose-300 px-3 py-1.5 text-sm font-medium text-rose-600 hover:bg-rose-50 disabled:opacity-50 dark:border-rose-800 dark:text-rose-300 dark:hover:bg-rose-950/30">
+                  {{ pendingId() === workspace.id ? 'Leaving...' : 'Leave workspace' }}
+                </button>
+              }
+            </div>
+
+            @if (isOwner()) {
+              <label class="mt-5 block max-w-md">
+                <span class="text-sm font-medium text-slate-700 dark:text-slate-200">Workspace name</span>
+                <div class="mt-1 flex gap-2">
+                  <input type="text" [maxlength]="maxNameLength" [placeholder]="workspace.name"
+                    [ngModel]="nameInput()" (ngModelChange)="nameInput.set($event)"
+                    class="min-w-0 flex-1 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+                  <button type="button" (click)="saveName()" [disabled]="savingName()"
+                    class="rounded-lg border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800">
+                    {{ savingName() ? 'Saving...' : 'Rename' }}
+                  </button>
+                </div>
+              </label>
+            }
+
+            <!-- Members -->
+            <h3 class="mt-6 text-sm font-semibold text-slate-900 dark:text-white">Members</h3>
+            <div class="mt-2 divide-y divide-slate-100 rounded-xl border border-slate-200 dark:divide-slate-800 dark:border-slate-800">
+              <div class="flex items-center justify-between gap-3 px-4 py-3">
+                <div class="min-w-0">
+                  <p class="truncate text-sm font-medium text-slate-900 dark:text-white">{{ workspace.ownerName }}</p>
+                  <p class="text-xs text-slate-500 dark:text-slate-400">Owner</p>
+                </div>
+              </div>
+              @for (member of members(); track member.userId) {
+                <div class="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+                  <div class="min-w-0">
+                    <p class="truncate text-sm font-medium text-slate-900 dark:text-white">
+                      {{ member.displayName || member.email }}
+                      @if (member.userId === currentUserId()) {
+                        <span class="text-xs font-normal text-slate-400">(you)</span>
+                      }
+                    </p>
+                    <p class="truncate text-xs text-slate-500 dark:text-slate-400">{{ member.email }}</p>
+                  </div>
+                  @if (isOwner()) {
+                    <div class="flex items-center gap-3">
+                      <select [ngModel]="member.role" (ngModelChange)="changeRole(member, $event)" [disabled]="pendingId() !== null"
+                        [attr.aria-label]="'Role for ' + member.email"
+                        class="rounded-lg border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200">
+                        @for (role of memberRoles; track role) {
+                          <option [value]="role">{{ roleLabels[role] }}</option>
+                        }
+                      </select>
+                      <button type="button" (click)="removeMember(member)" [disabled]="pendingId() !== null"
+                        class="text-sm font-medium text-rose-600 hover:text-rose-700 disabled:opacity-50 dark:text-rose-400">
+                        {{ pendingId() === member.userId ? 'Removing...' : 'Remove' }}
+                      </button>
+                    </div>
+                  } @else {
+                    <span class="text-xs font-medium text-slate-500 dark:text-slate-400">{{ roleLabels[member.role] }}</span>
+                  }
+                </div>
+              }
+            </div>
+
+            <!-- Invite -->
+            @if (isOwner()) {
+              <form class="mt-6" (ngSubmit)="invite()">
+                <h3 class="text-sm font-semibold text-slate-900 dark:text-white">Invite by email</h3>
+                <div class="mt-2 flex flex-wrap gap-2">
+                  <input type="email" name="inviteEmail" placeholder="name@example.com" required
+                    [ngModel]="inviteEmail()" (ngModelChange)="inviteEmail.set($event)"
+                    class="min-w-0 flex-1 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" />
+                  <select name="inviteRole" [ngModel]="inviteRole()" (ngModelChange)="inviteRole.set($event)"
+                    class="rounded-lg border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200">
+                    @for (role of memberRoles; track role) {
+                      <option [value]="role">{{ roleLabels[role] }}</option>
+                    }
+                  </select>
+                  <button type="submit" [disabled]="inviting() || !inviteEmail().trim()"
+                    class="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-50 dark:text-slate-950">
+                    {{ inviting() ? 'Sending...' : 'Send invite' }}
+                  </button>
+                </div>
+              </form>
+
+              @if (sentInvites().length) {
+                <h3 class="mt-6 text-sm font-semibold text-slate-900 dark:text-white">Pending invites</h3>
+                <div class="mt-2 divide-y divide-slate-100 rounded-xl border border-slate-200 dark:divide-slate-800 dark:border-slate-800">
+                  @for (invite of sentInvites(); track invite.id) {
+                    <div class="flex items-center justify-between gap-3 px-4 py-3">
+                      <div class="min-w-0">
+                        <p class="truncate text-sm text-slate-900 dark:text-white">{{ invite.email }}</p>
+                        <p class="text-xs text-slate-500 dark:text-slate-400">{{ roleLabels[invite.role] }} · expires {{ formatDate(invite.expiresAt) }}</p>
+                      </div>
+                      <button type="button" (click)="revoke(invite)" [disabled]="pendingId() !== null"
+                        class="text-sm font-medium text-slate-500 hover:text-slate-700 disabled:opacity-50 dark:text-slate-400 dark:hover:text-slate-200">
+                        {{ pendingId() === invite.id ? 'Revoking...' : 'Revoke' }}
+                      </button>
+                    </div>
+                  }
+                </div>
+              }
+            }
+          </section>
+        }
+
+        <!-- Telegram and email destination -->
+        @if (workspaces().length > 1) {
+          <section class="rounded-2xl border border-slate-200/80 bg-white/90 p-5 dark:border-slate-800 dark:bg-slate-900/80">
+            <h2 class="font-semibold text-slate-900 dark:text-white">Receipts sent by Telegram or email</h2>
+            <p class="mt-1 text-sm text-slate-500 dark:text-slate-400">
+              Choose which workspace receives receipts you forward. Only workspaces you can edit are listed.
+            </p>
+            <select [ngModel]="defaultWorkspaceId()" (ngModelChange)="saveDefaultWorkspace($event)" [disabled]="savingDefault()"
+              aria-label="Workspace for forwarded receipts"
+              class="mt-3 w-full max-w-xs rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200">
+              @for (workspace of editableWorkspaces(); track workspace.id) {
+                <option [value]="workspace.id">{{ workspace.name }}</option>
+              }
+            </select>
+          </section>
+        }
+      </div>
+    </div>
+  `,
+  styles: [`:host { display: block; }`]
+})
+export class WorkspaceSettingsComponent {
+  private readonly auth = inject(AuthService);
+  private readonly workspaceService = inject(WorkspaceService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+
+  readonly roleLabels = WORKSPACE_ROLE_LABELS;
+  readonly memberRoles: WorkspaceMemberRole[] = ['editor', 'viewer'];
+  readonly maxNameLength = MAX_WORKSPACE_NAME_LENGTH;
+
+  readonly workspaces = this.workspaceService.workspaces;
+  readonly activeWorkspace = this.workspaceService.activeWorkspace;
+  readonly members = this.workspaceService.members;
+  readonly sentInvites = this.workspaceService.sentInvites;
+  readonly receivedInvites = this.workspaceService.receivedInvites;
+  readonly loadError = this.workspaceService.error;
+  readonly isOwner = this.workspaceService.isOwnWorkspace;
+
+  readonly currentUserId = computed(() => this.auth.user()?.id ?? null);
+  readonly editableWorkspaces = computed(() => this.workspaces().filter(workspace => workspace.role !== 'viewer'));
+  readonly defaultWorkspaceId = computed(() => {
+    const preferred = this.auth.user()?.defaultWorkspaceId;
+    return this.editableWorkspaces().some(workspace => workspace.id === preferred) ? preferred! : this.currentUserId();
+  });
+
+  readonly nameInput = signal('');
+  readonly inviteEmail = signal('');
+  readonly inviteRole = signal<WorkspaceMemberRole>('editor');
+  readonly inviting = signal(false);
+  readonly savingName = signal(false);
+  readonly savingDefault = signal(false);
+  readonly pendingId = signal<string | null>(null);
+  readonly error = signal<string | null>(null);
+  readonly message = signal<string | null>(null);
+
+  // Invite emails link here with ?invite=<id>
+  readonly highlightedInviteId = toSignal(
+    this.route.queryParamMap.pipe(map(params => params.get('invite'))),
+    { initialValue: this.route.snapshot.queryParamMap.get('invite') }
+  );
+
+  private readonly syncNameInput = effect(() => {
+    this.nameInput.set(this.auth.user()?.workspaceName ?? '');
+  });
+
+  async invite(): Promise<void> {
+    const email = this.inviteEmail().trim();
+    if (!email || this.inviting()) return;
+
+    this.inviting.set(true);
+    this.resetMessages();
+    try {
+      const { emailSent } = await this.workspaceService.inviteMember(email, this.inviteRole());
+      this.inviteEmail.set('');
+      this.message.set(emailSent
+        ? `Invite sent to ${email}.`
+        : `Invite created. We couldn't email ${email}, so ask them to open Workspaces after signing in.`);
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to send invite.');
+    } finally {
+      this.inviting.set(false);
+    }
+  }
+
+  async respond(invite: WorkspaceInvite, accept: boolean): Promise<void> {
+    await this.runPending(invite.id, async () => {
+      await this.workspaceService.respondToInvite(invite.id, accept);
+      this.message.set(accept ? `You joined ${invite.workspaceName}.` : 'Invite declined.');
+      void this.router.navigate([], { relativeTo: this.route, queryParams: { invite: null }, replaceUrl: true });
+    }, 'Failed to respond to invite.');
+  }
+
+  async revoke(invite: WorkspaceInvite): Promise<void> {
+    await this.runPending(invite.id, async () => {
+      await this.workspaceService.revokeInvite(invite.id);
+    }, 'Failed to revoke invite.');
+  }
+
+  async changeRole(member: WorkspaceMember, role: WorkspaceMemberRole): Promise<void> {
+    if (role === member.role) return;
+    await this.runPending(member.userId, async () => {
+      await this.workspaceService.updateMemberRole(member.userId, role);
+      this.message.set(`${member.displayName || member.email} is now ${WORKSPACE_ROLE_LABELS[role].toLowerCase()}.`);
+    }, 'Failed to change role.');
+  }
+
+  async removeMember(member: WorkspaceMember): Promise<void> {
+    if (!confirm(`Remove ${member.displayName || member.email} from this workspace?`)) return;
+    await this.runPending(member.userId, async () => {
+      await this.workspaceService.removeMember(member.userId);
+    }, 'Failed to remove member.');
+  }
+
+  async leave(): Promise<void> {
+    const workspace = this.activeWorkspace();
+    if (!workspace || !confirm(`Leave ${workspace.name}? You'll need a new invite to rejoin.`)) return;
+    await this.runPending(workspace.id, async () => {
+      await this.workspaceService.leaveWorkspace(workspace.id);
+      this.message.set(`You left ${workspace.name}.`);
+    }, 'Failed to leave workspace.');
+  }
+
+  async saveName(): Promise<void> {
+    if (this.savingName()) return;
+
+    this.savingName.set(true);
+    this.resetMessages();
+    try {
+      await this.auth.updateWorkspaceSettings({ workspaceName: this.nameInput() });
+      this.message.set('Workspace renamed. Members see the new name next time they join or switch.');
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to rename workspace.');
+    } finally {
+      this.savingName.set(false);
+    }
+  }
+
+  async saveDefaultWorkspace(workspaceId: string): Promise<void> {
+    this.savingDefault.set(true);
+    this.resetMessages();
+    try {
+      await this.auth.updateWorkspaceSettings({ defaultWorkspaceId: workspaceId });
+      this.message.set('Forwarded receipts will go to the selected workspace.');
+    } catch (error: any) {
+      this.error.set(error?.message || 'Failed to save workspace preference.');
+    } finally {
+      this.savingDefault.set(false);
+    }
+  }
+
+  formatDate(value: WorkspaceInvite['expiresAt']): string {
+    return value ? value.toDate().toLocaleDateString() : 'soon';
+  }
+
+  private async runPending(id: string, action: () => Promise<void>, fallback: string): Promise<void> {
+    if (this.pendingId() !== null) return;
+
+    this.pendingId.set(id);
+    this.resetMessages();
+    try {
+      await action();
+    } catch (error: any) {
+      this.error.set(error?.message || fallback);
+    } finally {
+      this.pendingId.set(null);
+    }
+  }
+
+  private resetMessages(): void {
+    this.error.set(null);
+    this.message.set(null);
+  }
+}
@@ -0,0 +1,49 @@
+import { Timestamp, serverTimestamp } from 'firebase/firestore';
+
+/**
+ * Where a rule came from: written by the user, or learned from repeated
+ * category corrections
+ */
+export type CategorizationRuleSource = 'user' | 'learned';
+
+/**
+ * All set conditions must hold for a rule to match
+ */
+export interface RuleConditions {
+  merchant?: string; // Case-insensitive "contains" match on the merchant name
+  minAmount?: number;
+  maxAmount?: number;
+  keywords?: string[]; // Any keyword in merchant, notes or line items
+}
+
+export interface RuleActions {
+  categoryId?: string;
+  categoryName?: string;
+  tags?: string[];
+  folderId?: string;
+}
+
+/**
+ * Categorization rule applied to new receipts before AI classification
+ * Collection: users/{userId}/categorizationRules/{ruleId}
+ */
+export interface CategorizationRule {
+  id: string;
+  userId: string;
+  name: string;
+  enabled: boolean;
+  source: CategorizationRuleSource;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  matchCount?: number;
+  lastMatchedAt?: Timestamp;
+  createdAt: Timestamp | ReturnType<typeof serverTimestamp>;
+  updatedAt: Timestamp | ReturnType<typeof serverTimestamp>;
+}
+
+export interface ReapplyRulesResult {
+  ok: boolean;
+  scanned: number;
+  matched: number;
+  updated: number;
+}
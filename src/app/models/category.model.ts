@@ -1,3 +1,5 @@
+import { Timestamp, serverTimestamp } from 'firebase/firestore';
+
 /**
  * Predefined expense categories
  * These are global/shared across all users
@@ -8,8 +10,21 @@ export interface Category {
   icon: string;
   color: string;
   keywords: string[]; // Keywords for AI classification hints
+  isCustom?: boolean;
+}
+
+/**
+ * User-defined category
+ * Collection: users/{userId}/categories/{categoryId}
+ */
+export interface CustomCategory extends Category {
+  userId: string;
+  createdAt?: Timestamp | ReturnType<typeof serverTimestamp>;
+  updatedAt?: Timestamp | ReturnType<typeof serverTimestamp>;
 }
 
+export const CUSTOM_CATEGORY_ID_PREFIX = 'custom_';
+
 /**
  * Default categories for receipt classification
  */
@@ -142,19 +157,34 @@ export const DEFAULT_CATEGORIES: Category[] = [
   }
 ];
 
+/**
+ * Merge a user's custom categories into the defaults.
+ * Custom categories sit before "Other" and cannot replace a default ID.
+ */
+export function mergeCategories(customCategories: Category[]): Category[] {
+  const defaultIds = new Set(DEFAULT_CATEGORIES.map(c => c.id));
+  const custom = customCategories
+    .filter(c => !defaultIds.has(c.id))
+    .map(c => ({ ...c, keywords: c.keywords ?? [], isCustom: true }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const other = DEFAULT_CATEGORIES.filter(c => c.id === 'other');
+  return [...DEFAULT_CATEGORIES.filter(c => c.id !== 'other'), ...custom, ...other];
+}
+
 /**
  * Get category by ID
  */
-export function getCategoryById(id: string): Category | undefined {
-  return DEFAULT_CATEGORIES.find(c => c.id === id);
+export function getCategoryById(id: string, categories: Category[] = DEFAULT_CATEGORIES): Category | undefined {
+  return categories.find(c => c.id === id);
 }
 
 /**
  * Get category by name (case-insensitive)
  */
-export function getCategoryByName(name: string): Category | undefined {
+export function getCategoryByName(name: string, categories: Category[] = DEFAULT_CATEGORIES): Category | undefined {
   const lowerName = name.toLowerCase();
-  return DEFAULT_CATEGORIES.find(c => c.name.toLowerCase() === lowerName);
+  return categories.find(c => c.name.toLowerCase() === lowerName);
 }
 
 
@@ -18,10 +18,14 @@ export interface Merchant {
   // e.g., ["WAL-MART", "Walmart Supercenter #1234", "WM *STORE 1234"]
   aliases: string[];
 
+  // Matching index, rebuilt by Cloud Functions from the name and aliases
+  aliasKeys?: string[];
+  matchPrefixes?: string[];
+
   // Default category for this merchant (user preference)
-  defaultCategoryId?: string;
+  defaultCategoryId?: string | null;
 
-  // Usage stats
+  // Usage stats, kept current by Cloud Functions as receipts change
   receiptCount: number;
   totalSpend: number;
 
@@ -3,8 +3,34 @@ import { Timestamp, serverTimestamp } from 'firebase/firestore';
 /**
  * Receipt processing status workflow:
  * uploaded → processing → extracted → needs_review → final
+ * A receipt that can't be processed after its retries ends up 'failed'.
  */
-export type ReceiptStatus = 'uploaded' | 'processing' | 'extracted' | 'needs_review' | 'final';
+export type ReceiptStatus = 'uploaded' | 'processing' | 'extracted' | 'needs_review' | 'final' | 'failed';
+
+/**
+ * How the receipt reached the app. Receipts uploaded from the web app do not
+ * store a source, so a missing value means 'upload'.
+ */
+export type ReceiptSource = 'upload' | 'email' | 'telegram';
+
+/**
+ * What kind of entry this is. Scanned, uploaded and forwarded receipts do not
+ * store a type, so a missing value means 'receipt'. Manual and mileage entries
+ * are typed in by the user and have no file.
+ */
+export type ReceiptEntryType = 'receipt' | 'manual' | 'mileage';
+
+export type DistanceUnit = 'mi' | 'km';
+
+/**
+ * Trip details of a mileage entry. totalAmount is distance × ratePerUnit.
+ */
+export interface MileageDetails {
+  distance: number;
+  unit: DistanceUnit;
+  ratePerUnit: number;
+  purpose: string;
+}
 
 /**
  * Source of extraction data
@@ -30,13 +56,41 @@ export interface ExtractedField<T> {
   rawText?: string;
 }
 
+/**
+ * Kind of line printed on a receipt
+ */
+export type LineItemType = 'item' | 'tax' | 'discount' | 'fee';
+
 /**
  * Line item from receipt (optional, for detailed receipts)
+ * Discounts carry a negative amount so lines sum to the receipt total.
  */
 export interface LineItem {
   description: string;
   amount: number;
   quantity?: number;
+  unitPrice?: number;
+  type?: LineItemType;
+  categoryId?: string; // User-assigned category for this line
+}
+
+/**
+ * Portion of a receipt assigned to a category.
+ * Splits must sum to the receipt's totalAmount.
+ */
+export interface ReceiptSplit {
+  amount: number;
+  categoryId: string;
+  categoryName: string;
+  note?: string;
+}
+
+/**
+ * Amount of a receipt attributed to a single category
+ */
+export interface CategoryAllocation {
+  categoryId: string;
+  amount: number;
 }
 
 /**
@@ -65,6 +119,16 @@ export interface ExtractionResult {
 
   overallConfidence: number;
   rawResponse?: string; // For debugging, optional
+  version?: number; // Bumped each time the receipt is reprocessed; missing means 1
+}
+
+/**
+ * An extraction replaced by reprocessing, kept for reference
+ */
+export interface ExtractionVersion {
+  version: number;
+  extraction: ExtractionResult;
+  archivedAt: Timestamp;
 }
 
 /**
@@ -76,6 +140,17 @@ export interface ReceiptMerchant {
   rawName: string;
   matchConfidence: number;
   matchedBy: MerchantMatchType;
+  // Other merchants the name could be, best first, when the match wasn't certain
+  candidates?: MerchantCandidate[];
+}
+
+/**
+ * An existing merchant scored against the extracted name (0..1)
+ */
+export interface MerchantCandidate {
+  merchantId: string;
+  name: string;
+  score: number;
 }
 
 /**
@@ -86,6 +161,7 @@ export interface ReceiptCategory {
   name: string;
   confidence: number;
   assignedBy: CategoryAssignmentType;
+  ruleId?: string; // Set when assignedBy is 'rule'
 }
 
 export interface ReceiptEmailMetadata {
@@ -103,39 +179,170 @@ export interface ReceiptEmailMetadata {
   ingestedAt?: Timestamp | ReturnType<typeof serverTimestamp>;
 }
 
+/**
+ * The receipt total converted into the user's home currency at the rate for
+ * its transaction date
+ */
+export interface CurrencyConversion {
+  currency: string;
+  amount: number;
+  rate: number;
+  rateDate: string; // Date of the rate table used (YYYY-MM-DD)
+  transactionDate: string;
+  provider: string;
+  sourceCurrency: string;
+  sourceAmount: number;
+}
+
+/**
+ * Flag set by Cloud Functions when a receipt looks like one the user already
+ * has (same file, or same amount with a similar merchant and date)
+ */
+export type DuplicateReason = 'content_hash' | 'fuzzy_match';
+
+export interface ReceiptDuplicate {
+  status: 'suspected' | 'dismissed';
+  receiptId: string; // The receipt this one duplicates
+  reason: DuplicateReason;
+  score: number; // 0-1
+  detectedAt: Timestamp;
+  resolvedAt?: Timestamp;
+}
+
+/**
+ * Tax treatment set by the user. taxCategoryId is a line from TAX_CATEGORIES
+ * (see tax.utils); when null the line is derived from the spending category.
+ */
+export interface ReceiptTaxInfo {
+  deductible: boolean;
+  business: boolean;
+  taxCategoryId: string | null;
+}
+
+/**
+ * Who put the receipt into the workspace (set on new receipts)
+ */
+export interface ReceiptAddedBy {
+  userId: string;
+  name: string;
+}
+
+/**
+ * A correction made outside the receipt page, e.g. a reply to the Telegram
+ * bot. Values are stored as shown to the user: the category by name, the
+ * total as a number. Written by Cloud Functions.
+ */
+export type ReceiptEditField = 'merchant' | 'totalAmount' | 'date' | 'category';
+
+export interface ReceiptEdit {
+  field: ReceiptEditField;
+  from: string | number | null;
+  to: string | number;
+  assignedBy: 'user';
+  source: 'telegram';
+  userId: string;
+  editedAt: Timestamp;
+}
+
+/**
+ * Why processing stopped. Set by Cloud Functions when an attempt fails; while
+ * nextRetryAt is set the receipt stays 'processing' and is retried
+ * automatically, otherwise it is 'failed'.
+ */
+export type ProcessingFailureReason =
+  | 'model_unavailable'
+  | 'rate_limited'
+  | 'invalid_model_response'
+  | 'unreadable_file'
+  | 'file_missing'
+  | 'not_permitted'
+  | 'unknown';
+
+export interface ReceiptProcessingError {
+  reason: ProcessingFailureReason;
+  message: string;
+  retryable: boolean;
+  attempts: number;
+  failedAt: Timestamp;
+  nextRetryAt: Timestamp | null;
+}
+
+/**
+ * Values from a reprocessing run that differ from the receipt's own. Each
+ * field is accepted or rejected by the user; only fields still waiting for a
+ * decision are kept. Set by Cloud Functions.
+ */
+export type ReprocessField = 'merchant' | 'totalAmount' | 'currency' | 'date' | 'category' | 'lineItems';
+
+export interface ReprocessProposal {
+  merchant?: ReceiptMerchant;
+  totalAmount?: number;
+  currency?: string;
+  date?: string;
+  category?: ReceiptCategory;
+  lineItems?: LineItem[];
+}
+
+export interface ReceiptReprocess {
+  proposed: ReprocessProposal;
+  requestedBy: string;
+  reprocessedAt: Timestamp;
+}
+
 /**
  * Main Receipt document stored in Firestore
  * Collection: users/{userId}/receipts/{receiptId}
  */
 export interface Receipt {
   id: string;
-  userId: string;
+  userId: string; // Workspace (owner) the receipt belongs to
+  addedBy?: ReceiptAddedBy;
 
   // Status & workflow
   status: ReceiptStatus;
 
   // File storage
-  file: ReceiptFile;
+  file?: ReceiptFile; // Missing for manual and mileage entries
+  source?: ReceiptSource;
+  entryType?: ReceiptEntryType;
+  mileage?: MileageDetails; // Set for mileage entries
 
   // Extraction results (populated after processing)
   extraction?: ExtractionResult;
+  extractionVersions?: ExtractionVersion[]; // Earlier extractions, oldest first
+  reprocess?: ReceiptReprocess; // Changes from reprocessing awaiting review
 
   // Normalized merchant (populated after extraction)
   merchant?: ReceiptMerchant;
 
   // Category classification (populated after extraction)
   category?: ReceiptCategory;
+  splits?: ReceiptSplit[]; // Optional breakdown across several categories
 
   // Final values (user-confirmed or high-confidence extracted)
   totalAmount?: number;
   currency?: string;
   date?: string; // ISO date string YYYY-MM-DD
+  lineItems?: LineItem[];
+  conversion?: CurrencyConversion; // totalAmount in the user's home currency (set by Cloud Functions)
 
   // User-editable fields
   notes?: string;
   tags?: string[];
+  tax?: ReceiptTaxInfo;
   email?: ReceiptEmailMetadata;
 
+  // Duplicate detection (set by Cloud Functions)
+  contentHash?: string; // SHA-256 of the uploaded file
+  duplicate?: ReceiptDuplicate;
+  mergedReceiptIds?: string[]; // Duplicates merged into this receipt
+
+  // Corrections made outside the app (oldest first, set by Cloud Functions)
+  editHistory?: ReceiptEdit[];
+
+  // Last failed processing attempt (cleared once processing succeeds)
+  processingError?: ReceiptProcessingError;
+
   // Timestamps
   processedAt?: Timestamp | ReturnType<typeof serverTimestamp>;
   createdAt: Timestamp | ReturnType<typeof serverTimestamp>;
@@ -148,11 +355,13 @@ export interface Receipt {
 export function createReceiptDocument(
   userId: string,
   receiptId: string,
-  file: ReceiptFile
+  file: ReceiptFile,
+  addedBy?: ReceiptAddedBy
 ): Receipt {
   return {
     id: receiptId,
     userId,
+    ...(addedBy ? { addedBy } : {}),
     status: 'uploaded',
     file,
     createdAt: serverTimestamp(),
@@ -0,0 +1,49 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'annual';
+
+/**
+ * 'missed' means the next expected charge is overdue
+ */
+export type RecurringStatus = 'active' | 'missed';
+
+/**
+ * Set when the latest charge differs from the usual amount
+ */
+export interface RecurringPriceChange {
+  previousAmount: number;
+  latestAmount: number;
+  changePercent: number;
+  receiptId: string;
+}
+
+/**
+ * A merchant that charges at a regular interval, detected from receipt history
+ * and stored at users/{userId}/recurringExpenses/{id} by the
+ * refreshRecurringExpenses Cloud Functions. Amounts are in `currency`, the
+ * user's home currency.
+ */
+export interface RecurringExpense {
+  id: string;
+  userId: string;
+  merchantKey: string;
+  merchantName: string;
+  categoryId: string | null;
+  categoryName: string | null;
+  frequency: RecurringFrequency;
+  intervalDays: number;
+  typicalAmount: number;
+  lastAmount: number;
+  currency: string;
+  firstChargeDate: string; // YYYY-MM-DD
+  lastChargeDate: string; // YYYY-MM-DD
+  nextExpectedDate: string; // YYYY-MM-DD
+  occurrences: number;
+  receiptIds: string[]; // Most recent first
+  status: RecurringStatus;
+  priceChange: RecurringPriceChange | null;
+  // Set by the user when this is not actually a subscription
+  dismissed: boolean;
+  detectedAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
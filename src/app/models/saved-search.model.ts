@@ -0,0 +1,14 @@
+import { Timestamp, serverTimestamp } from 'firebase/firestore';
+
+/**
+ * A named receipt search stored at users/{userId}/savedSearches/{searchId}.
+ * `query` uses the syntax parsed by parseSearchQuery.
+ */
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  query: string;
+  createdAt: Timestamp | ReturnType<typeof serverTimestamp>;
+  updatedAt: Timestamp | ReturnType<typeof serverTimestamp>;
+}
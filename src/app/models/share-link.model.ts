@@ -13,11 +13,15 @@ export interface GraphShare {
   year: number;
   monthLabel: string;
   totalSpend: number;
+  currency?: string; // Owner's home currency; older shares are USD
   dailyData: GraphSharePoint[];
   includeName: boolean;
   includeEmail: boolean;
   ownerName?: string;
   ownerEmail?: string;
+  expiresAt?: Timestamp | null; // Missing on older shares, which never expire
+  viewCount?: number;
+  lastViewedAt?: Timestamp | null;
   createdAt: Timestamp | ReturnType<typeof serverTimestamp>;
 }
 
@@ -35,21 +39,180 @@ export interface ChatShare {
   title: string;
   messages: ChatShareMessage[];
   messageCount: number;
+  expiresAt?: Timestamp | null;
+  viewCount?: number;
+  lastViewedAt?: Timestamp | null;
   createdAt: Timestamp | ReturnType<typeof serverTimestamp>;
 }
 
+/**
+ * What an accountant link covers: receipts in any of the collections (all
+ * receipts when none are chosen), limited to the date range
+ */
+export interface AccountantShareScope {
+  folderIds: string[];
+  startDate: string | null; // YYYY-MM-DD
+  endDate: string | null;
+}
+
+/**
+ * Read-only access for an accountant, stored at accountantShares/{id}.
+ * Only the owner reads it; accountants open it with the link's key.
+ */
+export interface AccountantShare {
+  id: string;
+  userId: string;
+  ownerName: string;
+  label: string;
+  accountantEmail: string | null;
+  scope: AccountantShareScope;
+  key: string;
+  expiresAt: Timestamp;
+  revokedAt: Timestamp | null;
+  accessCount: number;
+  lastAccessedAt: Timestamp | null;
+  createdAt: Timestamp;
+}
+
+export interface AccountantAccessLogEntry {
+  id: string;
+  accessedAt: Timestamp;
+  ip: string | null;
+  userAgent: string | null;
+  receiptCount: number;
+}
+
+export interface CreateAccountantShareRequest {
+  label: string;
+  accountantEmail?: string;
+  folderIds: string[];
+  startDate?: string | null;
+  endDate?: string | null;
+  expiresInDays: number;
+}
+
+export interface AccountantShareReceipt {
+  id: string;
+  merchant: string;
+  date: string | null;
+  amount: number | null;
+  currency: string;
+  homeAmount: number | null; // In the owner's home currency
+  categoryName: string | null;
+  tags: string[];
+  notes: string;
+  entryType: string | null;
+  fileUrl: string | null; // Short-lived signed link
+  mimeType: string | null;
+}
+
+/**
+ * What the accountant sees on the public share page
+ */
+export interface AccountantShareView {
+  id: string;
+  label: string;
+  ownerName: string;
+  homeCurrency: string;
+  startDate: string | null;
+  endDate: string | null;
+  folderNames: string[];
+  expiresAt: string; // ISO timestamp
+  receipts: AccountantShareReceipt[];
+  truncated: boolean;
+}
+
+/**
+ * Public link to a snapshot of a folder, stored at folderShares/{id}. Only the
+ * owner reads it; visitors load it through getFolderShare.
+ */
+export interface FolderShare {
+  id: string;
+  userId: string;
+  workspaceId: string;
+  folderId: string;
+  folderName: string;
+  ownerName: string | null;
+  currency: string;
+  receiptCount: number;
+  totalAmount: number;
+  includeThumbnails: boolean;
+  passwordHash: string | null;
+  expiresAt: Timestamp | null;
+  revokedAt: Timestamp | null;
+  viewCount: number;
+  lastViewedAt: Timestamp | null;
+  createdAt: Timestamp;
+}
+
+export interface CreateFolderShareRequest {
+  folderId: string;
+  workspaceId: string;
+  expiresInDays: number | null;
+  password?: string;
+  includeThumbnails: boolean;
+  includeName: boolean;
+}
+
+export interface FolderShareReceipt {
+  id: string;
+  merchant: string;
+  date: string | null;
+  amount: number | null;
+  currency: string;
+  homeAmount: number | null;
+  categoryName: string | null;
+  mimeType: string | null;
+  thumbnailUrl: string | null; // Short-lived signed link
+}
+
+/**
+ * What visitors see on the public share page
+ */
+export interface FolderShareView {
+  id: string;
+  folderName: string;
+  ownerName: string | null;
+  currency: string;
+  totalAmount: number;
+  receiptCount: number;
+  expiresAt: string | null; // ISO timestamp
+  createdAt: string | null;
+  receipts: FolderShareReceipt[];
+}
+
 export type PublicShare =
   | (GraphShare & { shareType: 'graph' })
-  | (ChatShare & { shareType: 'chat' });
+  | (ChatShare & { shareType: 'chat' })
+  | (AccountantShareView & { shareType: 'accountant' })
+  | (FolderShareView & { shareType: 'folder' });
 
 export interface CreateGraphShareRequest {
   month: number;
   year: number;
   monthLabel: string;
   totalSpend: number;
+  currency: string;
   dailyData: GraphSharePoint[];
   includeName: boolean;
   includeEmail: boolean;
   ownerName?: string;
   ownerEmail?: string;
+  expiresInDays?: number | null;
+}
+
+export type ManagedShareType = 'graph' | 'chat' | 'folder';
+
+/**
+ * A graph, chat or folder share as listed on the share management page
+ */
+export interface ManagedShare {
+  id: string;
+  shareType: ManagedShareType;
+  title: string;
+  createdAt: Timestamp | null;
+  expiresAt: Timestamp | null;
+  revokedAt: Timestamp | null;
+  viewCount: number;
+  lastViewedAt: Timestamp | null;
 }
@@ -8,6 +8,16 @@ export interface NotificationSettings {
   monthlySummaryEmails: boolean;
   weeklySummaryPush: boolean;
   monthlySummaryPush: boolean;
+  budgetAlerts: boolean;
+}
+
+/**
+ * Monthly spending targets in the home currency. Categories without an entry
+ * have no budget.
+ */
+export interface MonthlyBudgets {
+  overall: number | null;
+  categories: Record<string, number>;
 }
 
 export interface UserProfile {
@@ -49,6 +59,10 @@ export interface UserProfile {
   notificationTokens?: string[];
   notificationTimeZone?: string;
   notificationSettings?: NotificationSettings;
+  homeCurrency?: string; // ISO 4217 code all totals are converted into
+  budgets?: MonthlyBudgets;
+  workspaceName?: string; // Shown to members of this user's workspace
+  defaultWorkspaceId?: string | null; // Where emailed and Telegram receipts go
   createdAt?: Timestamp | ReturnType<typeof serverTimestamp>;
   updatedAt?: Timestamp | ReturnType<typeof serverTimestamp>;
 }
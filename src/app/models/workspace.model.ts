@@ -0,0 +1,57 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Owners manage members, editors add and edit receipts, viewers only read
+ */
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+export type WorkspaceMemberRole = Exclude<WorkspaceRole, 'owner'>;
+
+/**
+ * Someone the owner shared their workspace with, stored at
+ * users/{workspaceId}/members/{userId}. The owner is not listed.
+ */
+export interface WorkspaceMember {
+  userId: string;
+  email: string;
+  displayName: string;
+  role: WorkspaceMemberRole;
+  invitedBy: string;
+  joinedAt?: Timestamp;
+}
+
+/**
+ * A shared workspace the user joined, indexed at
+ * users/{userId}/workspaceMemberships/{workspaceId}
+ */
+export interface WorkspaceMembership {
+  workspaceId: string;
+  name: string;
+  ownerName: string;
+  role: WorkspaceMemberRole;
+  joinedAt?: Timestamp;
+}
+
+export type WorkspaceInviteStatus = 'pending' | 'accepted' | 'declined' | 'revoked' | 'expired';
+
+export interface WorkspaceInvite {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  invitedBy: string;
+  invitedByName: string;
+  email: string;
+  role: WorkspaceMemberRole;
+  status: WorkspaceInviteStatus;
+  createdAt?: Timestamp;
+  expiresAt?: Timestamp;
+}
+
+/**
+ * An entry in the workspace switcher. A workspace's ID is its owner's user ID.
+ */
+export interface WorkspaceOption {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  ownerName: string;
+}
@@ -24,6 +24,8 @@ import { AppConfigService } from './app-config.service';
 import { AuthService } from './auth.service';
 import { ReceiptService } from './receipt.service';
 import { Receipt } from '../models/receipt.model';
+import { formatMoney } from '../utils/currency.utils';
+import { collectTags, hasTag } from '../utils/tag.utils';
 
 export interface ChatMessage {
   id: string;
@@ -33,6 +35,9 @@ export interface ChatMessage {
 }
 
 export interface InsightData {
+  // Currency every amount below is expressed in (the user's home currency)
+  currency: string;
+
   // Selected month (current UI context)
   totalSpend: number;
   receiptCount: number;
@@ -46,6 +51,7 @@ export interface InsightData {
     amount: number;
     date: string;
     category: string;
+    tags?: string[];
   }[];
 
   // All-time coverage
@@ -59,6 +65,9 @@ export interface InsightData {
     monthsCount: number;
   };
 
+  // Tags the user put on receipts, by spend
+  topTags: { name: string; total: number; receiptCount: number }[];
+
   // Monthly summaries for all available months
   monthlySummaries: {
     monthId: string;
@@ -74,6 +83,7 @@ export interface InsightData {
     amount: number;
     date: string;
     category: string;
+    tags?: string[];
   }[];
 }
 
@@ -321,10 +331,13 @@ export class AiInsightsService {
         this.uploadProgress.set(Math.round(progress.progress));
       });
 
+      // Uploaded receipts always have a file
+      const storagePath = receipt.file!.storagePath;
+
       // Get the download URL for the uploaded file (for immediate preview)
       let downloadUrl: string | null = null;
       try {
-        downloadUrl = await this.receiptService.getReceiptFileUrl(receipt.file.storagePath);
+        downloadUrl = await this.receiptService.getReceiptFileUrl(storagePath);
       } catch {
         // Non-critical -- receipt was uploaded, URL just not available yet
       }
@@ -334,7 +347,7 @@ export class AiInsightsService {
         this.chatThumbnails.set(messageId, downloadUrl);
         this.messages.update(msgs =>
           msgs.map(m => m.id === messageId
-            ? { ...m, content: `${attachLabel}: ${fileName} [receipt_path:${receipt.file.storagePath}]` }
+            ? { ...m, content: `${attachLabel}: ${fileName} [receipt_path:${storagePath}]` }
             : m
           )
         );
@@ -342,7 +355,7 @@ export class AiInsightsService {
         // Persist storage path even if URL couldn't be generated yet
         this.messages.update(msgs =>
           msgs.map(m => m.id === messageId
-            ? { ...m, content: `${attachLabel}: ${fileName} [receipt_path:${receipt.file.storagePath}]` }
+            ? { ...m, content: `${attachLabel}: ${fileName} [receipt_path:${storagePath}]` }
             : m
           )
         );
@@ -359,7 +372,7 @@ export class AiInsightsService {
       await this.persistChat(chatId);
 
       // Listen for processing completion on this specific receipt
-      this.watchReceiptProcessing(receipt.id, chatId);
+      this.watchReceiptProcessing(receipt, chatId);
     } catch (err: any) {
       console.error('Failed to upload receipt from chat:', err);
       const errorContent = err?.message === 'FREE_PLAN_LIMIT_REACHED'
@@ -392,6 +405,12 @@ export class AiInsightsService {
     await this.initializeChatState();
     this.error.set(null);
 
+    // Manual and mileage entries have no file to attach
+    const storagePath = receipt.file?.storagePath;
+    if (!storagePath) {
+      return;
+    }
+
     const fileName = receipt.file?.originalName || 'receipt';
     const isImage = (receipt.file?.mimeType || '').startsWith('image/');
     const attachLabel = isImage ? 'Receipt image' : 'Receipt document';
@@ -399,7 +418,7 @@ export class AiInsightsService {
 
     let downloadUrl: string | null = null;
     try {
-      downloadUrl = await this.receiptService.getReceiptFileUrl(receipt.file.storagePath);
+      downloadUrl = await this.receiptService.getReceiptFileUrl(storagePath);
     } catch {
       // Non-critical; the storage path metadata is enough to persist the attachment reference.
     }
@@ -411,7 +430,7 @@ export class AiInsightsService {
     const userMessage: ChatMessage = {
       id: messageId,
       role: 'user',
-      content: `${attachLabel}: ${fileName} [receipt_path:${receipt.file.storagePath}]`,
+      content: `${attachLabel}: ${fileName} [receipt_path:${storagePath}]`,
       timestamp: new Date()
     };
     this.messages.update(msgs => [...msgs, userMessage]);
@@ -426,7 +445,7 @@ export class AiInsightsService {
 
     const chatId = await this.ensureActiveChat();
     await this.persistChat(chatId);
-    this.watchReceiptProcessing(receipt.id, chatId);
+    this.watchReceiptProcessing(receipt, chatId);
   }
 
   /**
@@ -458,11 +477,9 @@ export class AiInsightsService {
   /**
    * Watch a receipt document for processing completion and add a follow-up chat message.
    */
-  private watchReceiptProcessing(receiptId: string, chatId: string): void {
-    const userId = this.auth.user()?.id;
-    if (!userId) return;
-
-    const receiptRef = doc(this.db, `users/${userId}/receipts`, receiptId);
+  private watchReceiptProcessing(receipt: Receipt, chatId: string): void {
+    // The receipt may have gone to a shared workspace
+    const receiptRef = doc(this.db, `users/${receipt.userId}/receipts`, receipt.id);
     const unsubscribe = onSnapshot(receiptRef, async (snap) => {
       if (!snap.exists()) return;
       const data = snap.data();
@@ -483,7 +500,7 @@ export class AiInsightsService {
         const date = data['date'] || 'Unknown date';
 
         const amountStr = amount !== undefined
-          ? new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+          ? formatMoney(amount, currency)
           : 'amount not detected';
 
         followUp =
@@ -629,7 +646,7 @@ export class AiInsightsService {
     const categoryTotals: Record<string, number> = {};
     for (const receipt of receipts) {
       const categoryName = receipt.category?.name || 'Other';
-      categoryTotals[categoryName] = (categoryTotals[categoryName] || 0) + (receipt.totalAmount || 0);
+      categoryTotals[categoryName] = (categoryTotals[categoryName] || 0) + (this.receiptService.getEffectiveAmount(receipt) ?? 0);
     }
 
     const topCategories = Object.entries(categoryTotals)
@@ -654,9 +671,10 @@ export class AiInsightsService {
     // Prepare receipt summaries
     const receiptSummaries = receipts.map(r => ({
       merchant: r.merchant?.canonicalName || r.merchant?.rawName || 'Unknown',
-      amount: r.totalAmount || 0,
+      amount: this.receiptService.getEffectiveAmount(r) ?? 0,
       date: r.date || '',
-      category: r.category?.name || 'Other'
+      category: r.category?.name || 'Other',
+      ...(r.tags?.length ? { tags: r.tags } : {})
     }));
 
     // Build monthly summaries with top categories/merchants
@@ -714,12 +732,12 @@ export class AiInsightsService {
     // Fallback to receipts if monthly summaries are missing
     if (monthlySummaries.length === 0) {
       for (const r of allReceipts) {
-        allTimeTotal += r.totalAmount || 0;
+        allTimeTotal += this.receiptService.getEffectiveAmount(r) ?? 0;
         allTimeCount += 1;
         const cat = r.category?.name || 'Other';
-        allCategoryTotals[cat] = (allCategoryTotals[cat] || 0) + (r.totalAmount || 0);
+        allCategoryTotals[cat] = (allCategoryTotals[cat] || 0) + (this.receiptService.getEffectiveAmount(r) ?? 0);
         const merchant = r.merchant?.canonicalName || r.merchant?.rawName || 'Unknown';
-        allMerchantTotals[merchant] = (allMerchantTotals[merchant] || 0) + (r.totalAmount || 0);
+        allMerchantTotals[merchant] = (allMerchantTotals[merchant] || 0) + (this.receiptService.getEffectiveAmount(r) ?? 0);
       }
     }
 
@@ -749,12 +767,26 @@ export class AiInsightsService {
       .slice(0, 50)
       .map(r => ({
         merchant: r.merchant?.canonicalName || r.merchant?.rawName || 'Unknown',
-        amount: r.totalAmount || 0,
+        amount: this.receiptService.getEffectiveAmount(r) ?? 0,
         date: r.date || '',
-        category: r.category?.name || 'Other'
+        category: r.category?.name || 'Other',
+        ...(r.tags?.length ? { tags: r.tags } : {})
       }));
 
+    // Spend per tag across all receipts
+    const topTags = collectTags(allReceipts)
+      .slice(0, 15)
+      .map(({ tag, count }) => ({
+        name: tag,
+        total: allReceipts
+          .filter(r => hasTag(r.tags, tag))
+          .reduce((sum, r) => sum + (this.receiptService.getEffectiveAmount(r) ?? 0), 0),
+        receiptCount: count
+      }))
+      .sort((a, b) => b.total - a.total);
+
     return {
+      currency: this.receiptService.homeCurrency(),
       totalSpend,
       receiptCount: receipts.length,
       monthLabel,
@@ -772,6 +804,7 @@ export class AiInsightsService {
         lastMonth,
         monthsCount: monthlySummariesData.length
       },
+      topTags,
       monthlySummaries: monthsSorted,
       recentReceipts
     };
@@ -35,7 +35,9 @@ import {
 import { getFunctions, httpsCallable } from 'firebase/functions';
 
 import { app } from '../../../environments/environments';
-import { NotificationSettings, UserProfile } from '../models/user.model';
+import { MonthlyBudgets, NotificationSettings, UserProfile } from '../models/user.model';
+import { normalizeBudgets } from '../utils/budget.utils';
+import { MAX_WORKSPACE_NAME_LENGTH } from '../utils/workspace.utils';
 
 const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
 
@@ -61,7 +63,8 @@ export class AuthService {
     weeklySummaryEmails: true,
     monthlySummaryEmails: true,
     weeklySummaryPush: true,
-    monthlySummaryPush: true
+    monthlySummaryPush: true,
+    budgetAlerts: true
   };
 
   readonly user = signal<UserProfile | null>(null);
@@ -461,7 +464,8 @@ export class AuthService {
       weeklySummaryEmails,
       monthlySummaryEmails,
       weeklySummaryPush: settings?.weeklySummaryPush ?? weeklySummaryEmails,
-      monthlySummaryPush: settings?.monthlySummaryPush ?? monthlySummaryEmails
+      monthlySummaryPush: settings?.monthlySummaryPush ?? monthlySummaryEmails,
+      budgetAlerts: settings?.budgetAlerts ?? this.defaultNotificationSettings.budgetAlerts
     };
   }
 
@@ -523,6 +527,63 @@ export class AuthService {
     });
   }
 
+  async updateBudgets(budgets: MonthlyBudgets): Promise<void> {
+    const db = this.requireDb();
+    const user = this.user();
+    if (!user) {
+      throw new Error('User not authenticated.');
+    }
+
+    const normalized = normalizeBudgets(budgets);
+    await updateDoc(doc(db, 'users', user.id), {
+      budgets: normalized,
+      updatedAt: serverTimestamp()
+    });
+
+    this.user.update((current) => {
+      if (!current) return current;
+      return {
+        ...current,
+        budgets: normalized,
+        updatedAt: serverTimestamp()
+      };
+    });
+  }
+
+  /**
+   * Rename the user's own workspace, or choose where Telegram and email
+   * receipts go (null means their own workspace)
+   */
+  async updateWorkspaceSettings(settings: { workspaceName?: string; defaultWorkspaceId?: string | null }): Promise<void> {
+    const db = this.requireDb();
+    const user = this.user();
+    if (!user) {
+      throw new Error('User not authenticated.');
+    }
+
+    const updates: Partial<Pick<UserProfile, 'workspaceName' | 'defaultWorkspaceId'>> = {};
+    if (settings.workspaceName !== undefined) {
+      updates.workspaceName = settings.workspaceName.trim().slice(0, MAX_WORKSPACE_NAME_LENGTH);
+    }
+    if (settings.defaultWorkspaceId !== undefined) {
+      updates.defaultWorkspaceId = settings.defaultWorkspaceId === user.id ? null : settings.defaultWorkspaceId;
+    }
+
+    await updateDoc(doc(db, 'users', user.id), {
+      ...updates,
+      updatedAt: serverTimestamp()
+    });
+
+    this.user.update((current) => {
+      if (!current) return current;
+      return {
+        ...current,
+        ...updates,
+        updatedAt: serverTimestamp()
+      };
+    });
+  }
+
   async changePassword(currentPassword: string, newPassword: string): Promise<void> {
     if (!this.isCurrentUserPasswordAuth()) {
       throw new Error('Password changes are only available for email/password accounts.');
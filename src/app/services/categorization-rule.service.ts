@@ -0,0 +1,200 @@
+import { Injectable, effect, inject, signal, untracked } from '@angular/core';
+import {
+  Firestore,
+  Unsubscribe,
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getFirestore,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+
+import { app } from '../../../environments/environments';
+import { WorkspaceService } from './workspace.service';
+import {
+  CategorizationRule,
+  ReapplyRulesResult,
+  RuleActions,
+  RuleConditions
+} from '../models/categorization-rule.model';
+
+export interface CategorizationRuleInput {
+  name: string;
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CategorizationRuleService {
+  private readonly db: Firestore = getFirestore(app);
+  private readonly functions = getFunctions(app);
+  private readonly workspace = inject(WorkspaceService);
+
+  readonly rules = signal<CategorizationRule[]>([]);
+  readonly isLoading = signal(false);
+  readonly error = signal<string | null>(null);
+
+  private rulesUnsubscribe: Unsubscribe | null = null;
+  private subscribedWorkspaceId: string | null = null;
+
+  // An open listener follows the workspace switcher
+  private readonly workspaceEffect = effect(() => {
+    const workspaceId = this.workspace.activeWorkspaceId();
+    if (!this.rulesUnsubscribe || workspaceId === this.subscribedWorkspaceId) return;
+    untracked(() => this.subscribeToRules());
+  });
+
+  private getRulesPath(): string {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) throw new Error('User not authenticated');
+    return `users/${userId}/categorizationRules`;
+  }
+
+  subscribeToRules(): void {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) {
+      this.rules.set([]);
+      return;
+    }
+
+    this.unsubscribeFromRules();
+    if (userId !== this.subscribedWorkspaceId) {
+      this.rules.set([]);
+    }
+    this.subscribedWorkspaceId = userId;
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    const rulesQuery = query(collection(this.db, this.getRulesPath()), orderBy('createdAt', 'desc'));
+    this.rulesUnsubscribe = onSnapshot(
+      rulesQuery,
+      (snapshot) => {
+        this.rules.set(snapshot.docs.map((ruleDoc) => ({
+          id: ruleDoc.id,
+          ...ruleDoc.data()
+        })) as CategorizationRule[]);
+        this.isLoading.set(false);
+      },
+      (error) => {
+        console.error('Error subscribing to rules:', error);
+        this.error.set('Failed to load rules');
+        this.isLoading.set(false);
+      }
+    );
+  }
+
+  unsubscribeFromRules(): void {
+    if (this.rulesUnsubscribe) {
+      this.rulesUnsubscribe();
+      this.rulesUnsubscribe = null;
+    }
+  }
+
+  async createRule(input: CategorizationRuleInput): Promise<void> {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) throw new Error('User not authenticated');
+    this.workspace.assertCanEdit();
+
+    await addDoc(collection(this.db, this.getRulesPath()), {
+      userId,
+      source: 'user',
+      matchCount: 0,
+      ...this.normalizeInput(input),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async updateRule(ruleId: string, input: CategorizationRuleInput): Promise<void> {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) throw new Error('User not authenticated');
+
+    await updateDoc(doc(this.db, `${this.getRulesPath()}/${ruleId}`), {
+      userId,
+      ...this.normalizeInput(input),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async setRuleEnabled(rule: CategorizationRule, enabled: boolean): Promise<void> {
+    await updateDoc(doc(this.db, `${this.getRulesPath()}/${rule.id}`), {
+      enabled,
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async deleteRule(ruleId: string): Promise<void> {
+    await deleteDoc(doc(this.db, `${this.getRulesPath()}/${ruleId}`));
+  }
+
+  /**
+   * Run the rules (or a single rule) over all past receipts
+   */
+  async reapplyRules(ruleId?: string): Promise<ReapplyRulesResult> {
+    const fn = httpsCallable(this.functions, 'reapplyCategorizationRules');
+    const response = await fn(ruleId ? { ruleId } : {});
+    return response.data as ReapplyRulesResult;
+  }
+
+  /**
+   * Drop empty conditions and actions, which Firestore would store as
+   * undefined and the rules engine would treat as "match anything"
+   */
+  private normalizeInput(input: CategorizationRuleInput): CategorizationRuleInput {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Rule name is required.');
+    }
+
+    const conditions: RuleConditions = {};
+    const merchant = input.conditions.merchant?.trim();
+    if (merchant) conditions.merchant = merchant;
+    if (this.isAmount(input.conditions.minAmount)) conditions.minAmount = Number(input.conditions.minAmount);
+    if (this.isAmount(input.conditions.maxAmount)) conditions.maxAmount = Number(input.conditions.maxAmount);
+    const keywords = this.cleanList(input.conditions.keywords);
+    if (keywords.length) conditions.keywords = keywords;
+
+    if (!Object.keys(conditions).length) {
+      throw new Error('Add at least one condition.');
+    }
+    if (
+      conditions.minAmount !== undefined &&
+      conditions.maxAmount !== undefined &&
+      conditions.minAmount > conditions.maxAmount
+    ) {
+      throw new Error('Minimum amount must be less than the maximum.');
+    }
+
+    const actions: RuleActions = {};
+    if (input.actions.categoryId) {
+      actions.categoryId = input.actions.categoryId;
+      actions.categoryName = input.actions.categoryName || input.actions.categoryId;
+    }
+    const tags = this.cleanList(input.actions.tags);
+    if (tags.length) actions.tags = tags;
+    if (input.actions.folderId) actions.folderId = input.actions.folderId;
+
+    if (!Object.keys(actions).length) {
+      throw new Error('Choose a category, tags or a folder for this rule.');
+    }
+
+    return { name, enabled: input.enabled, conditions, actions };
+  }
+
+  private isAmount(value: unknown): boolean {
+    return value !== null && value !== undefined && value !== '' && Number.isFinite(Number(value));
+  }
+
+  private cleanList(values: string[] | undefined): string[] {
+    return Array.from(new Set((values ?? []).map(value => value.trim()).filter(Boolean)));
+  }
+}
@@ -0,0 +1,185 @@
+import { Injectable, computed, effect, inject, signal } from '@angular/core';
+import {
+  Firestore,
+  Unsubscribe,
+  collection,
+  deleteDoc,
+  doc,
+  getFirestore,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  updateDoc
+} from 'firebase/firestore';
+
+import { app } from '../../../environments/environments';
+import { WorkspaceService } from './workspace.service';
+import {
+  CUSTOM_CATEGORY_ID_PREFIX,
+  Category,
+  CustomCategory,
+  DEFAULT_CATEGORIES,
+  getCategoryById,
+  mergeCategories
+} from '../models/category.model';
+
+export interface CategoryInput {
+  name: string;
+  icon: string;
+  color: string;
+  keywords: string[];
+}
+
+const MAX_CATEGORY_NAME_LENGTH = 60;
+const MAX_CATEGORY_KEYWORDS = 50;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CategoryService {
+  private readonly db: Firestore = getFirestore(app);
+  private readonly workspace = inject(WorkspaceService);
+
+  readonly customCategories = signal<CustomCategory[]>([]);
+  readonly error = signal<string | null>(null);
+
+  /**
+   * Default categories merged with the active workspace's own
+   */
+  readonly categories = computed<Category[]>(() => mergeCategories(this.customCategories()));
+
+  private categoriesUnsubscribe: Unsubscribe | null = null;
+  private subscribedWorkspaceId: string | null = null;
+
+  // Keep custom categories in sync with the active workspace
+  private readonly workspaceEffect = effect(() => {
+    const workspaceId = this.workspace.activeWorkspaceId();
+    if (workspaceId === this.subscribedWorkspaceId) return;
+
+    this.unsubscribeFromCategories();
+    this.subscribedWorkspaceId = workspaceId;
+    this.customCategories.set([]);
+    if (workspaceId) {
+      this.subscribeToCategories(workspaceId);
+    }
+  });
+
+  /**
+   * Look up a default or custom category. Unknown IDs resolve to "Other".
+   */
+  getCategory(id?: string | null): Category {
+    return getCategoryById(id || 'other', this.categories())
+      ?? DEFAULT_CATEGORIES.find(c => c.id === 'other')!;
+  }
+
+  findCategory(id?: string | null): Category | undefined {
+    return id ? getCategoryById(id, this.categories()) : undefined;
+  }
+
+  async createCategory(input: CategoryInput): Promise<string> {
+    const userId = this.requireUserId();
+    const data = this.normalizeInput(input);
+
+    const takenIds = new Set(this.categories().map(c => c.id));
+    const baseId = `${CUSTOM_CATEGORY_ID_PREFIX}${this.slugify(data.name)}`;
+    let categoryId = baseId;
+    for (let suffix = 2; takenIds.has(categoryId); suffix++) {
+      categoryId = `${baseId}_${suffix}`;
+    }
+
+    await setDoc(doc(this.db, `users/${userId}/categories/${categoryId}`), {
+      id: categoryId,
+      userId,
+      ...data,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+
+    return categoryId;
+  }
+
+  async updateCategory(categoryId: string, input: CategoryInput): Promise<void> {
+    const userId = this.requireUserId();
+    await updateDoc(doc(this.db, `users/${userId}/categories/${categoryId}`), {
+      userId,
+      ...this.normalizeInput(input, categoryId),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  /**
+   * Delete a custom category. Receipts keep their category snapshot and show
+   * under "Other" until they are recategorized.
+   */
+  async deleteCategory(categoryId: string): Promise<void> {
+    const userId = this.requireUserId();
+    await deleteDoc(doc(this.db, `users/${userId}/categories/${categoryId}`));
+  }
+
+  private subscribeToCategories(userId: string): void {
+    this.error.set(null);
+
+    this.categoriesUnsubscribe = onSnapshot(
+      collection(this.db, `users/${userId}/categories`),
+      (snapshot) => {
+        const categories = snapshot.docs.map((categoryDoc) => ({
+          ...categoryDoc.data(),
+          id: categoryDoc.id
+        })) as CustomCategory[];
+        this.customCategories.set(categories);
+      },
+      (error) => {
+        console.error('Error subscribing to categories:', error);
+        this.error.set('Failed to load categories');
+      }
+    );
+  }
+
+  private unsubscribeFromCategories(): void {
+    if (this.categoriesUnsubscribe) {
+      this.categoriesUnsubscribe();
+      this.categoriesUnsubscribe = null;
+    }
+  }
+
+  private normalizeInput(input: CategoryInput, currentId?: string): CategoryInput {
+    const name = input.name.trim().slice(0, MAX_CATEGORY_NAME_LENGTH);
+    if (!name) {
+      throw new Error('Category name is required.');
+    }
+
+    const duplicate = this.categories().find(c =>
+      c.id !== currentId && c.name.toLowerCase() === name.toLowerCase()
+    );
+    if (duplicate) {
+      throw new Error(`"${duplicate.name}" is already a category.`);
+    }
+
+    const keywords = Array.from(new Set(
+      input.keywords
+        .map(keyword => keyword.trim().toLowerCase())
+        .filter(Boolean)
+    )).slice(0, MAX_CATEGORY_KEYWORDS);
+
+    return {
+      name,
+      icon: input.icon.trim() || '🏷️',
+      color: /^#[0-9a-f]{6}$/i.test(input.color) ? input.color : '#64748b',
+      keywords
+    };
+  }
+
+  private slugify(value: string): string {
+    return value
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 40) || 'category';
+  }
+
+  private requireUserId(): string {
+    this.workspace.assertCanEdit();
+    return this.workspace.requireWorkspaceId();
+  }
+}
@@ -1,4 +1,4 @@
-import { Injectable, computed, inject, signal } from '@angular/core';
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
 import {
   Firestore,
   Timestamp,
@@ -17,7 +17,7 @@ import {
 import { getFirestore } from 'firebase/firestore';
 
 import { app } from '../../../environments/environments';
-import { AuthService } from './auth.service';
+import { WorkspaceService } from './workspace.service';
 import { Folder, FolderMergeEntry } from '../models/folder.model';
 import { Receipt } from '../models/receipt.model';
 
@@ -26,7 +26,7 @@ import { Receipt } from '../models/receipt.model';
 })
 export class FolderService {
   private readonly db: Firestore = getFirestore(app);
-  private readonly auth = inject(AuthService);
+  private readonly workspace = inject(WorkspaceService);
 
   readonly folders = signal<Folder[]>([]);
   readonly isLoading = signal(false);
@@ -35,24 +35,36 @@ export class FolderService {
   readonly folderCount = computed(() => this.folders().length);
 
   private foldersUnsubscribe: Unsubscribe | null = null;
+  private subscribedWorkspaceId: string | null = null;
   private autoSyncInFlight = false;
   private autoSyncQueued = false;
   private pendingAutoSyncReceipts: Receipt[] = [];
 
+  // An open folder listener follows the workspace switcher
+  private readonly workspaceEffect = effect(() => {
+    const workspaceId = this.workspace.activeWorkspaceId();
+    if (!this.foldersUnsubscribe || workspaceId === this.subscribedWorkspaceId) return;
+    untracked(() => this.subscribeToFolders());
+  });
+
   private getFoldersPath(): string {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) throw new Error('User not authenticated');
     return `users/${userId}/folders`;
   }
 
   subscribeToFolders(): void {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) {
       this.folders.set([]);
       return;
     }
 
     this.unsubscribeFromFolders();
+    if (userId !== this.subscribedWorkspaceId) {
+      this.folders.set([]);
+    }
+    this.subscribedWorkspaceId = userId;
 
     this.isLoading.set(true);
     this.error.set(null);
@@ -93,8 +105,9 @@ export class FolderService {
   }
 
   async createFolder(name: string, receiptIds: string[]): Promise<void> {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) throw new Error('User not authenticated');
+    this.workspace.assertCanEdit();
 
     const cleanedName = name.trim();
     if (!cleanedName) {
@@ -260,8 +273,9 @@ export class FolderService {
   }
 
   private async runAutoFolderSync(receipts: Receipt[]): Promise<void> {
-    const userId = this.auth.user()?.id;
-    if (!userId) {
+    const userId = this.workspace.activeWorkspaceId();
+    // Viewers can't write folders; receipts from another workspace mean a switch is in flight
+    if (!userId || !this.workspace.canEdit() || receipts.some((receipt) => receipt.userId !== userId)) {
       return;
     }
 
@@ -0,0 +1,147 @@
+import { Injectable, effect, inject, signal, untracked } from '@angular/core';
+import {
+  Firestore,
+  Unsubscribe,
+  collection,
+  doc,
+  getFirestore,
+  onSnapshot,
+  serverTimestamp,
+  updateDoc
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+
+import { app } from '../../../environments/environments';
+import { WorkspaceService } from './workspace.service';
+import { Merchant } from '../models/merchant.model';
+import { normalizeAliasList } from '../utils/merchant.utils';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class MerchantService {
+  private readonly db: Firestore = getFirestore(app);
+  private readonly functions = getFunctions(app);
+  private readonly workspace = inject(WorkspaceService);
+
+  readonly merchants = signal<Merchant[]>([]);
+  readonly isLoading = signal(false);
+  readonly error = signal<string | null>(null);
+
+  private unsubscribe: Unsubscribe | null = null;
+  private subscribedWorkspaceId: string | null = null;
+
+  // An open listener follows the workspace switcher
+  private readonly workspaceEffect = effect(() => {
+    const workspaceId = this.workspace.activeWorkspaceId();
+    if (!this.unsubscribe || workspaceId === this.subscribedWorkspaceId) return;
+    untracked(() => this.subscribeToMerchants());
+  });
+
+  subscribeToMerchants(): void {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) {
+      this.merchants.set([]);
+      return;
+    }
+
+    this.unsubscribeFromMerchants();
+    if (userId !== this.subscribedWorkspaceId) {
+      this.merchants.set([]);
+    }
+    this.subscribedWorkspaceId = userId;
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.unsubscribe = onSnapshot(
+      collection(this.db, `users/${userId}/merchants`),
+      (snapshot) => {
+        this.merchants.set(snapshot.docs.map((merchantDoc) => ({
+          ...merchantDoc.data(),
+          id: merchantDoc.id,
+          aliases: merchantDoc.get('aliases') ?? [],
+          receiptCount: merchantDoc.get('receiptCount') ?? 0,
+          totalSpend: merchantDoc.get('totalSpend') ?? 0
+        })) as Merchant[]);
+        this.isLoading.set(false);
+      },
+      (error) => {
+        console.error('Error subscribing to merchants:', error);
+        this.error.set('Failed to load merchants');
+        this.isLoading.set(false);
+      }
+    );
+  }
+
+  unsubscribeFromMerchants(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  findMerchant(merchantId: string): Merchant | undefined {
+    return this.merchants().find(merchant => merchant.id === merchantId);
+  }
+
+  /**
+   * Rename a merchant and the receipts pointing at it. Returns how many
+   * receipts were updated.
+   */
+  async renameMerchant(merchantId: string, name: string): Promise<number> {
+    const callable = httpsCallable<
+      { workspaceId: string | null; merchantId: string; name: string },
+      { ok: boolean; updatedReceipts: number }
+    >(this.functions, 'renameMerchant');
+    const response = await callable({ workspaceId: this.workspace.activeWorkspaceId(), merchantId, name });
+    return response.data.updatedReceipts;
+  }
+
+  /**
+   * Move every receipt from one merchant to another and delete the first.
+   * Returns how many receipts moved.
+   */
+  async mergeMerchants(sourceMerchantId: string, targetMerchantId: string): Promise<number> {
+    const callable = httpsCallable<
+      { workspaceId: string | null; sourceMerchantId: string; targetMerchantId: string },
+      { ok: boolean; movedReceipts: number }
+    >(this.functions, 'mergeMerchants');
+    const response = await callable({
+      workspaceId: this.workspace.activeWorkspaceId(),
+      sourceMerchantId,
+      targetMerchantId
+    });
+    return response.data.movedReceipts;
+  }
+
+  /**
+   * Recount receipts and spend for every merchant from scratch
+   */
+  async recalculateStats(): Promise<void> {
+    const callable = httpsCallable<{ workspaceId: string | null }, { ok: boolean }>(this.functions, 'recalculateMerchantStats');
+    await callable({ workspaceId: this.workspace.activeWorkspaceId() });
+  }
+
+  async updateAliases(merchantId: string, aliases: string[]): Promise<void> {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) throw new Error('User not authenticated');
+
+    await updateDoc(doc(this.db, `users/${userId}/merchants/${merchantId}`), {
+      aliases: normalizeAliasList(aliases),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  /**
+   * Category used for new receipts from this merchant when no rule matches
+   */
+  async setDefaultCategory(merchantId: string, categoryId: string | null): Promise<void> {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) throw new Error('User not authenticated');
+
+    await updateDoc(doc(this.db, `users/${userId}/merchants/${merchantId}`), {
+      defaultCategoryId: categoryId,
+      updatedAt: serverTimestamp()
+    });
+  }
+}
@@ -0,0 +1,308 @@
+import { Injectable, inject, signal } from '@angular/core';
+import {
+  Firestore,
+  Unsubscribe,
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getFirestore,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc
+} from 'firebase/firestore';
+
+import { app } from '../../../environments/environments';
+import { AuthService } from './auth.service';
+import { CategoryService } from './category.service';
+import { ReceiptService } from './receipt.service';
+import { Receipt } from '../models/receipt.model';
+import { SavedSearch } from '../models/saved-search.model';
+import { ParsedSearchQuery, SearchTerm, isEmptySearchQuery, parseSearchQuery } from '../utils/receipt-search.utils';
+
+export type SearchMatchField = 'merchant' | 'category' | 'tag' | 'items' | 'notes' | 'file' | 'email' | 'date' | 'amount';
+
+export interface ReceiptSearchResult {
+  receipt: Receipt;
+  score: number;
+  matchedFields: SearchMatchField[];
+}
+
+export interface ReceiptSearchResponse {
+  parsed: ParsedSearchQuery;
+  results: ReceiptSearchResult[];
+}
+
+/**
+ * Lower-cased searchable text of a receipt, built once per search
+ */
+interface ReceiptSearchDocument {
+  merchant: string;
+  categories: string[];
+  tags: string[];
+  items: string;
+  notes: string;
+  file: string;
+  email: string;
+  date: string | null;
+  amount: number | null;
+}
+
+// How much a free-text hit in each field counts towards the ranking
+const FIELD_WEIGHTS: Record<SearchMatchField, number> = {
+  merchant: 4,
+  category: 3,
+  tag: 3,
+  items: 2,
+  notes: 1.5,
+  email: 1,
+  file: 1,
+  date: 1,
+  amount: 1
+};
+
+const MAX_SAVED_SEARCH_NAME_LENGTH = 60;
+const MAX_SAVED_SEARCH_QUERY_LENGTH = 500;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ReceiptSearchService {
+  private readonly db: Firestore = getFirestore(app);
+  private readonly auth = inject(AuthService);
+  private readonly receiptService = inject(ReceiptService);
+  private readonly categoryService = inject(CategoryService);
+
+  readonly savedSearches = signal<SavedSearch[]>([]);
+  readonly savedSearchesError = signal<string | null>(null);
+
+  private savedSearchesUnsubscribe: Unsubscribe | null = null;
+
+  /**
+   * Run a query against all of the user's receipts, best matches first.
+   * Queries without free text are ordered by date, newest first.
+   */
+  search(queryText: string, receipts: Receipt[] = this.receiptService.receipts()): ReceiptSearchResponse {
+    const parsed = parseSearchQuery(queryText);
+    if (isEmptySearchQuery(parsed)) {
+      return { parsed, results: [] };
+    }
+
+    const results: ReceiptSearchResult[] = [];
+    for (const receipt of receipts) {
+      const result = this.matchReceipt(receipt, parsed);
+      if (result) results.push(result);
+    }
+
+    const dateKeys = new Map(results.map(result => [result.receipt.id, this.getDateKey(result.receipt) ?? '']));
+    results.sort((a, b) =>
+      b.score - a.score || (dateKeys.get(b.receipt.id) ?? '').localeCompare(dateKeys.get(a.receipt.id) ?? '')
+    );
+
+    return { parsed, results };
+  }
+
+  subscribeToSavedSearches(): void {
+    const userId = this.auth.user()?.id;
+    if (!userId) {
+      this.savedSearches.set([]);
+      return;
+    }
+
+    this.unsubscribeFromSavedSearches();
+    this.savedSearchesError.set(null);
+
+    const searchesQuery = query(collection(this.db, this.getSavedSearchesPath()), orderBy('createdAt', 'desc'));
+    this.savedSearchesUnsubscribe = onSnapshot(
+      searchesQuery,
+      (snapshot) => {
+        this.savedSearches.set(snapshot.docs.map((searchDoc) => ({
+          id: searchDoc.id,
+          ...searchDoc.data()
+        })) as SavedSearch[]);
+      },
+      (error) => {
+        console.error('Error subscribing to saved searches:', error);
+        this.savedSearchesError.set('Failed to load saved searches');
+      }
+    );
+  }
+
+  unsubscribeFromSavedSearches(): void {
+    if (this.savedSearchesUnsubscribe) {
+      this.savedSearchesUnsubscribe();
+      this.savedSearchesUnsubscribe = null;
+    }
+  }
+
+  async saveSearch(name: string, queryText: string): Promise<void> {
+    const userId = this.auth.user()?.id;
+    if (!userId) throw new Error('User not authenticated');
+
+    await addDoc(collection(this.db, this.getSavedSearchesPath()), {
+      userId,
+      ...this.normalizeSavedSearch(name, queryText),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async updateSavedSearch(searchId: string, name: string, queryText: string): Promise<void> {
+    await updateDoc(doc(this.db, `${this.getSavedSearchesPath()}/${searchId}`), {
+      ...this.normalizeSavedSearch(name, queryText),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async deleteSavedSearch(searchId: string): Promise<void> {
+    await deleteDoc(doc(this.db, `${this.getSavedSearchesPath()}/${searchId}`));
+  }
+
+  private getSavedSearchesPath(): string {
+    const userId = this.auth.user()?.id;
+    if (!userId) throw new Error('User not authenticated');
+    return `users/${userId}/savedSearches`;
+  }
+
+  private normalizeSavedSearch(name: string, queryText: string): { name: string; query: string } {
+    const trimmedName = name.trim();
+    const trimmedQuery = queryText.trim();
+    if (!trimmedName) throw new Error('Give the search a name.');
+    if (!trimmedQuery) throw new Error('There is no search to save.');
+    if (trimmedName.length > MAX_SAVED_SEARCH_NAME_LENGTH) {
+      throw new Error(`Names can be at most ${MAX_SAVED_SEARCH_NAME_LENGTH} characters.`);
+    }
+    if (trimmedQuery.length > MAX_SAVED_SEARCH_QUERY_LENGTH) {
+      throw new Error('That search is too long to save.');
+    }
+    return { name: trimmedName, query: trimmedQuery };
+  }
+
+  private matchReceipt(receipt: Receipt, parsed: ParsedSearchQuery): ReceiptSearchResult | null {
+    if (parsed.statuses.length && !parsed.statuses.includes(receipt.status)) return null;
+    if (parsed.sources.length && !parsed.sources.includes(receipt.source ?? 'upload')) return null;
+
+    const document = this.buildDocument(receipt);
+
+    if (parsed.amount) {
+      const { min, max } = parsed.amount;
+      if (document.amount === null) return null;
+      if (min !== undefined && document.amount < min - 0.005) return null;
+      if (max !== undefined && document.amount > max + 0.005) return null;
+    }
+
+    if (parsed.date) {
+      const { from, to } = parsed.date;
+      if (!document.date) return null;
+      if (from && document.date < from) return null;
+      if (to && document.date > to) return null;
+    }
+
+    let score = 0;
+    const matchedFields = new Set<SearchMatchField>();
+    for (const term of parsed.terms) {
+      const hits = this.matchTerm(term, document);
+      if (term.negated) {
+        if (hits.length) return null;
+        continue;
+      }
+      if (!hits.length) return null;
+
+      for (const hit of hits) {
+        matchedFields.add(hit.field);
+        score += hit.score;
+      }
+    }
+
+    return { receipt, score, matchedFields: Array.from(matchedFields) };
+  }
+
+  private matchTerm(term: SearchTerm, document: ReceiptSearchDocument): { field: SearchMatchField; score: number }[] {
+    const value = term.value;
+
+    switch (term.field) {
+      case 'merchant': {
+        const score = this.scoreText(document.merchant, value);
+        return score ? [{ field: 'merchant', score: score * FIELD_WEIGHTS.merchant }] : [];
+      }
+      case 'category':
+        return document.categories.some(name => name.includes(value))
+          ? [{ field: 'category', score: FIELD_WEIGHTS.category }]
+          : [];
+      case 'tag':
+        return document.tags.some(tag => tag.startsWith(value))
+          ? [{ field: 'tag', score: FIELD_WEIGHTS.tag }]
+          : [];
+      case 'notes':
+        return document.notes.includes(value) ? [{ field: 'notes', score: FIELD_WEIGHTS.notes }] : [];
+      default:
+        return this.matchFreeText(value, document);
+    }
+  }
+
+  private matchFreeText(value: string, document: ReceiptSearchDocument): { field: SearchMatchField; score: number }[] {
+    const hits: { field: SearchMatchField; score: number }[] = [];
+
+    const merchantScore = this.scoreText(document.merchant, value);
+    if (merchantScore) hits.push({ field: 'merchant', score: merchantScore * FIELD_WEIGHTS.merchant });
+    if (document.categories.some(name => name.includes(value))) hits.push({ field: 'category', score: FIELD_WEIGHTS.category });
+    if (document.tags.some(tag => tag.includes(value))) hits.push({ field: 'tag', score: FIELD_WEIGHTS.tag });
+    if (document.items.includes(value)) hits.push({ field: 'items', score: FIELD_WEIGHTS.items });
+    if (document.notes.includes(value)) hits.push({ field: 'notes', score: FIELD_WEIGHTS.notes });
+    if (document.email.includes(value)) hits.push({ field: 'email', score: FIELD_WEIGHTS.email });
+    if (document.file.includes(value)) hits.push({ field: 'file', score: FIELD_WEIGHTS.file });
+    if (document.date?.includes(value)) hits.push({ field: 'date', score: FIELD_WEIGHTS.date });
+    if (document.amount !== null && /^[\d.,]+$/.test(value) && document.amount.toFixed(2).includes(value.replace(/,/g, ''))) {
+      hits.push({ field: 'amount', score: FIELD_WEIGHTS.amount });
+    }
+
+    return hits;
+  }
+
+  /**
+   * 3 for an exact match, 2 for a prefix, 1.5 for a word prefix, 1 for any
+   * other substring, 0 for no match
+   */
+  private scoreText(text: string, value: string): number {
+    if (!text || !text.includes(value)) return 0;
+    if (text === value) return 3;
+    if (text.startsWith(value)) return 2;
+    if (text.includes(` ${value}`)) return 1.5;
+    return 1;
+  }
+
+  private buildDocument(receipt: Receipt): ReceiptSearchDocument {
+    const categoryIds = new Set<string>([
+      receipt.category?.id || 'other',
+      ...(receipt.splits ?? []).map(split => split.categoryId)
+    ]);
+    const categories = Array.from(categoryIds).flatMap(id => [
+      id.toLowerCase(),
+      this.categoryService.getCategory(id).name.toLowerCase()
+    ]);
+    if (receipt.category?.name) categories.push(receipt.category.name.toLowerCase());
+
+    return {
+      merchant: [receipt.merchant?.canonicalName, receipt.merchant?.rawName, receipt.extraction?.supplierName?.value]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase(),
+      categories,
+      tags: (receipt.tags ?? []).map(tag => tag.toLowerCase()),
+      items: (receipt.lineItems ?? []).map(item => item.description).join(' ').toLowerCase(),
+      notes: (receipt.notes ?? '').toLowerCase(),
+      file: (receipt.file?.originalName ?? '').toLowerCase(),
+      email: [receipt.email?.subject, receipt.email?.from].filter(Boolean).join(' ').toLowerCase(),
+      date: this.getDateKey(receipt),
+      amount: this.receiptService.getOriginalAmount(receipt)
+    };
+  }
+
+  private getDateKey(receipt: Receipt): string | null {
+    const date = this.receiptService.getEffectiveDate(receipt);
+    if (!date) return null;
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+}
@@ -1,4 +1,4 @@
-import { Injectable, inject, signal, computed } from '@angular/core';
+import { Injectable, inject, signal, computed, effect, untracked } from '@angular/core';
 import {
   Firestore,
   collection,
@@ -17,7 +17,10 @@ import {
   onSnapshot,
   serverTimestamp,
   getFirestore,
-  Unsubscribe
+  Unsubscribe,
+  arrayRemove,
+  arrayUnion,
+  writeBatch
 } from 'firebase/firestore';
 import {
   FirebaseStorage,
@@ -28,18 +31,32 @@ import {
   deleteObject,
   UploadTaskSnapshot
 } from 'firebase/storage';
+import { getFunctions, httpsCallable } from 'firebase/functions';
 
 import { app } from '../../../environments/environments';
 import { AppConfigService } from './app-config.service';
 import { AuthService } from './auth.service';
+import { WorkspaceService } from './workspace.service';
 import { getEffectiveSubscriptionPlan } from '../utils/subscription.utils';
+import { DEFAULT_CURRENCY, formatMoney, normalizeCurrencyCode } from '../utils/currency.utils';
+import { collectTags, mergeTags } from '../utils/tag.utils';
+import {
+  BudgetProgress,
+  CategoryBudgetProgress,
+  buildBudgetProgress,
+  normalizeBudgets
+} from '../utils/budget.utils';
 import {
   Receipt,
   ReceiptStatus,
+  CategoryAllocation,
   ReceiptFile,
+  MileageDetails,
+  ReprocessField,
   createReceiptDocument
 } from '../models/receipt.model';
 import { MonthlySummary, getMonthlySummaryId } from '../models/monthly-summary.model';
+import { computeMileageAmount, validateMileage } from '../utils/manual-entry.utils';
 
 /**
  * Allowed file types for receipt upload
@@ -71,14 +88,44 @@ export interface UploadProgress {
   state: 'running' | 'paused' | 'success' | 'error';
 }
 
+/**
+ * Result of reprocessing one receipt (see reprocessReceipts)
+ */
+export interface ReprocessResult {
+  receiptId: string;
+  outcome: 'changed' | 'unchanged' | 'skipped' | 'failed';
+  changedFields: ReprocessField[];
+  error?: string;
+}
+
+// Receipts sent per reprocessReceipts call
+const REPROCESS_CHUNK_SIZE = 10;
+
+/**
+ * What the user types in for an entry without a receipt file. For mileage
+ * entries the amount is computed from the trip and `amount` is ignored.
+ */
+export interface ManualEntryInput {
+  entryType: 'manual' | 'mileage';
+  merchant: string;
+  amount: number | null;
+  currency: string;
+  date: string; // YYYY-MM-DD
+  category: { id: string; name: string };
+  notes?: string;
+  mileage?: MileageDetails;
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class ReceiptService {
   private readonly db: Firestore = getFirestore(app);
   private readonly storage: FirebaseStorage = getStorage(app);
+  private readonly functions = getFunctions(app);
   private readonly appConfig = inject(AppConfigService);
   private readonly auth = inject(AuthService);
+  private readonly workspace = inject(WorkspaceService);
 
   // Receipts state
   readonly receipts = signal<Receipt[]>([]);
@@ -87,18 +134,36 @@ export class ReceiptService {
 
   // Active subscription
   private receiptsUnsubscribe: Unsubscribe | null = null;
+  private subscribedWorkspaceId: string | null = null;
+
+  // An open receipt listener follows the workspace switcher
+  private readonly workspaceEffect = effect(() => {
+    const workspaceId = this.workspace.activeWorkspaceId();
+    if (!this.receiptsUnsubscribe || workspaceId === this.subscribedWorkspaceId) return;
+    untracked(() => this.subscribeToReceipts());
+  });
 
   // Computed values
   readonly receiptCount = computed(() => this.receipts().length);
+  readonly homeCurrency = computed(() =>
+    normalizeCurrencyCode(this.auth.user()?.homeCurrency) ?? DEFAULT_CURRENCY
+  );
   readonly needsReviewCount = computed(() =>
     this.receipts().filter(r => r.status === 'needs_review').length
   );
+  // Receipts flagged as possible duplicates, waiting for the user to merge or dismiss
+  readonly suspectedDuplicates = computed(() =>
+    this.receipts().filter(r => r.duplicate?.status === 'suspected')
+  );
+  readonly duplicateCount = computed(() => this.suspectedDuplicates().length);
+  // Tags the user already uses, most used first (for autocomplete and filters)
+  readonly allTags = computed(() => collectTags(this.receipts()));
 
   /**
-   * Get the receipts collection path for current user
+   * Get the receipts collection path for the active workspace
    */
   private getReceiptsPath(): string {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) throw new Error('User not authenticated');
     return `users/${userId}/receipts`;
   }
@@ -107,7 +172,7 @@ export class ReceiptService {
    * Get storage path for a receipt file
    */
   private getStoragePath(fileName: string): string {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) throw new Error('User not authenticated');
     const timestamp = Date.now();
     const safeName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
@@ -140,14 +205,11 @@ export class ReceiptService {
   }
 
   /**
-   * Upload a receipt file and create Firestore document
+   * Free plans are capped at a number of receipts (manual entries included).
+   * Shared workspaces are checked against the owner's plan on the server.
    */
-  async uploadReceipt(
-    file: File,
-    onProgress?: (progress: UploadProgress) => void
-  ): Promise<Receipt> {
-    const userId = this.auth.user()?.id;
-    if (!userId) throw new Error('User not authenticated');
+  private async assertWithinPlanLimit(): Promise<void> {
+    if (!this.workspace.isOwnWorkspace()) return;
 
     const plan = getEffectiveSubscriptionPlan(this.auth.user());
     if (plan !== 'pro') {
@@ -157,6 +219,21 @@ export class ReceiptService {
         throw new Error('FREE_PLAN_LIMIT_REACHED');
       }
     }
+  }
+
+  /**
+   * Upload a receipt file and create Firestore document
+   */
+  async uploadReceipt(
+    file: File,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<Receipt> {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) throw new Error('User not authenticated');
+    this.workspace.assertCanEdit();
+    const addedBy = this.workspace.getAddedBy();
+
+    await this.assertWithinPlanLimit();
 
     // Validate file
     const validation = this.validateFile(file);
@@ -207,6 +284,7 @@ export class ReceiptService {
             const receiptsRef = collection(this.db, this.getReceiptsPath());
             const docRef = await addDoc(receiptsRef, {
               userId,
+              addedBy,
               status: 'uploaded' as ReceiptStatus,
               file: receiptFile,
               createdAt: serverTimestamp(),
@@ -216,7 +294,7 @@ export class ReceiptService {
             // Update with document ID
             await updateDoc(docRef, { id: docRef.id });
 
-            const receipt = createReceiptDocument(userId, docRef.id, receiptFile);
+            const receipt = createReceiptDocument(userId, docRef.id, receiptFile, addedBy);
 
             onProgress?.({
               bytesTransferred: file.size,
@@ -235,10 +313,10 @@ export class ReceiptService {
   }
 
   /**
-   * Subscribe to real-time receipt updates for current user
+   * Subscribe to real-time receipt updates for the active workspace
    */
   subscribeToReceipts(): void {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) {
       this.receipts.set([]);
       return;
@@ -246,6 +324,10 @@ export class ReceiptService {
 
     // Unsubscribe from previous subscription
     this.unsubscribeFromReceipts();
+    if (userId !== this.subscribedWorkspaceId) {
+      this.receipts.set([]);
+    }
+    this.subscribedWorkspaceId = userId;
 
     this.isLoading.set(true);
     this.error.set(null);
@@ -291,7 +373,7 @@ export class ReceiptService {
    * Get a single receipt by ID
    */
   async getReceipt(receiptId: string): Promise<Receipt | null> {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) throw new Error('User not authenticated');
 
     const docRef = doc(this.db, `users/${userId}/receipts`, receiptId);
@@ -308,7 +390,7 @@ export class ReceiptService {
    * Update a receipt
    */
   async updateReceipt(receiptId: string, updates: Partial<Receipt>): Promise<void> {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) throw new Error('User not authenticated');
 
     const docRef = doc(this.db, `users/${userId}/receipts`, receiptId);
@@ -318,11 +400,209 @@ export class ReceiptService {
     });
   }
 
+  /**
+   * Record an expense that has no receipt file (a cash tip, a parking meter)
+   * or a mileage claim. Entries are saved as final and skip processing.
+   * Returns the new receipt ID.
+   */
+  async createManualEntry(input: ManualEntryInput): Promise<string> {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) throw new Error('User not authenticated');
+    this.workspace.assertCanEdit();
+
+    const merchant = input.merchant.trim();
+    if (!merchant) throw new Error('Enter who you paid or what it was for.');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date)) throw new Error('Choose a date.');
+
+    let totalAmount: number;
+    let mileage: MileageDetails | null = null;
+    if (input.entryType === 'mileage') {
+      const mileageError = input.mileage ? validateMileage(input.mileage) : 'Enter the trip details.';
+      if (mileageError) throw new Error(mileageError);
+      mileage = {
+        distance: Number(input.mileage!.distance),
+        unit: input.mileage!.unit,
+        ratePerUnit: Number(input.mileage!.ratePerUnit),
+        purpose: input.mileage!.purpose.trim()
+      };
+      totalAmount = computeMileageAmount(mileage.distance, mileage.ratePerUnit);
+    } else {
+      totalAmount = Math.round(Number(input.amount) * 100) / 100;
+    }
+    if (!(totalAmount > 0)) throw new Error('Enter an amount greater than zero.');
+
+    await this.assertWithinPlanLimit();
+
+    const receiptsRef = collection(this.db, this.getReceiptsPath());
+    const docRef = await addDoc(receiptsRef, {
+      userId,
+      addedBy: this.workspace.getAddedBy(),
+      status: 'final' as ReceiptStatus,
+      entryType: input.entryType,
+      merchant: {
+        canonicalName: merchant,
+        rawName: merchant,
+        matchConfidence: 1.0,
+        matchedBy: 'manual'
+      },
+      category: {
+        id: input.category.id,
+        name: input.category.name,
+        confidence: 1.0,
+        assignedBy: 'user'
+      },
+      totalAmount,
+      currency: input.currency,
+      date: input.date,
+      notes: input.notes?.trim() || mileage?.purpose || '',
+      ...(mileage ? { mileage } : {}),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+
+    await updateDoc(docRef, { id: docRef.id });
+    return docRef.id;
+  }
+
+  /**
+   * Add tags to several receipts at once. Tags a receipt already has (in any
+   * letter case) are not added again.
+   */
+  async addTagsToReceipts(receiptIds: string[], tags: string[]): Promise<void> {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) throw new Error('User not authenticated');
+
+    const receiptMap = new Map(this.receipts().map(receipt => [receipt.id, receipt]));
+    const uniqueIds = Array.from(new Set(receiptIds));
+
+    for (let i = 0; i < uniqueIds.length; i += 400) {
+      const batch = writeBatch(this.db);
+      let writes = 0;
+
+      for (const receiptId of uniqueIds.slice(i, i + 400)) {
+        const existing = receiptMap.get(receiptId)?.tags ?? [];
+        const added = mergeTags(existing, tags).slice(existing.length);
+        if (!added.length) continue;
+
+        batch.update(doc(this.db, `users/${userId}/receipts`, receiptId), {
+          tags: arrayUnion(...added),
+          updatedAt: serverTimestamp()
+        });
+        writes++;
+      }
+
+      if (writes) {
+        await batch.commit();
+      }
+    }
+  }
+
+  /**
+   * Remove a tag from several receipts at once
+   */
+  async removeTagFromReceipts(receiptIds: string[], tag: string): Promise<void> {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) throw new Error('User not authenticated');
+
+    const target = tag.toLowerCase();
+    const receiptMap = new Map(this.receipts().map(receipt => [receipt.id, receipt]));
+    const uniqueIds = Array.from(new Set(receiptIds));
+
+    for (let i = 0; i < uniqueIds.length; i += 400) {
+      const batch = writeBatch(this.db);
+      let writes = 0;
+
+      for (const receiptId of uniqueIds.slice(i, i + 400)) {
+        const matches = (receiptMap.get(receiptId)?.tags ?? []).filter(entry => entry.toLowerCase() === target);
+        if (!matches.length) continue;
+
+        batch.update(doc(this.db, `users/${userId}/receipts`, receiptId), {
+          tags: arrayRemove(...matches),
+          updatedAt: serverTimestamp()
+        });
+        writes++;
+      }
+
+      if (writes) {
+        await batch.commit();
+      }
+    }
+  }
+
+  /**
+   * Merge a suspected duplicate into the receipt it duplicates (the duplicate
+   * is deleted), or dismiss the flag and keep both receipts
+   */
+  async resolveDuplicate(receiptId: string, action: 'merge' | 'dismiss'): Promise<void> {
+    const callable = httpsCallable<
+      { workspaceId: string | null; receiptId: string; action: 'merge' | 'dismiss' },
+      { ok: boolean }
+    >(this.functions, 'resolveDuplicateReceipt');
+    await callable({ workspaceId: this.workspace.activeWorkspaceId(), receiptId, action });
+  }
+
+  /**
+   * Run processing again for a receipt that failed. Resolves with the status
+   * the receipt ended up in.
+   */
+  async retryProcessing(receiptId: string): Promise<ReceiptStatus> {
+    const callable = httpsCallable<
+      { workspaceId: string | null; receiptId: string },
+      { ok: boolean; status: ReceiptStatus }
+    >(this.functions, 'retryReceiptProcessing');
+    const result = await callable({ workspaceId: this.workspace.activeWorkspaceId(), receiptId });
+    return result.data.status;
+  }
+
+  /**
+   * Run receipts through extraction again. Differences from the current
+   * values are stored on each receipt for the user to accept or reject.
+   * Large batches are sent a few receipts at a time.
+   */
+  async reprocessReceipts(
+    receiptIds: string[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<ReprocessResult[]> {
+    const callable = httpsCallable<
+      { workspaceId: string | null; receiptIds: string[] },
+      { ok: boolean; results: ReprocessResult[] }
+    >(this.functions, 'reprocessReceipts', { timeout: 540000 });
+
+    const results: ReprocessResult[] = [];
+    for (let i = 0; i < receiptIds.length; i += REPROCESS_CHUNK_SIZE) {
+      const chunk = receiptIds.slice(i, i + REPROCESS_CHUNK_SIZE);
+      const result = await callable({ workspaceId: this.workspace.activeWorkspaceId(), receiptIds: chunk });
+      results.push(...result.data.results);
+      onProgress?.(results.length, receiptIds.length);
+    }
+    return results;
+  }
+
+  /**
+   * Accept or reject values proposed by reprocessing. Accepted values replace
+   * the receipt's own.
+   */
+  async resolveReprocessedFields(
+    receiptId: string,
+    decisions: { accept?: ReprocessField[]; reject?: ReprocessField[] }
+  ): Promise<void> {
+    const callable = httpsCallable<
+      { workspaceId: string | null; receiptId: string; accept: ReprocessField[]; reject: ReprocessField[] },
+      { ok: boolean; remaining: ReprocessField[] }
+    >(this.functions, 'resolveReprocessedFields');
+    await callable({
+      workspaceId: this.workspace.activeWorkspaceId(),
+      receiptId,
+      accept: decisions.accept ?? [],
+      reject: decisions.reject ?? []
+    });
+  }
+
   /**
    * Delete a receipt and its associated file
    */
   async deleteReceipt(receiptId: string): Promise<void> {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) throw new Error('User not authenticated');
 
     // Get receipt to find storage path
@@ -365,7 +645,7 @@ export class ReceiptService {
    * Get receipts for a specific month
    */
   async getReceiptsForMonth(year: number, month: number): Promise<Receipt[]> {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) throw new Error('User not authenticated');
 
     const startDate = new Date(year, month - 1, 1).toISOString().split('T')[0];
@@ -390,7 +670,7 @@ export class ReceiptService {
    * Get monthly summary
    */
   async getMonthlySummary(year: number, month: number): Promise<MonthlySummary | null> {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) throw new Error('User not authenticated');
 
     const monthId = `${year}-${String(month).padStart(2, '0')}`;
@@ -405,10 +685,10 @@ export class ReceiptService {
   }
 
   /**
-   * Get all monthly summaries for the current user
+   * Get all monthly summaries for the active workspace
    */
   async getMonthlySummaries(limitCount?: number): Promise<MonthlySummary[]> {
-    const userId = this.auth.user()?.id;
+    const userId = this.workspace.activeWorkspaceId();
     if (!userId) throw new Error('User not authenticated');
 
     const summariesRef = collection(this.db, `users/${userId}/monthlySummaries`);
@@ -542,12 +822,106 @@ export class ReceiptService {
     return null;
   }
 
-  getEffectiveAmount(receipt: Receipt): number | null {
+  /**
+   * The receipt total as printed, in the receipt's own currency
+   */
+  getOriginalAmount(receipt: Receipt): number | null {
     const normalizedTopLevel = this.parseAmount(receipt.totalAmount);
     if (normalizedTopLevel !== null) return normalizedTopLevel;
     return this.parseAmount(receipt.extraction?.totalAmount?.value);
   }
 
+  getReceiptCurrency(receipt: Receipt): string {
+    return normalizeCurrencyCode(receipt.currency ?? receipt.extraction?.currency?.value) ?? this.homeCurrency();
+  }
+
+  /**
+   * The receipt total in the user's home currency, used for every total and
+   * chart. Falls back to the original amount until the conversion for the
+   * current total has been stored.
+   */
+  getEffectiveAmount(receipt: Receipt): number | null {
+    const amount = this.getOriginalAmount(receipt);
+    if (amount === null) return null;
+    return amount * this.getConversionFactor(receipt, amount);
+  }
+
+  /**
+   * Whether the receipt was paid in a currency other than the home currency
+   */
+  isForeignCurrency(receipt: Receipt): boolean {
+    return this.getReceiptCurrency(receipt) !== this.homeCurrency();
+  }
+
+  formatHomeCurrency(amount: number, options?: Intl.NumberFormatOptions): string {
+    return formatMoney(amount, this.homeCurrency(), options);
+  }
+
+  formatReceiptAmount(receipt: Receipt): string | null {
+    const amount = this.getOriginalAmount(receipt);
+    return amount === null ? null : formatMoney(amount, this.getReceiptCurrency(receipt));
+  }
+
+  /**
+   * Change the home currency; Cloud Functions re-convert existing receipts
+   */
+  async setHomeCurrency(currency: string): Promise<{ converted: number; failed: number }> {
+    const fn = httpsCallable(this.functions, 'updateHomeCurrency');
+    const response = await fn({ currency });
+    return response.data as { converted: number; failed: number };
+  }
+
+  private getConversionFactor(receipt: Receipt, amount: number): number {
+    const conversion = receipt.conversion;
+    if (
+      !conversion ||
+      conversion.currency !== this.homeCurrency() ||
+      conversion.sourceAmount !== amount ||
+      amount === 0
+    ) {
+      return 1;
+    }
+    return conversion.amount / amount;
+  }
+
+  /**
+   * How a receipt's amount is divided between categories. Splits are used when
+   * they add up to the receipt total; otherwise the whole amount belongs to the
+   * receipt's category. Amounts are in the home currency.
+   */
+  getCategoryAllocations(receipt: Receipt): CategoryAllocation[] {
+    const amount = this.getOriginalAmount(receipt);
+    if (amount === null) return [];
+    const factor = this.getConversionFactor(receipt, amount);
+
+    const allocations = new Map<string, number>();
+    for (const split of receipt.splits ?? []) {
+      const splitAmount = this.parseAmount(split?.amount);
+      if (splitAmount === null || !split.categoryId) continue;
+      allocations.set(split.categoryId, (allocations.get(split.categoryId) ?? 0) + splitAmount);
+    }
+
+    const splitTotal = Array.from(allocations.values()).reduce((sum, value) => sum + value, 0);
+    if (allocations.size > 0 && Math.abs(splitTotal - amount) < 0.01) {
+      return Array.from(allocations.entries()).map(([categoryId, value]) => ({ categoryId, amount: value * factor }));
+    }
+
+    return [{ categoryId: receipt.category?.id || 'other', amount: amount * factor }];
+  }
+
+  /**
+   * Sum receipts by category, honouring splits.
+   */
+  getCategoryTotals(receipts: Receipt[]): Map<string, number> {
+    const totals = new Map<string, number>();
+    for (const receipt of receipts) {
+      for (const allocation of this.getCategoryAllocations(receipt)) {
+        totals.set(allocation.categoryId, (totals.get(allocation.categoryId) ?? 0) + allocation.amount);
+      }
+    }
+    return totals;
+  }
+
   getEffectiveDate(receipt: Receipt): Date | null {
     const explicitDate = this.parseDateValue(receipt.date);
     if (explicitDate) return explicitDate;
@@ -631,6 +1005,33 @@ export class ReceiptService {
     });
   });
 
+  // Monthly budgets from the user profile, without blank entries
+  readonly budgets = computed(() => normalizeBudgets(this.auth.user()?.budgets));
+
+  /**
+   * Budget vs actual for the selected month. Category spend honours splits,
+   * like the monthly summaries that budget alerts are based on.
+   */
+  readonly selectedMonthBudgetProgress = computed<{
+    overall: BudgetProgress | null;
+    categories: CategoryBudgetProgress[];
+  }>(() => {
+    const budgets = this.budgets();
+    const receipts = this.selectedMonthReceipts();
+    const categoryTotals = this.getCategoryTotals(receipts);
+    const spent = receipts.reduce((sum, r) => sum + (this.getEffectiveAmount(r) ?? 0), 0);
+
+    return {
+      overall: budgets.overall ? buildBudgetProgress(budgets.overall, spent) : null,
+      categories: Object.entries(budgets.categories)
+        .map(([categoryId, budget]) => ({
+          categoryId,
+          ...buildBudgetProgress(budget, categoryTotals.get(categoryId) ?? 0)
+        }))
+        .sort((a, b) => b.ratio - a.ratio)
+    };
+  });
+
   /**
    * Get the selected month label (e.g., "December 2024")
    */
@@ -843,7 +1244,8 @@ export class ReceiptService {
       processing: [],
       extracted: [],
       needs_review: [],
-      final: []
+      final: [],
+      failed: []
     };
 
     for (const receipt of this.receipts()) {
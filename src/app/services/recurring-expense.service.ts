@@ -0,0 +1,104 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import {
+  Firestore,
+  Unsubscribe,
+  collection,
+  doc,
+  getFirestore,
+  onSnapshot,
+  updateDoc
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+
+import { app } from '../../../environments/environments';
+import { WorkspaceService } from './workspace.service';
+import { RecurringExpense } from '../models/recurring-expense.model';
+import { sortRecurringExpenses } from '../utils/recurring.utils';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class RecurringExpenseService {
+  private readonly db: Firestore = getFirestore(app);
+  private readonly functions = getFunctions(app);
+  private readonly workspace = inject(WorkspaceService);
+
+  readonly recurringExpenses = signal<RecurringExpense[]>([]);
+  readonly isLoading = signal(false);
+  readonly error = signal<string | null>(null);
+
+  readonly activeExpenses = computed(() =>
+    sortRecurringExpenses(this.recurringExpenses().filter(expense => !expense.dismissed))
+  );
+  readonly dismissedExpenses = computed(() =>
+    this.recurringExpenses().filter(expense => expense.dismissed)
+  );
+
+  private unsubscribe: Unsubscribe | null = null;
+  private subscribedWorkspaceId: string | null = null;
+
+  // An open listener follows the workspace switcher
+  private readonly workspaceEffect = effect(() => {
+    const workspaceId = this.workspace.activeWorkspaceId();
+    if (!this.unsubscribe || workspaceId === this.subscribedWorkspaceId) return;
+    untracked(() => this.subscribeToRecurringExpenses());
+  });
+
+  subscribeToRecurringExpenses(): void {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) {
+      this.recurringExpenses.set([]);
+      return;
+    }
+
+    this.unsubscribeFromRecurringExpenses();
+    if (userId !== this.subscribedWorkspaceId) {
+      this.recurringExpenses.set([]);
+    }
+    this.subscribedWorkspaceId = userId;
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.unsubscribe = onSnapshot(
+      collection(this.db, `users/${userId}/recurringExpenses`),
+      (snapshot) => {
+        this.recurringExpenses.set(snapshot.docs.map((expenseDoc) => ({
+          id: expenseDoc.id,
+          ...expenseDoc.data()
+        })) as RecurringExpense[]);
+        this.isLoading.set(false);
+      },
+      (error) => {
+        console.error('Error subscribing to recurring expenses:', error);
+        this.error.set('Failed to load recurring expenses');
+        this.isLoading.set(false);
+      }
+    );
+  }
+
+  unsubscribeFromRecurringExpenses(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  /**
+   * Re-scan all receipts now instead of waiting for the daily run
+   */
+  async refresh(): Promise<number> {
+    const callable = httpsCallable<void, { ok: boolean; count: number }>(this.functions, 'refreshRecurringExpenses');
+    const response = await callable();
+    return response.data.count;
+  }
+
+  /**
+   * Mark an entry as not recurring (or restore it). Detection keeps the flag.
+   */
+  async setDismissed(expenseId: string, dismissed: boolean): Promise<void> {
+    const userId = this.workspace.activeWorkspaceId();
+    if (!userId) throw new Error('User not authenticated');
+
+    await updateDoc(doc(this.db, `users/${userId}/recurringExpenses/${expenseId}`), { dismissed });
+  }
+}
@@ -1,23 +1,59 @@
 import { Injectable, inject } from '@angular/core';
 import {
   Firestore,
+  Timestamp,
   addDoc,
   collection,
+  deleteDoc,
   doc,
   getDoc,
+  getDocs,
   getFirestore,
-  serverTimestamp
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where
 } from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
 
 import { app } from '../../../environments/environments';
 import { AuthService } from './auth.service';
-import { ChatShare, ChatShareMessage, CreateGraphShareRequest, GraphShare, PublicShare } from '../models/share-link.model';
+import {
+  AccountantAccessLogEntry,
+  AccountantShare,
+  AccountantShareView,
+  ChatShare,
+  ChatShareMessage,
+  CreateAccountantShareRequest,
+  CreateFolderShareRequest,
+  CreateGraphShareRequest,
+  FolderShare,
+  FolderShareView,
+  GraphShare,
+  ManagedShare,
+  ManagedShareType,
+  PublicShare
+} from '../models/share-link.model';
+import { getShareExpiryDate } from '../utils/share.utils';
+
+const SHARE_COLLECTIONS: Record<ManagedShareType, string> = {
+  graph: 'graphShares',
+  chat: 'chatShares',
+  folder: 'folderShares'
+};
+
+const toExpiryTimestamp = (days: number | null): Timestamp | null => {
+  const expiresAt = getShareExpiryDate(days);
+  return expiresAt ? Timestamp.fromDate(expiresAt) : null;
+};
 
 @Injectable({
   providedIn: 'root'
 })
 export class ShareService {
   private readonly db: Firestore = getFirestore(app);
+  private readonly functions = getFunctions(app);
   private readonly auth = inject(AuthService);
 
   async createGraphShare(payload: CreateGraphShareRequest): Promise<GraphShare> {
@@ -39,11 +75,15 @@ export class ShareService {
       year: payload.year,
       monthLabel: payload.monthLabel,
       totalSpend: payload.totalSpend,
+      currency: payload.currency,
       dailyData: payload.dailyData,
       includeName: payload.includeName,
       includeEmail: payload.includeEmail,
       ownerName,
       ownerEmail,
+      expiresAt: toExpiryTimestamp(payload.expiresInDays ?? null),
+      viewCount: 0,
+      lastViewedAt: null,
       createdAt: serverTimestamp()
     };
 
@@ -61,15 +101,32 @@ export class ShareService {
       return null;
     }
 
-    const snapshot = await getDoc(doc(this.db, 'graphShares', shareId));
-    if (!snapshot.exists()) {
+    const snapshot = await this.readPublicShare('graph', shareId);
+    if (!snapshot?.exists()) {
       return null;
     }
 
     return { id: snapshot.id, ...snapshot.data() } as GraphShare;
   }
 
-  async createChatShare(chatId: string): Promise<ChatShare> {
+  /**
+   * Read a graph or chat share. Firestore refuses expired ones, so a refusal
+   * is checked with checkShareExpiry, which throws with `details.expired`.
+   */
+  private async readPublicShare(shareType: 'graph' | 'chat', shareId: string) {
+    try {
+      return await getDoc(doc(this.db, SHARE_COLLECTIONS[shareType], shareId));
+    } catch (error: any) {
+      if (error?.code !== 'permission-denied') {
+        throw error;
+      }
+      const callable = httpsCallable<{ shareType: string; shareId: string }, { ok: boolean; expired: boolean }>(this.functions, 'checkShareExpiry');
+      await callable({ shareType, shareId });
+      throw error;
+    }
+  }
+
+  async createChatShare(chatId: string, expiresInDays: number | null = null): Promise<ChatShare> {
     const user = this.auth.user();
     if (!user) {
       throw new Error('You need to be signed in to share data.');
@@ -112,6 +169,9 @@ export class ShareService {
       title: String(data.title || 'Shared conversation'),
       messages,
       messageCount: messages.length,
+      expiresAt: toExpiryTimestamp(expiresInDays),
+      viewCount: 0,
+      lastViewedAt: null,
       createdAt: serverTimestamp()
     };
 
@@ -129,19 +189,183 @@ export class ShareService {
       return null;
     }
 
-    const snapshot = await getDoc(doc(this.db, 'chatShares', shareId));
-    if (!snapshot.exists()) {
+    const snapshot = await this.readPublicShare('chat', shareId);
+    if (!snapshot?.exists()) {
       return null;
     }
 
     return { id: snapshot.id, ...snapshot.data() } as ChatShare;
   }
 
-  async getPublicShare(shareId: string): Promise<PublicShare | null> {
+  async createFolderShare(request: CreateFolderShareRequest): Promise<string> {
+    const callable = httpsCallable<CreateFolderShareRequest, { ok: boolean; shareId: string }>(this.functions, 'createFolderShare');
+    const response = await callable(request);
+    return response.data.shareId;
+  }
+
+  async listFolderShares(folderId: string): Promise<FolderShare[]> {
+    const user = this.auth.user();
+    if (!user) {
+      throw new Error('You need to be signed in to manage shares.');
+    }
+
+    const snapshot = await getDocs(query(collection(this.db, 'folderShares'), where('userId', '==', user.id)));
+    return snapshot.docs
+      .map(shareDoc => ({ id: shareDoc.id, ...shareDoc.data() }) as FolderShare)
+      .filter(share => share.folderId === folderId)
+      .sort((a, b) => (b.createdAt?.toMillis?.() ?? 0) - (a.createdAt?.toMillis?.() ?? 0));
+  }
+
+  async revokeFolderShare(shareId: string): Promise<void> {
+    const callable = httpsCallable<{ shareId: string }, { ok: boolean }>(this.functions, 'revokeFolderShare');
+    await callable({ shareId });
+  }
+
+  /**
+   * Open a folder share. Password-protected shares throw with
+   * `details.passwordRequired` until the right password is given.
+   */
+  async getFolderShare(shareId: string, password?: string): Promise<FolderShareView | null> {
+    const callable = httpsCallable<{ shareId: string; password?: string }, FolderShareView>(this.functions, 'getFolderShare');
+    try {
+      const response = await callable({ shareId, password });
+      return response.data;
+    } catch (error: any) {
+      if (error?.code === 'functions/not-found') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Every graph, chat and folder share the user has made, newest first.
+   * Accountant links are managed on their own page.
+   */
+  async listShares(): Promise<ManagedShare[]> {
+    const user = this.auth.user();
+    if (!user) {
+      throw new Error('You need to be signed in to manage shares.');
+    }
+
+    const types: ManagedShareType[] = ['graph', 'chat', 'folder'];
+    const snapshots = await Promise.all(types.map(shareType =>
+      getDocs(query(collection(this.db, SHARE_COLLECTIONS[shareType]), where('userId', '==', user.id)))
+    ));
+
+    return snapshots
+      .flatMap((snapshot, index) => snapshot.docs.map(shareDoc => {
+        const data = shareDoc.data();
+        const shareType = types[index];
+        const title = shareType === 'graph'
+          ? `Spending snapshot · ${data['monthLabel'] ?? ''}`
+          : shareType === 'chat'
+            ? String(data['title'] || 'Shared conversation')
+            : `Folder · ${data['folderName'] ?? ''}`;
+        return {
+          id: shareDoc.id,
+          shareType,
+          title,
+          createdAt: data['createdAt'] ?? null,
+          expiresAt: data['expiresAt'] ?? null,
+          revokedAt: data['revokedAt'] ?? null,
+          viewCount: data['viewCount'] ?? 0,
+          lastViewedAt: data['lastViewedAt'] ?? null
+        } as ManagedShare;
+      }))
+      .sort((a, b) => (b.createdAt?.toMillis?.() ?? 0) - (a.createdAt?.toMillis?.() ?? 0));
+  }
+
+  async updateShareExpiry(share: ManagedShare, expiresInDays: number | null): Promise<void> {
+    await updateDoc(doc(this.db, SHARE_COLLECTIONS[share.shareType], share.id), {
+      expiresAt: toExpiryTimestamp(expiresInDays)
+    });
+  }
+
+  /**
+   * Stop a link from working. Graph and chat shares are deleted; folder shares
+   * are marked revoked by a Cloud Function.
+   */
+  async revokeShare(share: ManagedShare): Promise<void> {
+    if (share.shareType === 'folder') {
+      await this.revokeFolderShare(share.id);
+      return;
+    }
+    await deleteDoc(doc(this.db, SHARE_COLLECTIONS[share.shareType], share.id));
+  }
+
+  /**
+   * Count a visit to a graph or chat share. Folder shares count their own views.
+   */
+  async recordShareView(shareType: 'graph' | 'chat', shareId: string): Promise<void> {
+    const callable = httpsCallable<{ shareType: string; shareId: string }, { ok: boolean }>(this.functions, 'recordShareView');
+    await callable({ shareType, shareId });
+  }
+
+  /**
+   * Give an accountant read-only access to some receipts. The returned link
+   * is also emailed to the accountant when an email is given.
+   */
+  async createAccountantShare(request: CreateAccountantShareRequest): Promise<{ shareId: string; link: string; emailSent: boolean }> {
+    const callable = httpsCallable<
+      CreateAccountantShareRequest,
+      { ok: boolean; shareId: string; link: string; emailSent: boolean }
+    >(this.functions, 'createAccountantAccess');
+    const response = await callable(request);
+    return { shareId: response.data.shareId, link: response.data.link, emailSent: response.data.emailSent };
+  }
+
+  async listAccountantShares(): Promise<AccountantShare[]> {
+    const user = this.auth.user();
+    if (!user) {
+      throw new Error('You need to be signed in to manage shares.');
+    }
+
+    const snapshot = await getDocs(query(collection(this.db, 'accountantShares'), where('userId', '==', user.id)));
+    return snapshot.docs
+      .map(shareDoc => ({ id: shareDoc.id, ...shareDoc.data() }) as AccountantShare)
+      .sort((a, b) => (b.createdAt?.toMillis?.() ?? 0) - (a.createdAt?.toMillis?.() ?? 0));
+  }
+
+  async getAccountantAccessLog(shareId: string): Promise<AccountantAccessLogEntry[]> {
+    const snapshot = await getDocs(
+      query(collection(this.db, `accountantShares/${shareId}/accessLog`), orderBy('accessedAt', 'desc'))
+    );
+    return snapshot.docs.map(entryDoc => ({ id: entryDoc.id, ...entryDoc.data() }) as AccountantAccessLogEntry);
+  }
+
+  async revokeAccountantShare(shareId: string): Promise<void> {
+    const callable = httpsCallable<{ shareId: string }, { ok: boolean }>(this.functions, 'revokeAccountantAccess');
+    await callable({ shareId });
+  }
+
+  /**
+   * Open an accountant link. Throws with the reason when the link was revoked
+   * or has expired.
+   */
+  async getAccountantShare(shareId: string, key: string): Promise<AccountantShareView> {
+    const callable = httpsCallable<{ shareId: string; key: string }, AccountantShareView>(this.functions, 'getAccountantShare');
+    const response = await callable({ shareId, key });
+    return response.data;
+  }
+
+  /**
+   * Load a public share. Accountant links carry a key; the other types don't.
+   * Folder shares are checked last because they go through a Cloud Function.
+   */
+  async getPublicShare(shareId: string, key?: string | null, password?: string): Promise<PublicShare | null> {
     if (!shareId) {
       return null;
     }
 
+    if (key) {
+      const accountantShare = await this.getAccountantShare(shareId, key);
+      return {
+        ...accountantShare,
+        shareType: 'accountant'
+      };
+    }
+
     const graphShare = await this.getGraphShare(shareId);
     if (graphShare) {
       return {
@@ -158,6 +382,14 @@ export class ShareService {
       };
     }
 
+    const folderShare = await this.getFolderShare(shareId, password);
+    if (folderShare) {
+      return {
+        ...folderShare,
+        shareType: 'folder'
+      };
+    }
+
     return null;
   }
 }
@@ -0,0 +1,280 @@
+import { Injectable, computed, effect, inject, signal } from '@angular/core';
+import {
+  Firestore,
+  Unsubscribe,
+  collection,
+  getFirestore,
+  onSnapshot,
+  query,
+  where
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+
+import { app } from '../../../environments/environments';
+import { AuthService } from './auth.service';
+import { ReceiptAddedBy } from '../models/receipt.model';
+import {
+  WorkspaceInvite,
+  WorkspaceMember,
+  WorkspaceMemberRole,
+  WorkspaceMembership,
+  WorkspaceOption
+} from '../models/workspace.model';
+import { buildWorkspaceOptions, canEditWithRole, getOwnWorkspaceName } from '../utils/workspace.utils';
+
+const ACTIVE_WORKSPACE_STORAGE_KEY = 'activeWorkspaceId';
+
+/**
+ * Shared workspaces. A workspace is an account's receipts, folders and
+ * merchants (users/{workspaceId}/...), so its ID is the owner's user ID. Data
+ * services read and write under `activeWorkspaceId()` and follow the switcher.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WorkspaceService {
+  private readonly db: Firestore = getFirestore(app);
+  private readonly functions = getFunctions(app);
+  private readonly auth = inject(AuthService);
+
+  readonly memberships = signal<WorkspaceMembership[]>([]);
+  readonly members = signal<WorkspaceMember[]>([]); // Of the active workspace
+  readonly sentInvites = signal<WorkspaceInvite[]>([]); // Pending invites to the user's own workspace
+  readonly receivedInvites = signal<WorkspaceInvite[]>([]);
+  readonly error = signal<string | null>(null);
+
+  private readonly selectedWorkspaceId = signal<string | null>(this.readStoredWorkspaceId());
+
+  readonly workspaces = computed<WorkspaceOption[]>(() => {
+    const user = this.auth.user();
+    if (!user) return [];
+
+    const ownerName = `${user.firstName} ${user.lastName}`.trim() || user.email;
+    return buildWorkspaceOptions(
+      { id: user.id, name: getOwnWorkspaceName(user), ownerName },
+      this.memberships()
+    );
+  });
+
+  /**
+   * The selected workspace, or the user's own when the selection is gone
+   * (e.g. they were removed from it)
+   */
+  readonly activeWorkspace = computed<WorkspaceOption | null>(() => {
+    const workspaces = this.workspaces();
+    return workspaces.find(workspace => workspace.id === this.selectedWorkspaceId()) ?? workspaces[0] ?? null;
+  });
+  readonly activeWorkspaceId = computed(() => this.activeWorkspace()?.id ?? null);
+  readonly activeRole = computed(() => this.activeWorkspace()?.role ?? null);
+  readonly canEdit = computed(() => canEditWithRole(this.activeRole()));
+  readonly isOwnWorkspace = computed(() => this.activeRole() === 'owner');
+
+  private userUnsubscribes: Unsubscribe[] = [];
+  private membersUnsubscribe: Unsubscribe | null = null;
+  private subscribedUserId: string | null = null;
+  private subscribedWorkspaceId: string | null = null;
+
+  // Memberships and invites follow whoever is signed in
+  private readonly userEffect = effect(() => {
+    const user = this.auth.user();
+    const userId = user?.id ?? null;
+    if (userId === this.subscribedUserId) return;
+
+    this.unsubscribeFromUser();
+    this.subscribedUserId = userId;
+    if (user) {
+      this.subscribeToUser(user.id, user.email);
+    } else {
+      this.memberships.set([]);
+      this.sentInvites.set([]);
+      this.receivedInvites.set([]);
+    }
+  });
+
+  // Member list follows the workspace switcher
+  private readonly membersEffect = effect(() => {
+    const workspaceId = this.activeWorkspaceId();
+    if (workspaceId === this.subscribedWorkspaceId) return;
+
+    this.unsubscribeFromMembers();
+    this.subscribedWorkspaceId = workspaceId;
+    this.members.set([]);
+    if (workspaceId) {
+      this.membersUnsubscribe = onSnapshot(
+        collection(this.db, `users/${workspaceId}/members`),
+        (snapshot) => {
+          this.members.set(snapshot.docs.map(memberDoc => ({
+            ...memberDoc.data(),
+            userId: memberDoc.id
+          })) as WorkspaceMember[]);
+        },
+        (error) => console.error('Error subscribing to workspace members:', error)
+      );
+    }
+  });
+
+  selectWorkspace(workspaceId: string): void {
+    this.selectedWorkspaceId.set(workspaceId);
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(ACTIVE_WORKSPACE_STORAGE_KEY, workspaceId);
+    }
+  }
+
+  requireWorkspaceId(): string {
+    const workspaceId = this.activeWorkspaceId();
+    if (!workspaceId) throw new Error('User not authenticated');
+    return workspaceId;
+  }
+
+  /**
+   * Throws unless the user can add and change data in the active workspace
+   */
+  assertCanEdit(): void {
+    if (!this.canEdit()) {
+      throw new Error('You have view-only access to this workspace.');
+    }
+  }
+
+  /**
+   * Stamp for new receipts, shown as "Added by" to other members
+   */
+  getAddedBy(): ReceiptAddedBy {
+    const user = this.auth.user();
+    if (!user) throw new Error('User not authenticated');
+    return {
+      userId: user.id,
+      name: (`${user.firstName} ${user.lastName}`.trim() || user.email).slice(0, 120)
+    };
+  }
+
+  async inviteMember(email: string, role: WorkspaceMemberRole): Promise<{ emailSent: boolean }> {
+    const callable = httpsCallable<
+      { email: string; role: WorkspaceMemberRole },
+      { ok: boolean; inviteId: string; emailSent: boolean }
+    >(this.functions, 'inviteWorkspaceMember');
+    const response = await callable({ email: email.trim(), role });
+    return { emailSent: response.data.emailSent };
+  }
+
+  /**
+   * Accept or decline an invite. Accepting switches to the new workspace.
+   */
+  async respondToInvite(inviteId: string, accept: boolean): Promise<void> {
+    const callable = httpsCallable<
+      { inviteId: string; accept: boolean },
+      { ok: boolean; workspaceId: string | null }
+    >(this.functions, 'respondToWorkspaceInvite');
+    const response = await callable({ inviteId, accept });
+    if (response.data.workspaceId) {
+      this.selectWorkspace(response.data.workspaceId);
+    }
+  }
+
+  async revokeInvite(inviteId: string): Promise<void> {
+    const callable = httpsCallable<{ inviteId: string }, { ok: boolean }>(this.functions, 'revokeWorkspaceInvite');
+    await callable({ inviteId });
+  }
+
+  async updateMemberRole(memberId: string, role: WorkspaceMemberRole): Promise<void> {
+    const callable = httpsCallable<{ memberId: string; role: WorkspaceMemberRole }, { ok: boolean }>(
+      this.functions,
+      'updateWorkspaceMemberRole'
+    );
+    await callable({ memberId, role });
+  }
+
+  /**
+   * Remove a member from the user's own workspace
+   */
+  async removeMember(memberId: string): Promise<void> {
+    const userId = this.auth.user()?.id;
+    if (!userId) throw new Error('User not authenticated');
+    await this.callRemoveMember(userId, memberId);
+  }
+
+  async leaveWorkspace(workspaceId: string): Promise<void> {
+    const userId = this.auth.user()?.id;
+    if (!userId) throw new Error('User not authenticated');
+    await this.callRemoveMember(workspaceId, userId);
+    if (this.selectedWorkspaceId() === workspaceId) {
+      this.selectWorkspace(userId);
+    }
+  }
+
+  private async callRemoveMember(workspaceId: string, memberId: string): Promise<void> {
+    const callable = httpsCallable<{ workspaceId: string; memberId: string }, { ok: boolean }>(
+      this.functions,
+      'removeWorkspaceMember'
+    );
+    await callable({ workspaceId, memberId });
+  }
+
+  private subscribeToUser(userId: string, email: string): void {
+    this.error.set(null);
+
+    const onError = (label: string) => (error: unknown) => {
+      console.error(`Error subscribing to ${label}:`, error);
+      this.error.set('Failed to load workspaces');
+    };
+
+    this.userUnsubscribes = [
+      onSnapshot(
+        collection(this.db, `users/${userId}/workspaceMemberships`),
+        (snapshot) => {
+          this.memberships.set(snapshot.docs.map(membershipDoc => ({
+            ...membershipDoc.data(),
+            workspaceId: membershipDoc.id
+          })) as WorkspaceMembership[]);
+        },
+        onError('workspace memberships')
+      ),
+      onSnapshot(
+        query(
+          collection(this.db, 'workspaceInvites'),
+          where('workspaceId', '==', userId),
+          where('status', '==', 'pending')
+        ),
+        (snapshot) => {
+          this.sentInvites.set(snapshot.docs.map(inviteDoc => ({
+            ...inviteDoc.data(),
+            id: inviteDoc.id
+          })) as WorkspaceInvite[]);
+        },
+        onError('sent workspace invites')
+      )
+    ];
+
+    if (email) {
+      this.userUnsubscribes.push(onSnapshot(
+        query(
+          collection(this.db, 'workspaceInvites'),
+          where('email', '==', email.trim().toLowerCase()),
+          where('status', '==', 'pending')
+        ),
+        (snapshot) => {
+          this.receivedInvites.set(snapshot.docs.map(inviteDoc => ({
+            ...inviteDoc.data(),
+            id: inviteDoc.id
+          })) as WorkspaceInvite[]);
+        },
+        onError('received workspace invites')
+      ));
+    }
+  }
+
+  private unsubscribeFromUser(): void {
+    this.userUnsubscribes.forEach(unsubscribe => unsubscribe());
+    this.userUnsubscribes = [];
+  }
+
+  private unsubscribeFromMembers(): void {
+    if (this.membersUnsubscribe) {
+      this.membersUnsubscribe();
+      this.membersUnsubscribe = null;
+    }
+  }
+
+  private readStoredWorkspaceId(): string | null {
+    return typeof localStorage === 'undefined' ? null : localStorage.getItem(ACTIVE_WORKSPACE_STORAGE_KEY);
+  }
+}
@@ -0,0 +1,48 @@
+import { AccountantShareReceipt } from '../models/share-link.model';
+import { buildAccountantCsv, describeAccountantScope, getAccountantShareStatus } from './accountant-share.utils';
+
+const receipt = (overrides: Partial<AccountantShareReceipt>): AccountantShareReceipt => ({
+  id: 'r1',
+  merchant: 'Cafe',
+  date: '2025-03-04',
+  amount: 12.5,
+  currency: 'USD',
+  homeAmount: 12.5,
+  categoryName: 'Food',
+  tags: [],
+  notes: '',
+  entryType: null,
+  fileUrl: null,
+  mimeType: null,
+  ...overrides
+});
+
+describe('accountant share utils', () => {
+  it('reports revoked before expired', () => {
+    const expiresAt = { toMillis: () => 1000 };
+    expect(getAccountantShareStatus({ revokedAt: null, expiresAt }, 500)).toBe('active');
+    expect(getAccountantShareStatus({ revokedAt: null, expiresAt }, 1000)).toBe('expired');
+    expect(getAccountantShareStatus({ revokedAt: {}, expiresAt }, 2000)).toBe('revoked');
+  });
+
+  it('describes the scope', () => {
+    expect(describeAccountantScope({ folderIds: [], startDate: '2025-01-01', endDate: '2025-12-31' }, []))
+      .toBe('All receipts · 2025-01-01 to 2025-12-31');
+    expect(describeAccountantScope({ folderIds: ['a', 'b'], startDate: null, endDate: null }, ['Business', 'Travel']))
+      .toBe('Business, Travel');
+  });
+
+  it('builds a CSV with quoted values and a home currency total', () => {
+    const csv = buildAccountantCsv([
+      receipt({ merchant: 'Smith, Jones & Co', tags: ['client', 'q1'] }),
+      receipt({ id: 'r2', amount: 10, currency: 'EUR', homeAmount: 11, notes: 'Said "thanks"' })
+    ], 'USD');
+
+    expect(csv.split('\n')).toEqual([
+      'Date,Merchant,Category,Amount,Currency,Amount (USD),Tags,Notes',
+      '2025-03-04,"Smith, Jones & Co",Food,12.50,USD,12.50,client; q1,',
+      '2025-03-04,Cafe,Food,10.00,EUR,11.00,,"Said ""thanks"""',
+      'Total,,,,,23.50,,'
+    ]);
+  });
+});
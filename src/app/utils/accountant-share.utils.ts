@@ -0,0 +1,58 @@
+import { AccountantShareReceipt, AccountantShareScope } from '../models/share-link.model';
+
+export type AccountantShareStatus = 'active' | 'expired' | 'revoked';
+
+export const ACCOUNTANT_SHARE_EXPIRY_OPTIONS = [7, 14, 30, 60, 90];
+
+export function getAccountantShareStatus(
+  share: { revokedAt: unknown; expiresAt: { toMillis(): number } },
+  now = Date.now()
+): AccountantShareStatus {
+  if (share.revokedAt) return 'revoked';
+  return share.expiresAt.toMillis() <= now ? 'expired' : 'active';
+}
+
+/**
+ * One-line summary of a link's scope, e.g. "Business, Travel · 2025-01-01 to 2025-12-31"
+ */
+export function describeAccountantScope(scope: AccountantShareScope, folderNames: string[]): string {
+  const parts: string[] = [folderNames.length ? folderNames.join(', ') : 'All receipts'];
+  if (scope.startDate && scope.endDate) {
+    parts.push(`${scope.startDate} to ${scope.endDate}`);
+  } else if (scope.startDate) {
+    parts.push(`from ${scope.startDate}`);
+  } else if (scope.endDate) {
+    parts.push(`until ${scope.endDate}`);
+  }
+  return parts.join(' · ');
+}
+
+const escapeCsvValue = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * CSV of shared receipts with a total row in the owner's home currency
+ */
+export function buildAccountantCsv(receipts: AccountantShareReceipt[], homeCurrency: string): string {
+  const rows = [
+    ['Date', 'Merchant', 'Category', 'Amount', 'Currency', `Amount (${homeCurrency})`, 'Tags', 'Notes']
+  ];
+
+  let total = 0;
+  for (const receipt of receipts) {
+    total += receipt.homeAmount ?? 0;
+    rows.push([
+      receipt.date ?? '',
+      receipt.merchant,
+      receipt.categoryName ?? '',
+      receipt.amount !== null ? receipt.amount.toFixed(2) : '',
+      receipt.currency,
+      receipt.homeAmount !== null ? receipt.homeAmount.toFixed(2) : '',
+      receipt.tags.join('; '),
+      receipt.notes
+    ]);
+  }
+  rows.push(['Total', '', '', '', '', total.toFixed(2), '', '']);
+
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\n');
+}
@@ -0,0 +1,34 @@
+import { buildBudgetProgress, getBudgetLevel, hasBudgets, normalizeBudgets } from './budget.utils';
+
+describe('budget utils', () => {
+  it('drops blank and invalid budgets', () => {
+    expect(normalizeBudgets({
+      overall: '1500.456',
+      categories: { groceries: 400, dining: 0, travel: 'abc', fuel: '120' }
+    })).toEqual({
+      overall: 1500.46,
+      categories: { groceries: 400, fuel: 120 }
+    });
+    expect(normalizeBudgets(null)).toEqual({ overall: null, categories: {} });
+  });
+
+  it('detects whether any budget is set', () => {
+    expect(hasBudgets({ overall: null, categories: {} })).toBeFalse();
+    expect(hasBudgets({ overall: null, categories: { dining: 50 } })).toBeTrue();
+  });
+
+  it('classifies spend against the 80% and 100% thresholds', () => {
+    expect(getBudgetLevel(0.5)).toBe('ok');
+    expect(getBudgetLevel(0.8)).toBe('warning');
+    expect(getBudgetLevel(1)).toBe('over');
+  });
+
+  it('caps the bar width but keeps the real ratio', () => {
+    const progress = buildBudgetProgress(200, 250);
+
+    expect(progress.percent).toBe(100);
+    expect(progress.ratio).toBe(1.25);
+    expect(progress.remaining).toBe(-50);
+    expect(progress.level).toBe('over');
+  });
+});
@@ -0,0 +1,75 @@
+import { MonthlyBudgets } from '../models/user.model';
+
+/**
+ * Share of a budget at which it is shown (and alerted) as nearly used up
+ */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export type BudgetLevel = 'ok' | 'warning' | 'over';
+
+export interface BudgetProgress {
+  budget: number;
+  spent: number;
+  remaining: number;
+  ratio: number;
+  // Width for progress bars, capped at 100
+  percent: number;
+  level: BudgetLevel;
+}
+
+export interface CategoryBudgetProgress extends BudgetProgress {
+  categoryId: string;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+function normalizeBudgetAmount(value: unknown): number | null {
+  const amount = typeof value === 'string' ? Number.parseFloat(value) : value;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    return null;
+  }
+  return roundCurrency(amount);
+}
+
+/**
+ * Clean up budgets before saving: blank, zero or invalid amounts are removed.
+ */
+export function normalizeBudgets(budgets: {
+  overall?: unknown;
+  categories?: Record<string, unknown>;
+} | null | undefined): MonthlyBudgets {
+  const categories: Record<string, number> = {};
+  for (const [categoryId, value] of Object.entries(budgets?.categories ?? {})) {
+    const amount = normalizeBudgetAmount(value);
+    if (categoryId && amount !== null) {
+      categories[categoryId] = amount;
+    }
+  }
+
+  return {
+    overall: normalizeBudgetAmount(budgets?.overall),
+    categories
+  };
+}
+
+export function hasBudgets(budgets: MonthlyBudgets | null | undefined): boolean {
+  return !!budgets?.overall || Object.keys(budgets?.categories ?? {}).length > 0;
+}
+
+export function getBudgetLevel(ratio: number): BudgetLevel {
+  if (ratio >= 1) return 'over';
+  if (ratio >= BUDGET_WARNING_RATIO) return 'warning';
+  return 'ok';
+}
+
+export function buildBudgetProgress(budget: number, spent: number): BudgetProgress {
+  const ratio = budget > 0 ? spent / budget : 0;
+  return {
+    budget,
+    spent: roundCurrency(spent),
+    remaining: roundCurrency(budget - spent),
+    ratio,
+    percent: Math.min(100, Math.max(0, ratio * 100)),
+    level: getBudgetLevel(ratio)
+  };
+}
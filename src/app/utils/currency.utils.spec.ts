@@ -0,0 +1,24 @@
+import { formatMoney, normalizeCurrencyCode } from './currency.utils';
+
+describe('normalizeCurrencyCode', () => {
+  it('maps common symbols to ISO codes', () => {
+    expect(normalizeCurrencyCode('€')).toBe('EUR');
+    expect(normalizeCurrencyCode('£')).toBe('GBP');
+  });
+
+  it('upper-cases codes and rejects anything else', () => {
+    expect(normalizeCurrencyCode(' cad ')).toBe('CAD');
+    expect(normalizeCurrencyCode('dollars')).toBeNull();
+    expect(normalizeCurrencyCode(undefined)).toBeNull();
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats in the requested currency', () => {
+    expect(formatMoney(12.5, 'EUR')).toBe('€12.50');
+  });
+
+  it('defaults to US dollars when the currency is missing', () => {
+    expect(formatMoney(3, null)).toBe('$3.00');
+  });
+});
@@ -0,0 +1,82 @@
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Currencies offered as a home currency. Receipts in any other ISO code are
+ * still converted when the rate provider knows it.
+ */
+export const SUPPORTED_CURRENCIES: { code: string; name: string }[] = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'NZD', name: 'New Zealand Dollar' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'CNY', name: 'Chinese Yuan' },
+  { code: 'HKD', name: 'Hong Kong Dollar' },
+  { code: 'SGD', name: 'Singapore Dollar' },
+  { code: 'INR', name: 'Indian Rupee' },
+  { code: 'KRW', name: 'South Korean Won' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'SEK', name: 'Swedish Krona' },
+  { code: 'NOK', name: 'Norwegian Krone' },
+  { code: 'DKK', name: 'Danish Krone' },
+  { code: 'PLN', name: 'Polish Zloty' },
+  { code: 'MXN', name: 'Mexican Peso' },
+  { code: 'BRL', name: 'Brazilian Real' },
+  { code: 'ZAR', name: 'South African Rand' },
+  { code: 'AED', name: 'UAE Dirham' },
+  { code: 'NGN', name: 'Nigerian Naira' },
+  { code: 'KES', name: 'Kenyan Shilling' },
+  { code: 'XAF', name: 'Central African CFA Franc' },
+  { code: 'CDF', name: 'Congolese Franc' }
+];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  'US$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₩': 'KRW',
+  'C$': 'CAD',
+  'A$': 'AUD',
+  'R$': 'BRL',
+  '₦': 'NGN'
+};
+
+/**
+ * Normalize a currency symbol or code ("€", "eur") to an ISO 4217 code.
+ */
+export const normalizeCurrencyCode = (value: unknown): string | null => {
+  const raw = String(value ?? '').trim();
+  if (!raw) return null;
+
+  const symbol = CURRENCY_SYMBOLS[raw] ?? CURRENCY_SYMBOLS[raw.toUpperCase()];
+  if (symbol) return symbol;
+
+  const code = raw.toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+};
+
+/**
+ * Format an amount in the given currency, falling back to "12.34 XYZ" for
+ * codes Intl does not know.
+ */
+export const formatMoney = (
+  amount: number,
+  currency: string | null | undefined = DEFAULT_CURRENCY,
+  options: Intl.NumberFormatOptions = {}
+): string => {
+  const code = normalizeCurrencyCode(currency) ?? DEFAULT_CURRENCY;
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: code,
+      ...options
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${code}`;
+  }
+};
@@ -0,0 +1,43 @@
+import {
+  computeMileageAmount,
+  formatMileage,
+  getEntryExportLines,
+  isManualEntry,
+  validateMileage
+} from './manual-entry.utils';
+
+describe('manual entry utils', () => {
+  it('treats entries without a type as scanned receipts', () => {
+    expect(isManualEntry({})).toBeFalse();
+    expect(isManualEntry({ entryType: 'mileage' })).toBeTrue();
+  });
+
+  it('computes the mileage amount to the cent', () => {
+    expect(computeMileageAmount(42.5, 0.7)).toBe(29.75);
+    expect(computeMileageAmount(-3, 0.7)).toBe(0);
+  });
+
+  it('requires distance, rate and purpose', () => {
+    expect(validateMileage({ distance: 0, unit: 'mi', ratePerUnit: 0.7, purpose: 'Client visit' })).toBe('Enter the distance driven.');
+    expect(validateMileage({ distance: 10, unit: 'km', ratePerUnit: 0, purpose: 'Client visit' })).toBe('Enter a rate per km.');
+    expect(validateMileage({ distance: 10, unit: 'mi', ratePerUnit: 0.7, purpose: ' ' })).toBe('Describe the purpose of the trip.');
+    expect(validateMileage({ distance: 10, unit: 'mi', ratePerUnit: 0.7, purpose: 'Client visit' })).toBeNull();
+  });
+
+  it('describes a trip', () => {
+    expect(formatMileage({ distance: 42, unit: 'mi', ratePerUnit: 0.7, purpose: 'Client visit' })).toBe('42 miles × 0.70');
+  });
+
+  it('skips notes that only repeat the trip purpose on exports', () => {
+    const mileage = { distance: 12, unit: 'km' as const, ratePerUnit: 0.44, purpose: 'Site visit' };
+    expect(getEntryExportLines({ entryType: 'mileage', mileage, notes: 'Site visit' })).toEqual([
+      'Mileage log (no receipt)',
+      'Trip: 12 km × 0.44',
+      'Purpose: Site visit'
+    ]);
+    expect(getEntryExportLines({ entryType: 'manual', notes: 'Parking meter' })).toEqual([
+      'Manual entry (no receipt)',
+      'Notes: Parking meter'
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import { DistanceUnit, MileageDetails, Receipt, ReceiptEntryType } from '../models/receipt.model';
+
+/**
+ * Suggested reimbursement rate per unit, in the user's home currency. The
+ * mile rate is the IRS standard business rate; km is the same rate per km.
+ */
+export const DEFAULT_MILEAGE_RATES: Record<DistanceUnit, number> = {
+  mi: 0.7,
+  km: 0.44
+};
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  mi: 'miles',
+  km: 'km'
+};
+
+export const MAX_MILEAGE_PURPOSE_LENGTH = 200;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function getEntryType(entry: { entryType?: ReceiptEntryType }): ReceiptEntryType {
+  return entry.entryType ?? 'receipt';
+}
+
+/**
+ * Entries the user typed in rather than scanned, which have no file
+ */
+export function isManualEntry(entry: { entryType?: ReceiptEntryType }): boolean {
+  return getEntryType(entry) !== 'receipt';
+}
+
+export function computeMileageAmount(distance: number, ratePerUnit: number): number {
+  if (!Number.isFinite(distance) || !Number.isFinite(ratePerUnit)) return 0;
+  return roundCurrency(Math.max(0, distance) * Math.max(0, ratePerUnit));
+}
+
+/**
+ * First problem with the mileage details, or null when they can be saved
+ */
+export function validateMileage(mileage: Partial<MileageDetails>): string | null {
+  if (!(Number(mileage.distance) > 0)) return 'Enter the distance driven.';
+  if (mileage.unit !== 'mi' && mileage.unit !== 'km') return 'Choose miles or km.';
+  if (!(Number(mileage.ratePerUnit) > 0)) return `Enter a rate per ${mileage.unit === 'km' ? 'km' : 'mile'}.`;
+  if (!mileage.purpose?.trim()) return 'Describe the purpose of the trip.';
+  if (mileage.purpose.trim().length > MAX_MILEAGE_PURPOSE_LENGTH) {
+    return `Keep the purpose under ${MAX_MILEAGE_PURPOSE_LENGTH} characters.`;
+  }
+  return null;
+}
+
+/**
+ * e.g. "42 miles × 0.70"
+ */
+export function formatMileage(mileage: MileageDetails): string {
+  return `${mileage.distance} ${DISTANCE_UNIT_LABELS[mileage.unit]} × ${mileage.ratePerUnit.toFixed(2)}`;
+}
+
+/**
+ * Text printed on the PDF export page that stands in for the missing file
+ */
+export function getEntryExportLines(entry: Pick<Receipt, 'entryType' | 'mileage' | 'notes'>): string[] {
+  const lines = [entry.entryType === 'mileage' ? 'Mileage log (no receipt)' : 'Manual entry (no receipt)'];
+  if (entry.mileage) {
+    lines.push(`Trip: ${formatMileage(entry.mileage)}`);
+    lines.push(`Purpose: ${entry.mileage.purpose}`);
+  }
+  const notes = entry.notes?.trim();
+  if (notes && notes !== entry.mileage?.purpose) {
+    lines.push(`Notes: ${notes}`);
+  }
+  return lines;
+}
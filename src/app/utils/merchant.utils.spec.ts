@@ -0,0 +1,54 @@
+import { buildManualMerchant, buildMerchantMonthlySpend, filterMerchants, normalizeAliasList, sortMerchants } from './merchant.utils';
+
+describe('merchant utils', () => {
+  const merchants = [
+    { canonicalName: 'Walmart', aliases: ['WAL-MART #1234'], receiptCount: 4, totalSpend: 120 },
+    { canonicalName: 'Costco', aliases: [], receiptCount: 2, totalSpend: 300 },
+    { canonicalName: 'Amazon', aliases: ['AMZN Mktp US'], receiptCount: 9, totalSpend: 80 }
+  ];
+
+  it('drops blank and repeated aliases, keeping the first spelling', () => {
+    expect(normalizeAliasList([' WAL-MART ', '', 'wal-mart', 'Walmart #12'])).toEqual(['WAL-MART', 'Walmart #12']);
+  });
+
+  it('matches merchants by name or alias', () => {
+    expect(filterMerchants(merchants, 'amzn').map(m => m.canonicalName)).toEqual(['Amazon']);
+    expect(filterMerchants(merchants, 'cost').map(m => m.canonicalName)).toEqual(['Costco']);
+    expect(filterMerchants(merchants, '  ').length).toBe(3);
+  });
+
+  it('sorts by spend, receipt count or name', () => {
+    expect(sortMerchants(merchants, 'spend').map(m => m.canonicalName)).toEqual(['Costco', 'Walmart', 'Amazon']);
+    expect(sortMerchants(merchants, 'receipts').map(m => m.canonicalName)).toEqual(['Amazon', 'Walmart', 'Costco']);
+    expect(sortMerchants(merchants, 'name').map(m => m.canonicalName)).toEqual(['Amazon', 'Costco', 'Walmart']);
+  });
+
+  it('totals spend per month, including empty months', () => {
+    const months = buildMerchantMonthlySpend([
+      { date: new Date(2026, 9, 3), amount: 10.1 },
+      { date: new Date(2026, 9, 20), amount: 5.2 },
+      { date: new Date(2026, 7, 14), amount: 40 },
+      { date: new Date(2025, 0, 1), amount: 99 }
+    ], 3, new Date(2026, 9, 19));
+
+    expect(months.map(month => month.key)).toEqual(['2026-08', '2026-09', '2026-10']);
+    expect(months.map(month => month.total)).toEqual([40, 0, 15.3]);
+    expect(months.map(month => month.count)).toEqual([1, 0, 2]);
+  });
+
+  it('keeps the merchant link for an unchanged name or a picked suggestion', () => {
+    const current = {
+      canonicalId: 'm1',
+      canonicalName: 'Shell',
+      rawName: 'SHELL OIL 5744',
+      matchConfidence: 0.85,
+      matchedBy: 'fuzzy' as const,
+      candidates: [{ merchantId: 'm2', name: 'Shell Recharge', score: 0.6 }]
+    };
+
+    expect(buildManualMerchant(current, 'Shell').canonicalId).toBe('m1');
+    expect(buildManualMerchant(current, 'Shell Recharge').canonicalId).toBe('m2');
+    expect(buildManualMerchant(current, 'Shellfish Shack').canonicalId).toBeUndefined();
+    expect(buildManualMerchant(current, 'Shellfish Shack').rawName).toBe('SHELL OIL 5744');
+  });
+});
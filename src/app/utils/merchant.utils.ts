@@ -0,0 +1,112 @@
+import { Merchant } from '../models/merchant.model';
+import { ReceiptMerchant } from '../models/receipt.model';
+
+export type MerchantSort = 'spend' | 'receipts' | 'name';
+
+export const MAX_MERCHANT_ALIASES = 100;
+
+export interface MerchantSpendEntry {
+  date: Date;
+  amount: number;
+}
+
+export interface MerchantMonthlySpend {
+  key: string; // YYYY-MM
+  label: string;
+  total: number;
+  count: number;
+}
+
+/**
+ * Trimmed aliases without blanks or case-insensitive repeats, first spelling wins
+ */
+export function normalizeAliasList(aliases: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const value of aliases) {
+    const alias = value.trim();
+    const key = alias.toLowerCase();
+    if (!alias || seen.has(key)) continue;
+    seen.add(key);
+    result.push(alias);
+  }
+  return result.slice(0, MAX_MERCHANT_ALIASES);
+}
+
+/**
+ * Merchants whose name or any alias contains the query
+ */
+export function filterMerchants<T extends Pick<Merchant, 'canonicalName' | 'aliases'>>(merchants: T[], query: string): T[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return merchants;
+  return merchants.filter(merchant =>
+    merchant.canonicalName.toLowerCase().includes(needle) ||
+    (merchant.aliases ?? []).some(alias => alias.toLowerCase().includes(needle))
+  );
+}
+
+export function sortMerchants<T extends Pick<Merchant, 'canonicalName' | 'receiptCount' | 'totalSpend'>>(
+  merchants: T[],
+  sort: MerchantSort
+): T[] {
+  const byName = (a: T, b: T) => a.canonicalName.localeCompare(b.canonicalName);
+  return [...merchants].sort((a, b) => {
+    if (sort === 'spend') return (b.totalSpend ?? 0) - (a.totalSpend ?? 0) || byName(a, b);
+    if (sort === 'receipts') return (b.receiptCount ?? 0) - (a.receiptCount ?? 0) || byName(a, b);
+    return byName(a, b);
+  });
+}
+
+const toMonthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Spend per month for the last `months` months up to and including `now`'s
+ * month, oldest first. Months without receipts are included with zero.
+ */
+export function buildMerchantMonthlySpend(
+  entries: MerchantSpendEntry[],
+  months: number,
+  now: Date = new Date()
+): MerchantMonthlySpend[] {
+  const buckets: MerchantMonthlySpend[] = [];
+  for (let offset = months - 1; offset >= 0; offset--) {
+    const monthStart = new Date(now.getFullYear(), now.getMonth() - offset, 1);
+    buckets.push({
+      key: toMonthKey(monthStart),
+      label: monthStart.toLocaleDateString(undefined, { month: 'short', year: '2-digit' }),
+      total: 0,
+      count: 0
+    });
+  }
+
+  const byKey = new Map(buckets.map(bucket => [bucket.key, bucket]));
+  for (const entry of entries) {
+    const bucket = byKey.get(toMonthKey(entry.date));
+    if (!bucket) continue;
+    bucket.total = Math.round((bucket.total + entry.amount) * 100) / 100;
+    bucket.count += 1;
+  }
+  return buckets;
+}
+
+/**
+ * Merchant for a name the user typed. Keeps the link to the merchant directory
+ * (and its stats) when the name is unchanged, or follows the suggested
+ * merchant the user picked.
+ */
+export function buildManualMerchant(current: ReceiptMerchant | undefined, name: string): ReceiptMerchant {
+  const merchant: ReceiptMerchant = {
+    canonicalName: name,
+    rawName: current?.rawName || name,
+    matchConfidence: 1.0,
+    matchedBy: 'manual'
+  };
+  const candidate = current?.candidates?.find(c => c.name === name);
+  if (current?.canonicalId && name === current.canonicalName) {
+    merchant.canonicalId = current.canonicalId;
+  } else if (candidate) {
+    merchant.canonicalId = candidate.merchantId;
+  }
+  return merchant;
+}
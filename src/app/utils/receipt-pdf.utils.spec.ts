@@ -0,0 +1,24 @@
+import { getReceiptImageType, toPdfText } from './receipt-pdf.utils';
+
+describe('receipt pdf utils', () => {
+  it('reads the image type from the MIME type', () => {
+    expect(getReceiptImageType('image/png', '')).toBe('png');
+    expect(getReceiptImageType('image/jpeg', '')).toBe('jpg');
+    expect(getReceiptImageType('image/webp', '')).toBe('webp');
+    expect(getReceiptImageType('image/heif', '')).toBe('heic');
+  });
+
+  it('falls back to the file extension', () => {
+    expect(getReceiptImageType('', 'Receipt.JPG')).toBe('jpg');
+    expect(getReceiptImageType('application/octet-stream', 'scan.heic')).toBe('heic');
+  });
+
+  it('returns null for other formats', () => {
+    expect(getReceiptImageType('image/gif', 'receipt.gif')).toBeNull();
+  });
+
+  it('keeps text the standard PDF fonts can draw', () => {
+    expect(toPdfText('Café • 12,50 € – paid')).toBe('Café • 12,50 € – paid');
+    expect(toPdfText('寿司 Bar 🍣')).toBe('?? Bar ??');
+  });
+});
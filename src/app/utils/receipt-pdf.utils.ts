@@ -0,0 +1,252 @@
+import type { PDFDocument, PDFFont, PDFPage } from 'pdf-lib';
+import { Receipt } from '../models/receipt.model';
+
+export type ReceiptImageType = 'png' | 'jpg' | 'webp' | 'heic';
+
+export interface PdfReadyImage {
+  bytes: Uint8Array;
+  type: 'jpg' | 'png';
+}
+
+export const PDF_PAGE_WIDTH = 612; // Letter
+export const PDF_PAGE_HEIGHT = 792;
+const PAGE_MARGIN = 36;
+const MAX_LINE_LENGTH = 90;
+
+let pdfLibPromise: Promise<typeof import('pdf-lib')> | null = null;
+
+/**
+ * pdf-lib is only needed for exports, so it is loaded on first use.
+ */
+export function loadPdfLib(): Promise<typeof import('pdf-lib')> {
+  if (!pdfLibPromise) {
+    pdfLibPromise = import('pdf-lib');
+  }
+  return pdfLibPromise;
+}
+
+/**
+ * The image format of a receipt file from its MIME type or, failing that, its
+ * file name. Null when it is neither, e.g. a GIF or an unknown upload.
+ */
+export function getReceiptImageType(mimeType: string, fileName: string): ReceiptImageType | null {
+  const mime = mimeType.toLowerCase();
+  const name = fileName.toLowerCase();
+
+  if (mime.includes('png') || name.endsWith('.png')) return 'png';
+  if (mime.includes('jpeg') || mime.includes('jpg') || name.endsWith('.jpg') || name.endsWith('.jpeg')) return 'jpg';
+  if (mime.includes('webp') || name.endsWith('.webp')) return 'webp';
+  if (mime.includes('heic') || mime.includes('heif') || name.endsWith('.heic') || name.endsWith('.heif')) return 'heic';
+  return null;
+}
+
+/**
+ * Text the standard PDF fonts can draw. They only encode WinAnsi (Latin-1
+ * plus a few punctuation marks), so anything else becomes "?".
+ */
+export function toPdfText(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF\u2013\u2014\u2018\u2019\u201C\u201D\u2022\u2026\u20AC]/g, '?');
+}
+
+const fitPdfLine = (text: string): string => {
+  const safe = toPdfText(text);
+  return safe.length > MAX_LINE_LENGTH ? `${safe.slice(0, MAX_LINE_LENGTH - 3)}...` : safe;
+};
+
+export function getReceiptMimeType(receipt: Receipt, blob: Blob): string {
+  return blob?.type || receipt.file?.mimeType || '';
+}
+
+export function fetchBlobWithXHR(url: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('GET', url, true);
+    xhr.responseType = 'blob';
+
+    xhr.onload = () => {
+      if (xhr.status === 200) {
+        resolve(xhr.response);
+      } else {
+        reject(new Error(`Failed to download receipt (${xhr.status}).`));
+      }
+    };
+
+    xhr.onerror = () => {
+      reject(new Error('Network error while downloading receipt.'));
+    };
+
+    xhr.send();
+  });
+}
+
+/**
+ * Download a receipt's file. `getFileUrl` turns its storage path into a
+ * download URL.
+ */
+export async function fetchReceiptFile(receipt: Receipt, getFileUrl: (storagePath: string) => Promise<string>): Promise<Blob> {
+  if (!receipt.file?.storagePath) {
+    throw new Error('Missing file path for receipt.');
+  }
+
+  return fetchBlobWithXHR(await getFileUrl(receipt.file.storagePath));
+}
+
+/**
+ * Save a blob through a temporary link, e.g. an exported CSV.
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const downloadUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = downloadUrl;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(downloadUrl), 250);
+}
+
+export async function downloadPdf(pdfDoc: PDFDocument, fileName: string): Promise<void> {
+  const pdfBytes = await pdfDoc.save();
+  downloadBlob(new Blob([pdfBytes.buffer.slice(0) as ArrayBuffer], { type: 'application/pdf' }), fileName);
+}
+
+/**
+ * Redraw an image the browser can decode (e.g. WebP) as PNG or JPEG.
+ */
+export function convertImageViaCanvas(blob: Blob, outputType: 'image/png' | 'image/jpeg'): Promise<Blob> {
+  if (typeof document === 'undefined') {
+    return Promise.reject(new Error('Image conversion is not supported in this environment.'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth || image.width || 0;
+      canvas.height = image.naturalHeight || image.height || 0;
+      const context = canvas.getContext('2d');
+
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Unable to convert image.'));
+        return;
+      }
+
+      context.drawImage(image, 0, 0);
+      canvas.toBlob((converted) => {
+        URL.revokeObjectURL(url);
+        if (converted) {
+          resolve(converted);
+        } else {
+          reject(new Error('Image conversion failed.'));
+        }
+      }, outputType, 0.95);
+    };
+
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image for conversion.'));
+    };
+
+    image.src = url;
+  });
+}
+
+/**
+ * Convert a HEIC/HEIF photo to JPEG. heic2any is large, so it is loaded on
+ * first use.
+ */
+export async function convertHeicToJpeg(blob: Blob): Promise<Blob> {
+  const heic2anyModule = await import('heic2any');
+  const heic2any = (heic2anyModule as any).default ?? heic2anyModule;
+  const converted = await heic2any({
+    blob,
+    toType: 'image/jpeg',
+    quality: 0.9
+  });
+  return Array.isArray(converted) ? converted[0] : converted;
+}
+
+/**
+ * The receipt image as PNG or JPEG bytes, the only formats pdf-lib embeds.
+ */
+export async function normalizeReceiptImage(blob: Blob, receipt: Receipt): Promise<PdfReadyImage> {
+  const asUint8Array = async (value: Blob) => new Uint8Array(await value.arrayBuffer());
+
+  switch (getReceiptImageType(getReceiptMimeType(receipt, blob), receipt.file?.originalName || '')) {
+    case 'png':
+      return { bytes: await asUint8Array(blob), type: 'png' };
+    case 'jpg':
+      return { bytes: await asUint8Array(blob), type: 'jpg' };
+    case 'webp':
+      return { bytes: await asUint8Array(await convertImageViaCanvas(blob, 'image/png')), type: 'png' };
+    case 'heic':
+      return { bytes: await asUint8Array(await convertHeicToJpeg(blob)), type: 'jpg' };
+    default:
+      return { bytes: await asUint8Array(await convertImageViaCanvas(blob, 'image/jpeg')), type: 'jpg' };
+  }
+}
+
+/**
+ * Add a Letter page with the image scaled to fit (never enlarged) and the
+ * caption along the bottom.
+ */
+export async function addReceiptImagePage(
+  pdfDoc: PDFDocument,
+  image: PdfReadyImage,
+  caption: string,
+  font?: PDFFont
+): Promise<PDFPage> {
+  const embeddedImage = image.type === 'png'
+    ? await pdfDoc.embedPng(image.bytes)
+    : await pdfDoc.embedJpg(image.bytes);
+
+  const maxWidth = PDF_PAGE_WIDTH - PAGE_MARGIN * 2;
+  const maxHeight = PDF_PAGE_HEIGHT - PAGE_MARGIN * 3;
+
+  const dimensions = embeddedImage.scale(1);
+  const scale = Math.min(maxWidth / dimensions.width, maxHeight / dimensions.height, 1);
+  const scaledWidth = dimensions.width * scale;
+  const scaledHeight = dimensions.height * scale;
+
+  const page = pdfDoc.addPage([PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT]);
+  page.drawImage(embeddedImage, {
+    x: (PDF_PAGE_WIDTH - scaledWidth) / 2,
+    y: PAGE_MARGIN * 1.5,
+    width: scaledWidth,
+    height: scaledHeight
+  });
+
+  page.drawText(fitPdfLine(caption), {
+    x: PAGE_MARGIN,
+    y: PAGE_MARGIN / 2,
+    size: 12,
+    font,
+    maxWidth
+  });
+
+  return page;
+}
+
+/**
+ * Add a Letter page of text for a receipt with no file, such as a manual or
+ * mileage entry: the caption as a heading, then one line per detail.
+ */
+export function addReceiptTextPage(pdfDoc: PDFDocument, caption: string, lines: string[], font?: PDFFont): PDFPage {
+  const page = pdfDoc.addPage([PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT]);
+
+  [caption, ...lines].forEach((line, index) => {
+    page.drawText(fitPdfLine(line), {
+      x: PAGE_MARGIN,
+      y: PDF_PAGE_HEIGHT - PAGE_MARGIN * 2 - index * 22,
+      size: index === 0 ? 16 : 12,
+      font,
+      maxWidth: PDF_PAGE_WIDTH - PAGE_MARGIN * 2
+    });
+  });
+
+  return page;
+}
@@ -0,0 +1,34 @@
+import { parseSearchQuery } from './receipt-search.utils';
+
+describe('parseSearchQuery', () => {
+  it('reads field filters, quoted phrases and negation', () => {
+    const parsed = parseSearchQuery('merchant:"Whole Foods" -tag:personal #work coffee');
+
+    expect(parsed.terms).toEqual([
+      { field: 'merchant', value: 'whole foods', negated: false },
+      { field: 'tag', value: 'personal', negated: true },
+      { field: 'tag', value: 'work', negated: false },
+      { field: 'text', value: 'coffee', negated: false }
+    ]);
+  });
+
+  it('reads amount comparisons and ranges', () => {
+    expect(parseSearchQuery('amount:>=50').amount).toEqual({ min: 50 });
+    expect(parseSearchQuery('amount:10..20').amount).toEqual({ min: 10, max: 20 });
+    expect(parseSearchQuery('amount:42.5').amount).toEqual({ min: 42.5, max: 42.5 });
+  });
+
+  it('expands partial dates to the period they cover', () => {
+    expect(parseSearchQuery('date:2024-02').date).toEqual({ from: '2024-02-01', to: '2024-02-29' });
+    expect(parseSearchQuery('date:2024-01..2024-03').date).toEqual({ from: '2024-01-01', to: '2024-03-31' });
+    expect(parseSearchQuery('after:2024-05-10').date).toEqual({ from: '2024-05-10' });
+  });
+
+  it('maps status and source aliases and reports unknown values', () => {
+    const parsed = parseSearchQuery('status:review source:email source:fax');
+
+    expect(parsed.statuses).toEqual(['needs_review']);
+    expect(parsed.sources).toEqual(['email']);
+    expect(parsed.errors.length).toBe(1);
+  });
+});
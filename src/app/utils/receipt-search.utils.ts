@@ -0,0 +1,284 @@
+import { ReceiptSource, ReceiptStatus } from '../models/receipt.model';
+
+/**
+ * Receipt search query syntax
+ *
+ *   coffee                     free text (merchant, category, tags, notes, items, file name)
+ *   "whole foods"              quoted phrase
+ *   merchant:costco            also m:
+ *   category:groceries         also cat:
+ *   tag:work  #work
+ *   amount:>50  amount:10..20  amount:42.50
+ *   date:2024  date:2024-03  date:2024-01..2024-03-15  date:>2024-02-01
+ *   before:2024-02-01  after:2024-01-01
+ *   status:review              uploaded, processing, extracted, review, confirmed
+ *   source:email               email, telegram, upload
+ *   notes:reimburse
+ *   -tag:personal              a leading "-" excludes matches
+ */
+
+export type SearchTextField = 'text' | 'merchant' | 'category' | 'tag' | 'notes';
+
+export interface SearchTerm {
+  field: SearchTextField;
+  value: string; // Lower-cased
+  negated: boolean;
+}
+
+export interface AmountRange {
+  min?: number;
+  max?: number;
+}
+
+export interface DateRange {
+  from?: string; // Inclusive YYYY-MM-DD
+  to?: string; // Inclusive YYYY-MM-DD
+}
+
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+  amount?: AmountRange;
+  date?: DateRange;
+  statuses: ReceiptStatus[];
+  sources: ReceiptSource[];
+  errors: string[];
+}
+
+const FIELD_ALIASES: Record<string, SearchTextField> = {
+  merchant: 'merchant',
+  m: 'merchant',
+  store: 'merchant',
+  category: 'category',
+  cat: 'category',
+  tag: 'tag',
+  tags: 'tag',
+  notes: 'notes',
+  note: 'notes'
+};
+
+const STATUS_ALIASES: Record<string, ReceiptStatus> = {
+  uploaded: 'uploaded',
+  processing: 'processing',
+  extracted: 'extracted',
+  review: 'needs_review',
+  needs_review: 'needs_review',
+  final: 'final',
+  confirmed: 'final',
+  failed: 'failed'
+};
+
+const SOURCE_ALIASES: Record<string, ReceiptSource> = {
+  email: 'email',
+  telegram: 'telegram',
+  upload: 'upload',
+  web: 'upload'
+};
+
+const TOKEN_PATTERN = /(-?)(?:([a-z_]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export const isEmptySearchQuery = (parsed: ParsedSearchQuery): boolean =>
+  !parsed.terms.length && !parsed.amount && !parsed.date && !parsed.statuses.length && !parsed.sources.length;
+
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = { terms: [], statuses: [], sources: [], errors: [] };
+
+  for (const match of (query ?? '').matchAll(TOKEN_PATTERN)) {
+    const negated = match[1] === '-';
+    const key = match[2]?.toLowerCase();
+    const rawValue = (match[3] ?? match[4] ?? '').trim();
+    if (!rawValue) continue;
+
+    if (!key) {
+      if (match[4] && rawValue.startsWith('#') && rawValue.length > 1) {
+        parsed.terms.push({ field: 'tag', value: rawValue.slice(1).toLowerCase(), negated });
+      } else {
+        parsed.terms.push({ field: 'text', value: rawValue.toLowerCase(), negated });
+      }
+      continue;
+    }
+
+    const field = FIELD_ALIASES[key];
+    if (field) {
+      parsed.terms.push({ field, value: rawValue.toLowerCase(), negated });
+      continue;
+    }
+
+    switch (key) {
+      case 'amount':
+      case 'total': {
+        const range = parseAmountRange(rawValue);
+        if (range) {
+          parsed.amount = { ...parsed.amount, ...range };
+        } else {
+          parsed.errors.push(`Couldn't read amount "${rawValue}". Try amount:>50 or amount:10..20.`);
+        }
+        break;
+      }
+      case 'date': {
+        const range = parseDateRange(rawValue);
+        if (range) {
+          parsed.date = { ...parsed.date, ...range };
+        } else {
+          parsed.errors.push(`Couldn't read date "${rawValue}". Try date:2024-03 or date:2024-01..2024-03.`);
+        }
+        break;
+      }
+      case 'before':
+      case 'after': {
+        const bound = parseDateBound(rawValue, key === 'after' ? 'start' : 'end');
+        if (!bound) {
+          parsed.errors.push(`Couldn't read date "${rawValue}".`);
+        } else if (key === 'after') {
+          parsed.date = { ...parsed.date, from: bound };
+        } else {
+          parsed.date = { ...parsed.date, to: bound };
+        }
+        break;
+      }
+      case 'status':
+      case 'is': {
+        const status = STATUS_ALIASES[rawValue.toLowerCase()];
+        if (status) {
+          parsed.statuses.push(status);
+        } else {
+          parsed.errors.push(`Unknown status "${rawValue}".`);
+        }
+        break;
+      }
+      case 'source':
+      case 'from': {
+        const source = SOURCE_ALIASES[rawValue.toLowerCase()];
+        if (source) {
+          parsed.sources.push(source);
+        } else {
+          parsed.errors.push(`Unknown source "${rawValue}". Use email, telegram or upload.`);
+        }
+        break;
+      }
+      default:
+        // Not a known field (e.g. a time like "10:30"); search it as text
+        parsed.terms.push({ field: 'text', value: `${key}:${rawValue}`.toLowerCase(), negated });
+    }
+  }
+
+  return parsed;
+};
+
+/**
+ * Human-readable chips for a parsed query
+ */
+export const describeSearchQuery = (parsed: ParsedSearchQuery): string[] => {
+  const labels: string[] = [];
+
+  for (const term of parsed.terms) {
+    const prefix = term.negated ? 'not ' : '';
+    labels.push(term.field === 'text' ? `${prefix}"${term.value}"` : `${term.field} ${prefix}"${term.value}"`);
+  }
+  if (parsed.amount) {
+    const { min, max } = parsed.amount;
+    if (min !== undefined && max !== undefined) {
+      labels.push(min === max ? `amount = ${min}` : `amount ${min}–${max}`);
+    } else if (min !== undefined) {
+      labels.push(`amount ≥ ${min}`);
+    } else if (max !== undefined) {
+      labels.push(`amount ≤ ${max}`);
+    }
+  }
+  if (parsed.date) {
+    const { from, to } = parsed.date;
+    if (from && to) {
+      labels.push(from === to ? `on ${from}` : `${from} – ${to}`);
+    } else if (from) {
+      labels.push(`from ${from}`);
+    } else if (to) {
+      labels.push(`until ${to}`);
+    }
+  }
+  for (const status of parsed.statuses) {
+    labels.push(`status ${status === 'needs_review' ? 'needs review' : status}`);
+  }
+  for (const source of parsed.sources) {
+    labels.push(`via ${source}`);
+  }
+
+  return labels;
+};
+
+const parseNumber = (value: string): number | null => {
+  const parsed = Number.parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const parseAmountRange = (value: string): AmountRange | null => {
+  const comparison = value.match(/^(>=|<=|>|<)(.+)$/);
+  if (comparison) {
+    const amount = parseNumber(comparison[2]);
+    if (amount === null) return null;
+    // Amounts are cents-precise, so strict bounds move by one cent
+    switch (comparison[1]) {
+      case '>': return { min: Math.round((amount + 0.01) * 100) / 100 };
+      case '>=': return { min: amount };
+      case '<': return { max: Math.round((amount - 0.01) * 100) / 100 };
+      default: return { max: amount };
+    }
+  }
+
+  const range = value.split('..');
+  if (range.length === 2) {
+    const min = range[0] ? parseNumber(range[0]) : undefined;
+    const max = range[1] ? parseNumber(range[1]) : undefined;
+    if (min === null || max === null || (min === undefined && max === undefined)) return null;
+    return { ...(min !== undefined ? { min } : {}), ...(max !== undefined ? { max } : {}) };
+  }
+
+  const exact = parseNumber(value);
+  return exact === null ? null : { min: exact, max: exact };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Expand "2024", "2024-03" or "2024-03-15" to the first (start) or last (end)
+ * day it covers
+ */
+const parseDateBound = (value: string, edge: 'start' | 'end'): string | null => {
+  const match = value.trim().match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 1 || month > 12)) return null;
+
+  if (month === null) {
+    return edge === 'start' ? `${year}-01-01` : `${year}-12-31`;
+  }
+  if (day === null) {
+    const lastDay = new Date(year, month, 0).getDate();
+    return `${year}-${pad(month)}-${pad(edge === 'start' ? 1 : lastDay)}`;
+  }
+  if (day < 1 || day > new Date(year, month, 0).getDate()) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const parseDateRange = (value: string): DateRange | null => {
+  const comparison = value.match(/^(>=|<=|>|<)(.+)$/);
+  if (comparison) {
+    const isLower = comparison[1].startsWith('>');
+    const bound = parseDateBound(comparison[2], isLower ? 'start' : 'end');
+    if (!bound) return null;
+    return isLower ? { from: bound } : { to: bound };
+  }
+
+  const range = value.split('..');
+  if (range.length === 2) {
+    const from = range[0] ? parseDateBound(range[0], 'start') : undefined;
+    const to = range[1] ? parseDateBound(range[1], 'end') : undefined;
+    if (from === null || to === null || (!from && !to)) return null;
+    return { ...(from ? { from } : {}), ...(to ? { to } : {}) };
+  }
+
+  const from = parseDateBound(value, 'start');
+  const to = parseDateBound(value, 'end');
+  return from && to ? { from, to } : null;
+};
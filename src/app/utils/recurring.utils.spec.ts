@@ -0,0 +1,28 @@
+import { RecurringExpense } from '../models/recurring-expense.model';
+import { getMonthlyEquivalent, sortRecurringExpenses } from './recurring.utils';
+
+describe('recurring utils', () => {
+  it('converts each frequency to a monthly cost', () => {
+    expect(getMonthlyEquivalent({ frequency: 'monthly', typicalAmount: 15.99 })).toBe(15.99);
+    expect(getMonthlyEquivalent({ frequency: 'weekly', typicalAmount: 12 })).toBe(52);
+    expect(getMonthlyEquivalent({ frequency: 'annual', typicalAmount: 120 })).toBe(10);
+  });
+
+  it('puts charges that need attention first, then the soonest', () => {
+    const expenses: Pick<RecurringExpense, 'id' | 'status' | 'priceChange' | 'nextExpectedDate'>[] = [
+      { id: 'later', status: 'active', priceChange: null, nextExpectedDate: '2026-11-20' },
+      { id: 'sooner', status: 'active', priceChange: null, nextExpectedDate: '2026-11-01' },
+      { id: 'missed', status: 'missed', priceChange: null, nextExpectedDate: '2026-09-01' },
+      {
+        id: 'price',
+        status: 'active',
+        priceChange: { previousAmount: 10, latestAmount: 12, changePercent: 20, receiptId: 'r1' },
+        nextExpectedDate: '2026-11-10'
+      }
+    ];
+
+    const sorted = sortRecurringExpenses(expenses);
+
+    expect(sorted.map(expense => expense.id)).toEqual(['missed', 'price', 'sooner', 'later']);
+  });
+});
@@ -0,0 +1,35 @@
+import { RecurringExpense, RecurringFrequency } from '../models/recurring-expense.model';
+
+export const RECURRING_FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  annual: 'Yearly'
+};
+
+const MONTHLY_FACTORS: Record<RecurringFrequency, number> = {
+  weekly: 52 / 12,
+  monthly: 1,
+  annual: 1 / 12
+};
+
+/**
+ * What a recurring charge costs per month on average
+ */
+export function getMonthlyEquivalent(expense: Pick<RecurringExpense, 'frequency' | 'typicalAmount'>): number {
+  return Math.round(expense.typicalAmount * MONTHLY_FACTORS[expense.frequency] * 100) / 100;
+}
+
+export function needsAttention(expense: Pick<RecurringExpense, 'status' | 'priceChange'>): boolean {
+  return expense.status === 'missed' || !!expense.priceChange;
+}
+
+/**
+ * Missed and price-changed charges first, then by next expected date
+ */
+export function sortRecurringExpenses<T extends Pick<RecurringExpense, 'status' | 'priceChange' | 'nextExpectedDate'>>(
+  expenses: T[]
+): T[] {
+  return [...expenses].sort((a, b) =>
+    Number(needsAttention(b)) - Number(needsAttention(a)) || a.nextExpectedDate.localeCompare(b.nextExpectedDate)
+  );
+}
@@ -0,0 +1,61 @@
+import { Receipt } from '../models/receipt.model';
+import { getExtractionVersionInfo, getReprocessChanges } from './reprocess.utils';
+
+describe('reprocess utils', () => {
+  const categoryName = (id: string) => ({ dining: 'Dining', groceries: 'Groceries' } as Record<string, string>)[id] ?? id;
+
+  const receipt = {
+    id: 'r1',
+    userId: 'u1',
+    status: 'final',
+    totalAmount: 18.4,
+    currency: 'USD',
+    date: '2026-09-30',
+    merchant: { canonicalId: 'm1', canonicalName: 'Corner Cafe', rawName: 'CORNER CAFE', matchConfidence: 1, matchedBy: 'exact' },
+    category: { id: 'dining', name: 'Dining', confidence: 0.9, assignedBy: 'ai' },
+    extraction: { source: 'gemini', overallConfidence: 0.8, version: 2 },
+    extractionVersions: [{ version: 1, extraction: { source: 'gemini', overallConfidence: 0.4 }, archivedAt: null }],
+    reprocess: {
+      proposed: {
+        totalAmount: 81.4,
+        date: '2026-09-03',
+        category: { id: 'groceries', name: 'Groceries', confidence: 0.8, assignedBy: 'ai' },
+        lineItems: [
+          { description: 'Milk', amount: 3.5, type: 'item' },
+          { description: 'Coupon', amount: 0.5, type: 'discount' }
+        ]
+      },
+      requestedBy: 'u1',
+      reprocessedAt: null
+    }
+  } as unknown as Receipt;
+
+  it('lists proposed fields in display order with old and new values', () => {
+    expect(getReprocessChanges(receipt, categoryName)).toEqual([
+      { field: 'totalAmount', label: 'Total', current: '$18.40', proposed: '$81.40' },
+      { field: 'date', label: 'Date', current: '2026-09-30', proposed: '2026-09-03' },
+      { field: 'category', label: 'Category', current: 'Dining', proposed: 'Groceries' },
+      { field: 'lineItems', label: 'Line items', current: 'Not set', proposed: '2 lines · $3.00' }
+    ]);
+  });
+
+  it('shows a proposed total in the proposed currency', () => {
+    const withCurrency = {
+      ...receipt,
+      reprocess: { ...receipt.reprocess!, proposed: { totalAmount: 20, currency: 'EUR' } }
+    } as Receipt;
+    const changes = getReprocessChanges(withCurrency, categoryName);
+    expect(changes.map(change => change.field)).toEqual(['totalAmount', 'currency']);
+    expect(changes[0].proposed).toBe('€20.00');
+  });
+
+  it('returns nothing without a pending reprocess', () => {
+    expect(getReprocessChanges({ ...receipt, reprocess: undefined } as Receipt, categoryName)).toEqual([]);
+  });
+
+  it('reports the extraction version', () => {
+    expect(getExtractionVersionInfo(receipt)).toEqual({ version: 2, earlier: 1 });
+    expect(getExtractionVersionInfo({ ...receipt, extraction: undefined, extractionVersions: undefined } as Receipt))
+      .toEqual({ version: 1, earlier: 0 });
+  });
+});
@@ -0,0 +1,78 @@
+import { LineItem, Receipt, ReprocessField } from '../models/receipt.model';
+import { formatMoney } from './currency.utils';
+
+export interface ReprocessChange {
+  field: ReprocessField;
+  label: string;
+  current: string;
+  proposed: string;
+}
+
+export const REPROCESS_FIELD_LABELS: Record<ReprocessField, string> = {
+  merchant: 'Store',
+  totalAmount: 'Total',
+  currency: 'Currency',
+  date: 'Date',
+  category: 'Category',
+  lineItems: 'Line items'
+};
+
+const REPROCESS_FIELD_ORDER: ReprocessField[] = ['merchant', 'totalAmount', 'currency', 'date', 'category', 'lineItems'];
+
+const NOT_SET = 'Not set';
+
+const describeLineItems = (items: LineItem[] | undefined, currency: string | undefined): string => {
+  if (!items?.length) return NOT_SET;
+  const total = items.reduce((sum, item) => sum + (item.type === 'discount' ? -Math.abs(item.amount) : item.amount), 0);
+  return `${items.length} line${items.length === 1 ? '' : 's'} · ${formatMoney(total, currency)}`;
+};
+
+/**
+ * Old and new values of each field reprocessing proposes to change, ready to
+ * show side by side. Category names come from `categoryName`.
+ */
+export function getReprocessChanges(receipt: Receipt, categoryName: (id: string) => string): ReprocessChange[] {
+  const proposed = receipt.reprocess?.proposed;
+  if (!proposed) return [];
+
+  // Amounts are shown in the currency they would end up in
+  const proposedCurrency = proposed.currency ?? receipt.currency;
+
+  const describe = (field: ReprocessField, source: 'current' | 'proposed'): string => {
+    const values = source === 'current' ? receipt : proposed;
+    const currency = source === 'current' ? receipt.currency : proposedCurrency;
+    switch (field) {
+      case 'merchant':
+        return values.merchant?.canonicalName || values.merchant?.rawName || NOT_SET;
+      case 'totalAmount':
+        return values.totalAmount !== undefined ? formatMoney(values.totalAmount, currency) : NOT_SET;
+      case 'currency':
+        return values.currency || NOT_SET;
+      case 'date':
+        return values.date || NOT_SET;
+      case 'category':
+        return values.category ? categoryName(values.category.id) : NOT_SET;
+      case 'lineItems':
+        return describeLineItems(values.lineItems, currency);
+    }
+  };
+
+  return REPROCESS_FIELD_ORDER
+    .filter(field => proposed[field] !== undefined)
+    .map(field => ({
+      field,
+      label: REPROCESS_FIELD_LABELS[field],
+      current: describe(field, 'current'),
+      proposed: describe(field, 'proposed')
+    }));
+}
+
+/**
+ * The current extraction's version number and how many earlier ones are kept.
+ */
+export function getExtractionVersionInfo(receipt: Receipt): { version: number; earlier: number } {
+  return {
+    version: receipt.extraction?.version ?? 1,
+    earlier: receipt.extractionVersions?.length ?? 0
+  };
+}
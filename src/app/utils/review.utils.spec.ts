@@ -0,0 +1,51 @@
+import { Receipt } from '../models/receipt.model';
+import { getReviewFieldStatuses, getReviewShortcut } from './review.utils';
+
+describe('review utils', () => {
+  const baseReceipt = {
+    id: 'r1',
+    userId: 'u1',
+    status: 'needs_review',
+    extraction: {
+      source: 'gemini',
+      overallConfidence: 0.5,
+      supplierName: { value: 'Shell', confidence: 0.9 },
+      date: { value: '2026-10-01', confidence: 0.4 }
+    },
+    merchant: { canonicalId: 'm1', canonicalName: 'Shell', rawName: 'Shell', matchConfidence: 0.82, matchedBy: 'fuzzy' },
+    category: { id: 'transportation', name: 'Transportation', confidence: 0.9, assignedBy: 'ai' }
+  } as unknown as Receipt;
+
+  const flaggedFields = (receipt: Receipt) =>
+    getReviewFieldStatuses(receipt).filter(status => status.flagged).map(status => status.field);
+
+  it('flags missing and low-confidence fields', () => {
+    expect(flaggedFields(baseReceipt)).toEqual(['totalAmount', 'date']);
+  });
+
+  it('trusts values the user entered', () => {
+    const receipt = { ...baseReceipt, totalAmount: 42.18, date: '2026-10-02' } as Receipt;
+    expect(flaggedFields(receipt)).toEqual([]);
+  });
+
+  it('flags a weak merchant match and the fallback category', () => {
+    const receipt = {
+      ...baseReceipt,
+      totalAmount: 10,
+      date: '2026-10-02',
+      merchant: { ...baseReceipt.merchant!, matchConfidence: 0.55 },
+      category: { id: 'other', name: 'Other', confidence: 0.5, assignedBy: 'default' }
+    } as Receipt;
+    expect(flaggedFields(receipt)).toEqual(['merchant', 'category']);
+  });
+
+  it('maps keys to review actions, ignoring letters while typing', () => {
+    expect(getReviewShortcut({ key: 'c' }, false)).toBe('confirm');
+    expect(getReviewShortcut({ key: 's' }, false)).toBe('skip');
+    expect(getReviewShortcut({ key: 'ArrowLeft' }, false)).toBe('back');
+    expect(getReviewShortcut({ key: 'd' }, false)).toBe('delete');
+    expect(getReviewShortcut({ key: 's' }, true)).toBeNull();
+    expect(getReviewShortcut({ key: 'Enter', ctrlKey: true }, true)).toBe('confirm');
+    expect(getReviewShortcut({ key: 'c', metaKey: true }, false)).toBeNull();
+  });
+});
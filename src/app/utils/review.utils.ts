@@ -0,0 +1,105 @@
+import { Receipt } from '../models/receipt.model';
+
+export type ReviewField = 'merchant' | 'totalAmount' | 'date' | 'currency' | 'category';
+
+export type ReviewAction = 'confirm' | 'skip' | 'back' | 'delete';
+
+export interface ReviewFieldStatus {
+  field: ReviewField;
+  // 0..1, or null when nothing was read for the field
+  confidence: number | null;
+  flagged: boolean;
+}
+
+/** Extracted values below this confidence are highlighted for checking. */
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const REVIEW_FIELD_LABELS: Record<ReviewField, string> = {
+  merchant: 'Store',
+  totalAmount: 'Total',
+  date: 'Date',
+  currency: 'Currency',
+  category: 'Category'
+};
+
+export interface ReviewShortcutEvent {
+  key: string;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  altKey?: boolean;
+  shiftKey?: boolean;
+}
+
+const fieldStatus = (field: ReviewField, confidence: number | null | undefined, hasValue: boolean): ReviewFieldStatus => {
+  const value = typeof confidence === 'number' && Number.isFinite(confidence) ? confidence : null;
+  return {
+    field,
+    confidence: hasValue ? value : null,
+    flagged: !hasValue || (value !== null && value < REVIEW_CONFIDENCE_THRESHOLD)
+  };
+};
+
+/**
+ * Confidence of each reviewable field and whether it needs a look: missing
+ * values and low-confidence extractions are flagged. Values the user already
+ * entered count as certain.
+ */
+export function getReviewFieldStatuses(receipt: Receipt): ReviewFieldStatus[] {
+  const extraction = receipt.extraction;
+  const merchant = receipt.merchant;
+  const category = receipt.category;
+
+  // A fuzzy merchant match is only as certain as its score
+  const merchantConfidence = merchant?.matchedBy === 'manual'
+    ? 1
+    : Math.min(
+      extraction?.supplierName?.confidence ?? 1,
+      merchant?.matchedBy === 'fuzzy' ? merchant.matchConfidence : 1
+    );
+  const totalConfidence = receipt.totalAmount !== undefined && receipt.totalAmount !== extraction?.totalAmount?.value
+    ? 1
+    : extraction?.totalAmount?.confidence;
+  const dateConfidence = receipt.date && receipt.date !== extraction?.date?.value
+    ? 1
+    : extraction?.date?.confidence;
+  const currencyConfidence = receipt.currency ? 1 : extraction?.currency?.confidence ?? 1;
+  // The fallback category means nothing matched
+  const categoryConfidence = category?.assignedBy === 'default' ? 0 : category?.confidence;
+
+  return [
+    fieldStatus('merchant', merchantConfidence, !!(merchant?.canonicalName || extraction?.supplierName?.value)),
+    fieldStatus('totalAmount', totalConfidence, (receipt.totalAmount ?? extraction?.totalAmount?.value ?? 0) > 0),
+    fieldStatus('date', dateConfidence, !!(receipt.date || extraction?.date?.value)),
+    fieldStatus('currency', currencyConfidence, true),
+    fieldStatus('category', categoryConfidence, !!category)
+  ];
+}
+
+/**
+ * The review action for a key press. Single-letter shortcuts are ignored while
+ * typing in a field; Ctrl/Cmd+Enter confirms from anywhere.
+ */
+export function getReviewShortcut(event: ReviewShortcutEvent, isTyping: boolean): ReviewAction | null {
+  const withModifier = !!(event.ctrlKey || event.metaKey);
+  if (event.key === 'Enter' && withModifier) return 'confirm';
+  if (isTyping || withModifier || event.altKey) return null;
+
+  switch (event.key) {
+    case 'Enter':
+    case 'c':
+      return 'confirm';
+    case 's':
+    case 'j':
+    case 'ArrowRight':
+      return 'skip';
+    case 'k':
+    case 'ArrowLeft':
+      return 'back';
+    case 'Delete':
+    case 'Backspace':
+    case 'd':
+      return 'delete';
+    default:
+      return null;
+  }
+}
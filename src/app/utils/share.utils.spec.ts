@@ -0,0 +1,26 @@
+import { describeShareExpiry, getShareExpiryDate, getShareStatus } from './share.utils';
+
+const timestamp = (millis: number) => ({ toMillis: () => millis, toDate: () => new Date(millis) });
+
+describe('share utils', () => {
+  it('computes expiry dates from a day count', () => {
+    expect(getShareExpiryDate(null, 0)).toBeNull();
+    expect(getShareExpiryDate(2, 0)?.getTime()).toBe(2 * 24 * 60 * 60 * 1000);
+  });
+
+  it('treats missing expiry as never expiring and revocation as final', () => {
+    expect(getShareStatus({}, 5000)).toBe('active');
+    expect(getShareStatus({ expiresAt: null }, 5000)).toBe('active');
+    expect(getShareStatus({ expiresAt: timestamp(5000) }, 4999)).toBe('active');
+    expect(getShareStatus({ expiresAt: timestamp(5000) }, 5000)).toBe('expired');
+    expect(getShareStatus({ revokedAt: timestamp(1), expiresAt: null }, 5000)).toBe('revoked');
+  });
+
+  it('describes the expiry', () => {
+    const expiresAt = timestamp(Date.UTC(2025, 2, 4, 12));
+    expect(describeShareExpiry({ expiresAt: null })).toBe('Never expires');
+    expect(describeShareExpiry({ expiresAt }, Date.UTC(2025, 0, 1))).toBe('Expires Mar 4, 2025');
+    expect(describeShareExpiry({ expiresAt }, Date.UTC(2025, 5, 1))).toBe('Expired Mar 4, 2025');
+    expect(describeShareExpiry({ revokedAt: timestamp(1), expiresAt })).toBe('Revoked');
+  });
+});
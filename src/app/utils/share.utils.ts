@@ -0,0 +1,45 @@
+export type ShareStatus = 'active' | 'expired' | 'revoked';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SHARE_EXPIRY_OPTIONS: Array<{ days: number | null; label: string }> = [
+  { days: 1, label: 'In 1 day' },
+  { days: 7, label: 'In 7 days' },
+  { days: 30, label: 'In 30 days' },
+  { days: 90, label: 'In 90 days' },
+  { days: null, label: 'Never' }
+];
+
+/**
+ * When a link made now should stop working, or null for links that never expire
+ */
+export function getShareExpiryDate(days: number | null, now = Date.now()): Date | null {
+  return days === null ? null : new Date(now + days * DAY_MS);
+}
+
+export function isShareExpired(share: { expiresAt?: { toMillis(): number } | null }, now = Date.now()): boolean {
+  return !!share.expiresAt && share.expiresAt.toMillis() <= now;
+}
+
+export function getShareStatus(
+  share: { revokedAt?: unknown; expiresAt?: { toMillis(): number } | null },
+  now = Date.now()
+): ShareStatus {
+  if (share.revokedAt) return 'revoked';
+  return isShareExpired(share, now) ? 'expired' : 'active';
+}
+
+/**
+ * Short expiry description for share lists, e.g. "Expires Mar 4, 2025"
+ */
+export function describeShareExpiry(
+  share: { revokedAt?: unknown; expiresAt?: { toDate(): Date; toMillis(): number } | null },
+  now = Date.now()
+): string {
+  const status = getShareStatus(share, now);
+  if (status === 'revoked') return 'Revoked';
+  if (!share.expiresAt) return 'Never expires';
+
+  const date = share.expiresAt.toDate().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return status === 'expired' ? `Expired ${date}` : `Expires ${date}`;
+}
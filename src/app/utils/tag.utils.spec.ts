@@ -0,0 +1,31 @@
+import { collectTags, mergeTags, normalizeTag, parseTagInput } from './tag.utils';
+
+describe('tag utils', () => {
+  it('normalizes typed tags', () => {
+    expect(normalizeTag('  #client   dinner ')).toBe('client dinner');
+    expect(normalizeTag('#')).toBeNull();
+    expect(normalizeTag(undefined)).toBeNull();
+  });
+
+  it('splits comma and hashtag input', () => {
+    expect(parseTagInput('work, travel #client #Work')).toEqual(['work', 'travel', 'client']);
+  });
+
+  it('merges without case-insensitive duplicates', () => {
+    expect(mergeTags(['Work'], ['work', 'trip'])).toEqual(['Work', 'trip']);
+  });
+
+  it('counts tags across receipts, most used first', () => {
+    const tags = collectTags([
+      { tags: ['trip', 'Work'] },
+      { tags: ['work'] },
+      { tags: ['Work'] },
+      {}
+    ]);
+
+    expect(tags).toEqual([
+      { tag: 'Work', count: 3 },
+      { tag: 'trip', count: 1 }
+    ]);
+  });
+});
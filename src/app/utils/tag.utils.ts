@@ -0,0 +1,74 @@
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TAGS_PER_RECEIPT = 30;
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Trim a tag typed by the user: drops a leading "#", collapses whitespace and
+ * caps the length. Returns null for an empty tag.
+ */
+export const normalizeTag = (value: string | null | undefined): string | null => {
+  const tag = (value ?? '')
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TAG_LENGTH);
+  return tag || null;
+};
+
+/**
+ * Split "work, travel #client" style input into normalized tags
+ */
+export const parseTagInput = (value: string): string[] =>
+  mergeTags([], value.split(/[,\n]|\s(?=#)/));
+
+/**
+ * Add tags to a list, skipping ones already present in any letter case
+ */
+export const mergeTags = (existing: readonly string[] | undefined, added: readonly string[]): string[] => {
+  const result = [...(existing ?? [])];
+  const seen = new Set(result.map(tag => tag.toLowerCase()));
+
+  for (const value of added) {
+    const tag = normalizeTag(value);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+
+  return result;
+};
+
+export const hasTag = (tags: readonly string[] | undefined, tag: string): boolean => {
+  const target = tag.toLowerCase();
+  return (tags ?? []).some(entry => entry.toLowerCase() === target);
+};
+
+/**
+ * Every tag used across the receipts, most used first. Tags that only differ
+ * in case are counted together under the most common spelling.
+ */
+export const collectTags = (receipts: readonly { tags?: string[] }[]): TagCount[] => {
+  const groups = new Map<string, { count: number; spellings: Map<string, number> }>();
+
+  for (const receipt of receipts) {
+    for (const tag of receipt.tags ?? []) {
+      const key = tag.toLowerCase();
+      const group = groups.get(key) ?? { count: 0, spellings: new Map<string, number>() };
+      group.count += 1;
+      group.spellings.set(tag, (group.spellings.get(tag) ?? 0) + 1);
+      groups.set(key, group);
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({
+      tag: Array.from(group.spellings.entries()).sort((a, b) => b[1] - a[1])[0][0],
+      count: group.count
+    }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
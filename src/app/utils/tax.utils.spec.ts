@@ -0,0 +1,40 @@
+import { TaxReportRow, isTaxRelevant, resolveTaxCategoryId, summarizeByTaxCategory } from './tax.utils';
+
+const row = (overrides: Partial<TaxReportRow>): TaxReportRow => ({
+  receiptId: 'r1',
+  date: '2026-03-01',
+  merchant: 'Merchant',
+  amount: 10,
+  taxCategoryId: 'supplies',
+  deductible: true,
+  business: true,
+  ...overrides
+});
+
+describe('tax utils', () => {
+  it('prefers the receipt tax category over the spending category default', () => {
+    expect(resolveTaxCategoryId({ category: { id: 'restaurants' } })).toBe('meals');
+    expect(resolveTaxCategoryId({
+      category: { id: 'restaurants' },
+      tax: { deductible: true, business: true, taxCategoryId: 'travel' }
+    })).toBe('travel');
+    expect(resolveTaxCategoryId({ category: { id: 'groceries' } })).toBe('other_expenses');
+  });
+
+  it('only includes receipts flagged deductible or business', () => {
+    expect(isTaxRelevant({})).toBeFalse();
+    expect(isTaxRelevant({ tax: { deductible: false, business: true, taxCategoryId: null } })).toBeTrue();
+  });
+
+  it('totals per category in line order and halves deductible meals', () => {
+    const totals = summarizeByTaxCategory([
+      row({ taxCategoryId: 'meals', amount: 40 }),
+      row({ taxCategoryId: 'supplies', amount: 25.5 }),
+      row({ taxCategoryId: 'supplies', amount: 10, deductible: false })
+    ]);
+
+    expect(totals.map(entry => entry.category.id)).toEqual(['supplies', 'meals']);
+    expect(totals[0]).toEqual(jasmine.objectContaining({ total: 35.5, deductibleTotal: 25.5, receiptCount: 2 }));
+    expect(totals[1].deductibleTotal).toBe(20);
+  });
+});
@@ -0,0 +1,114 @@
+import { ReceiptTaxInfo } from '../models/receipt.model';
+
+/**
+ * A tax category a receipt can be filed under. Lines follow IRS Schedule C
+ * (Profit or Loss From Business); `deductibleRate` is the share of the amount
+ * that can be deducted (business meals are 50%).
+ */
+export interface TaxCategory {
+  id: string;
+  label: string;
+  line: string;
+  deductibleRate: number;
+}
+
+export const TAX_CATEGORIES: TaxCategory[] = [
+  { id: 'advertising', label: 'Advertising', line: '8', deductibleRate: 1 },
+  { id: 'car_truck', label: 'Car and truck expenses', line: '9', deductibleRate: 1 },
+  { id: 'commissions_fees', label: 'Commissions and fees', line: '10', deductibleRate: 1 },
+  { id: 'contract_labor', label: 'Contract labor', line: '11', deductibleRate: 1 },
+  { id: 'insurance', label: 'Insurance (other than health)', line: '15', deductibleRate: 1 },
+  { id: 'legal_professional', label: 'Legal and professional services', line: '17', deductibleRate: 1 },
+  { id: 'office_expense', label: 'Office expense', line: '18', deductibleRate: 1 },
+  { id: 'rent_lease', label: 'Rent or lease', line: '20', deductibleRate: 1 },
+  { id: 'repairs_maintenance', label: 'Repairs and maintenance', line: '21', deductibleRate: 1 },
+  { id: 'supplies', label: 'Supplies', line: '22', deductibleRate: 1 },
+  { id: 'taxes_licenses', label: 'Taxes and licenses', line: '23', deductibleRate: 1 },
+  { id: 'travel', label: 'Travel', line: '24a', deductibleRate: 1 },
+  { id: 'meals', label: 'Deductible meals', line: '24b', deductibleRate: 0.5 },
+  { id: 'utilities', label: 'Utilities', line: '25', deductibleRate: 1 },
+  { id: 'other_expenses', label: 'Other expenses', line: '27a', deductibleRate: 1 }
+];
+
+export const DEFAULT_TAX_CATEGORY_ID = 'other_expenses';
+
+/**
+ * Tax category used for a spending category when the receipt doesn't set one
+ */
+const TAX_CATEGORY_BY_SPENDING_CATEGORY: Record<string, string> = {
+  restaurants: 'meals',
+  transportation: 'car_truck',
+  gas_fuel: 'car_truck',
+  subscriptions: 'office_expense',
+  utilities: 'utilities',
+  travel: 'travel',
+  shopping: 'supplies',
+  home_garden: 'repairs_maintenance'
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function getTaxCategory(taxCategoryId: string | null | undefined): TaxCategory {
+  return TAX_CATEGORIES.find(category => category.id === taxCategoryId)
+    ?? TAX_CATEGORIES.find(category => category.id === DEFAULT_TAX_CATEGORY_ID)!;
+}
+
+/**
+ * The receipt's own tax category, or the default for its spending category
+ */
+export function resolveTaxCategoryId(receipt: { tax?: ReceiptTaxInfo; category?: { id: string } }): string {
+  const explicit = receipt.tax?.taxCategoryId;
+  if (explicit && TAX_CATEGORIES.some(category => category.id === explicit)) {
+    return explicit;
+  }
+  return TAX_CATEGORY_BY_SPENDING_CATEGORY[receipt.category?.id ?? ''] ?? DEFAULT_TAX_CATEGORY_ID;
+}
+
+/**
+ * Whether a receipt belongs in the tax report
+ */
+export function isTaxRelevant(receipt: { tax?: ReceiptTaxInfo }): boolean {
+  return !!receipt.tax?.deductible || !!receipt.tax?.business;
+}
+
+export interface TaxReportRow {
+  receiptId: string;
+  date: string;
+  merchant: string;
+  amount: number;
+  taxCategoryId: string;
+  deductible: boolean;
+  business: boolean;
+}
+
+export interface TaxCategoryTotal {
+  category: TaxCategory;
+  total: number;
+  deductibleTotal: number;
+  receiptCount: number;
+}
+
+/**
+ * Totals per tax category in Schedule C line order. Only receipts marked
+ * deductible count towards deductibleTotal, at the category's rate.
+ */
+export function summarizeByTaxCategory(rows: TaxReportRow[]): TaxCategoryTotal[] {
+  const totals = new Map<string, TaxCategoryTotal>();
+  for (const row of rows) {
+    const category = getTaxCategory(row.taxCategoryId);
+    const entry = totals.get(category.id) ?? { category, total: 0, deductibleTotal: 0, receiptCount: 0 };
+    entry.total += row.amount;
+    if (row.deductible) {
+      entry.deductibleTotal += row.amount * category.deductibleRate;
+    }
+    entry.receiptCount += 1;
+    totals.set(category.id, entry);
+  }
+
+  return TAX_CATEGORIES
+    .filter(category => totals.has(category.id))
+    .map(category => {
+      const entry = totals.get(category.id)!;
+      return { ...entry, total: roundCurrency(entry.total), deductibleTotal: roundCurrency(entry.deductibleTotal) };
+    });
+}
@@ -0,0 +1,56 @@
+import {
+  UploadQueueItem,
+  createUploadQueueItems,
+  pickNextUploads,
+  summarizeUploadQueue,
+  withReceiptStatuses
+} from './upload-queue.utils';
+
+function file(name: string, size = 10): File {
+  return new File([new Uint8Array(size)], name, { type: 'image/jpeg', lastModified: 1 });
+}
+
+describe('upload queue utils', () => {
+  it('skips hidden files and files already queued', () => {
+    const first = createUploadQueueItems([{ file: file('a.jpg'), path: 'scans/a.jpg' }]);
+    const next = createUploadQueueItems([
+      { file: file('a.jpg'), path: 'scans/a.jpg' },
+      { file: file('.DS_Store'), path: 'scans/.DS_Store' },
+      { file: file('b.jpg') }
+    ], first);
+
+    expect(first.length).toBe(1);
+    expect(next.map(item => item.path)).toEqual(['b.jpg']);
+    expect(next[0].status).toBe('queued');
+  });
+
+  it('respects the concurrency limit', () => {
+    const items = createUploadQueueItems(['a', 'b', 'c', 'd'].map(name => ({ file: file(`${name}.jpg`) })));
+    items[0] = { ...items[0], status: 'uploading' };
+    items[1] = { ...items[1], status: 'converting' };
+
+    expect(pickNextUploads(items, 3).map(item => item.path)).toEqual(['c.jpg']);
+    expect(pickNextUploads(items, 2)).toEqual([]);
+  });
+
+  it('follows the receipt status after upload and summarizes', () => {
+    const [uploaded, failed, queued]: UploadQueueItem[] = createUploadQueueItems(
+      ['a', 'b', 'c'].map(name => ({ file: file(`${name}.jpg`) }))
+    );
+    const items = withReceiptStatuses([
+      { ...uploaded, status: 'uploaded', receiptId: 'r1' },
+      { ...failed, status: 'failed', receiptId: null },
+      queued
+    ], [{ id: 'r1', status: 'needs_review' }]);
+
+    expect(items[0].status).toBe('needs_review');
+    expect(summarizeUploadQueue(items)).toEqual({
+      total: 3,
+      pending: 1,
+      processing: 0,
+      done: 0,
+      needsReview: 1,
+      failed: 1
+    });
+  });
+});
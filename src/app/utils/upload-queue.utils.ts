@@ -0,0 +1,167 @@
+import { Receipt, ReceiptStatus } from '../models/receipt.model';
+
+/**
+ * Lifecycle of a file in the bulk upload queue. Once the file is stored the
+ * item follows the receipt's own status as processReceipt updates it.
+ */
+export type UploadQueueStatus =
+  | 'queued'
+  | 'converting'
+  | 'uploading'
+  | 'rejected'
+  | 'failed'
+  | ReceiptStatus;
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  // Path inside a picked or dropped folder, or just the file name
+  path: string;
+  status: UploadQueueStatus;
+  progress: number; // 0-100
+  error: string | null;
+  receiptId: string | null;
+  attempts: number;
+  previewUrl: string | null;
+}
+
+export interface UploadQueueSource {
+  file: File;
+  path?: string;
+}
+
+export interface UploadQueueSummary {
+  total: number;
+  pending: number;
+  processing: number;
+  done: number;
+  needsReview: number;
+  failed: number;
+}
+
+/**
+ * Number of files uploaded in parallel
+ */
+export const UPLOAD_CONCURRENCY = 3;
+
+const PENDING_STATUSES: UploadQueueStatus[] = ['queued', 'converting', 'uploading'];
+const ACTIVE_STATUSES: UploadQueueStatus[] = ['converting', 'uploading'];
+
+let queueItemCounter = 0;
+
+function queueKey(file: File, path: string): string {
+  return `${path}|${file.size}|${file.lastModified}`;
+}
+
+/**
+ * Skip dotfiles and OS metadata that come along when a whole folder is dropped
+ */
+function isHiddenPath(path: string): boolean {
+  return path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+}
+
+export function isUploadPending(status: UploadQueueStatus): boolean {
+  return PENDING_STATUSES.includes(status);
+}
+
+/**
+ * Build queue items for new files, ignoring hidden files and files that are
+ * already in the queue (same path, size and modified time).
+ */
+export function createUploadQueueItems(
+  sources: UploadQueueSource[],
+  existing: UploadQueueItem[] = []
+): UploadQueueItem[] {
+  const seen = new Set(existing.map(item => queueKey(item.file, item.path)));
+  const items: UploadQueueItem[] = [];
+
+  for (const source of sources) {
+    const path = (source.path || source.file.name).replace(/^\/+/, '');
+    const key = queueKey(source.file, path);
+    if (isHiddenPath(path) || seen.has(key)) continue;
+    seen.add(key);
+
+    items.push({
+      id: `upload-${++queueItemCounter}`,
+      file: source.file,
+      path,
+      status: 'queued',
+      progress: 0,
+      error: null,
+      receiptId: null,
+      attempts: 0,
+      previewUrl: null
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Queued items that can start now without going over the concurrency limit
+ */
+export function pickNextUploads(
+  items: UploadQueueItem[],
+  concurrency = UPLOAD_CONCURRENCY
+): UploadQueueItem[] {
+  const active = items.filter(item => ACTIVE_STATUSES.includes(item.status)).length;
+  const slots = Math.max(0, concurrency - active);
+  if (!slots) return [];
+  return items.filter(item => item.status === 'queued').slice(0, slots);
+}
+
+/**
+ * Overlay the live receipt status on items that finished uploading
+ */
+export function withReceiptStatuses(
+  items: UploadQueueItem[],
+  receipts: Pick<Receipt, 'id' | 'status'>[]
+): UploadQueueItem[] {
+  const statusById = new Map(receipts.map(receipt => [receipt.id, receipt.status]));
+
+  return items.map(item => {
+    if (!item.receiptId || isUploadPending(item.status) || item.status === 'failed') {
+      return item;
+    }
+    const status = statusById.get(item.receiptId);
+    return status && status !== item.status ? { ...item, status } : item;
+  });
+}
+
+export function summarizeUploadQueue(items: UploadQueueItem[]): UploadQueueSummary {
+  const summary: UploadQueueSummary = {
+    total: items.length,
+    pending: 0,
+    processing: 0,
+    done: 0,
+    needsReview: 0,
+    failed: 0
+  };
+
+  for (const item of items) {
+    switch (item.status) {
+      case 'queued':
+      case 'converting':
+      case 'uploading':
+        summary.pending++;
+        break;
+      case 'uploaded':
+      case 'processing':
+        summary.processing++;
+        break;
+      case 'extracted':
+      case 'final':
+        summary.done++;
+        break;
+      case 'needs_review':
+        summary.needsReview++;
+        break;
+      case 'rejected':
+      case 'failed':
+        summary.failed++;
+        break;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,30 @@
+import { WorkspaceMembership } from '../models/workspace.model';
+import { buildWorkspaceOptions, canEditWithRole, getOwnWorkspaceName } from './workspace.utils';
+
+describe('workspace utils', () => {
+  it('lets owners and editors change data', () => {
+    expect(canEditWithRole('owner')).toBeTrue();
+    expect(canEditWithRole('editor')).toBeTrue();
+    expect(canEditWithRole('viewer')).toBeFalse();
+    expect(canEditWithRole(null)).toBeFalse();
+  });
+
+  it('names the own workspace after the user unless renamed', () => {
+    expect(getOwnWorkspaceName({ firstName: 'Sam' })).toBe("Sam's receipts");
+    expect(getOwnWorkspaceName({ firstName: 'Sam', workspaceName: ' Household ' })).toBe('Household');
+    expect(getOwnWorkspaceName({})).toBe('My receipts');
+  });
+
+  it('lists the own workspace first and shared ones by name', () => {
+    const memberships: WorkspaceMembership[] = [
+      { workspaceId: 'b', name: 'Studio', ownerName: 'Ana', role: 'viewer' },
+      { workspaceId: 'c', name: 'Home', ownerName: 'Lee', role: 'editor' }
+    ];
+
+    const options = buildWorkspaceOptions({ id: 'a', name: "Sam's receipts", ownerName: 'Sam' }, memberships);
+
+    expect(options.map(option => option.id)).toEqual(['a', 'c', 'b']);
+    expect(options[0].role).toBe('owner');
+    expect(options[2].role).toBe('viewer');
+  });
+});
@@ -0,0 +1,43 @@
+import { WorkspaceMembership, WorkspaceOption, WorkspaceRole } from '../models/workspace.model';
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+export const MAX_WORKSPACE_NAME_LENGTH = 60;
+
+export function canEditWithRole(role: WorkspaceRole | null | undefined): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+/**
+ * Name of the user's own workspace, e.g. "Sam's receipts"
+ */
+export function getOwnWorkspaceName(profile: { firstName?: string; workspaceName?: string }): string {
+  const custom = profile.workspaceName?.trim();
+  if (custom) return custom.slice(0, MAX_WORKSPACE_NAME_LENGTH);
+  const firstName = profile.firstName?.trim();
+  return firstName ? `${firstName}'s receipts` : 'My receipts';
+}
+
+/**
+ * The user's own workspace first, then shared ones by name
+ */
+export function buildWorkspaceOptions(
+  own: { id: string; name: string; ownerName: string },
+  memberships: WorkspaceMembership[]
+): WorkspaceOption[] {
+  const shared = memberships
+    .filter(membership => membership.workspaceId !== own.id)
+    .map(membership => ({
+      id: membership.workspaceId,
+      name: membership.name,
+      role: membership.role,
+      ownerName: membership.ownerName
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return [{ ...own, role: 'owner' }, ...shared];
+}